@@ -15,6 +15,10 @@ import EnhancedOnboarding from './components/onboarding/EnhancedOnboarding';
 import Layout from './components/ui/Layout';
 import ImprovedOnboardingModal from './components/onboarding/ImprovedOnboardingModal';
 import OnboardingDemo from './components/demo/OnboardingDemo';
+import EmergencyCardReader from './components/emergency/EmergencyCardReader';
+import SharedRecordViewer from './components/records/SharedRecordViewer';
+import DependentRecords from './components/caregiver/DependentRecords';
+import AccessLogsPage from './pages/AccessLogsPage';
 import LoadingSpinner from './components/ui/LoadingSpinner';
 import { ToastProvider } from './hooks/useToast';
 import { UserRoleValue } from './types';
@@ -341,6 +345,26 @@ function App(): JSX.Element {
                 ) : <Navigate to="/" replace />
               } 
             />
+            <Route 
+              path="/caregiving" 
+              element={
+                isAuthenticated ? (
+                  <Layout>
+                    <DependentRecords />
+                  </Layout>
+                ) : <Navigate to="/" replace />
+              } 
+            />
+            <Route 
+              path="/access-logs/:recordId?" 
+              element={
+                isAuthenticated ? (
+                  <Layout>
+                    <AccessLogsPage />
+                  </Layout>
+                ) : <Navigate to="/" replace />
+              } 
+            />
             <Route 
               path="/onboarding" 
               element={<EnhancedOnboarding />} 
@@ -349,6 +373,14 @@ function App(): JSX.Element {
               path="/demo" 
               element={<OnboardingDemo />} 
             />
+            <Route 
+              path="/emergency-card" 
+              element={<EmergencyCardReader />} 
+            />
+            <Route 
+              path="/shared-record" 
+              element={<SharedRecordViewer />} 
+            />
             <Route 
               path="*" 
               element={<Navigate to="/" replace />} 
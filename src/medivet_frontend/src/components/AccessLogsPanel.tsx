@@ -1,10 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import useProfileStore from '../stores/useProfileStore';
+import { ACCESS_ACTION_LABELS } from '../stores/useAccessLogStore';
+import { AccessLog } from '../types';
 import { Loader, AlertCircle, FileText } from 'lucide-react';
 
 export default function AccessLogsPanel() {
   const getUserAccessLogs = useProfileStore((s) => s.getUserAccessLogs);
-  const [logs, setLogs] = useState<any[]>([]);
+  const [logs, setLogs] = useState<AccessLog[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -47,22 +49,16 @@ export default function AccessLogsPanel() {
                 <th className="px-3 py-2 text-left">Time</th>
                 <th className="px-3 py-2 text-left">Action</th>
                 <th className="px-3 py-2 text-left">Record ID</th>
-                <th className="px-3 py-2 text-left">Success</th>
+                <th className="px-3 py-2 text-left">Paid</th>
               </tr>
             </thead>
             <tbody>
-              {logs.map((log, i) => (
-                <tr key={i} className="border-b last:border-0">
-                  <td className="px-3 py-2">{new Date(Number(log.timestamp) / 1_000_000).toLocaleString()}</td>
-                  <td className="px-3 py-2">{log.action}</td>
-                  <td className="px-3 py-2">{log.record_id}</td>
-                  <td className="px-3 py-2">
-                    {log.success ? (
-                      <span className="text-green-600 font-semibold">Yes</span>
-                    ) : (
-                      <span className="text-red-600">No</span>
-                    )}
-                  </td>
+              {logs.map((log) => (
+                <tr key={log.id} className="border-b last:border-0">
+                  <td className="px-3 py-2">{new Date(log.access_time / 1_000_000).toLocaleString()}</td>
+                  <td className="px-3 py-2">{ACCESS_ACTION_LABELS[log.action] ?? log.action}</td>
+                  <td className="px-3 py-2">{log.record_id ?? '—'}</td>
+                  <td className="px-3 py-2">{log.paid_amount > 0 ? `${log.paid_amount} MT` : '—'}</td>
                 </tr>
               ))}
             </tbody>
@@ -37,6 +37,9 @@ const MyListings: React.FC = () => {
     }
   }, [principal, fetchRecords, fetchMyListings]);
 
+  // Deactivated listings are kept by the canister for history but no longer shown for sale
+  const activeListings = myListings.filter(listing => listing.isActive);
+
   // Get records that can be monetized
   const monetizableRecords = records.filter(record => {
     // In a real implementation, check the record's monetization status
@@ -45,7 +48,7 @@ const MyListings: React.FC = () => {
 
   // Get records that are not yet listed
   const unlistedRecords = monetizableRecords.filter(record => {
-    return !myListings.some(listing => listing.recordId === record.id);
+    return !activeListings.some(listing => listing.recordId === record.id);
   });
 
   const handleSetPrice = (record: HealthRecord) => {
@@ -166,7 +169,7 @@ const MyListings: React.FC = () => {
             </div>
             <div className="ml-4">
               <p className="text-sm text-gray-600">Active Listings</p>
-              <p className="text-2xl font-bold text-gray-900">{myListings.length}</p>
+              <p className="text-2xl font-bold text-gray-900">{activeListings.length}</p>
             </div>
           </div>
         </div>
@@ -248,7 +251,7 @@ const MyListings: React.FC = () => {
           </div>
         )}
 
-        {!isLoading && myListings.length === 0 && (
+        {!isLoading && activeListings.length === 0 && (
           <div className="text-center py-12 bg-gray-50 rounded-lg">
             <DollarSign className="h-12 w-12 mx-auto mb-4 text-gray-400" />
             <h3 className="text-lg font-semibold text-gray-900 mb-2">No Active Listings</h3>
@@ -259,7 +262,7 @@ const MyListings: React.FC = () => {
         )}
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {myListings.map((listing) => (
+          {activeListings.map((listing) => (
             <div key={listing.id} className="bg-white rounded-lg border shadow-sm">
               <div className="p-6">
                 <div className="flex items-start justify-between mb-3">
@@ -9,6 +9,7 @@ import tokenService, {
   TransferArgs,
   TokenService
 } from '../stores/tokenStore';
+import WalletActivity from './WalletActivity';
 
 interface TokenDashboardProps {
   userPrincipal?: Principal;
@@ -249,6 +250,17 @@ const TokenDashboard: React.FC<TokenDashboardProps> = ({ userPrincipal, isAuthen
             </div>
           )}
 
+          {/* Wallet Activity */}
+          {isAuthenticated && userPrincipal && (
+            <div className="mt-6">
+              <WalletActivity
+                userPrincipal={userPrincipal}
+                decimals={metadata?.decimals || 8}
+                symbol={metadata?.symbol || 'MDT'}
+              />
+            </div>
+          )}
+
           {/* Authentication Notice */}
           {!isAuthenticated && (
             <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4">
@@ -0,0 +1,184 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Principal } from '@dfinity/principal';
+import tokenService, { LedgerTransaction, TokenService } from '../stores/tokenStore';
+
+interface WalletActivityProps {
+  userPrincipal: Principal;
+  decimals?: number;
+  symbol?: string;
+}
+
+const PAGE_SIZE = 20;
+
+const KIND_STYLES: Record<LedgerTransaction['kind'], string> = {
+  transfer: 'bg-blue-100 text-blue-800',
+  mint: 'bg-green-100 text-green-800',
+  burn: 'bg-red-100 text-red-800',
+  approve: 'bg-purple-100 text-purple-800',
+};
+
+const shortPrincipal = (principal: string) =>
+  principal.length > 16 ? `${principal.slice(0, 8)}...${principal.slice(-4)}` : principal;
+
+const WalletActivity: React.FC<WalletActivityProps> = ({ userPrincipal, decimals = 8, symbol = 'MDT' }) => {
+  const [transactions, setTransactions] = useState<LedgerTransaction[]>([]);
+  const [oldestTxId, setOldestTxId] = useState<bigint | null>(null);
+  // Cursor stack: cursors[i] is the `before` value used to load page i (undefined = newest)
+  const [cursors, setCursors] = useState<(bigint | undefined)[]>([undefined]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const me = userPrincipal.toString();
+  const page = cursors.length - 1;
+
+  const loadPage = useCallback(async (before?: bigint) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await tokenService.getAccountTransactions(
+        TokenService.createAccount(userPrincipal),
+        PAGE_SIZE,
+        before
+      );
+      setTransactions(result.transactions);
+      setOldestTxId(result.oldestTxId);
+    } catch (err) {
+      console.error('Error loading wallet activity:', err);
+      setError('Failed to load wallet activity');
+    } finally {
+      setLoading(false);
+    }
+  }, [userPrincipal]);
+
+  useEffect(() => {
+    setCursors([undefined]);
+    loadPage(undefined);
+  }, [loadPage]);
+
+  const lastLoaded = transactions.length > 0 ? transactions[transactions.length - 1].index : null;
+  const hasOlder = lastLoaded !== null && oldestTxId !== null && lastLoaded > oldestTxId;
+
+  const handleOlder = () => {
+    if (lastLoaded === null) return;
+    setCursors(prev => [...prev, lastLoaded]);
+    loadPage(lastLoaded);
+  };
+
+  const handleNewer = () => {
+    const previous = cursors.slice(0, -1);
+    setCursors(previous);
+    loadPage(previous[previous.length - 1]);
+  };
+
+  const handleRefresh = () => {
+    setCursors([undefined]);
+    loadPage(undefined);
+  };
+
+  // Signed balance change for the current user (approvals only cost the fee)
+  const describe = (tx: LedgerTransaction): { counterparty: string; delta: bigint } => {
+    switch (tx.kind) {
+      case 'mint':
+        return { counterparty: 'Minted', delta: tx.amount };
+      case 'burn':
+        return { counterparty: 'Burned', delta: -(tx.amount + tx.fee) };
+      case 'approve':
+        return { counterparty: `Spender ${shortPrincipal(tx.to || '')}`, delta: -tx.fee };
+      case 'transfer':
+      default:
+        if (tx.from === me && tx.to === me) {
+          return { counterparty: 'Self', delta: -tx.fee };
+        }
+        return tx.from === me
+          ? { counterparty: `To ${shortPrincipal(tx.to || '')}`, delta: -(tx.amount + tx.fee) }
+          : { counterparty: `From ${shortPrincipal(tx.from)}`, delta: tx.amount };
+    }
+  };
+
+  const formatDelta = (delta: bigint) => {
+    const sign = delta < BigInt(0) ? '-' : '+';
+    const magnitude = delta < BigInt(0) ? -delta : delta;
+    return `${sign}${TokenService.formatTokenAmount(magnitude, decimals)} ${symbol}`;
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Wallet Activity</h3>
+        <button
+          onClick={handleRefresh}
+          disabled={loading}
+          className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {!loading && transactions.length === 0 && !error ? (
+        <p className="text-sm text-gray-500 py-6 text-center">No ledger activity for this account yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Tx</th>
+                <th className="py-2 pr-4 font-medium">Type</th>
+                <th className="py-2 pr-4 font-medium">Details</th>
+                <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                <th className="py-2 pr-4 font-medium text-right">Balance Change</th>
+                <th className="py-2 font-medium">Date</th>
+              </tr>
+            </thead>
+            <tbody>
+              {transactions.map(tx => {
+                const { counterparty, delta } = describe(tx);
+                return (
+                  <tr key={tx.index.toString()} className="border-b border-gray-100 last:border-b-0">
+                    <td className="py-2 pr-4 font-mono text-xs text-gray-600">#{tx.index.toString()}</td>
+                    <td className="py-2 pr-4">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${KIND_STYLES[tx.kind]}`}>
+                        {tx.kind}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-700">{counterparty}</td>
+                    <td className="py-2 pr-4 text-right text-gray-900">
+                      {TokenService.formatTokenAmount(tx.amount, decimals)} {symbol}
+                    </td>
+                    <td className={`py-2 pr-4 text-right font-medium ${delta < BigInt(0) ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatDelta(delta)}
+                    </td>
+                    <td className="py-2 text-gray-600">
+                      {new Date(Number(tx.timestamp / BigInt(1_000_000))).toLocaleString()}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-4">
+        <button
+          onClick={handleNewer}
+          disabled={loading || page === 0}
+          className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+        >
+          Newer
+        </button>
+        <span className="text-xs text-gray-500">Page {page + 1}</span>
+        <button
+          onClick={handleOlder}
+          disabled={loading || !hasOlder}
+          className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+        >
+          Older
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WalletActivity;
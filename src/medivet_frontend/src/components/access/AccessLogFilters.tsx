@@ -0,0 +1,84 @@
+import React from 'react';
+import { Filter } from 'lucide-react';
+import { AccessAction, AccessLogFilter } from '../../types';
+import { ACCESS_ACTION_LABELS, EMPTY_ACCESS_LOG_FILTER, isAnonymousAccessor } from '../../stores/useAccessLogStore';
+import useUserMappingStore from '../../stores/useUserMappingStore';
+
+interface AccessLogFiltersProps {
+  filter: AccessLogFilter;
+  onChange: (filter: AccessLogFilter) => void;
+  // Who can be picked in the user filter, usually everyone in the entries loaded so far
+  accessors: string[];
+}
+
+const selectClassName = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+// Date inputs work in local days; `to` covers the whole chosen day
+const toDateInput = (ms: number | null) => {
+  if (ms === null) return '';
+  const date = new Date(ms);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const AccessLogFilters: React.FC<AccessLogFiltersProps> = ({ filter, onChange, accessors }) => {
+  const { getDisplayName } = useUserMappingStore();
+
+  const accessorOptions = Array.from(new Set(filter.accessor ? [...accessors, filter.accessor] : accessors));
+  const isFiltered = filter.action !== null || filter.accessor !== null || filter.from_ms !== null || filter.to_ms !== null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Filter className="h-4 w-4 text-gray-500" />
+      <select
+        value={filter.action ?? 'all'}
+        onChange={(e) => onChange({ ...filter, action: e.target.value === 'all' ? null : e.target.value as AccessAction })}
+        className={selectClassName}
+        aria-label="Action"
+      >
+        <option value="all">All Actions</option>
+        {(Object.keys(ACCESS_ACTION_LABELS) as AccessAction[]).map(action => (
+          <option key={action} value={action}>{ACCESS_ACTION_LABELS[action]}</option>
+        ))}
+      </select>
+      <select
+        value={filter.accessor ?? 'all'}
+        onChange={(e) => onChange({ ...filter, accessor: e.target.value === 'all' ? null : e.target.value })}
+        className={selectClassName}
+        aria-label="User"
+      >
+        <option value="all">All Users</option>
+        {accessorOptions.map(accessor => (
+          <option key={accessor} value={accessor}>
+            {isAnonymousAccessor(accessor) ? 'Share link recipients' : getDisplayName(accessor)}
+          </option>
+        ))}
+      </select>
+      <input
+        type="date"
+        value={toDateInput(filter.from_ms)}
+        onChange={(e) => onChange({ ...filter, from_ms: e.target.value ? new Date(`${e.target.value}T00:00:00`).getTime() : null })}
+        className={selectClassName}
+        aria-label="From"
+      />
+      <span className="text-sm text-gray-500">to</span>
+      <input
+        type="date"
+        value={toDateInput(filter.to_ms)}
+        onChange={(e) => onChange({ ...filter, to_ms: e.target.value ? new Date(`${e.target.value}T23:59:59.999`).getTime() : null })}
+        className={selectClassName}
+        aria-label="To"
+      />
+      {isFiltered && (
+        <button
+          type="button"
+          className="text-sm text-blue-600 hover:text-blue-800"
+          onClick={() => onChange(EMPTY_ACCESS_LOG_FILTER)}
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AccessLogFilters;
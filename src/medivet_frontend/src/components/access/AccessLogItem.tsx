@@ -1,35 +1,21 @@
 import React from 'react';
 import { format } from 'date-fns';
-import { Clock, Eye, Plus, Edit, Trash, UserPlus, UserMinus } from 'lucide-react';
+import { Clock, Eye, Plus, Key, KeyRound, UserPlus, UserMinus, ShoppingCart, ShieldAlert, ShieldX, User, List } from 'lucide-react';
+import Badge from '../ui/Badge';
+import { AccessAction, AccessLog } from '../../types';
+import { ACCESS_ACTION_LABELS, DECRYPTION_ACTIONS, isAnonymousAccessor } from '../../stores/useAccessLogStore';
 
-// Define the AccessLog type based on backend
-export type AccessLog = {
-  id: number;
-  record_id: number;
-  user: string;
-  timestamp: bigint;
-  action: string;
-  success: boolean;
-};
-
-// Helper function to format action types
-const formatAction = (action: string): { label: string; icon: React.ReactNode } => {
-  switch (action) {
-    case 'View':
-      return { label: 'Viewed', icon: <Eye className="h-4 w-4" /> };
-    case 'Create':
-      return { label: 'Created', icon: <Plus className="h-4 w-4" /> };
-    case 'Update':
-      return { label: 'Updated', icon: <Edit className="h-4 w-4" /> };
-    case 'Delete':
-      return { label: 'Deleted', icon: <Trash className="h-4 w-4" /> };
-    case 'GrantAccess':
-      return { label: 'Granted Access', icon: <UserPlus className="h-4 w-4" /> };
-    case 'RevokeAccess':
-      return { label: 'Revoked Access', icon: <UserMinus className="h-4 w-4" /> };
-    default:
-      return { label: action, icon: <Clock className="h-4 w-4" /> };
-  }
+const ACTION_ICONS: Record<AccessAction, React.ReactNode> = {
+  View: <Eye className="h-4 w-4" />,
+  KeyIssued: <Key className="h-4 w-4" />,
+  Grant: <UserPlus className="h-4 w-4" />,
+  Revoke: <UserMinus className="h-4 w-4" />,
+  Purchase: <ShoppingCart className="h-4 w-4" />,
+  Emergency: <ShieldAlert className="h-4 w-4" />,
+  ProfileView: <User className="h-4 w-4" />,
+  Create: <Plus className="h-4 w-4" />,
+  KeyDerived: <KeyRound className="h-4 w-4" />,
+  KeyDenied: <ShieldX className="h-4 w-4" />,
 };
 
 // Helper function to format principal ID
@@ -45,7 +31,7 @@ interface AccessLogItemProps {
 
 const AccessLogItem: React.FC<AccessLogItemProps> = ({ log, showRecordId = false }) => {
   // Convert bigint timestamp to Date with proper validation
-  const formatTimestamp = (timestamp: bigint): string => {
+  const formatTimestamp = (timestamp: number): string => {
     try {
       let timestampMs = Number(timestamp);
       
@@ -77,19 +63,27 @@ const AccessLogItem: React.FC<AccessLogItemProps> = ({ log, showRecordId = false
     }
   };
   
-  const formattedDate = formatTimestamp(log.timestamp);
+  const formattedDate = formatTimestamp(log.access_time);
   
-  const { label, icon } = formatAction(log.action);
+  // Patients should be able to tell who could read a record from who only saw it listed
+  const decrypted = DECRYPTION_ACTIONS.includes(log.action);
+  const denied = log.action === 'KeyDenied';
+  const listed = log.action === 'View' && log.record_id === null;
+  const rowClass = denied || log.action === 'Emergency' ? 'bg-red-50' : decrypted ? 'bg-amber-50' : '';
+  const iconClass = denied ? 'bg-red-100 text-red-700' : decrypted ? 'bg-amber-100 text-amber-700' : 'bg-blue-100';
   
   return (
-    <div className={`flex items-center p-3 border-b border-gray-100 ${!log.success ? 'bg-red-50' : ''}`}>
-      <div className="mr-3 bg-blue-100 p-2 rounded-full">
-        {icon}
+    <div className={`flex items-center p-3 border-b border-gray-100 ${rowClass}`}>
+      <div className={`mr-3 p-2 rounded-full ${iconClass}`}>
+        {listed ? <List className="h-4 w-4" /> : ACTION_ICONS[log.action] ?? <Clock className="h-4 w-4" />}
       </div>
       <div className="flex-1">
         <div className="flex justify-between">
-          <p className="text-sm font-medium">
-            {label} {showRecordId && <span className="text-gray-500">Record #{log.record_id}</span>}
+          <p className="text-sm font-medium flex items-center gap-2">
+            {listed ? 'Listed records' : ACCESS_ACTION_LABELS[log.action] ?? log.action}
+            {decrypted && <Badge variant="warning">Decrypted</Badge>}
+            {denied && <Badge variant="destructive">Denied</Badge>}
+            {showRecordId && log.record_id !== null && <span className="text-gray-500">Record #{log.record_id}</span>}
           </p>
           <span className="text-xs text-gray-500 flex items-center">
             <Clock className="h-3 w-3 mr-1" />
@@ -97,12 +91,15 @@ const AccessLogItem: React.FC<AccessLogItemProps> = ({ log, showRecordId = false
           </span>
         </div>
         <p className="text-xs text-gray-500">
-          User: {formatPrincipal(log.user)}
+          {isAnonymousAccessor(log.accessor) ? 'Share link recipient' : `User: ${formatPrincipal(log.accessor)}`}
+          {log.paid_amount > 0 && ` · ${log.paid_amount} MT`}
         </p>
+        {log.reason && (
+          <p className={`text-xs ${denied ? 'text-red-700' : 'text-gray-600'}`}>
+            {denied ? 'Refused: ' : 'Allowed by '}{log.reason}
+          </p>
+        )}
       </div>
-      {!log.success && (
-        <span className="text-xs font-medium text-red-600 ml-2">Failed</span>
-      )}
     </div>
   );
 };
@@ -0,0 +1,66 @@
+import React, { useEffect } from 'react';
+import { ShieldCheck, ShieldAlert, RefreshCw } from 'lucide-react';
+import Badge from '../ui/Badge';
+import Button from '../ui/Button';
+import useAccessLogStore from '../../stores/useAccessLogStore';
+
+// Walks the patient's access log against its certified head when shown
+const AccessLogVerificationBadge: React.FC = () => {
+  const { verification, isVerifying, verifyError, verifyLog } = useAccessLogStore();
+
+  useEffect(() => {
+    verifyLog();
+  }, [verifyLog]);
+
+  const status = isVerifying ? (
+    <Badge variant="secondary">Verifying log...</Badge>
+  ) : verifyError ? (
+    <Badge variant="warning">Could not verify</Badge>
+  ) : verification?.verified ? (
+    <Badge variant="success">
+      <ShieldCheck className="h-3 w-3 mr-1" />
+      Log verified
+    </Badge>
+  ) : verification ? (
+    <Badge variant="destructive">
+      <ShieldAlert className="h-3 w-3 mr-1" />
+      Log tampering detected
+    </Badge>
+  ) : null;
+
+  return (
+    <div className="mb-6 p-4 bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          {status}
+          {verification && !isVerifying && (
+            <span className="text-xs text-gray-500">
+              {verification.chain_length - verification.resumed_from} new entries checked
+              {verification.resumed_from > 0 && ` since the last check (${verification.chain_length} in total)`}
+              {` · ${verification.own_entries} yours · ${new Date(verification.checked_at).toLocaleTimeString()}`}
+            </span>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => verifyLog()} disabled={isVerifying}>
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Verify again
+        </Button>
+      </div>
+      {verifyError && <p className="text-sm text-gray-600 mt-2">{verifyError}</p>}
+      {verification && verification.problems.length > 0 && (
+        <ul className="mt-3 text-sm text-red-700 list-disc list-inside space-y-1">
+          {verification.problems.map(problem => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500 mt-2">
+        Each entry is chained to the one before it and the latest link is certified by the Internet Computer, so
+        entries cannot be edited or removed without this check failing. Entries recorded before the log was chained
+        are shown but not covered.
+      </p>
+    </div>
+  );
+};
+
+export default AccessLogVerificationBadge;
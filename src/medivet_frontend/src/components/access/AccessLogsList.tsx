@@ -1,8 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Loader2 } from 'lucide-react';
-import AccessLogItem, { AccessLog } from './AccessLogItem';
-import { createAuthenticatedActor } from '../../services/actorService';
+import AccessLogItem from './AccessLogItem';
+import AccessLogFilters from './AccessLogFilters';
 import useAuthStore from '../../stores/useAuthStore';
+import useHealthRecordStore from '../../stores/useHealthRecordStore';
+import useProfileStore from '../../stores/useProfileStore';
+import useAccessLogStore, { EMPTY_ACCESS_LOG_FILTER, matchesAccessLogFilter } from '../../stores/useAccessLogStore';
+import { AccessLog, AccessLogFilter, UserRoleValue } from '../../types';
 
 interface AccessLogsListProps {
   recordId?: number; // Optional: if provided, shows logs for a specific record
@@ -10,68 +14,36 @@ interface AccessLogsListProps {
 }
 
 const AccessLogsList: React.FC<AccessLogsListProps> = ({ recordId, maxItems = 10 }) => {
+  const { userRole } = useAuthStore();
+  // A patient's own log is filtered and paged by the backend; record and provider logs are loaded whole
+  const paged = recordId === undefined && userRole === UserRoleValue.Patient;
+
+  const patientLog = useAccessLogStore();
   const [logs, setLogs] = useState<AccessLog[]>([]);
+  const [filter, setFilter] = useState<AccessLogFilter>(EMPTY_ACCESS_LOG_FILTER);
+  const [visibleCount, setVisibleCount] = useState(maxItems);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-  const { identity } = useAuthStore();
 
   const fetchAccessLogs = useCallback(async () => {
-    const { identity } = useAuthStore.getState();
-    if (!identity) {
+    if (!useAuthStore.getState().identity) {
       setError('Authentication required');
       setLoading(false);
       return;
     }
 
+    if (paged) {
+      await useAccessLogStore.getState().fetchMyAccessLog();
+      setLoading(false);
+      return;
+    }
+
     try {
       setLoading(true);
-      // Create authenticated actor and cast it to include our expected methods
-      const actor = createAuthenticatedActor(identity) as any;
-      
-      let fetchedLogs: AccessLog[];
-      if (recordId !== undefined) {
-        // Fetch logs for a specific record
-        try {
-          // Call backend API to get record access logs
-          if (typeof actor.get_record_access_logs === 'function') {
-            fetchedLogs = await actor.get_record_access_logs(BigInt(recordId));
-          } else {
-            console.warn('Backend method get_record_access_logs is not available');
-            fetchedLogs = [];
-          }
-        } catch (err) {
-          console.error('Failed to fetch record access logs:', err);
-          setError('Failed to load record access logs. Please try again.');
-          fetchedLogs = [];
-        }
-      } else {
-        // Fetch logs for the current user
-        // Call backend API to get user access logs
-        try {
-          if (typeof actor.get_user_access_logs === 'function') {
-            fetchedLogs = await actor.get_user_access_logs();
-          } else {
-            console.warn('Backend method get_user_access_logs is not available');
-            fetchedLogs = [];
-          }
-        } catch (err) {
-          console.error('Failed to fetch user access logs:', err);
-          setError('Failed to load user access logs. Please try again.');
-          fetchedLogs = [];
-        }
-      }
-
-      // Sort logs by timestamp (newest first)
-      const sortedLogs = fetchedLogs.sort((a, b) => {
-        const timeA = Number(a.timestamp);
-        const timeB = Number(b.timestamp);
-        return timeB - timeA;
-      });
-
-      // Apply maxItems limit if specified
-      const finalLogs = maxItems ? sortedLogs.slice(0, maxItems) : sortedLogs;
-      
-      setLogs(finalLogs);
+      const fetchedLogs = recordId !== undefined
+        ? await useHealthRecordStore.getState().getRecordAccessLogs(recordId)
+        : await useProfileStore.getState().getUserAccessLogs();
+      setLogs(fetchedLogs);
       setError(null);
     } catch (error: any) {
       console.error('Error fetching access logs:', error);
@@ -79,7 +51,7 @@ const AccessLogsList: React.FC<AccessLogsListProps> = ({ recordId, maxItems = 10
     } finally {
       setLoading(false);
     }
-  }, [recordId, maxItems]);
+  }, [recordId, paged]);
 
   useEffect(() => {
     fetchAccessLogs();
@@ -96,53 +68,65 @@ const AccessLogsList: React.FC<AccessLogsListProps> = ({ recordId, maxItems = 10
     return () => window.removeEventListener('refreshAccessLogs', handleRefresh);
   }, [fetchAccessLogs]);
 
-  if (loading) {
-    return (
-      <div className="flex justify-center items-center p-8">
-        <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
-      </div>
-    );
-  }
+  const changeFilter = (next: AccessLogFilter) => {
+    if (paged) {
+      patientLog.fetchMyAccessLog(next);
+    } else {
+      setFilter(next);
+      setVisibleCount(maxItems);
+    }
+  };
 
-  if (error) {
-    return (
-      <div className="p-4 text-center text-red-500">
-        <p>{error}</p>
-      </div>
-    );
-  }
+  const activeFilter = paged ? patientLog.filter : filter;
+  const matching = paged ? patientLog.entries : logs.filter(log => matchesAccessLogFilter(log, filter));
+  const shown = paged ? matching : matching.slice(0, visibleCount);
+  const hasMore = paged ? patientLog.entries.length < patientLog.total : matching.length > visibleCount;
+  const accessors = Array.from(new Set((paged ? patientLog.entries : logs).map(log => log.accessor)));
+  const listError = paged ? patientLog.error : error;
 
-  if (logs.length === 0) {
+  if (loading || (paged && patientLog.isLoading && patientLog.entries.length === 0)) {
     return (
-      <div className="p-4 text-center text-gray-500">
-        <p>No access logs found.</p>
+      <div className="flex justify-center items-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
       </div>
     );
   }
 
   return (
     <div className="bg-white rounded-lg shadow overflow-hidden">
-      <div className="p-4 bg-gray-50 border-b border-gray-200">
+      <div className="p-4 bg-gray-50 border-b border-gray-200 space-y-3">
         <h3 className="text-lg font-medium">
           {recordId !== undefined ? `Access Logs for Record #${recordId}` : 'Your Access Logs'}
         </h3>
+        <AccessLogFilters filter={activeFilter} onChange={changeFilter} accessors={accessors} />
       </div>
-      <div className="divide-y divide-gray-100">
-        {logs.map((log) => (
-          <AccessLogItem 
-            key={log.id} 
-            log={log} 
-            showRecordId={recordId === undefined}
-          />
-        ))}
-      </div>
-      {logs.length >= maxItems && (
+      {listError ? (
+        <div className="p-4 text-center text-red-500">
+          <p>{listError}</p>
+        </div>
+      ) : shown.length === 0 ? (
+        <div className="p-4 text-center text-gray-500">
+          <p>No access logs found.</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {shown.map((log) => (
+            <AccessLogItem
+              key={log.id}
+              log={log}
+              showRecordId={recordId === undefined}
+            />
+          ))}
+        </div>
+      )}
+      {hasMore && !listError && (
         <div className="p-3 text-center">
-          <button 
-            className="text-sm text-blue-600 hover:text-blue-800"
-            onClick={() => {/* Implement view more functionality */}}
+          <button
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+            disabled={paged && patientLog.isLoading}
+            onClick={() => paged ? patientLog.loadMore() : setVisibleCount(count => count + maxItems)}
           >
-            View more
+            {paged && patientLog.isLoading ? 'Loading...' : 'View more'}
           </button>
         </div>
       )}
@@ -0,0 +1,120 @@
+import React, { useEffect } from 'react';
+import { ShieldAlert, CheckCircle } from 'lucide-react';
+import Badge from '../ui/Badge';
+import Button from '../ui/Button';
+import useEmergencyAccessStore from '../../stores/useEmergencyAccessStore';
+import useUserMappingStore from '../../stores/useUserMappingStore';
+import { EmergencyAccessEvent } from '../../types';
+import { PERMISSION_LABELS } from '../../utils/permissions';
+import { useToast } from '../../hooks/useToast';
+
+interface EmergencyAccessAlertsProps {
+  // Patients review events; providers only see their own break-glass history
+  canReview: boolean;
+}
+
+const NS_PER_MS = 1_000_000;
+
+const formatNs = (ns: number) => new Date(ns / NS_PER_MS).toLocaleString();
+
+const EmergencyAccessAlerts: React.FC<EmergencyAccessAlertsProps> = ({ canReview }) => {
+  const { events, fetchEvents, reviewEvent, isLoading } = useEmergencyAccessStore();
+  const { getDisplayName } = useUserMappingStore();
+  const { showSuccess, showError } = useToast();
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  if (events.length === 0) return null;
+
+  const unreviewed = events.filter(event => event.reviewed_at === null);
+
+  const handleReview = async (event: EmergencyAccessEvent, revoke: boolean) => {
+    try {
+      await reviewEvent(event.id, revoke);
+      showSuccess(revoke ? 'Emergency access revoked' : 'Marked as reviewed');
+    } catch (err: any) {
+      showError('Review failed', err.message);
+    }
+  };
+
+  const statusBadge = (event: EmergencyAccessEvent) => {
+    if (event.revoked) return <Badge variant="secondary">Revoked</Badge>;
+    if (event.active) return <Badge variant="destructive">Active</Badge>;
+    return <Badge variant="secondary">Expired</Badge>;
+  };
+
+  return (
+    <div className="mb-6 border-2 border-red-300 bg-red-50 rounded-lg p-5">
+      <h2 className="text-lg font-semibold text-red-800 flex items-center">
+        <ShieldAlert className="h-5 w-5 mr-2" />
+        Emergency Access Events
+        {canReview && unreviewed.length > 0 && (
+          <Badge variant="destructive" className="ml-2">{unreviewed.length} to review</Badge>
+        )}
+      </h2>
+      <p className="text-sm text-red-700 mt-1 mb-4">
+        {canReview
+          ? 'A provider used break-glass access to read your emergency profile without prior consent. Review each event below.'
+          : 'Break-glass access you have used. Patients review every event.'}
+      </p>
+
+      <div className="space-y-3">
+        {events.map(event => (
+          <div key={event.id} className="bg-white border border-red-200 rounded-md p-4">
+            <div className="flex justify-between items-start gap-4">
+              <div className="space-y-1 text-sm">
+                <p className="font-medium text-gray-900">
+                  <span title={canReview ? event.provider : event.patient}>
+                    {getDisplayName(canReview ? event.provider : event.patient)}
+                  </span>
+                  {' '}• {event.severity} severity
+                </p>
+                <p className="text-gray-700">“{event.justification}”</p>
+                <p className="text-xs text-gray-500">
+                  {formatNs(event.granted_at)} → {formatNs(event.expires_at)}
+                </p>
+                <div className="flex flex-wrap gap-1 pt-1">
+                  {event.permissions.map(permission => (
+                    <Badge key={permission} variant="secondary" className="text-xs">
+                      {PERMISSION_LABELS[permission]}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-col items-end space-y-2 shrink-0">
+                {statusBadge(event)}
+                {canReview && event.reviewed_at === null && (
+                  <div className="flex space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => handleReview(event, false)} disabled={isLoading}>
+                      Acknowledge
+                    </Button>
+                    {event.active && (
+                      <Button size="sm" variant="danger" onClick={() => handleReview(event, true)} disabled={isLoading}>
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                )}
+                {canReview && event.reviewed_at !== null && (
+                  <span className="flex items-center text-xs text-green-700">
+                    <CheckCircle className="h-3 w-3 mr-1" />
+                    Reviewed {formatNs(event.reviewed_at)}
+                  </span>
+                )}
+                {canReview && event.reviewed_at !== null && event.active && (
+                  <Button size="sm" variant="danger" onClick={() => handleReview(event, true)} disabled={isLoading}>
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EmergencyAccessAlerts;
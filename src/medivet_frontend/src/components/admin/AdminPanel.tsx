@@ -1,103 +1,98 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import Card from '../ui/Card';
 import Badge from '../ui/Badge';
-import Switch from '../ui/Switch';
 import Button from '../ui/Button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/Tabs';
-import { 
-  Shield, 
-  Users, 
-  FileText, 
-  DollarSign, 
+import {
+  Shield,
+  Users,
+  FileText,
+  DollarSign,
   AlertTriangle,
   CheckCircle,
   Clock,
-  TrendingUp
+  Store
 } from 'lucide-react';
 import ConfirmationDialog from '../ui/ConfirmationDialog';
+import useAdminStore from '../../stores/useAdminStore';
+import useVerificationStore from '../../stores/useVerificationStore';
+import VerificationCaseReview from './VerificationCaseReview';
+import { TokenService } from '../../stores/tokenStore';
+import { useToast } from '../../hooks/useToast';
+import { AdminUser, FlaggedRecord, FlagResolution } from '../../types';
 
-// Mock data for admin panel
-const mockProviders = [
-  {
-    name: 'Dr. James Wilson',
-    license: 'MD12345',
-    specialty: 'Neurology',
-    contact: 'james.wilson@neuro.com',
-    whitelisted: false,
-    reputation: 88,
-    organization: 'Neuro Clinic'
-  },
-  {
-    name: 'Dr. Sarah Kim',
-    license: 'MD67890',
-    specialty: 'Cardiology',
-    contact: 'sarah.kim@heart.com',
-    whitelisted: true,
-    reputation: 95,
-    organization: 'Heart Center'
-  }
-];
+const shortPrincipal = (principal: string) => `${principal.slice(0, 10)}...${principal.slice(-5)}`;
 
-const mockRecords = [
-  {
-    id: 1,
-    title: 'Mental Health Assessment',
-    category: 'Mental Health',
-    status: 'Flagged',
-    createdAt: Date.now() - 86400000 * 2,
-    accessCount: 3
-  },
-  {
-    id: 2,
-    title: 'Diabetes Management Data',
-    category: 'Diabetes Care',
-    status: 'Monetizable',
-    createdAt: Date.now() - 86400000 * 5,
-    accessCount: 12
-  }
-];
+const providerName = (provider: AdminUser) => provider.name ?? shortPrincipal(provider.id);
 
-const mockListings = [
-  {
-    id: 1,
-    status: 'sold',
-    currentHighestBid: 150
-  },
-  {
-    id: 2,
-    status: 'active',
-    currentHighestBid: 200
-  }
-];
+const recordTitle = (record: FlaggedRecord) => record.title || `Record #${record.record_id}`;
 
 const AdminPanel: React.FC = () => {
+  const {
+    providers,
+    flaggedRecords,
+    stats,
+    isLoading,
+    fetchProviders,
+    fetchFlaggedRecords,
+    fetchStats,
+    setProviderWhitelisted,
+    resolveFlag,
+  } = useAdminStore();
+  const { cases, fetchCases } = useVerificationStore();
+  const { showSuccess, showError } = useToast();
   const [activeTab, setActiveTab] = useState('overview');
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [dialogConfig, setDialogConfig] = useState({ 
-    title: '', 
-    description: '', 
+  const [dialogConfig, setDialogConfig] = useState({
+    title: '',
+    description: '',
     onConfirm: () => {},
     variant: 'default' as 'default' | 'destructive'
   });
 
-  const pendingProviders = mockProviders.filter(p => !p.whitelisted);
-  const whitelistedProviders = mockProviders.filter(p => p.whitelisted);
-  const flaggedRecords = mockRecords.filter(r => r.status === 'Flagged');
-  const monetizableRecords = mockRecords.filter(r => r.status === 'Monetizable');
+  useEffect(() => {
+    fetchStats();
+    fetchProviders();
+    fetchFlaggedRecords();
+    fetchCases();
+  }, [fetchStats, fetchProviders, fetchFlaggedRecords, fetchCases]);
 
-  const handleWhitelistProvider = (license: string, whitelisted: boolean) => {
-    console.log(`Provider ${license} ${whitelisted ? 'approved' : 'removed from whitelist'}`);
-    alert(`Provider ${whitelisted ? 'approved' : 'removed from whitelist'}`);
+  const openCases = cases.filter(c => c.status === 'Submitted' || c.status === 'UnderReview');
+  const closedCases = cases.filter(c => c.status !== 'Submitted' && c.status !== 'UnderReview');
+  const whitelistedProviders = providers.filter(p => p.whitelisted);
+
+  const caseProviderName = (principal: string) => {
+    const provider = providers.find(p => p.id === principal);
+    return provider ? providerName(provider) : shortPrincipal(principal);
+  };
+
+  // A decision changes the whitelist and the stats
+  const handleCaseDecided = () => {
+    fetchProviders();
+    fetchStats();
   };
 
-  const handleFlagRecord = (recordId: number, flagged: boolean) => {
-    console.log(`Record ${recordId} ${flagged ? 'flagged' : 'unflagged'}`);
-    alert(`Record ${flagged ? 'flagged' : 'unflagged'}`);
+  const handleWhitelistProvider = async (provider: AdminUser, whitelisted: boolean) => {
+    try {
+      await setProviderWhitelisted(provider.id, whitelisted);
+      showSuccess(whitelisted ? 'Provider approved' : 'Provider removed from whitelist', providerName(provider));
+    } catch (error: any) {
+      showError('Whitelist update failed', error.message);
+    }
+  };
+
+  const handleResolveFlag = async (record: FlaggedRecord, resolution: FlagResolution) => {
+    try {
+      await resolveFlag(record.record_id, resolution);
+      showSuccess(resolution === 'Cleared' ? 'Flag cleared' : 'Record removed', recordTitle(record));
+    } catch (error: any) {
+      showError('Could not resolve flag', error.message);
+    }
   };
 
   const openConfirmationDialog = (
-    title: string, 
-    description: string, 
+    title: string,
+    description: string,
     onConfirm: () => void,
     variant: 'default' | 'destructive' = 'default'
   ) => {
@@ -105,29 +100,20 @@ const AdminPanel: React.FC = () => {
     setDialogOpen(true);
   };
 
-  const handleRejectProvider = (providerName: string) => {
-    openConfirmationDialog(
-      'Reject Provider?',
-      `Are you sure you want to reject ${providerName}? This action cannot be undone.`,
-      () => alert('Provider rejection feature not implemented yet.'),
-      'destructive'
-    );
-  };
-
-  const handleRevokeProvider = (license: string, providerName: string) => {
+  const handleRevokeProvider = (provider: AdminUser) => {
     openConfirmationDialog(
       'Revoke Provider?',
-      `Are you sure you want to revoke access for ${providerName}?`,
-      () => handleWhitelistProvider(license, false),
+      `Are you sure you want to remove ${providerName(provider)} from the whitelist? They lose emergency access until approved again.`,
+      () => handleWhitelistProvider(provider, false),
       'destructive'
     );
   };
 
-  const handleRemoveRecord = (recordId: number, recordTitle: string) => {
+  const handleRemoveRecord = (record: FlaggedRecord) => {
     openConfirmationDialog(
       'Remove Record?',
-      `Are you sure you want to permanently remove the record "${recordTitle}"?`,
-      () => alert('Record removal feature not implemented yet.'),
+      `Are you sure you want to permanently remove "${recordTitle(record)}"? Its listings and share links go with it.`,
+      () => handleResolveFlag(record, 'Removed'),
       'destructive'
     );
   };
@@ -154,8 +140,8 @@ const AdminPanel: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Pending Approvals</p>
-              <div className="text-2xl font-bold text-yellow-600">{pendingProviders.length}</div>
-              <p className="text-xs text-gray-500 mt-1">Providers awaiting verification</p>
+              <div className="text-2xl font-bold text-yellow-600">{openCases.length}</div>
+              <p className="text-xs text-gray-500 mt-1">Verification cases awaiting review</p>
             </div>
             <div className="h-12 w-12 bg-yellow-100 rounded-lg flex items-center justify-center">
               <Clock className="h-6 w-6 text-yellow-600" />
@@ -167,7 +153,7 @@ const AdminPanel: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Verified Providers</p>
-              <div className="text-2xl font-bold text-green-600">{whitelistedProviders.length}</div>
+              <div className="text-2xl font-bold text-green-600">{stats?.whitelisted_providers ?? '—'}</div>
               <p className="text-xs text-gray-500 mt-1">Active verified providers</p>
             </div>
             <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center">
@@ -180,7 +166,7 @@ const AdminPanel: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Flagged Records</p>
-              <div className="text-2xl font-bold text-red-600">{flaggedRecords.length}</div>
+              <div className="text-2xl font-bold text-red-600">{stats?.flagged_records ?? '—'}</div>
               <p className="text-xs text-gray-500 mt-1">Records requiring review</p>
             </div>
             <div className="h-12 w-12 bg-red-100 rounded-lg flex items-center justify-center">
@@ -192,11 +178,11 @@ const AdminPanel: React.FC = () => {
         <Card className="p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">Platform Revenue</p>
+              <p className="text-sm font-medium text-gray-600">Marketplace Volume</p>
               <div className="text-2xl font-bold text-green-600">
-                {mockListings.filter(l => l.status === 'sold').reduce((sum, l) => sum + (l.currentHighestBid || 0), 0)} MT
+                {stats ? `${TokenService.formatTokenAmount(stats.marketplace_volume, 8)} MDT` : '—'}
               </div>
-              <p className="text-xs text-gray-500 mt-1">Total marketplace volume</p>
+              <p className="text-xs text-gray-500 mt-1">Total of all completed purchases</p>
             </div>
             <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center">
               <DollarSign className="h-6 w-6 text-green-600" />
@@ -217,100 +203,91 @@ const AdminPanel: React.FC = () => {
           <div className="grid md:grid-cols-2 gap-6">
             <Card className="p-6">
               <div className="mb-4">
-                <h3 className="text-lg font-semibold text-gray-900">Platform Health</h3>
-                <p className="text-gray-600 text-sm">Key metrics and system status</p>
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                  <Users className="h-5 w-5 mr-2 text-blue-600" />
+                  Users
+                </h3>
+                <p className="text-gray-600 text-sm">Registered accounts by role</p>
               </div>
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <span>System Status</span>
-                  <Badge variant="success">Operational</Badge>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span>Active Users</span>
-                  <span className="font-medium">{mockProviders.length + 1} users</span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span>Data Integrity</span>
-                  <Badge variant="success">100%</Badge>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span>Marketplace Activity</span>
-                  <Badge variant="success">High</Badge>
+              {stats ? (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span>Patients</span>
+                    <span className="font-medium">{stats.patients}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span>Providers</span>
+                    <span className="font-medium">{stats.providers}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span>Admins</span>
+                    <span className="font-medium">{stats.admins}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span>Suspended</span>
+                    <Badge variant={stats.suspended_users > 0 ? 'warning' : 'success'}>{stats.suspended_users}</Badge>
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <p className="text-center text-gray-500 py-8">Loading...</p>
+              )}
             </Card>
 
             <Card className="p-6">
               <div className="mb-4">
-                <h3 className="text-lg font-semibold text-gray-900">Recent Activity</h3>
-                <p className="text-gray-600 text-sm">Latest platform events</p>
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                  <Store className="h-5 w-5 mr-2 text-green-600" />
+                  Records and Marketplace
+                </h3>
+                <p className="text-gray-600 text-sm">Stored data and trading activity</p>
               </div>
-              <div className="space-y-3">
-                <div className="text-sm">
-                  <p className="font-medium">New provider registration</p>
-                  <p className="text-gray-600">Dr. James Wilson - Neurology</p>
-                </div>
-                <div className="text-sm">
-                  <p className="font-medium">Record flagged for review</p>
-                  <p className="text-gray-600">Mental Health Assessment</p>
-                </div>
-                <div className="text-sm">
-                  <p className="font-medium">Marketplace bid accepted</p>
-                  <p className="text-gray-600">150 MT - Diabetes data</p>
-                </div>
-                <div className="text-sm">
-                  <p className="font-medium">Provider whitelist updated</p>
-                  <p className="text-gray-600">Dr. Sarah Kim approved</p>
+              {stats ? (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span>Health records</span>
+                    <span className="font-medium">{stats.total_records}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span>Flagged records</span>
+                    <Badge variant={stats.flagged_records > 0 ? 'destructive' : 'success'}>{stats.flagged_records}</Badge>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span>Active listings</span>
+                    <span className="font-medium">{stats.active_listings}</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span>Completed purchases</span>
+                    <span className="font-medium">{stats.completed_purchases}</span>
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <p className="text-center text-gray-500 py-8">Loading...</p>
+              )}
             </Card>
           </div>
         </TabsContent>
 
         <TabsContent value="providers" className="space-y-6">
-          {/* Pending Providers */}
+          {/* Open Verification Cases */}
           <Card className="p-6">
             <div className="mb-6">
               <h3 className="text-xl font-semibold text-gray-900 flex items-center">
                 <Clock className="h-5 w-5 mr-2 text-yellow-600" />
-                Pending Provider Approvals
+                Pending Provider Verification
               </h3>
-              <p className="text-gray-600 mt-1">Healthcare providers awaiting verification</p>
+              <p className="text-gray-600 mt-1">License documents and claimed specialties awaiting review</p>
             </div>
             <div className="space-y-4">
-              {pendingProviders.length === 0 ? (
-                <p className="text-center text-gray-500 py-8">No pending approvals</p>
+              {openCases.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No pending verification cases</p>
               ) : (
-                pendingProviders.map((provider) => (
-                  <div key={provider.license} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-3">
-                        <h4 className="font-medium">{provider.name}</h4>
-                        <Badge variant="secondary">{provider.specialty}</Badge>
-                      </div>
-                      <div className="text-sm text-gray-600 mt-1">
-                        License: {provider.license} • Reputation: {provider.reputation}%
-                      </div>
-                      <div className="text-sm text-gray-600">
-                        Contact: {provider.contact}
-                      </div>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Button 
-                        variant="danger" 
-                        size="sm"
-                        onClick={() => handleRejectProvider(provider.name)}
-                      >
-                        Reject
-                      </Button>
-                      <Button 
-                        size="sm"
-                        onClick={() => handleWhitelistProvider(provider.license, true)}
-                      >
-                        Approve
-                      </Button>
-                    </div>
-                  </div>
+                openCases.map((verificationCase) => (
+                  <VerificationCaseReview
+                    key={verificationCase.id}
+                    verificationCase={verificationCase}
+                    providerName={caseProviderName(verificationCase.provider)}
+                    onDecided={handleCaseDecided}
+                  />
                 ))
               )}
             </div>
@@ -326,31 +303,60 @@ const AdminPanel: React.FC = () => {
               <p className="text-gray-600 mt-1">Currently approved healthcare providers</p>
             </div>
             <div className="space-y-4">
-              {whitelistedProviders.map((provider) => (
-                <div key={provider.license} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-3">
-                      <h4 className="font-medium">{provider.name}</h4>
-                      <Badge variant="default">{provider.specialty}</Badge>
-                      <Badge variant="success">Verified</Badge>
+              {whitelistedProviders.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No verified providers</p>
+              ) : (
+                whitelistedProviders.map((provider) => (
+                  <div key={provider.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-3">
+                        <h4 className="font-medium">{providerName(provider)}</h4>
+                        {provider.specialty && <Badge variant="default">{provider.specialty}</Badge>}
+                        <Badge variant="success">Verified</Badge>
+                        {provider.suspension && <Badge variant="destructive">Suspended</Badge>}
+                      </div>
+                      <div className="text-sm text-gray-600 mt-1">
+                        License: {provider.license ?? 'not provided'} • Reputation: {provider.reputation}%
+                      </div>
                     </div>
-                    <div className="text-sm text-gray-600 mt-1">
-                      License: {provider.license} • Reputation: {provider.reputation}%
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isLoading}
+                        onClick={() => handleRevokeProvider(provider)}
+                      >
+                        Revoke
+                      </Button>
                     </div>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => handleRevokeProvider(provider.license, provider.name)}
-                    >
-                      Revoke
-                    </Button>
-                  </div>
-                </div>
-              ))}
+                ))
+              )}
             </div>
           </Card>
+
+          {/* Decided Verification Cases */}
+          {closedCases.length > 0 && (
+            <Card className="p-6">
+              <div className="mb-6">
+                <h3 className="text-xl font-semibold text-gray-900 flex items-center">
+                  <FileText className="h-5 w-5 mr-2 text-gray-600" />
+                  Verification History
+                </h3>
+                <p className="text-gray-600 mt-1">Approved, rejected and expired cases</p>
+              </div>
+              <div className="space-y-4">
+                {closedCases.map((verificationCase) => (
+                  <VerificationCaseReview
+                    key={verificationCase.id}
+                    verificationCase={verificationCase}
+                    providerName={caseProviderName(verificationCase.provider)}
+                    onDecided={handleCaseDecided}
+                  />
+                ))}
+              </div>
+            </Card>
+          )}
         </TabsContent>
 
         <TabsContent value="records" className="space-y-6">
@@ -368,28 +374,33 @@ const AdminPanel: React.FC = () => {
                 <p className="text-center text-gray-500 py-8">No flagged records</p>
               ) : (
                 flaggedRecords.map((record) => (
-                  <div key={record.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
+                  <div key={record.record_id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
                     <div className="flex-1">
                       <div className="flex items-center space-x-3">
-                        <h4 className="font-medium">{record.title}</h4>
+                        <FileText className="h-4 w-4 text-gray-400" />
+                        <h4 className="font-medium">{recordTitle(record)}</h4>
                         <Badge variant="destructive">Flagged</Badge>
                       </div>
                       <div className="text-sm text-gray-600 mt-1">
-                        Category: {record.category} • Created: {new Date(record.createdAt).toLocaleDateString()}
+                        Category: {record.category} • Created: {new Date(record.created_at / 1_000_000).toLocaleDateString()}
+                        {record.flagged_at !== null && ` • Flagged: ${new Date(record.flagged_at / 1_000_000).toLocaleDateString()}`}
                       </div>
+                      <div className="text-xs text-gray-500 font-mono">Owner: {shortPrincipal(record.owner)}</div>
                     </div>
                     <div className="flex items-center space-x-2">
-                      <Button 
-                        variant="outline" 
+                      <Button
+                        variant="outline"
                         size="sm"
-                        onClick={() => handleFlagRecord(record.id, false)}
+                        disabled={isLoading}
+                        onClick={() => handleResolveFlag(record, 'Cleared')}
                       >
                         Unflag
                       </Button>
-                      <Button 
-                        variant="danger" 
+                      <Button
+                        variant="danger"
                         size="sm"
-                        onClick={() => handleRemoveRecord(record.id, record.title)}
+                        disabled={isLoading}
+                        onClick={() => handleRemoveRecord(record)}
                       >
                         Remove
                       </Button>
@@ -399,38 +410,6 @@ const AdminPanel: React.FC = () => {
               )}
             </div>
           </Card>
-
-          {/* Monetization Control */}
-          <Card className="p-6">
-            <div className="mb-6">
-              <h3 className="text-xl font-semibold text-gray-900 flex items-center">
-                <DollarSign className="h-5 w-5 mr-2 text-green-600" />
-                Monetization Control
-              </h3>
-              <p className="text-gray-600 mt-1">Manage which records can be monetized</p>
-            </div>
-            <div className="space-y-4">
-              {monetizableRecords.slice(0, 5).map((record) => (
-                <div key={record.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-3">
-                      <h4 className="font-medium">{record.title}</h4>
-                      <Badge variant="success">Monetizable</Badge>
-                    </div>
-                    <div className="text-sm text-gray-600 mt-1">
-                      Category: {record.category} • Access count: {record.accessCount}
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Switch
-                      checked={record.status === 'Monetizable'}
-                      onCheckedChange={(checked) => handleFlagRecord(record.id, !checked)}
-                    />
-                  </div>
-                </div>
-              ))}
-            </div>
-          </Card>
         </TabsContent>
       </Tabs>
 
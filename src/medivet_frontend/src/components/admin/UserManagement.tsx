@@ -1,80 +1,81 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import Card from '../ui/Card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/Table';
 import Badge from '../ui/Badge';
 import Button from '../ui/Button';
-import { MoreHorizontal } from 'lucide-react';
+import Textarea from '../ui/Textarea';
+import { Loader2, MoreHorizontal } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../ui/DropdownMenu';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/Dialog';
 import ConfirmationDialog from '../ui/ConfirmationDialog';
+import useAdminStore, { ADMIN_USER_PAGE_SIZE } from '../../stores/useAdminStore';
+import { useToast } from '../../hooks/useToast';
+import { AdminUser, BackendRole } from '../../types';
 
-const mockUsers = [
-  {
-    id: 'usr_1',
-    name: 'Alice Johnson',
-    email: 'alice.j@email.com',
-    role: 'Patient',
-    status: 'Active',
-    createdAt: new Date(Date.now() - 86400000 * 5).toISOString(),
-  },
-  {
-    id: 'usr_2',
-    name: 'Dr. Emily Carter',
-    email: 'emily.carter@med.pro',
-    role: 'Provider',
-    status: 'Verified',
-    createdAt: new Date(Date.now() - 86400000 * 12).toISOString(),
-  },
-  {
-    id: 'usr_3',
-    name: 'Bob Williams',
-    email: 'bobbyw@email.com',
-    role: 'Patient',
-    status: 'Active',
-    createdAt: new Date(Date.now() - 86400000 * 2).toISOString(),
-  },
-  {
-    id: 'usr_4',
-    name: 'Dr. John Smith',
-    email: 'john.smith@clinic.co',
-    role: 'Provider',
-    status: 'Pending',
-    createdAt: new Date(Date.now() - 86400000 * 1).toISOString(),
-  },
-  {
-    id: 'usr_5',
-    name: 'System Administrator',
-    email: 'admin@medivet.com',
-    role: 'Admin',
-    status: 'Active',
-    createdAt: new Date(Date.now() - 86400000 * 100).toISOString(),
-  },
-];
+const ROLE_FILTERS: BackendRole[] = ['Patient', 'Provider', 'Admin'];
+
+const selectClassName = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+const userName = (user: AdminUser) => user.name ?? `${user.id.slice(0, 10)}...${user.id.slice(-5)}`;
+
+const userStatus = (user: AdminUser) => {
+  if (user.suspension) return 'Suspended';
+  if (user.role === 'Provider') return user.whitelisted ? 'Verified' : 'Pending';
+  return user.onboarded ? 'Active' : 'Onboarding';
+};
 
 const UserManagement: React.FC = () => {
+  const { users, usersTotal, usersOffset, roleFilter, isLoading, error, fetchUsers, suspendUser, reinstateUser } = useAdminStore();
+  const { showSuccess, showError } = useToast();
+  const [suspending, setSuspending] = useState<AdminUser | null>(null);
+  const [suspendReason, setSuspendReason] = useState('');
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [dialogConfig, setDialogConfig] = useState({ 
-    title: '', 
-    description: '', 
-    onConfirm: () => {} 
+  const [dialogConfig, setDialogConfig] = useState({
+    title: '',
+    description: '',
+    onConfirm: () => {}
   });
 
+  useEffect(() => {
+    fetchUsers(null, 0);
+  }, [fetchUsers]);
+
   const openConfirmationDialog = (title: string, description: string, onConfirm: () => void) => {
     setDialogConfig({ title, description, onConfirm });
     setDialogOpen(true);
   };
 
-  const handleSuspendUser = (userName: string) => {
+  const handleSuspendUser = async () => {
+    if (!suspending) return;
+    try {
+      await suspendUser(suspending.id, suspendReason);
+      showSuccess('User suspended', userName(suspending));
+      setSuspending(null);
+      setSuspendReason('');
+    } catch (error: any) {
+      showError('Could not suspend user', error.message);
+    }
+  };
+
+  const handleReinstateUser = (user: AdminUser) => {
     openConfirmationDialog(
-      'Suspend User?',
-      `Are you sure you want to suspend ${userName}? They will lose access to the platform.`,
-      () => alert('User suspension feature not implemented yet.')
+      'Reinstate User?',
+      `${userName(user)} will regain access to the platform.`,
+      async () => {
+        try {
+          await reinstateUser(user.id);
+          showSuccess('User reinstated', userName(user));
+        } catch (error: any) {
+          showError('Could not reinstate user', error.message);
+        }
+      }
     );
   };
 
-  const getRoleBadgeVariant = (role: string) => {
+  const getRoleBadgeVariant = (role: BackendRole) => {
     switch (role) {
       case 'Admin': return 'destructive';
-      case 'Provider': return 'primary';
+      case 'Provider': return 'default';
       case 'Patient': return 'secondary';
       default: return 'secondary';
     }
@@ -84,12 +85,15 @@ const UserManagement: React.FC = () => {
     switch (status) {
       case 'Verified':
       case 'Active': return 'success';
-      case 'Pending': return 'warning';
+      case 'Pending':
+      case 'Onboarding': return 'warning';
       case 'Suspended': return 'destructive';
       default: return 'secondary';
     }
   };
 
+  const pageEnd = Math.min(usersOffset + users.length, usersTotal);
+
   return (
     <div className="space-y-6">
       <div>
@@ -100,71 +104,157 @@ const UserManagement: React.FC = () => {
       </div>
 
       <Card className="p-6">
-        <div className="mb-6">
-          <h2 className="text-xl font-semibold text-gray-900">All Users</h2>
-          <p className="text-gray-600 mt-1">A list of all registered users.</p>
+        <div className="mb-6 flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">All Users</h2>
+            <p className="text-gray-600 mt-1">A list of all registered users.</p>
+          </div>
+          <select
+            value={roleFilter ?? 'all'}
+            onChange={(e) => fetchUsers(e.target.value === 'all' ? null : e.target.value as BackendRole, 0)}
+            className={selectClassName}
+            aria-label="Role"
+          >
+            <option value="all">All Roles</option>
+            {ROLE_FILTERS.map(role => (
+              <option key={role} value={role}>{role}s</option>
+            ))}
+          </select>
         </div>
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
         <div className="overflow-hidden">
           <Table>
             <TableHeader>
               <TableRow>
                 <TableHead>Name</TableHead>
-                <TableHead>Email</TableHead>
+                <TableHead>Contact</TableHead>
                 <TableHead>Role</TableHead>
                 <TableHead>Status</TableHead>
-                <TableHead>Registration Date</TableHead>
+                <TableHead>Reputation</TableHead>
                 <TableHead className="text-center">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {mockUsers.map((user) => (
-                <TableRow key={user.id}>
-                  <TableCell className="font-medium">{user.name}</TableCell>
-                  <TableCell>{user.email}</TableCell>
-                  <TableCell>
-                    <Badge variant={getRoleBadgeVariant(user.role) as any}>
-                      {user.role}
-                    </Badge>
-                  </TableCell>
-                  <TableCell>
-                    <Badge variant={getStatusBadgeVariant(user.status) as any}>
-                      {user.status}
-                    </Badge>
-                  </TableCell>
-                  <TableCell>{new Date(user.createdAt).toLocaleDateString()}</TableCell>
-                  <TableCell className="text-center">
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" size="sm">
-                          <MoreHorizontal className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent>
-                        <DropdownMenuItem>View Profile</DropdownMenuItem>
-                        <DropdownMenuItem>Edit User</DropdownMenuItem>
-                        <DropdownMenuItem 
-                          className="text-red-600"
-                          onClick={() => handleSuspendUser(user.name)}
-                        >
-                          Suspend
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </TableCell>
-                </TableRow>
-              ))}
+              {users.map((user) => {
+                const status = userStatus(user);
+                return (
+                  <TableRow key={user.id}>
+                    <TableCell className="font-medium">
+                      {userName(user)}
+                      <div className="font-mono text-xs text-gray-500">{user.id.slice(0, 20)}...</div>
+                    </TableCell>
+                    <TableCell>{user.contact ?? '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant={getRoleBadgeVariant(user.role) as any}>
+                        {user.role}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={getStatusBadgeVariant(status) as any}>
+                        {status}
+                      </Badge>
+                      {user.suspension && (
+                        <div className="text-xs text-gray-500 mt-1">{user.suspension.reason}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{user.reputation}</TableCell>
+                    <TableCell className="text-center">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent>
+                          {user.suspension ? (
+                            <DropdownMenuItem onClick={() => handleReinstateUser(user)}>
+                              Reinstate
+                            </DropdownMenuItem>
+                          ) : (
+                            <DropdownMenuItem
+                              className="text-red-600"
+                              onClick={() => setSuspending(user)}
+                            >
+                              Suspend
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
             </TableBody>
           </Table>
+          {isLoading && users.length === 0 ? (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+            </div>
+          ) : users.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No users found</p>
+          ) : null}
         </div>
+        {usersTotal > 0 && (
+          <div className="mt-4 flex items-center justify-between text-sm text-gray-600">
+            <span>{usersOffset + 1}–{pageEnd} of {usersTotal}</span>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isLoading || usersOffset === 0}
+                onClick={() => fetchUsers(roleFilter, Math.max(0, usersOffset - ADMIN_USER_PAGE_SIZE))}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isLoading || pageEnd >= usersTotal}
+                onClick={() => fetchUsers(roleFilter, usersOffset + ADMIN_USER_PAGE_SIZE)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
       </Card>
 
+      <Dialog open={suspending !== null} onOpenChange={(open) => { if (!open) setSuspending(null); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Suspend {suspending ? userName(suspending) : 'user'}?</DialogTitle>
+            <DialogDescription>
+              They will lose access to the platform until reinstated. Their records are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={suspendReason}
+            onChange={(e) => setSuspendReason(e.target.value)}
+            placeholder="Reason for the suspension"
+            maxLength={500}
+          />
+          <div className="flex space-x-3 pt-4">
+            <Button variant="outline" className="flex-1" onClick={() => setSuspending(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="danger"
+              className="flex-1"
+              disabled={isLoading || suspendReason.trim().length === 0}
+              onClick={handleSuspendUser}
+            >
+              Suspend
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       <ConfirmationDialog
         open={dialogOpen}
         onOpenChange={setDialogOpen}
         title={dialogConfig.title}
         description={dialogConfig.description}
         onConfirm={dialogConfig.onConfirm}
-        variant="destructive"
       />
     </div>
   );
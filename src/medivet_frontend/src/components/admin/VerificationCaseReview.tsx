@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { FileText } from 'lucide-react';
+import Badge from '../ui/Badge';
+import Button from '../ui/Button';
+import Textarea from '../ui/Textarea';
+import useVerificationStore, { VERIFICATION_STATUS_LABELS } from '../../stores/useVerificationStore';
+import { fileService } from '../../services/fileService';
+import { useToast } from '../../hooks/useToast';
+import { VerificationCase } from '../../types';
+
+interface VerificationCaseReviewProps {
+  verificationCase: VerificationCase;
+  providerName: string;
+  onDecided: () => void;
+}
+
+const formatDate = (ns: number) => new Date(ns / 1_000_000).toLocaleString();
+
+// One provider's credential case: their documents, its history, reviewer notes and the review actions
+const VerificationCaseReview: React.FC<VerificationCaseReviewProps> = ({ verificationCase, providerName, onDecided }) => {
+  const { isLoading, startReview, decideCase, addNote } = useVerificationStore();
+  const { showSuccess, showError } = useToast();
+  const [note, setNote] = useState('');
+
+  const openDocument = async (fileName: string) => {
+    try {
+      const url = await fileService.getFilePreviewUrl(fileName, verificationCase.provider);
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } catch (error: any) {
+      showError('Could not open document', error.message);
+    }
+  };
+
+  const handleStartReview = async () => {
+    try {
+      await startReview(verificationCase.id);
+    } catch (error: any) {
+      showError('Could not start review', error.message);
+    }
+  };
+
+  const handleDecide = async (approve: boolean) => {
+    try {
+      await decideCase(verificationCase.id, approve, note);
+      setNote('');
+      showSuccess(approve ? 'Provider approved' : 'Verification rejected', providerName);
+      onDecided();
+    } catch (error: any) {
+      showError('Could not record decision', error.message);
+    }
+  };
+
+  const handleAddNote = async () => {
+    try {
+      await addNote(verificationCase.id, note.trim());
+      setNote('');
+    } catch (error: any) {
+      showError('Could not add note', error.message);
+    }
+  };
+
+  const { status } = verificationCase;
+  const open = status === 'Submitted' || status === 'UnderReview';
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center space-x-3">
+            <h4 className="font-medium">{providerName}</h4>
+            <Badge variant="secondary">{verificationCase.specialty}</Badge>
+            <Badge variant={status === 'Approved' ? 'success' : status === 'Rejected' ? 'destructive' : 'warning'}>
+              {VERIFICATION_STATUS_LABELS[status]}
+            </Badge>
+          </div>
+          <div className="text-sm text-gray-600 mt-1">
+            License: {verificationCase.license_number} • Submitted: {formatDate(verificationCase.submitted_at)}
+            {verificationCase.expires_at !== null && ` • Expires: ${formatDate(verificationCase.expires_at)}`}
+          </div>
+        </div>
+        {status === 'Submitted' && (
+          <Button size="sm" disabled={isLoading} onClick={handleStartReview}>
+            Start review
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {verificationCase.documents.map(document => (
+          <Button key={document.file_name} variant="outline" size="sm" onClick={() => openDocument(document.file_name)}>
+            <FileText className="h-4 w-4 mr-1" />
+            {document.kind}: {document.file_name}
+          </Button>
+        ))}
+      </div>
+
+      <ul className="text-xs text-gray-500 space-y-1">
+        {verificationCase.history.map((event, index) => (
+          <li key={index}>
+            {formatDate(event.at)} — {VERIFICATION_STATUS_LABELS[event.status]}
+            {event.note && `: ${event.note}`}
+          </li>
+        ))}
+      </ul>
+
+      {verificationCase.reviewer_notes.length > 0 && (
+        <div className="bg-gray-50 rounded p-3 space-y-2">
+          {verificationCase.reviewer_notes.map((reviewerNote, index) => (
+            <div key={index} className="text-sm">
+              <span className="text-xs text-gray-500">{formatDate(reviewerNote.at)}</span>
+              <p className="text-gray-700">{reviewerNote.text}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {open && (
+        <div className="space-y-2">
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={status === 'UnderReview' ? 'Note for the record; required to reject' : 'Internal reviewer note'}
+            maxLength={1000}
+          />
+          <div className="flex justify-end space-x-2">
+            <Button variant="ghost" size="sm" disabled={isLoading || note.trim().length === 0} onClick={handleAddNote}>
+              Add note
+            </Button>
+            {status === 'UnderReview' && (
+              <>
+                <Button
+                  variant="danger"
+                  size="sm"
+                  disabled={isLoading || note.trim().length === 0}
+                  onClick={() => handleDecide(false)}
+                >
+                  Reject
+                </Button>
+                <Button size="sm" disabled={isLoading} onClick={() => handleDecide(true)}>
+                  Approve
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VerificationCaseReview;
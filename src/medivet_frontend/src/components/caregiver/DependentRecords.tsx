@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { HeartHandshake, Plus, ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import AddRecordModal from '../dashboard/AddRecordModal';
+import RecordBodyViewer from '../records/RecordBodyViewer';
+import useCaregiverStore, { DELEGATION_SCOPE_LABELS } from '../../stores/useCaregiverStore';
+import useUserMappingStore from '../../stores/useUserMappingStore';
+import { Dependent } from '../../types';
+
+// Records of the dependent the caregiver is acting for, limited to what the patient delegated
+const DependentRecords: React.FC = () => {
+  const { dependents, actingFor, dependentRecords, isLoading, error, actAs, fetchDependentRecords } = useCaregiverStore();
+  const { getDisplayName } = useUserMappingStore();
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const canView = actingFor?.delegation.scopes.includes('ViewRecords') ?? false;
+  const canCreate = actingFor?.delegation.scopes.includes('CreateRecords') ?? false;
+
+  useEffect(() => {
+    if (canView) fetchDependentRecords();
+  }, [actingFor?.delegation.id, canView, fetchDependentRecords]);
+
+  const dependentName = (dependent: Dependent) =>
+    dependent.patient_name ?? getDisplayName(dependent.delegation.patient);
+
+  if (!actingFor) {
+    return (
+      <Card className="p-6">
+        <h1 className="text-xl font-semibold text-gray-900 flex items-center mb-2">
+          <HeartHandshake className="h-5 w-5 mr-2" />
+          Caregiving
+        </h1>
+        {dependents.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            Nobody has made you their caregiver. A patient can add you from their profile using your principal ID.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-4">Choose whose records you want to manage.</p>
+            <div className="flex flex-wrap gap-3">
+              {dependents.map(dependent => (
+                <Button key={dependent.delegation.id} variant="outline" onClick={() => actAs(dependent)}>
+                  {dependentName(dependent)}
+                  <span className="ml-2 text-xs text-gray-500">{dependent.delegation.relationship}</span>
+                </Button>
+              ))}
+            </div>
+          </>
+        )}
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900 flex items-center">
+              <HeartHandshake className="h-5 w-5 mr-2" />
+              {dependentName(actingFor)}'s records
+            </h1>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {actingFor.delegation.scopes.map(scope => (
+                <Badge key={scope} variant="secondary">{DELEGATION_SCOPE_LABELS[scope]}</Badge>
+              ))}
+              {actingFor.delegation.expires_at !== null && (
+                <Badge variant="warning">
+                  Until {new Date(actingFor.delegation.expires_at / 1_000_000).toLocaleDateString()}
+                </Badge>
+              )}
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            {canView && (
+              <Button variant="outline" size="sm" onClick={() => fetchDependentRecords()} disabled={isLoading}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            )}
+            {canCreate && (
+              <Button size="sm" onClick={() => setShowAddModal(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Record
+              </Button>
+            )}
+          </div>
+        </div>
+        {error && <p className="text-sm text-red-600 mt-4">{error}</p>}
+      </Card>
+
+      {!canView ? (
+        <Card className="p-6">
+          <p className="text-sm text-gray-600">
+            {dependentName(actingFor)} lets you add records but not view them. Records you add are encrypted for them
+            and appear in their account.
+          </p>
+        </Card>
+      ) : isLoading && dependentRecords.length === 0 ? (
+        <LoadingSpinner text="Loading records..." />
+      ) : dependentRecords.length === 0 ? (
+        <Card className="p-6">
+          <p className="text-sm text-gray-600">No records yet.</p>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {dependentRecords.map(record => (
+            <Card key={record.id} className="p-4">
+              <button
+                type="button"
+                className="w-full flex items-center justify-between text-left"
+                onClick={() => setExpandedId(expandedId === record.id ? null : record.id)}
+              >
+                <div>
+                  <h3 className="font-medium text-gray-900">{record.title}</h3>
+                  <p className="text-xs text-gray-500">
+                    {record.category} · {new Date(record.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                {expandedId === record.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              </button>
+              {expandedId === record.id && (
+                <div className="mt-4">
+                  {record.body ? (
+                    <RecordBodyViewer body={record.body} />
+                  ) : (
+                    <p className="text-sm text-red-600">{record.content}</p>
+                  )}
+                </div>
+              )}
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <AddRecordModal isOpen={showAddModal} onClose={() => setShowAddModal(false)} />
+    </div>
+  );
+};
+
+export default DependentRecords;
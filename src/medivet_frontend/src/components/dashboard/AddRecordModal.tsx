@@ -1,9 +1,14 @@
 import React, { useState } from 'react';
 import useHealthRecordStore from '../../stores/useHealthRecordStore';
+import useCaregiverStore from '../../stores/useCaregiverStore';
 import AutocompleteInput from '../ui/AutocompleteInput';
 import { useMedicalData } from '../../hooks/useMedicalData';
-import { validateForm, validateRequired, validateMedicalText } from '../../utils/validation';
+import { validateForm, validateRequired, validateMedicalText, ValidationResult } from '../../utils/validation';
 import { useToast } from '../../hooks/useToast';
+import RecordBodyEditor from '../records/RecordBodyEditor';
+import { RecordBody, RecordBodyType } from '../../types';
+import { RECORD_BODY_TYPE_LABELS, createEmptyRecordBody, validateRecordBody } from '../../utils/recordBody';
+import { toPublicCategory } from '../../utils/recordMetadata';
 
 interface AddRecordModalProps {
   isOpen: boolean;
@@ -12,6 +17,10 @@ interface AddRecordModalProps {
 
 const AddRecordModal: React.FC<AddRecordModalProps> = ({ isOpen, onClose }) => {
   const { createRecord, isLoading, error } = useHealthRecordStore();
+  // While acting for a dependent, records are created in their account
+  const { actingFor, createDependentRecord, isLoading: isCreatingForDependent, error: dependentError } = useCaregiverStore();
+  const isSaving = actingFor ? isCreatingForDependent : isLoading;
+  const saveError = actingFor ? dependentError : error;
   const { showSuccess, showError } = useToast();
   
   const [formData, setFormData] = useState({
@@ -22,7 +31,14 @@ const AddRecordModal: React.FC<AddRecordModalProps> = ({ isOpen, onClose }) => {
     content: '',
   });
 
+  // Structured body used for every record format except free text
+  const [bodyType, setBodyType] = useState<RecordBodyType>(RecordBodyType.PlainText);
+  const [body, setBody] = useState<RecordBody>(createEmptyRecordBody(RecordBodyType.PlainText));
+  const [bodyErrors, setBodyErrors] = useState<Record<string, string>>({});
+
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  // Keep the title and detailed category out of plaintext metadata
+  const [encryptMetadata, setEncryptMetadata] = useState(false);
 
   const {
     recordCategoryOptions,
@@ -44,18 +60,46 @@ const AddRecordModal: React.FC<AddRecordModalProps> = ({ isOpen, onClose }) => {
     }
   };
 
+  const handleBodyTypeChange = (type: RecordBodyType) => {
+    setBodyType(type);
+    setBody(createEmptyRecordBody(type));
+    setBodyErrors({});
+  };
+
   const validateFormData = () => {
-    const validationRules = {
+    const validationRules: Record<string, (value: string) => ValidationResult> = {
       title: (value: string) => validateRequired(value, 'Title'),
       category: (value: string) => validateRequired(value, 'Category'),
       provider: (value: string) => validateRequired(value, 'Healthcare Provider'),
       recordType: (value: string) => validateRequired(value, 'Record Type'),
-      content: (value: string) => validateMedicalText(value, 'Content', 2000)
     };
+    if (bodyType === RecordBodyType.PlainText) {
+      validationRules.content = (value: string) => validateMedicalText(value, 'Content', 2000);
+    }
 
     const result = validateForm(formData, validationRules);
     setValidationErrors(result.errors);
-    return result;
+
+    if (bodyType === RecordBodyType.PlainText) {
+      return result;
+    }
+
+    const bodyResult = validateRecordBody(body);
+    setBodyErrors(bodyResult.errors);
+    return { ...result, isValid: result.isValid && bodyResult.isValid };
+  };
+
+  const resetForm = () => {
+    setFormData({
+      title: '',
+      category: '',
+      provider: '',
+      recordType: '',
+      content: '',
+    });
+    handleBodyTypeChange(RecordBodyType.PlainText);
+    setValidationErrors({});
+    setEncryptMetadata(false);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -67,13 +111,25 @@ const AddRecordModal: React.FC<AddRecordModalProps> = ({ isOpen, onClose }) => {
     }
 
     try {
-      await createRecord(
-        validation.sanitizedData.title,
-        validation.sanitizedData.category,
-        validation.sanitizedData.provider,
-        validation.sanitizedData.recordType,
-        validation.sanitizedData.content
-      );
+      const content = bodyType === RecordBodyType.PlainText ? validation.sanitizedData.content : body;
+      if (actingFor) {
+        await createDependentRecord(
+          validation.sanitizedData.title,
+          validation.sanitizedData.category,
+          content,
+          encryptMetadata
+        );
+      } else {
+        await createRecord(
+          validation.sanitizedData.title,
+          validation.sanitizedData.category,
+          validation.sanitizedData.provider,
+          validation.sanitizedData.recordType,
+          content,
+          null,
+          encryptMetadata
+        );
+      }
       
       // Show success toast
       showSuccess(
@@ -82,14 +138,7 @@ const AddRecordModal: React.FC<AddRecordModalProps> = ({ isOpen, onClose }) => {
       );
       
       // Reset form and close modal on success
-      setFormData({
-        title: '',
-        category: '',
-        provider: '',
-        recordType: '',
-        content: '',
-      });
-      setValidationErrors({});
+      resetForm();
       onClose();
     } catch (err) {
       console.error('Failed to create health record:', err);
@@ -101,14 +150,7 @@ const AddRecordModal: React.FC<AddRecordModalProps> = ({ isOpen, onClose }) => {
   };
 
   const handleClose = () => {
-    setFormData({
-      title: '',
-      category: '',
-      provider: '',
-      recordType: '',
-      content: '',
-    });
-    setValidationErrors({});
+    resetForm();
     onClose();
   };
 
@@ -119,7 +161,9 @@ const AddRecordModal: React.FC<AddRecordModalProps> = ({ isOpen, onClose }) => {
       <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         <div className="p-6">
           <div className="flex justify-between items-center mb-6">
-            <h2 className="text-2xl font-bold text-gray-800">Add New Health Record</h2>
+            <h2 className="text-2xl font-bold text-gray-800">
+              {actingFor ? `Add Record for ${actingFor.patient_name ?? 'Your Dependent'}` : 'Add New Health Record'}
+            </h2>
             <button
               onClick={handleClose}
               className="text-gray-400 hover:text-gray-600 text-2xl"
@@ -128,9 +172,9 @@ const AddRecordModal: React.FC<AddRecordModalProps> = ({ isOpen, onClose }) => {
             </button>
           </div>
 
-          {error && (
+          {saveError && (
             <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-md">
-              {error}
+              {saveError}
             </div>
           )}
 
@@ -169,6 +213,22 @@ const AddRecordModal: React.FC<AddRecordModalProps> = ({ isOpen, onClose }) => {
               </div>
             </div>
 
+            <label className="flex items-start space-x-2 mb-4 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={encryptMetadata}
+                onChange={(e) => setEncryptMetadata(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span>
+                Encrypt title and category
+                <span className="block text-xs text-gray-500">
+                  Only you and people you share with can read them. The marketplace sees the broad
+                  category "{toPublicCategory(formData.category)}".
+                </span>
+              </span>
+            </label>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -203,6 +263,29 @@ const AddRecordModal: React.FC<AddRecordModalProps> = ({ isOpen, onClose }) => {
               </div>
             </div>
 
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Record Format
+              </label>
+              <select
+                value={bodyType}
+                onChange={(e) => handleBodyTypeChange(e.target.value as RecordBodyType)}
+                className="w-full p-2 border border-gray-300 rounded-md"
+              >
+                {Object.values(RecordBodyType).map((type) => (
+                  <option key={type} value={type}>
+                    {RECORD_BODY_TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {bodyType !== RecordBodyType.PlainText ? (
+              <div className="mb-6">
+                <RecordBodyEditor body={body} onChange={setBody} errors={bodyErrors} />
+              </div>
+            ) : (
+            <>
             {/* Quick Add Sections */}
             <div className="mb-4 p-4 bg-gray-50 rounded-lg">
               <h3 className="text-sm font-medium text-gray-700 mb-3">Quick Add (Optional)</h3>
@@ -278,6 +361,8 @@ const AddRecordModal: React.FC<AddRecordModalProps> = ({ isOpen, onClose }) => {
                 Maximum 2000 characters. Use the quick add sections above to easily include common medical terms.
               </p>
             </div>
+            </>
+            )}
 
             <div className="flex justify-end space-x-3">
               <button
@@ -289,10 +374,10 @@ const AddRecordModal: React.FC<AddRecordModalProps> = ({ isOpen, onClose }) => {
               </button>
               <button
                 type="submit"
-                disabled={isLoading}
+                disabled={isSaving}
                 className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
               >
-                {isLoading ? 'Creating...' : 'Create Record'}
+                {isSaving ? 'Creating...' : 'Create Record'}
               </button>
             </div>
           </form>
@@ -2,22 +2,33 @@ import React, { useEffect, useState } from 'react';
 import {
   Clock,
   Eye,
-  Download,
+  Key,
   Shield,
-  Filter,
-  Calendar,
-  User
+  ShieldAlert,
+  ShieldX,
+  ShoppingCart,
+  User,
+  UserMinus,
+  UserPlus,
+  Plus
 } from 'lucide-react';
 import { formatDistance, format } from 'date-fns';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
 import Badge from '../ui/Badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/Table';
+import AccessLogFilters from '../access/AccessLogFilters';
 import useAuthStore from '../../stores/useAuthStore';
 import useHealthRecordStore from '../../stores/useHealthRecordStore';
 import useProviderStore from '../../stores/useProviderStore';
 import useProfileStore from '../../stores/useProfileStore';
-import { AccessLog } from '../../types';
+import useAccessLogStore, {
+  ACCESS_ACTION_LABELS,
+  EMPTY_ACCESS_LOG_FILTER,
+  isAnonymousAccessor,
+  matchesAccessLogFilter
+} from '../../stores/useAccessLogStore';
+import { AccessAction, AccessLog, AccessLogFilter } from '../../types';
 
 interface AuditTrailProps {
   recordId?: number;
@@ -32,11 +43,14 @@ const AuditTrail: React.FC<AuditTrailProps> = ({
   const { patientProfile, healthcareProviderProfile } = useProfileStore();
   const { getRecordAccessLogs } = useHealthRecordStore();
   const { accessLogs, fetchAccessLogs } = useProviderStore();
+  const patientLog = useAccessLogStore();
   
-  const [logs, setLogs] = useState<AccessLog[]>([]);
+  const [recordLogs, setRecordLogs] = useState<AccessLog[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [dateFilter, setDateFilter] = useState('all');
-  const [actionFilter, setActionFilter] = useState('all');
+  const [filter, setFilter] = useState<AccessLogFilter>(EMPTY_ACCESS_LOG_FILTER);
+
+  // A patient's whole log is filtered and paged by the backend; the other views are loaded whole
+  const patientWide = !recordId && showAllActivity && !healthcareProviderProfile;
 
   useEffect(() => {
     const fetchLogs = async () => {
@@ -46,22 +60,19 @@ const AuditTrail: React.FC<AuditTrailProps> = ({
       try {
         if (recordId) {
           // Fetch logs for specific record
-          const recordLogs = await getRecordAccessLogs(recordId);
-          setLogs(recordLogs);
+          setRecordLogs(await getRecordAccessLogs(recordId));
         } else if (showAllActivity) {
-          // For providers, fetch all their access logs
           if (healthcareProviderProfile) {
+            // For providers, fetch all their access logs
             await fetchAccessLogs();
-            setLogs(accessLogs);
           } else {
-            // For patients, we don't have a general access log method yet
-            // This would need to be implemented to show all access to patient's records
-            setLogs([]);
+            // For patients, every access to their records and profile
+            await useAccessLogStore.getState().fetchMyAccessLog(EMPTY_ACCESS_LOG_FILTER);
           }
         }
       } catch (error) {
         console.error('Error fetching audit logs:', error);
-        setLogs([]);
+        setRecordLogs([]);
       }
       setIsLoading(false);
     };
@@ -73,61 +84,67 @@ const AuditTrail: React.FC<AuditTrailProps> = ({
     showAllActivity, 
     getRecordAccessLogs, 
     fetchAccessLogs, 
-    accessLogs,
     healthcareProviderProfile,
     patientProfile
   ]);
 
-  const filterLogs = (logs: AccessLog[]) => {
-    let filtered = [...logs];
-    
-    // Date filter
-    if (dateFilter !== 'all') {
-      const now = Date.now();
-      const timeRanges = {
-        '24h': 24 * 60 * 60 * 1000,
-        '7d': 7 * 24 * 60 * 60 * 1000,
-        '30d': 30 * 24 * 60 * 60 * 1000
-      };
-      
-      const cutoff = now - timeRanges[dateFilter as keyof typeof timeRanges];
-      filtered = filtered.filter(log => log.access_time / 1000000 > cutoff);
-    }
-    
-    // Action filter
-    if (actionFilter !== 'all') {
-      filtered = filtered.filter(log => log.action.toLowerCase() === actionFilter);
+  const logs = recordId ? recordLogs : healthcareProviderProfile ? accessLogs : [];
+  const activeFilter = patientWide ? patientLog.filter : filter;
+  const filteredLogs = patientWide
+    ? patientLog.entries
+    : logs.filter(log => matchesAccessLogFilter(log, filter)).sort((a, b) => b.access_time - a.access_time);
+  const accessors = Array.from(new Set((patientWide ? patientLog.entries : logs).map(log => log.accessor)));
+
+  const changeFilter = (next: AccessLogFilter) => {
+    if (patientWide) {
+      patientLog.fetchMyAccessLog(next);
+    } else {
+      setFilter(next);
     }
-    
-    // Sort by most recent first
-    return filtered.sort((a, b) => b.access_time - a.access_time);
   };
 
-  const filteredLogs = filterLogs(logs);
-
-  const getActionIcon = (action: string) => {
-    switch (action.toLowerCase()) {
-      case 'downloaded':
-        return <Download className="h-4 w-4" />;
-      case 'viewed':
-        return <Eye className="h-4 w-4" />;
+  const getActionIcon = (action: AccessAction) => {
+    switch (action) {
+      case 'KeyIssued':
+      case 'KeyDerived':
+        return <Key className="h-4 w-4" />;
+      case 'KeyDenied':
+        return <ShieldX className="h-4 w-4" />;
+      case 'Grant':
+        return <UserPlus className="h-4 w-4" />;
+      case 'Revoke':
+        return <UserMinus className="h-4 w-4" />;
+      case 'Purchase':
+        return <ShoppingCart className="h-4 w-4" />;
+      case 'Emergency':
+        return <ShieldAlert className="h-4 w-4" />;
+      case 'ProfileView':
+        return <User className="h-4 w-4" />;
+      case 'Create':
+        return <Plus className="h-4 w-4" />;
       default:
         return <Eye className="h-4 w-4" />;
     }
   };
 
-  const getActionColor = (action: string) => {
-    switch (action.toLowerCase()) {
-      case 'downloaded':
+  const getActionColor = (action: AccessAction) => {
+    switch (action) {
+      case 'Emergency':
+      case 'KeyDenied':
+        return 'destructive';
+      case 'Revoke':
+      case 'KeyIssued':
+      case 'KeyDerived':
         return 'warning';
-      case 'viewed':
-        return 'secondary';
+      case 'Grant':
+      case 'Purchase':
+        return 'success';
       default:
         return 'secondary';
     }
   };
 
-  if (isLoading) {
+  if (isLoading || (patientWide && patientLog.isLoading && patientLog.entries.length === 0)) {
     return (
       <Card className="p-6">
         <div className="flex items-center justify-center h-32">
@@ -153,35 +170,14 @@ const AuditTrail: React.FC<AuditTrailProps> = ({
       </div>
 
       {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4 mb-6">
-        <div className="flex gap-2">
-          <select
-            value={dateFilter}
-            onChange={(e) => setDateFilter(e.target.value)}
-            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-          >
-            <option value="all">All Time</option>
-            <option value="24h">Last 24 Hours</option>
-            <option value="7d">Last 7 Days</option>
-            <option value="30d">Last 30 Days</option>
-          </select>
-          
-          <select
-            value={actionFilter}
-            onChange={(e) => setActionFilter(e.target.value)}
-            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
-          >
-            <option value="all">All Actions</option>
-            <option value="viewed">Viewed</option>
-            <option value="downloaded">Downloaded</option>
-            <option value="accessed">Accessed</option>
-          </select>
-        </div>
+      <div className="flex flex-col gap-4 mb-6">
+        <AccessLogFilters filter={activeFilter} onChange={changeFilter} accessors={accessors} />
         
         <div className="text-sm text-gray-500 flex items-center">
           <Clock className="h-4 w-4 mr-1" />
-          {filteredLogs.length} entries found
+          {patientWide ? `${patientLog.total} entries found` : `${filteredLogs.length} entries found`}
         </div>
+        {patientWide && patientLog.error && <p className="text-sm text-red-600">{patientLog.error}</p>}
       </div>
 
       {/* Audit Log Table */}
@@ -192,7 +188,7 @@ const AuditTrail: React.FC<AuditTrailProps> = ({
               <TableRow>
                 <TableHead>Action</TableHead>
                 {!recordId && <TableHead>Record ID</TableHead>}
-                <TableHead>Provider</TableHead>
+                <TableHead>User</TableHead>
                 <TableHead>Amount Paid</TableHead>
                 <TableHead>Timestamp</TableHead>
                 <TableHead>Time Ago</TableHead>
@@ -206,21 +202,22 @@ const AuditTrail: React.FC<AuditTrailProps> = ({
                       <div className="p-1 rounded-full bg-gray-100">
                         {getActionIcon(log.action)}
                       </div>
-                      <Badge variant={getActionColor(log.action) as any}>
-                        {log.action}
+                      <Badge variant={getActionColor(log.action)}>
+                        {ACCESS_ACTION_LABELS[log.action] ?? log.action}
                       </Badge>
                     </div>
+                    {log.reason && <p className="text-xs text-gray-500 mt-1">{log.reason}</p>}
                   </TableCell>
                   {!recordId && (
                     <TableCell>
-                      <span className="font-mono text-sm">#{log.record_id}</span>
+                      <span className="font-mono text-sm">{log.record_id !== null ? `#${log.record_id}` : '—'}</span>
                     </TableCell>
                   )}
                   <TableCell>
                     <div className="flex items-center space-x-2">
                       <User className="h-4 w-4 text-gray-400" />
                       <span className="font-mono text-xs text-gray-600">
-                        {log.provider_principal.slice(0, 8)}...
+                        {isAnonymousAccessor(log.accessor) ? 'Share link' : `${log.accessor.slice(0, 8)}...`}
                       </span>
                     </div>
                   </TableCell>
@@ -248,6 +245,13 @@ const AuditTrail: React.FC<AuditTrailProps> = ({
               ))}
             </TableBody>
           </Table>
+          {patientWide && patientLog.entries.length < patientLog.total && (
+            <div className="mt-4 text-center">
+              <Button variant="outline" size="sm" onClick={() => patientLog.loadMore()} disabled={patientLog.isLoading}>
+                {patientLog.isLoading ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
         </div>
       ) : (
         <div className="text-center py-12">
@@ -255,7 +259,7 @@ const AuditTrail: React.FC<AuditTrailProps> = ({
           <h3 className="text-lg font-medium text-gray-900 mb-2">No audit entries</h3>
           <p className="text-gray-600">
             {recordId 
-              ? 'This record has not been accessed by any providers yet'
+              ? 'Nobody else has accessed this record yet'
               : 'No access activity to display'
             }
           </p>
@@ -267,7 +271,7 @@ const AuditTrail: React.FC<AuditTrailProps> = ({
         <div className="mt-6 pt-6 border-t border-gray-200">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="text-center p-4 bg-blue-50 rounded-lg">
-              <div className="text-2xl font-bold text-blue-600">{filteredLogs.length}</div>
+              <div className="text-2xl font-bold text-blue-600">{patientWide ? patientLog.total : filteredLogs.length}</div>
               <p className="text-sm text-blue-700">Total Access Events</p>
             </div>
             <div className="text-center p-4 bg-green-50 rounded-lg">
@@ -278,9 +282,9 @@ const AuditTrail: React.FC<AuditTrailProps> = ({
             </div>
             <div className="text-center p-4 bg-purple-50 rounded-lg">
               <div className="text-2xl font-bold text-purple-600">
-                {new Set(filteredLogs.map(log => log.provider_principal)).size}
+                {new Set(filteredLogs.map(log => log.accessor)).size}
               </div>
-              <p className="text-sm text-purple-700">Unique Providers</p>
+              <p className="text-sm text-purple-700">Unique Users</p>
             </div>
           </div>
         </div>
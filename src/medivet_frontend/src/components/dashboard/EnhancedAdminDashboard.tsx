@@ -1,10 +1,9 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Users,
   FileText,
   Shield,
-  TrendingUp,
-  Activity,
   AlertTriangle,
   CheckCircle,
   XCircle,
@@ -15,51 +14,37 @@ import Card from '../ui/Card';
 import Button from '../ui/Button';
 import Badge from '../ui/Badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/Table';
+import ConfirmationDialog from '../ui/ConfirmationDialog';
+import useAdminStore from '../../stores/useAdminStore';
+import { useToast } from '../../hooks/useToast';
+import { FlaggedRecord, FlagResolution } from '../../types';
 
-// Mock admin data
-const mockAdminStats = {
-  totalUsers: 1247,
-  totalRecords: 8934,
-  flaggedRecords: 12,
-  systemHealth: 98.5
-};
-
-const mockFlaggedRecords = [
-  {
-    id: 1,
-    title: 'Suspicious Lab Results',
-    patient: 'Anonymous User #1234',
-    flaggedBy: 'AI System',
-    reason: 'Potential data inconsistency',
-    date: new Date(Date.now() - 86400000 * 1).toISOString(),
-    status: 'Under Review'
-  },
-  {
-    id: 2,
-    title: 'Duplicate Medical History',
-    patient: 'Anonymous User #5678',
-    flaggedBy: 'Provider Report',
-    reason: 'Duplicate content detected',
-    date: new Date(Date.now() - 86400000 * 2).toISOString(),
-    status: 'Resolved'
-  }
-];
+const recordTitle = (record: FlaggedRecord) => record.title || `Record #${record.record_id}`;
 
 const EnhancedAdminDashboard: React.FC = () => {
+  const navigate = useNavigate();
+  const { stats, flaggedRecords, isLoading, fetchStats, fetchFlaggedRecords, resolveFlag } = useAdminStore();
+  const { showSuccess, showError } = useToast();
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [removing, setRemoving] = useState<FlaggedRecord | null>(null);
+
+  useEffect(() => {
+    fetchStats();
+    fetchFlaggedRecords();
+  }, [fetchStats, fetchFlaggedRecords]);
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    // Simulate refresh
-    setTimeout(() => setIsRefreshing(false), 2000);
+    await Promise.all([fetchStats(), fetchFlaggedRecords()]);
+    setIsRefreshing(false);
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'Resolved': return 'success';
-      case 'Under Review': return 'warning';
-      case 'Escalated': return 'destructive';
-      default: return 'secondary';
+  const handleResolveFlag = async (record: FlaggedRecord, resolution: FlagResolution) => {
+    try {
+      await resolveFlag(record.record_id, resolution);
+      showSuccess(resolution === 'Cleared' ? 'Flag cleared' : 'Record removed', recordTitle(record));
+    } catch (error: any) {
+      showError('Could not resolve flag', error.message);
     }
   };
 
@@ -82,7 +67,7 @@ const EnhancedAdminDashboard: React.FC = () => {
             <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
-          <Button variant="outline">
+          <Button variant="outline" onClick={() => navigate('/admin')}>
             <Settings className="mr-2 h-4 w-4" />
             Settings
           </Button>
@@ -95,8 +80,10 @@ const EnhancedAdminDashboard: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Total Users</p>
-              <div className="text-2xl font-bold text-gray-900">{mockAdminStats.totalUsers.toLocaleString()}</div>
-              <p className="text-xs text-gray-500 mt-1">+12% this month</p>
+              <div className="text-2xl font-bold text-gray-900">{stats?.total_users.toLocaleString() ?? '—'}</div>
+              <p className="text-xs text-gray-500 mt-1">
+                {stats ? `${stats.patients} patients · ${stats.providers} providers` : 'Loading...'}
+              </p>
             </div>
             <div className="h-12 w-12 bg-blue-100 rounded-lg flex items-center justify-center">
               <Users className="h-6 w-6 text-blue-600" />
@@ -108,8 +95,10 @@ const EnhancedAdminDashboard: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Total Records</p>
-              <div className="text-2xl font-bold text-green-600">{mockAdminStats.totalRecords.toLocaleString()}</div>
-              <p className="text-xs text-gray-500 mt-1">+8% this month</p>
+              <div className="text-2xl font-bold text-green-600">{stats?.total_records.toLocaleString() ?? '—'}</div>
+              <p className="text-xs text-gray-500 mt-1">
+                {stats ? `${stats.active_listings} listed on the marketplace` : 'Loading...'}
+              </p>
             </div>
             <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center">
               <FileText className="h-6 w-6 text-green-600" />
@@ -121,7 +110,7 @@ const EnhancedAdminDashboard: React.FC = () => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Flagged Records</p>
-              <div className="text-2xl font-bold text-red-600">{mockAdminStats.flaggedRecords}</div>
+              <div className="text-2xl font-bold text-red-600">{stats?.flagged_records ?? '—'}</div>
               <p className="text-xs text-gray-500 mt-1">Needs attention</p>
             </div>
             <div className="h-12 w-12 bg-red-100 rounded-lg flex items-center justify-center">
@@ -133,12 +122,14 @@ const EnhancedAdminDashboard: React.FC = () => {
         <Card className="p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">System Health</p>
-              <div className="text-2xl font-bold text-green-600">{mockAdminStats.systemHealth}%</div>
-              <p className="text-xs text-gray-500 mt-1">All systems operational</p>
+              <p className="text-sm font-medium text-gray-600">Verified Providers</p>
+              <div className="text-2xl font-bold text-green-600">{stats?.whitelisted_providers ?? '—'}</div>
+              <p className="text-xs text-gray-500 mt-1">
+                {stats ? `${stats.suspended_users} suspended users` : 'Loading...'}
+              </p>
             </div>
             <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center">
-              <Activity className="h-6 w-6 text-green-600" />
+              <Shield className="h-6 w-6 text-green-600" />
             </div>
           </div>
         </Card>
@@ -154,48 +145,76 @@ const EnhancedAdminDashboard: React.FC = () => {
           <p className="text-gray-600 mt-1">Records requiring moderation review</p>
         </div>
 
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead>Record</TableHead>
-              <TableHead>Patient</TableHead>
-              <TableHead>Flagged By</TableHead>
-              <TableHead>Reason</TableHead>
-              <TableHead>Date</TableHead>
-              <TableHead>Status</TableHead>
-              <TableHead>Actions</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {mockFlaggedRecords.map((record) => (
-              <TableRow key={record.id}>
-                <TableCell className="font-medium">{record.title}</TableCell>
-                <TableCell>{record.patient}</TableCell>
-                <TableCell>{record.flaggedBy}</TableCell>
-                <TableCell>{record.reason}</TableCell>
-                <TableCell>{new Date(record.date).toLocaleDateString()}</TableCell>
-                <TableCell>
-                  <Badge variant={getStatusColor(record.status) as any}>
-                    {record.status}
-                  </Badge>
-                </TableCell>
-                <TableCell>
-                  <div className="flex space-x-2">
-                    <Button variant="ghost" size="sm">
-                      <CheckCircle className="h-3 w-3 mr-1" />
-                      Approve
-                    </Button>
-                    <Button variant="ghost" size="sm">
-                      <XCircle className="h-3 w-3 mr-1" />
-                      Remove
-                    </Button>
-                  </div>
-                </TableCell>
+        {flaggedRecords.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No flagged records</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Record</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Patient</TableHead>
+                <TableHead>Flagged</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
               </TableRow>
-            ))}
-          </TableBody>
-        </Table>
+            </TableHeader>
+            <TableBody>
+              {flaggedRecords.map((record) => (
+                <TableRow key={record.record_id}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center space-x-2">
+                      <FileText className="h-4 w-4 text-gray-400" />
+                      <span>{recordTitle(record)}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>{record.category}</TableCell>
+                  <TableCell>
+                    <span className="font-mono text-xs text-gray-600">{record.owner.slice(0, 10)}...</span>
+                  </TableCell>
+                  <TableCell>
+                    {record.flagged_at !== null ? new Date(record.flagged_at / 1_000_000).toLocaleDateString() : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="warning">Under Review</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isLoading}
+                        onClick={() => handleResolveFlag(record, 'Cleared')}
+                      >
+                        <CheckCircle className="h-3 w-3 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isLoading}
+                        onClick={() => setRemoving(record)}
+                      >
+                        <XCircle className="h-3 w-3 mr-1" />
+                        Remove
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
       </Card>
+
+      <ConfirmationDialog
+        open={removing !== null}
+        onOpenChange={(open) => { if (!open) setRemoving(null); }}
+        title="Remove Record?"
+        description={removing ? `"${recordTitle(removing)}" will be permanently removed along with its listings and share links.` : ''}
+        onConfirm={() => { if (removing) handleResolveFlag(removing, 'Removed'); }}
+        variant="destructive"
+      />
     </div>
   );
 };
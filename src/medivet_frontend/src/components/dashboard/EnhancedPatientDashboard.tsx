@@ -10,7 +10,9 @@ import {
   Activity,
   Shield,
   RefreshCw,
-  Plus
+  Plus,
+  Download,
+  FileUp
 } from 'lucide-react';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
@@ -26,8 +28,12 @@ import ViewRecordModal from '../modals/ViewRecordModal';
 import AiInsightConsentModal from '../modals/AiInsightConsentModal';
 import AiInsightResultModal from '../modals/AiInsightResultModal';
 import WithdrawalModal from '../modals/WithdrawalModal';
+import ImportRecordsModal from '../modals/ImportRecordsModal';
+import PermissionRequestsInbox from './PermissionRequestsInbox';
 import { HealthRecord } from '../../types';
 import { usePolling } from '../../hooks/usePolling';
+import { useToast } from '../../hooks/useToast';
+import { fhirService } from '../../services/fhirService';
 
 // Mock data for enhanced features
 const mockMarketData = {
@@ -43,10 +49,13 @@ const EnhancedPatientDashboard: React.FC = () => {
   const { 
     records, 
     fetchRecords, 
+    decryptHealthRecord,
     isLoading: recordsLoading 
   } = useHealthRecordStore();
+  const { showSuccess, showError, showWarning } = useToast();
   
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
   const [showViewModal, setShowViewModal] = useState(false);
   const [showAiConsentModal, setShowAiConsentModal] = useState(false);
@@ -55,6 +64,7 @@ const EnhancedPatientDashboard: React.FC = () => {
   const [selectedRecordId, setSelectedRecordId] = useState<number | null>(null);
   const [selectedRecord, setSelectedRecord] = useState<HealthRecord | null>(null);
   const [aiInsightData, setAiInsightData] = useState<any>(null);
+  const [isExporting, setIsExporting] = useState(false);
 
   // Add polling support
   const { refresh, isRefreshing } = usePolling({
@@ -105,6 +115,31 @@ const EnhancedPatientDashboard: React.FC = () => {
     console.log('🚀 Setting showShareModal to true');
   };
 
+  // Decrypts every record locally and downloads a FHIR R4 Bundle; plaintext never leaves the browser
+  const handleExportFhir = async () => {
+    if (!principal) return;
+    setIsExporting(true);
+    try {
+      const decryptedRecords = await Promise.all(
+        records.map(record => (record.body ? record : decryptHealthRecord(record)))
+      );
+      const skipped = decryptedRecords.filter(record => !record.body).length;
+      const bundle = fhirService.buildPatientBundle(principal, patientProfile, decryptedRecords);
+      fhirService.downloadBundle(bundle);
+
+      if (skipped > 0) {
+        showWarning('Export Incomplete', `${skipped} record(s) could not be decrypted and were left out of the export.`);
+      } else {
+        showSuccess('FHIR Export Ready', `Exported ${bundle.entry.length} resources.`);
+      }
+    } catch (error) {
+      console.error('FHIR export failed:', error);
+      showError('Export Failed', error instanceof Error ? error.message : 'Unable to export records');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleAiInsightGenerated = (insight: any) => {
     setAiInsightData(insight);
     setShowAiResultModal(true);
@@ -150,6 +185,13 @@ const EnhancedPatientDashboard: React.FC = () => {
             <Upload className="mr-2 h-4 w-4" />
             Upload Record
           </Button>
+          <Button
+            onClick={() => setShowImportModal(true)}
+            variant="outline"
+          >
+            <FileUp className="mr-2 h-4 w-4" />
+            Import Records
+          </Button>
           <Button
             onClick={() => setShowWithdrawalModal(true)}
             variant="outline"
@@ -157,6 +199,14 @@ const EnhancedPatientDashboard: React.FC = () => {
             <DollarSign className="mr-2 h-4 w-4" />
             Withdraw Funds
           </Button>
+          <Button
+            onClick={handleExportFhir}
+            variant="outline"
+            disabled={isExporting || !principal}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            {isExporting ? 'Exporting...' : 'Export FHIR'}
+          </Button>
           <Button
             onClick={refresh}
             variant="outline"
@@ -231,6 +281,9 @@ const EnhancedPatientDashboard: React.FC = () => {
         </Card>
       </div>
 
+      {/* Provider access requests */}
+      <PermissionRequestsInbox />
+
       {/* AI Health Insights Card */}
       <Card className="p-6">
         <div className="mb-4">
@@ -362,6 +415,11 @@ const EnhancedPatientDashboard: React.FC = () => {
         onOpenChange={setShowUploadModal}
       />
       
+      <ImportRecordsModal
+        open={showImportModal}
+        onOpenChange={setShowImportModal}
+      />
+
       <ShareModal
         open={showShareModal}
         onOpenChange={setShowShareModal}
@@ -11,7 +11,9 @@ import {
   Calendar,
   RefreshCw,
   Filter,
-  Download
+  Download,
+  KeyRound,
+  ShieldAlert
 } from 'lucide-react';
 import Card from '../ui/Card';
 import Button from '../ui/Button';
@@ -22,8 +24,14 @@ import useAuthStore from '../../stores/useAuthStore';
 import useProfileStore from '../../stores/useProfileStore';
 import useProviderStore from '../../stores/useProviderStore';
 import useHealthRecordStore from '../../stores/useHealthRecordStore';
+import useEmergencyAccessStore from '../../stores/useEmergencyAccessStore';
+import { ACCESS_ACTION_LABELS } from '../../stores/useAccessLogStore';
 import { usePolling } from '../../hooks/usePolling';
 import TestProviderData from '../TestProviderData';
+import RequestPermissionModal from '../modals/RequestPermissionModal';
+import BreakGlassModal from '../modals/BreakGlassModal';
+import OutgoingPermissionRequests from '../provider/OutgoingPermissionRequests';
+import VerificationStatusCard from '../provider/VerificationStatusCard';
 
 const EnhancedProviderDashboard: React.FC = () => {
   const { principal } = useAuthStore();
@@ -39,6 +47,9 @@ const EnhancedProviderDashboard: React.FC = () => {
 
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
+  const [showRequestModal, setShowRequestModal] = useState(false);
+  const [showBreakGlassModal, setShowBreakGlassModal] = useState(false);
+  const { isWhitelisted, checkWhitelisted } = useEmergencyAccessStore();
 
   // Add polling support
   const { refresh, isRefreshing } = usePolling({
@@ -59,6 +70,12 @@ const EnhancedProviderDashboard: React.FC = () => {
     }
   }, [principal, fetchHealthcareProviderProfile, fetchAccessLogs, fetchMonetizableRecords, fetchSharedRecordsWithoutDecryption]);
 
+  useEffect(() => {
+    if (principal) {
+      checkWhitelisted();
+    }
+  }, [principal, checkWhitelisted]);
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Active': return 'success';
@@ -187,6 +204,16 @@ const EnhancedProviderDashboard: React.FC = () => {
           )}
         </div>
         <div className="flex space-x-3">
+          {isWhitelisted && (
+            <Button variant="danger" onClick={() => setShowBreakGlassModal(true)}>
+              <ShieldAlert className="mr-2 h-4 w-4" />
+              Emergency Access
+            </Button>
+          )}
+          <Button onClick={() => setShowRequestModal(true)}>
+            <KeyRound className="mr-2 h-4 w-4" />
+            Request Access
+          </Button>
           <Button
             onClick={refresh}
             variant="outline"
@@ -198,6 +225,9 @@ const EnhancedProviderDashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Credential verification, until approved */}
+      <VerificationStatusCard />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card className="p-6">
@@ -261,6 +291,9 @@ const EnhancedProviderDashboard: React.FC = () => {
         </Card>
       </div>
 
+      {/* Access requests sent to patients */}
+      <OutgoingPermissionRequests />
+
       {/* Test Component */}
       <TestProviderData />
       
@@ -439,8 +472,10 @@ const EnhancedProviderDashboard: React.FC = () => {
                   <Eye className="h-5 w-5 text-blue-600" />
                 </div>
                 <div>
-                  <p className="font-medium text-gray-900">{log.action} record</p>
-                  <p className="text-sm text-gray-600">Record #{log.record_id} - Amount: {log.paid_amount} MT</p>
+                  <p className="font-medium text-gray-900">{ACCESS_ACTION_LABELS[log.action]}</p>
+                  <p className="text-sm text-gray-600">
+                    {log.record_id !== null ? `Record #${log.record_id}` : 'Patient profile'} - Amount: {log.paid_amount} MT
+                  </p>
                 </div>
               </div>
               <div className="text-right">
@@ -490,6 +525,9 @@ const EnhancedProviderDashboard: React.FC = () => {
           </div>
         </div>
       </Card>
+
+      <RequestPermissionModal open={showRequestModal} onOpenChange={setShowRequestModal} />
+      <BreakGlassModal open={showBreakGlassModal} onOpenChange={setShowBreakGlassModal} />
     </div>
   );
 };
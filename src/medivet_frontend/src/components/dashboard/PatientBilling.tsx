@@ -1,89 +1,106 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import Card from '../ui/Card';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Label from '../ui/Label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/Table';
 import Badge from '../ui/Badge';
-import { DollarSign, TrendingUp, Calendar, FileText } from 'lucide-react';
-
-interface BillingTransaction {
-  id: string;
-  recordTitle: string;
-  date: string;
-  buyer: string;
-  amount: number;
-  status: 'Completed' | 'Pending' | 'Failed';
-}
-
-// Mock data - in real app this would come from stores
-const mockBillingData: BillingTransaction[] = [
-  {
-    id: 'txn_1',
-    recordTitle: 'Annual Physical Exam 2024',
-    date: new Date(Date.now() - 86400000 * 2).toISOString(),
-    buyer: 'Dr. Emily Carter',
-    amount: 75.50,
-    status: 'Completed',
-  },
-  {
-    id: 'txn_2',
-    recordTitle: 'Blood Glucose Monitoring Data',
-    date: new Date(Date.now() - 86400000 * 5).toISOString(),
-    buyer: 'Wellness Research Group',
-    amount: 120.00,
-    status: 'Completed',
-  },
-  {
-    id: 'txn_3',
-    recordTitle: 'Cardiology Consultation Notes',
-    date: new Date(Date.now() - 86400000 * 10).toISOString(),
-    buyer: 'Heartbeat Analytics Inc.',
-    amount: 250.75,
-    status: 'Completed',
-  },
-  {
-    id: 'txn_4',
-    recordTitle: 'Dermatology Photo Set',
-    date: new Date(Date.now() - 86400000 * 15).toISOString(),
-    buyer: 'Dr. John Smith',
-    amount: 95.25,
-    status: 'Pending',
-  },
-];
+import { DollarSign, TrendingUp, AlertTriangle, FileText, Download, RefreshCw } from 'lucide-react';
+import useMarketplaceStore from '../../stores/useMarketplaceStore';
+import useUserMappingStore from '../../stores/useUserMappingStore';
+import { TokenService } from '../../stores/tokenStore';
+import { toCsv, downloadCsv } from '../../utils/csv';
+
+const NS_PER_MS = 1_000_000;
 
 const PatientBilling: React.FC = () => {
-  const totalEarnings = mockBillingData
-    .filter(item => item.status === 'Completed')
-    .reduce((acc, item) => acc + item.amount, 0);
-
-  const completedTransactions = mockBillingData.filter(item => item.status === 'Completed').length;
-
-  const getStatusVariant = (status: string) => {
-    switch (status) {
-      case 'Completed': return 'success';
-      case 'Pending': return 'warning';
-      case 'Failed': return 'destructive';
-      default: return 'secondary';
-    }
+  const { sales, isLoading, error, fetchSales } = useMarketplaceStore();
+  const { getDisplayName } = useUserMappingStore();
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useEffect(() => {
+    fetchSales();
+  }, [fetchSales]);
+
+  // Sales are sorted oldest-first by the store, which the running total relies on
+  const filteredSales = useMemo(() => {
+    const fromMs = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : -Infinity;
+    const toMs = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : Infinity;
+    let runningTotal = BigInt(0);
+    return sales
+      .filter(sale => {
+        const saleMs = sale.purchasedAt / NS_PER_MS;
+        return saleMs >= fromMs && saleMs <= toMs;
+      })
+      .map(sale => {
+        runningTotal += sale.price;
+        return { ...sale, runningTotal };
+      });
+  }, [sales, fromDate, toDate]);
+
+  const totalEarnings = filteredSales.length > 0
+    ? filteredSales[filteredSales.length - 1].runningTotal
+    : BigInt(0);
+
+  const monthStartMs = Date.now() - 30 * 86400000;
+  const last30Days = sales
+    .filter(sale => sale.purchasedAt / NS_PER_MS > monthStartMs)
+    .reduce((acc, sale) => acc + sale.price, BigInt(0));
+
+  const unverifiedCount = filteredSales.filter(sale => sale.status === 'Unverified').length;
+
+  const handleExportCsv = () => {
+    const csv = toCsv(
+      ['Date', 'Record', 'Buyer', 'Buyer Principal', 'Amount (MDT)', 'Running Total (MDT)', 'Ledger Tx', 'Status'],
+      filteredSales.map(sale => [
+        new Date(sale.purchasedAt / NS_PER_MS).toISOString(),
+        sale.recordTitle,
+        getDisplayName(sale.buyerId),
+        sale.buyerId,
+        TokenService.formatTokenAmount(sale.price),
+        TokenService.formatTokenAmount(sale.runningTotal),
+        sale.ledgerTxIndex,
+        sale.status,
+      ])
+    );
+    const range = [fromDate || 'start', toDate || 'today'].join('_to_');
+    downloadCsv(csv, `medivet-earnings-${range}.csv`);
   };
 
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900">Billing History</h1>
-        <p className="text-gray-600 mt-1">
-          Review your earnings from monetized health records.
-        </p>
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Billing History</h1>
+          <p className="text-gray-600 mt-1">
+            Review your earnings from monetized health records.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => fetchSales()} disabled={isLoading}>
+          <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
       </div>
 
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card className="p-6">
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-gray-600">Total Earnings</p>
-              <div className="text-2xl font-bold text-green-600">${totalEarnings.toFixed(2)}</div>
+              <div className="text-2xl font-bold text-green-600">
+                {TokenService.formatTokenAmount(totalEarnings)} MDT
+              </div>
               <p className="text-xs text-gray-500 mt-1">
-                from {completedTransactions} completed transactions
+                from {filteredSales.length} sales{fromDate || toDate ? ' in selected range' : ''}
               </p>
             </div>
             <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center">
@@ -95,16 +112,12 @@ const PatientBilling: React.FC = () => {
         <Card className="p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">This Month</p>
+              <p className="text-sm font-medium text-gray-600">Last 30 Days</p>
               <div className="text-2xl font-bold text-blue-600">
-                ${mockBillingData
-                  .filter(item => item.status === 'Completed' &&
-                    new Date(item.date) > new Date(Date.now() - 30 * 86400000))
-                  .reduce((acc, item) => acc + item.amount, 0)
-                  .toFixed(2)}
+                {TokenService.formatTokenAmount(last30Days)} MDT
               </div>
               <p className="text-xs text-gray-500 mt-1">
-                +12% from last month
+                across all records
               </p>
             </div>
             <div className="h-12 w-12 bg-blue-100 rounded-lg flex items-center justify-center">
@@ -116,19 +129,14 @@ const PatientBilling: React.FC = () => {
         <Card className="p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">Pending</p>
-              <div className="text-2xl font-bold text-yellow-600">
-                ${mockBillingData
-                  .filter(item => item.status === 'Pending')
-                  .reduce((acc, item) => acc + item.amount, 0)
-                  .toFixed(2)}
-              </div>
+              <p className="text-sm font-medium text-gray-600">Unverified</p>
+              <div className="text-2xl font-bold text-yellow-600">{unverifiedCount}</div>
               <p className="text-xs text-gray-500 mt-1">
-                {mockBillingData.filter(item => item.status === 'Pending').length} transactions
+                sales without a matching ledger transfer
               </p>
             </div>
             <div className="h-12 w-12 bg-yellow-100 rounded-lg flex items-center justify-center">
-              <Calendar className="h-6 w-6 text-yellow-600" />
+              <AlertTriangle className="h-6 w-6 text-yellow-600" />
             </div>
           </div>
         </Card>
@@ -136,35 +144,66 @@ const PatientBilling: React.FC = () => {
 
       {/* Transaction History */}
       <Card className="p-6">
-        <div className="mb-6">
-          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
-            <FileText className="h-5 w-5 mr-2" />
-            Transaction History
-          </h2>
-          <p className="text-gray-600 mt-1">A log of all your data sales.</p>
+        <div className="mb-6 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+              <FileText className="h-5 w-5 mr-2" />
+              Transaction History
+            </h2>
+            <p className="text-gray-600 mt-1">A log of all your data sales, settled in MDT on the MediToken ledger.</p>
+          </div>
+          <div className="flex items-end gap-3">
+            <div>
+              <Label htmlFor="billing-from">From</Label>
+              <Input id="billing-from" type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="billing-to">To</Label>
+              <Input id="billing-to" type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            {(fromDate || toDate) && (
+              <Button variant="ghost" onClick={() => { setFromDate(''); setToDate(''); }}>
+                Clear
+              </Button>
+            )}
+            <Button variant="outline" onClick={handleExportCsv} disabled={filteredSales.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
         </div>
 
         <div className="overflow-hidden">
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead>Date</TableHead>
                 <TableHead>Record</TableHead>
                 <TableHead>Buyer</TableHead>
                 <TableHead className="text-right">Amount</TableHead>
-                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Running Total</TableHead>
+                <TableHead>Ledger Tx</TableHead>
                 <TableHead>Status</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {mockBillingData.map((item) => (
-                <TableRow key={item.id}>
-                  <TableCell className="font-medium">{item.recordTitle}</TableCell>
-                  <TableCell>{item.buyer}</TableCell>
-                  <TableCell className="text-right font-medium">${item.amount.toFixed(2)}</TableCell>
-                  <TableCell>{new Date(item.date).toLocaleDateString()}</TableCell>
+              {filteredSales.map((sale) => (
+                <TableRow key={sale.purchaseId}>
+                  <TableCell>{new Date(sale.purchasedAt / NS_PER_MS).toLocaleDateString()}</TableCell>
+                  <TableCell className="font-medium">{sale.recordTitle}</TableCell>
+                  <TableCell>
+                    <span title={sale.buyerId}>{getDisplayName(sale.buyerId)}</span>
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {TokenService.formatTokenAmount(sale.price)} MDT
+                  </TableCell>
+                  <TableCell className="text-right text-gray-600">
+                    {TokenService.formatTokenAmount(sale.runningTotal)} MDT
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">#{sale.ledgerTxIndex}</TableCell>
                   <TableCell>
-                    <Badge variant={getStatusVariant(item.status) as any}>
-                      {item.status}
+                    <Badge variant={sale.status === 'Confirmed' ? 'success' : 'warning'}>
+                      {sale.status}
                     </Badge>
                   </TableCell>
                 </TableRow>
@@ -173,12 +212,16 @@ const PatientBilling: React.FC = () => {
           </Table>
         </div>
 
-        {mockBillingData.length === 0 && (
+        {!isLoading && filteredSales.length === 0 && (
           <div className="text-center py-12">
             <DollarSign className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No transactions yet</h3>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {sales.length > 0 ? 'No sales in this date range' : 'No transactions yet'}
+            </h3>
             <p className="text-gray-600">
-              Start monetizing your health records to see transactions here.
+              {sales.length > 0
+                ? 'Adjust the date filters to see more of your earnings.'
+                : 'Start monetizing your health records to see transactions here.'}
             </p>
           </div>
         )}
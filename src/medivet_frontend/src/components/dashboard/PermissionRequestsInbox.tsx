@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { Inbox, Check, X, Clock } from 'lucide-react';
+import { formatDistance } from 'date-fns';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import Checkbox from '../ui/Checkbox';
+import Textarea from '../ui/Textarea';
+import Label from '../ui/Label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/Dialog';
+import usePermissionRequestStore from '../../stores/usePermissionRequestStore';
+import useHealthRecordStore from '../../stores/useHealthRecordStore';
+import useUserMappingStore from '../../stores/useUserMappingStore';
+import { PermissionRequest, PermissionRequestStatus } from '../../types';
+import { PERMISSION_LABELS, describeSharingContext } from '../../utils/permissions';
+import { useToast } from '../../hooks/useToast';
+
+const NS_PER_MS = 1_000_000;
+const RECENT_HISTORY = 5;
+
+const STATUS_VARIANTS: Record<PermissionRequestStatus, 'default' | 'secondary' | 'destructive' | 'success' | 'warning'> = {
+  Pending: 'warning',
+  Approved: 'success',
+  Denied: 'destructive',
+  Expired: 'secondary',
+  Cancelled: 'secondary',
+};
+
+const PermissionRequestsInbox: React.FC = () => {
+  const { incomingRequests, fetchIncomingRequests, approveRequest, denyRequest, error } = usePermissionRequestStore();
+  const { records } = useHealthRecordStore();
+  const { getDisplayName } = useUserMappingStore();
+  const { showSuccess, showError } = useToast();
+
+  const [activeRequest, setActiveRequest] = useState<PermissionRequest | null>(null);
+  const [mode, setMode] = useState<'approve' | 'deny'>('approve');
+  const [selectedRecords, setSelectedRecords] = useState<Set<number>>(new Set());
+  const [response, setResponse] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchIncomingRequests();
+  }, [fetchIncomingRequests]);
+
+  const pending = incomingRequests.filter(r => r.status === 'Pending');
+  const history = incomingRequests.filter(r => r.status !== 'Pending').slice(0, RECENT_HISTORY);
+
+  const openDialog = (request: PermissionRequest, nextMode: 'approve' | 'deny') => {
+    setActiveRequest(request);
+    setMode(nextMode);
+    setSelectedRecords(new Set());
+    setResponse('');
+  };
+
+  const toggleRecord = (recordId: number) => {
+    setSelectedRecords(prev => {
+      const next = new Set(prev);
+      if (next.has(recordId)) {
+        next.delete(recordId);
+      } else {
+        next.add(recordId);
+      }
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!activeRequest) return;
+    setSubmitting(true);
+    try {
+      if (mode === 'approve') {
+        await approveRequest(activeRequest, Array.from(selectedRecords), response.trim() || undefined);
+        showSuccess('Access granted', `Shared ${selectedRecords.size} record(s) with ${getDisplayName(activeRequest.requester)}.`);
+      } else {
+        await denyRequest(activeRequest.id, response.trim() || undefined);
+        showSuccess('Request denied');
+      }
+      setActiveRequest(null);
+    } catch (err: any) {
+      showError(mode === 'approve' ? 'Approval failed' : 'Denial failed', err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatExpiry = (request: PermissionRequest) =>
+    request.requested_expiry !== null
+      ? new Date(request.requested_expiry / NS_PER_MS).toLocaleDateString()
+      : 'No expiry';
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <Inbox className="h-5 w-5 mr-2" />
+          Access Requests
+          {pending.length > 0 && (
+            <Badge variant="warning" className="ml-2">{pending.length} pending</Badge>
+          )}
+        </h2>
+        <Button variant="ghost" size="sm" onClick={() => fetchIncomingRequests()}>
+          Refresh
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {pending.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">No pending requests from providers.</p>
+      ) : (
+        <div className="space-y-3">
+          {pending.map(request => (
+            <div key={request.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex justify-between items-start gap-4">
+                <div className="space-y-1">
+                  <p className="font-medium text-gray-900" title={request.requester}>
+                    {getDisplayName(request.requester)}
+                  </p>
+                  <p className="text-sm text-gray-600">{request.purpose}</p>
+                  <p className="text-xs text-gray-500">
+                    {describeSharingContext(request.context)} • Until: {formatExpiry(request)} • Requested{' '}
+                    {formatDistance(new Date(request.requested_at / NS_PER_MS), new Date(), { addSuffix: true })}
+                  </p>
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {request.requested_permissions.map(permission => (
+                      <Badge key={permission} variant="secondary" className="text-xs">
+                        {PERMISSION_LABELS[permission]}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex space-x-2 shrink-0">
+                  <Button size="sm" onClick={() => openDialog(request, 'approve')}>
+                    <Check className="h-3 w-3 mr-1" />
+                    Approve
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => openDialog(request, 'deny')}>
+                    <X className="h-3 w-3 mr-1" />
+                    Deny
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+            <Clock className="h-4 w-4 mr-1" />
+            Recent decisions
+          </h3>
+          <ul className="divide-y divide-gray-100">
+            {history.map(request => (
+              <li key={request.id} className="py-2 flex justify-between items-center text-sm">
+                <span className="text-gray-700" title={request.requester}>
+                  {getDisplayName(request.requester)} — {describeSharingContext(request.context)}
+                </span>
+                <Badge variant={STATUS_VARIANTS[request.status]}>{request.status}</Badge>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Dialog open={activeRequest !== null} onOpenChange={(open) => { if (!open) setActiveRequest(null); }}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{mode === 'approve' ? 'Approve Access Request' : 'Deny Access Request'}</DialogTitle>
+            <DialogDescription>
+              {activeRequest && (mode === 'approve'
+                ? `Choose which records ${getDisplayName(activeRequest.requester)} may access with the requested permissions.`
+                : `${getDisplayName(activeRequest.requester)} will be notified that the request was denied.`)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 mt-4">
+            {mode === 'approve' && (
+              <div>
+                <Label>Records to share</Label>
+                {records.length === 0 ? (
+                  <p className="text-sm text-gray-500 mt-2">You have no records to share yet.</p>
+                ) : (
+                  <div className="max-h-56 overflow-y-auto border border-gray-200 rounded-md mt-2 divide-y divide-gray-100">
+                    {records.map(record => (
+                      <label key={record.id} className="flex items-center space-x-3 px-3 py-2 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={selectedRecords.has(record.id)}
+                          onCheckedChange={() => toggleRecord(record.id)}
+                        />
+                        <span className="flex-1">{record.title}</span>
+                        <Badge variant="secondary" className="text-xs">{record.category}</Badge>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="request-response">Message to provider (optional)</Label>
+              <Textarea
+                id="request-response"
+                value={response}
+                onChange={(e) => setResponse(e.target.value)}
+                rows={2}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={() => setActiveRequest(null)} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button
+                variant={mode === 'approve' ? 'primary' : 'danger'}
+                onClick={handleConfirm}
+                disabled={submitting || (mode === 'approve' && selectedRecords.size === 0)}
+              >
+                {submitting ? 'Saving...' : mode === 'approve' ? `Share ${selectedRecords.size} record(s)` : 'Deny Request'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default PermissionRequestsInbox;
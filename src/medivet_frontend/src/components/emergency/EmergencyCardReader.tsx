@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, ShieldAlert, WifiOff, Lock } from 'lucide-react';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import Input from '../ui/Input';
+import EmergencyCardView from './EmergencyCardView';
+import useEmergencyCardStore from '../../stores/useEmergencyCardStore';
+import { VerifiedEmergencyCard, decodeEmergencyCard, isPinProtectedCard } from '../../utils/emergencyCard';
+
+type OnlineCheck =
+  | { status: 'checking' }
+  | { status: 'offline' }
+  | { status: 'current' }
+  | { status: 'stale' }
+  | { status: 'revoked' }
+  | { status: 'failed'; error: string };
+
+const ONLINE_BADGES = {
+  checking: <Badge variant="secondary">Checking registration...</Badge>,
+  offline: <Badge variant="warning">Unverified: offline</Badge>,
+  current: (
+    <Badge variant="success">
+      <ShieldCheck className="h-3 w-3 mr-1 inline" />
+      Verified with MediVet
+    </Badge>
+  ),
+  stale: <Badge variant="warning">Out of date</Badge>,
+  revoked: <Badge variant="destructive">Revoked by patient</Badge>,
+  failed: <Badge variant="warning">Unverified: could not reach MediVet</Badge>,
+};
+
+// Public read-only page opened by scanning an emergency card; works without login or network
+const EmergencyCardReader: React.FC = () => {
+  const [encoded, setEncoded] = useState(() => window.location.hash.slice(1));
+  const [pasted, setPasted] = useState('');
+  const [pin, setPin] = useState('');
+  const [needsPin, setNeedsPin] = useState(false);
+  const [card, setCard] = useState<VerifiedEmergencyCard | null>(null);
+  const [decodeError, setDecodeError] = useState<string | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [onlineCheck, setOnlineCheck] = useState<OnlineCheck | null>(null);
+
+  const decode = async (value: string, cardPin?: string) => {
+    setIsDecoding(true);
+    setDecodeError(null);
+    try {
+      if (!cardPin && isPinProtectedCard(value)) {
+        setNeedsPin(true);
+        return;
+      }
+      setCard(await decodeEmergencyCard(value, cardPin));
+      setNeedsPin(false);
+    } catch (err: any) {
+      setDecodeError(err.message);
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
+  useEffect(() => {
+    if (encoded) {
+      decode(encoded);
+    }
+  }, [encoded]);
+
+  // The card's own signature cannot tell a genuine card from a re-signed edit; only the backend's
+  // registration of the signing key shows who generated it and whether it is still current
+  useEffect(() => {
+    if (!card) return;
+    if (!navigator.onLine) {
+      setOnlineCheck({ status: 'offline' });
+      return;
+    }
+    let cancelled = false;
+    setOnlineCheck({ status: 'checking' });
+    useEmergencyCardStore.getState()
+      .checkCard(card.payload.patient, card.payload.card_id, card.publicKey)
+      .then(check => {
+        if (cancelled) return;
+        setOnlineCheck({ status: check.revoked ? 'revoked' : check.stale ? 'stale' : 'current' });
+      })
+      .catch((err: any) => {
+        if (!cancelled) setOnlineCheck({ status: 'failed', error: err.message });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [card]);
+
+  const submitPasted = () => {
+    setCard(null);
+    setPin('');
+    setNeedsPin(false);
+    setEncoded(pasted.trim());
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-xl mx-auto space-y-4">
+        <div className="flex items-center">
+          <img src="/logo2.svg" alt="MediVet Logo" className="h-8 w-auto mr-2" />
+          <h1 className="text-2xl font-bold text-gray-900">Emergency Card Reader</h1>
+        </div>
+
+        {!encoded && (
+          <Card className="p-6">
+            <p className="text-sm text-gray-600 mb-3">
+              Scan a MediVet emergency card with your camera, or paste the card link below.
+            </p>
+            <div className="flex gap-3">
+              <Input value={pasted} onChange={(e) => setPasted(e.target.value)} placeholder="https://.../emergency-card#MVEC1..." />
+              <Button onClick={submitPasted} disabled={!pasted.trim()}>
+                Read
+              </Button>
+            </div>
+          </Card>
+        )}
+
+        {needsPin && !card && (
+          <Card className="p-6">
+            <h2 className="flex items-center font-semibold text-gray-900 mb-2">
+              <Lock className="h-4 w-4 mr-2" />
+              This card is protected with a PIN
+            </h2>
+            <p className="text-sm text-gray-600 mb-3">The patient may carry the PIN on a note with the card.</p>
+            <form
+              className="flex gap-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                decode(encoded, pin);
+              }}
+            >
+              <Input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                value={pin}
+                onChange={(e) => setPin(e.target.value)}
+                placeholder="PIN"
+              />
+              <Button type="submit" disabled={!pin || isDecoding}>
+                {isDecoding ? 'Unlocking...' : 'Unlock'}
+              </Button>
+            </form>
+          </Card>
+        )}
+
+        {decodeError && (
+          <div className="flex items-start text-sm text-red-800 bg-red-50 border border-red-200 rounded-md p-3">
+            <ShieldAlert className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+            <span>{decodeError}</span>
+          </div>
+        )}
+
+        {card && (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              {onlineCheck && ONLINE_BADGES[onlineCheck.status]}
+            </div>
+
+            {onlineCheck?.status === 'offline' && (
+              <p className="flex items-start text-sm text-yellow-800">
+                <WifiOff className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                This card could not be checked with MediVet, so its details are not authenticated: anyone can make a
+                card that reads like this. Treat them as unconfirmed until you are back online.
+              </p>
+            )}
+            {onlineCheck?.status === 'stale' && (
+              <p className="text-sm text-yellow-800">
+                The patient has updated their profile since this card was generated. Some details may be out of date.
+              </p>
+            )}
+            {onlineCheck?.status === 'revoked' && (
+              <p className="text-sm text-red-700">
+                The patient revoked this card. Treat its details with caution.
+              </p>
+            )}
+            {onlineCheck?.status === 'failed' && (
+              <p className="text-sm text-yellow-800">
+                Could not check this card with MediVet ({onlineCheck.error}), so its details are not authenticated.
+                Treat them as unconfirmed.
+              </p>
+            )}
+
+            <EmergencyCardView payload={card.payload} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmergencyCardReader;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { HeartPulse } from 'lucide-react';
+import { EmergencyCardPayload } from '../../utils/emergencyCard';
+
+interface EmergencyCardViewProps {
+  payload: EmergencyCardPayload;
+  qrDataUrl?: string;
+  pinProtected?: boolean;
+}
+
+const Field: React.FC<{ label: string; value: string | null; emphasis?: boolean }> = ({ label, value, emphasis = false }) => (
+  <div>
+    <dt className="text-xs uppercase tracking-wide text-gray-500">{label}</dt>
+    <dd className={`whitespace-pre-wrap ${emphasis ? 'text-lg font-bold text-red-700' : 'text-sm text-gray-900'}`}>
+      {value || 'None recorded'}
+    </dd>
+  </div>
+);
+
+// Card face shared by the printable card and the reader
+const EmergencyCardView: React.FC<EmergencyCardViewProps> = ({ payload, qrDataUrl, pinProtected = false }) => (
+  <div className="border-2 border-red-600 rounded-lg p-4 bg-white max-w-md">
+    <div className="flex items-center justify-between border-b border-red-200 pb-2 mb-3">
+      <h3 className="flex items-center text-red-700 font-bold">
+        <HeartPulse className="h-5 w-5 mr-2" />
+        Emergency Medical Card
+      </h3>
+      <span className="text-xs text-gray-500">MediVet #{payload.card_id}</span>
+    </div>
+
+    <div className="flex gap-4">
+      <dl className="flex-1 space-y-2">
+        <Field label="Name" value={payload.full_name} />
+        {/* A printed PIN-protected card only shows what is on the card face; the details stay in the QR code */}
+        {pinProtected && qrDataUrl ? (
+          <p className="text-sm text-gray-700">
+            Scan the QR code and enter the PIN to read this patient's blood group, allergies, medications and emergency contact.
+          </p>
+        ) : (
+          <>
+            <Field label="Date of birth" value={payload.date_of_birth} />
+            <Field label="Blood group" value={payload.blood_group === 'unknown' ? 'Unknown' : payload.blood_group} emphasis />
+            <Field label="Allergies" value={payload.allergies} />
+            <Field label="Current medications" value={payload.current_medications} />
+            <Field label="Emergency contact" value={payload.emergency_contact} />
+          </>
+        )}
+      </dl>
+      {qrDataUrl && (
+        <div className="flex flex-col items-center">
+          <img src={qrDataUrl} alt="Emergency card QR code" className="w-36 h-36" />
+          {pinProtected && <span className="text-xs text-gray-600 mt-1">Scan requires PIN</span>}
+        </div>
+      )}
+    </div>
+
+    <p className="text-xs text-gray-500 mt-3">
+      Generated {new Date(payload.issued_at).toLocaleDateString()}
+    </p>
+  </div>
+);
+
+export default EmergencyCardView;
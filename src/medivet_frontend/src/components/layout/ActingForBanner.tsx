@@ -0,0 +1,36 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { HeartHandshake } from 'lucide-react';
+import Button from '../ui/Button';
+import useCaregiverStore from '../../stores/useCaregiverStore';
+import useUserMappingStore from '../../stores/useUserMappingStore';
+
+// Shown on every page while the user acts for a dependent, so it is never unclear whose account is in use
+const ActingForBanner: React.FC = () => {
+  const { actingFor, actAs } = useCaregiverStore();
+  const { getDisplayName } = useUserMappingStore();
+  const navigate = useNavigate();
+
+  if (!actingFor) return null;
+
+  const name = actingFor.patient_name ?? getDisplayName(actingFor.delegation.patient);
+
+  const switchBack = async () => {
+    await actAs(null);
+    navigate('/dashboard');
+  };
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200 px-6 py-2 flex items-center justify-between text-sm text-amber-900">
+      <span className="flex items-center">
+        <HeartHandshake className="h-4 w-4 mr-2" />
+        Acting for {name} ({actingFor.delegation.relationship}). Everything you do is recorded in their access log under your name.
+      </span>
+      <Button variant="outline" size="sm" onClick={switchBack}>
+        Back to my account
+      </Button>
+    </div>
+  );
+};
+
+export default ActingForBanner;
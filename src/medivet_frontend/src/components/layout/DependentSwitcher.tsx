@@ -0,0 +1,63 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { HeartHandshake, ChevronDown, Check } from 'lucide-react';
+import Button from '../ui/Button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/DropdownMenu';
+import useCaregiverStore from '../../stores/useCaregiverStore';
+import useUserMappingStore from '../../stores/useUserMappingStore';
+import { Dependent } from '../../types';
+
+// Switches between the user's own account and the patients they are a caregiver for
+const DependentSwitcher: React.FC = () => {
+  const { dependents, actingFor, actAs } = useCaregiverStore();
+  const { getDisplayName } = useUserMappingStore();
+  const navigate = useNavigate();
+
+  if (dependents.length === 0) return null;
+
+  const dependentName = (dependent: Dependent) =>
+    dependent.patient_name ?? getDisplayName(dependent.delegation.patient);
+
+  const switchTo = async (dependent: Dependent | null) => {
+    await actAs(dependent);
+    navigate(dependent ? '/caregiving' : '/dashboard');
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant={actingFor ? 'primary' : 'outline'}
+          size="sm"
+          className="flex items-center space-x-1"
+        >
+          <HeartHandshake className="h-4 w-4" />
+          <span className="hidden md:inline">{actingFor ? dependentName(actingFor) : 'My account'}</span>
+          <ChevronDown className="h-3 w-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuItem onClick={() => switchTo(null)}>
+          <Check className={`mr-2 h-4 w-4 ${actingFor ? 'invisible' : ''}`} />
+          My account
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        {dependents.map(dependent => (
+          <DropdownMenuItem key={dependent.delegation.id} onClick={() => switchTo(dependent)}>
+            <Check className={`mr-2 h-4 w-4 ${actingFor?.delegation.id === dependent.delegation.id ? '' : 'invisible'}`} />
+            <span className="flex-1 truncate">{dependentName(dependent)}</span>
+            <span className="ml-2 text-xs text-gray-500">{dependent.delegation.relationship}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default DependentSwitcher;
@@ -3,6 +3,8 @@ import { Link } from 'react-router-dom';
 import Button from '../ui/Button';
 import { Avatar, AvatarFallback } from '../ui/Avatar';
 import PrincipalPill from '../ui/PrincipalPill';
+import SyncStatusIndicator from './SyncStatusIndicator';
+import DependentSwitcher from './DependentSwitcher';
 import { LogOut, Sun, Moon, User, Settings } from 'lucide-react';
 import {
   DropdownMenu,
@@ -14,14 +16,23 @@ import {
 import useAuthStore from '../../stores/useAuthStore';
 import useProfileStore from '../../stores/useProfileStore';
 import useUserMappingStore from '../../stores/useUserMappingStore';
+import useSyncStore from '../../stores/useSyncStore';
+import useCaregiverStore from '../../stores/useCaregiverStore';
 import { UserRoleValue } from '../../types';
 
 const Header: React.FC = () => {
   const { principal, userRole, logout } = useAuthStore();
   const { patientProfile, healthcareProviderProfile } = useProfileStore();
   const { addOrUpdateUser, getDisplayName } = useUserMappingStore();
+  const { queue } = useSyncStore();
+  const { fetchDependents } = useCaregiverStore();
   const [isDark, setIsDark] = useState(false);
 
+  // Patients who made this user their caregiver, for the account switcher
+  useEffect(() => {
+    if (principal) fetchDependents();
+  }, [principal, fetchDependents]);
+
   // Update user mapping when profile data is available
   useEffect(() => {
     if (!principal) return;
@@ -93,6 +104,12 @@ const Header: React.FC = () => {
   };
 
   const handleLogout = async () => {
+    // Logging out wipes the offline copy, including changes that never reached the network
+    if (queue.length > 0 && !window.confirm(
+      `${queue.length} change(s) made offline have not synced yet and will be lost if you log out. Log out anyway?`
+    )) {
+      return;
+    }
     try {
       await logout();
     } catch (error) {
@@ -135,6 +152,10 @@ const Header: React.FC = () => {
             </div>
           )}
           
+          {principal && <SyncStatusIndicator />}
+          
+          {principal && <DependentSwitcher />}
+          
           <Button
             variant="ghost"
             size="sm"
@@ -1,5 +1,5 @@
 import React from 'react';
-import { useLocation, Link } from 'react-router-dom';
+import { useLocation, useNavigate, Link } from 'react-router-dom';
 import Button from '../ui/Button';
 import {
   FileText,
@@ -11,14 +11,26 @@ import {
   Users,
   CreditCard,
   Store,
-  History
+  History,
+  HeartHandshake
 } from 'lucide-react';
 import useAuthStore from '../../stores/useAuthStore';
+import useCaregiverStore from '../../stores/useCaregiverStore';
+import useUserMappingStore from '../../stores/useUserMappingStore';
+import { Dependent } from '../../types';
 import { UserRoleValue } from '../../types';
 
 const Sidebar: React.FC = () => {
   const { userRole } = useAuthStore();
+  const { dependents, actingFor, actAs } = useCaregiverStore();
+  const { getDisplayName } = useUserMappingStore();
   const location = useLocation();
+  const navigate = useNavigate();
+
+  const openDependent = async (dependent: Dependent) => {
+    await actAs(dependent);
+    navigate('/caregiving');
+  };
 
   const getNavigationItems = () => {
     if (!userRole) return [];
@@ -30,6 +42,7 @@ const Sidebar: React.FC = () => {
           { icon: User, label: 'Profile', path: '/profile' },
           { icon: CreditCard, label: 'Billing', path: '/billing' },
           { icon: Store, label: 'Marketplace', path: '/marketplace' },
+          { icon: History, label: 'Access Log', path: '/access-logs' },
         ];
       case UserRoleValue.HealthcareProvider:
         return [
@@ -73,6 +86,30 @@ const Sidebar: React.FC = () => {
             </Link>
           );
         })}
+
+        {dependents.length > 0 && (
+          <div className="pt-4 mt-4 border-t border-gray-200 space-y-2">
+            <p className="px-3 text-xs font-semibold uppercase tracking-wide text-gray-500">Caring for</p>
+            {dependents.map(dependent => {
+              const isActive = location.pathname === '/caregiving' && actingFor?.delegation.id === dependent.delegation.id;
+              return (
+                <Button
+                  key={dependent.delegation.id}
+                  variant={isActive ? "primary" : "ghost"}
+                  onClick={() => openDependent(dependent)}
+                  className={`w-full justify-start transition-colors duration-200 ${
+                    isActive
+                      ? 'bg-blue-600 text-white shadow-md'
+                      : 'text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  <HeartHandshake className="mr-3 h-4 w-4" />
+                  <span className="truncate">{dependent.patient_name ?? getDisplayName(dependent.delegation.patient)}</span>
+                </Button>
+              );
+            })}
+          </div>
+        )}
       </nav>
     </aside>
   );
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { formatDistance } from 'date-fns';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/Dialog';
+import useSyncStore from '../../stores/useSyncStore';
+import useHealthRecordStore from '../../stores/useHealthRecordStore';
+import PollingService from '../../services/pollingService';
+import { QueuedRecordWrite } from '../../types';
+import { useToast } from '../../hooks/useToast';
+
+const STATUS_BADGES = {
+  pending: <Badge variant="secondary">Waiting</Badge>,
+  conflict: <Badge variant="warning">Conflict</Badge>,
+  failed: <Badge variant="destructive">Failed</Badge>,
+};
+
+const SyncStatusIndicator: React.FC = () => {
+  const {
+    isOffline,
+    isSyncing,
+    queue,
+    unreadableQueues,
+    lastSyncedAt,
+    updateQueuedWrite,
+    removeQueuedWrite,
+    discardUnreadableQueues,
+  } = useSyncStore();
+  const { records, fetchRecords } = useHealthRecordStore();
+  const { showSuccess, showError } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const pendingCount = queue.filter(write => write.status === 'pending').length;
+  const attentionCount = queue.length - pendingCount + unreadableQueues;
+
+  const syncNow = async () => {
+    try {
+      await PollingService.getInstance().syncPendingWrites();
+    } catch (err: any) {
+      showError('Sync failed', err.message);
+    }
+  };
+
+  // Overwriting rebases the edit on the record's current version so the replay accepts it
+  const retry = async (write: QueuedRecordWrite) => {
+    const current = write.kind === 'update' ? records.find(r => r.id === write.record_id) : undefined;
+    await updateQueuedWrite(write.id, { status: 'pending', error: null, base_updated_at: current?.updated_at });
+    await syncNow();
+  };
+
+  const discard = async (write: QueuedRecordWrite) => {
+    try {
+      await removeQueuedWrite(write.id);
+      // Reload to drop the discarded content from the list; falls back to the offline copy
+      await fetchRecords();
+      showSuccess('Change discarded');
+    } catch (err: any) {
+      showError('Could not discard change', err.message);
+    }
+  };
+
+  const dismissUnreadable = async () => {
+    try {
+      await discardUnreadableQueues();
+    } catch (err: any) {
+      showError('Could not discard unreadable changes', err.message);
+    }
+  };
+
+  const describe = (write: QueuedRecordWrite) => {
+    if (write.kind === 'create') {
+      return `New record “${write.title}”`;
+    }
+    const record = records.find(r => r.id === write.record_id);
+    return `Edit to “${record?.title ?? `record ${write.record_id}`}”`;
+  };
+
+  let icon = <Cloud className="h-4 w-4 text-green-600" />;
+  let label = 'Synced';
+  if (isSyncing) {
+    icon = <RefreshCw className="h-4 w-4 animate-spin text-blue-600" />;
+    label = 'Syncing...';
+  } else if (attentionCount > 0) {
+    icon = <AlertTriangle className="h-4 w-4 text-yellow-600" />;
+    label = `${attentionCount} need${attentionCount === 1 ? 's' : ''} attention`;
+  } else if (isOffline) {
+    icon = <CloudOff className="h-4 w-4 text-gray-500" />;
+    label = pendingCount > 0 ? `Offline · ${pendingCount} pending` : 'Offline';
+  } else if (pendingCount > 0) {
+    icon = <RefreshCw className="h-4 w-4 text-blue-600" />;
+    label = `${pendingCount} pending`;
+  }
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" onClick={() => setOpen(true)} className="flex items-center space-x-2" title="Sync status">
+        {icon}
+        <span className="hidden lg:inline text-sm">{label}</span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Sync Status</DialogTitle>
+            <DialogDescription>
+              {isOffline
+                ? 'The network is unreachable. You are viewing the encrypted copy saved on this device, and new changes will be sent when the connection returns.'
+                : lastSyncedAt
+                  ? `Last synced ${formatDistance(new Date(lastSyncedAt), new Date(), { addSuffix: true })}.`
+                  : 'All changes are saved to the network.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {unreadableQueues > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded p-3 mt-2">
+              <p className="text-sm text-yellow-800">
+                Changes you made offline earlier could not be synced: the key that protects them on this device was
+                removed. Please re-enter them.
+              </p>
+              <div className="flex justify-end mt-2">
+                <Button variant="ghost" size="sm" onClick={dismissUnreadable}>
+                  Dismiss
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {queue.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4 text-center">No changes are waiting to sync.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 mt-2">
+              {queue.map(write => (
+                <li key={write.id} className="py-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900">{describe(write)}</span>
+                    {STATUS_BADGES[write.status]}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Made {formatDistance(new Date(write.queued_at), new Date(), { addSuffix: true })}
+                    {write.error && <span className="text-red-600"> · {write.error}</span>}
+                  </p>
+                  {write.status !== 'pending' && (
+                    <div className="flex justify-end space-x-2 mt-2">
+                      {(write.status === 'failed' || (write.kind === 'update' && records.some(r => r.id === write.record_id))) && (
+                        <Button variant="outline" size="sm" disabled={isSyncing || isOffline} onClick={() => retry(write)}>
+                          {write.status === 'conflict' ? 'Overwrite' : 'Retry'}
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" disabled={isSyncing} onClick={() => discard(write)}>
+                        Discard
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-4">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Close
+            </Button>
+            <Button onClick={syncNow} disabled={isSyncing || pendingCount === 0}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+              Sync Now
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SyncStatusIndicator;
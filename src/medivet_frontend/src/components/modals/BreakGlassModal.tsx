@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Principal } from '@dfinity/principal';
+import { ShieldAlert, Clock } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/Dialog';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Label from '../ui/Label';
+import Checkbox from '../ui/Checkbox';
+import Textarea from '../ui/Textarea';
+import useEmergencyAccessStore from '../../stores/useEmergencyAccessStore';
+import useProfileStore from '../../stores/useProfileStore';
+import { EmergencyAccessEvent } from '../../types';
+import { useToast } from '../../hooks/useToast';
+
+interface BreakGlassModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Mirrors EMERGENCY_JUSTIFICATION_MIN_CHARS in the backend
+const MIN_JUSTIFICATION_CHARS = 20;
+const NS_PER_MS = 1_000_000;
+const SEVERITIES = ['Critical', 'High', 'Moderate'];
+
+interface EmergencyProfileFields {
+  fullName: string | null;
+  dob: string | null;
+  contact: string | null;
+  emergency: string | null;
+  medicalHistory: string | null;
+  allergies: string | null;
+  medications: string | null;
+}
+
+const fromOpt = (value: [] | [string]): string | null => (value.length ? value[0] : null);
+
+const BreakGlassModal: React.FC<BreakGlassModalProps> = ({ open, onOpenChange }) => {
+  const { breakGlass, isLoading } = useEmergencyAccessStore();
+  const { getPatientProfileWithPermissions } = useProfileStore();
+  const { showError, showWarning } = useToast();
+
+  const [patientPrincipal, setPatientPrincipal] = useState('');
+  const [severity, setSeverity] = useState(SEVERITIES[0]);
+  const [justification, setJustification] = useState('');
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [grant, setGrant] = useState<EmergencyAccessEvent | null>(null);
+  const [profile, setProfile] = useState<EmergencyProfileFields | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setPatientPrincipal('');
+      setSeverity(SEVERITIES[0]);
+      setJustification('');
+      setAcknowledged(false);
+      setFormError(null);
+      setGrant(null);
+      setProfile(null);
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    try {
+      Principal.fromText(patientPrincipal.trim());
+    } catch {
+      setFormError('Please enter a valid patient principal.');
+      return;
+    }
+    if (justification.trim().length < MIN_JUSTIFICATION_CHARS) {
+      setFormError(`Justification must be at least ${MIN_JUSTIFICATION_CHARS} characters.`);
+      return;
+    }
+    setFormError(null);
+
+    try {
+      const event = await breakGlass(patientPrincipal.trim(), justification.trim(), severity);
+      setGrant(event);
+      showWarning('Emergency access granted', 'This access has been logged and the patient will be notified.');
+
+      const result = await getPatientProfileWithPermissions(event.patient);
+      if ('ok' in result) {
+        setProfile({
+          fullName: fromOpt(result.ok.fullName),
+          dob: fromOpt(result.ok.dob),
+          contact: fromOpt(result.ok.contact),
+          emergency: fromOpt(result.ok.emergency),
+          medicalHistory: fromOpt(result.ok.medicalHistory),
+          allergies: fromOpt(result.ok.allergies),
+          medications: fromOpt(result.ok.medications),
+        });
+      } else {
+        setFormError(result.err || 'Failed to load patient profile');
+      }
+    } catch (err: any) {
+      setFormError(err.message || 'Emergency access failed');
+      showError('Emergency access failed', err.message);
+    }
+  };
+
+  const fields: { label: string; value: string | null }[] = profile
+    ? [
+        { label: 'Name', value: profile.fullName },
+        { label: 'Date of birth', value: profile.dob },
+        { label: 'Contact', value: profile.contact },
+        { label: 'Emergency contact', value: profile.emergency },
+        { label: 'Allergies', value: profile.allergies },
+        { label: 'Current medications', value: profile.medications },
+        { label: 'Medical history', value: profile.medicalHistory },
+      ]
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center text-red-700">
+            <ShieldAlert className="h-5 w-5 mr-2" />
+            Emergency Access (Break-Glass)
+          </DialogTitle>
+          <DialogDescription>
+            Overrides patient consent for 24 hours to read emergency-contact profile data.
+            Every use is permanently logged and shown to the patient.
+          </DialogDescription>
+        </DialogHeader>
+
+        {grant ? (
+          <div className="space-y-4 mt-4">
+            <div className="flex items-center text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-3">
+              <Clock className="h-4 w-4 mr-2 shrink-0" />
+              Access expires {new Date(grant.expires_at / NS_PER_MS).toLocaleString()}
+            </div>
+            {profile ? (
+              <dl className="divide-y divide-gray-100 text-sm">
+                {fields.map(field => (
+                  <div key={field.label} className="py-2 grid grid-cols-3 gap-2">
+                    <dt className="text-gray-500">{field.label}</dt>
+                    <dd className="col-span-2 text-gray-900 whitespace-pre-wrap">{field.value || '—'}</dd>
+                  </div>
+                ))}
+              </dl>
+            ) : (
+              !formError && <p className="text-sm text-gray-500">Loading patient profile...</p>
+            )}
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+            <div className="flex justify-end">
+              <Button onClick={() => onOpenChange(false)}>Close</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 mt-4">
+            <div>
+              <Label htmlFor="breakglass-patient">Patient principal</Label>
+              <Input
+                id="breakglass-patient"
+                value={patientPrincipal}
+                onChange={(e) => setPatientPrincipal(e.target.value)}
+                placeholder="xxxxx-xxxxx-xxxxx-xxxxx-cai"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="breakglass-severity">Severity</Label>
+              <select
+                id="breakglass-severity"
+                value={severity}
+                onChange={(e) => setSeverity(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {SEVERITIES.map(level => (
+                  <option key={level} value={level}>{level}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <Label htmlFor="breakglass-justification">Justification</Label>
+              <Textarea
+                id="breakglass-justification"
+                value={justification}
+                onChange={(e) => setJustification(e.target.value)}
+                rows={4}
+                placeholder="Describe the emergency and why consent cannot be obtained"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {justification.trim().length}/{MIN_JUSTIFICATION_CHARS} characters minimum
+              </p>
+            </div>
+
+            <label className="flex items-start space-x-2 text-sm text-gray-700">
+              <Checkbox checked={acknowledged} onCheckedChange={setAcknowledged} />
+              <span>I understand this access is audited and the patient will review it.</span>
+            </label>
+
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+            <div className="flex justify-end space-x-3 pt-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+                Cancel
+              </Button>
+              <Button variant="danger" onClick={handleSubmit} disabled={isLoading || !acknowledged}>
+                {isLoading ? 'Requesting...' : 'Break Glass'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BreakGlassModal;
@@ -0,0 +1,332 @@
+import React, { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/Dialog';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import Checkbox from '../ui/Checkbox';
+import Progress from '../ui/Progress';
+import ProgressSteps from '../ui/ProgressSteps';
+import { FileUp, CheckCircle, XCircle, Loader2, AlertTriangle } from 'lucide-react';
+import useHealthRecordStore from '../../stores/useHealthRecordStore';
+import { useMedicalData } from '../../hooks/useMedicalData';
+import { useToast } from '../../hooks/useToast';
+import { recordImportService, ImportCandidate, ImportParseResult } from '../../services/recordImportService';
+import { RECORD_BODY_TYPE_LABELS } from '../../utils/recordBody';
+
+interface ImportRecordsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type WizardStep = 'upload' | 'preview' | 'import';
+
+type ItemStatus =
+  | { state: 'pending' }
+  | { state: 'importing' }
+  | { state: 'done'; recordId: number }
+  | { state: 'failed'; error: string };
+
+const IMPORT_BATCH_SIZE = 5;
+
+const WIZARD_STEPS = [
+  { id: 'upload', title: 'Upload', description: 'FHIR or C-CDA file' },
+  { id: 'preview', title: 'Review', description: 'Select and categorize' },
+  { id: 'import', title: 'Import', description: 'Encrypt and save' },
+];
+
+const ImportRecordsModal: React.FC<ImportRecordsModalProps> = ({ open, onOpenChange }) => {
+  const { records, createRecord, decryptHealthRecord } = useHealthRecordStore();
+  const { recordCategoryOptions } = useMedicalData();
+  const { showSuccess, showError, showWarning } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [isParsing, setIsParsing] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [parseResult, setParseResult] = useState<ImportParseResult | null>(null);
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [statuses, setStatuses] = useState<Record<string, ItemStatus>>({});
+  const [isImporting, setIsImporting] = useState(false);
+
+  const resetWizard = () => {
+    setStep('upload');
+    setFileName('');
+    setParseError(null);
+    setParseResult(null);
+    setCandidates([]);
+    setSelected(new Set());
+    setStatuses({});
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleClose = (nextOpen: boolean) => {
+    if (isImporting) return;
+    if (!nextOpen) resetWizard();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setParseError(null);
+    setIsParsing(true);
+    try {
+      const result = await recordImportService.parseFile(file);
+      if (result.candidates.length === 0) {
+        throw new Error('No importable records were found in this file');
+      }
+
+      // Existing records are encrypted at rest; decrypt locally so duplicates can be detected
+      const existing = await Promise.all(
+        records.map(record => (record.body ? record : decryptHealthRecord(record)))
+      );
+      const marked = recordImportService.markDuplicates(result.candidates, existing);
+
+      setParseResult(result);
+      setCandidates(marked);
+      setSelected(new Set(marked.filter(candidate => !candidate.duplicate).map(candidate => candidate.key)));
+      setStep('preview');
+    } catch (error) {
+      console.error('Failed to parse import file:', error);
+      setParseError(error instanceof Error ? error.message : 'Unable to read file');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const toggleCandidate = (key: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const updateCategory = (key: string, category: string) => {
+    setCandidates(prev => prev.map(candidate => (candidate.key === key ? { ...candidate, category } : candidate)));
+  };
+
+  // Imports the given candidates in small batches so a single failure doesn't abort the run
+  const runImport = async (queue: ImportCandidate[]) => {
+    setIsImporting(true);
+    setStep('import');
+    setStatuses(prev => {
+      const next = { ...prev };
+      queue.forEach(candidate => { next[candidate.key] = { state: 'pending' }; });
+      return next;
+    });
+
+    let succeeded = 0;
+    let failed = 0;
+    for (let i = 0; i < queue.length; i += IMPORT_BATCH_SIZE) {
+      const batch = queue.slice(i, i + IMPORT_BATCH_SIZE);
+      setStatuses(prev => {
+        const next = { ...prev };
+        batch.forEach(candidate => { next[candidate.key] = { state: 'importing' }; });
+        return next;
+      });
+
+      const results = await Promise.allSettled(
+        batch.map(candidate =>
+          createRecord(candidate.title, candidate.category, candidate.provider, candidate.recordType, candidate.body)
+        )
+      );
+
+      setStatuses(prev => {
+        const next = { ...prev };
+        results.forEach((result, index) => {
+          const key = batch[index].key;
+          next[key] = result.status === 'fulfilled'
+            ? { state: 'done', recordId: result.value }
+            : { state: 'failed', error: result.reason instanceof Error ? result.reason.message : 'Import failed' };
+        });
+        return next;
+      });
+      results.forEach(result => (result.status === 'fulfilled' ? succeeded++ : failed++));
+    }
+
+    setIsImporting(false);
+    if (failed === 0) {
+      showSuccess('Import Complete', `Imported ${succeeded} record(s).`);
+    } else if (succeeded > 0) {
+      showWarning('Import Partially Complete', `Imported ${succeeded} record(s); ${failed} failed.`);
+    } else {
+      showError('Import Failed', `None of the ${failed} selected record(s) could be imported.`);
+    }
+  };
+
+  const handleImport = () => {
+    runImport(candidates.filter(candidate => selected.has(candidate.key)));
+  };
+
+  const handleRetryFailed = () => {
+    runImport(candidates.filter(candidate => statuses[candidate.key]?.state === 'failed'));
+  };
+
+  const queuedKeys = Object.keys(statuses);
+  const finishedCount = queuedKeys.filter(key => ['done', 'failed'].includes(statuses[key].state)).length;
+  const failedCount = queuedKeys.filter(key => statuses[key].state === 'failed').length;
+  const duplicateCount = candidates.filter(candidate => candidate.duplicate).length;
+  const completedSteps = step === 'preview' ? ['upload'] : step === 'import' ? ['upload', 'preview'] : [];
+
+  const renderStatusIcon = (status?: ItemStatus) => {
+    switch (status?.state) {
+      case 'importing': return <Loader2 className="h-4 w-4 animate-spin text-blue-600" />;
+      case 'done': return <CheckCircle className="h-4 w-4 text-green-600" />;
+      case 'failed': return <XCircle className="h-4 w-4 text-red-600" />;
+      default: return <div className="h-4 w-4 rounded-full border-2 border-gray-300" />;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Health Records</DialogTitle>
+          <DialogDescription>
+            Import records from a FHIR R4 Bundle or C-CDA document. Files are parsed in your browser and each record is encrypted before upload.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ProgressSteps steps={WIZARD_STEPS} currentStep={step} completedSteps={completedSteps} className="mb-6" />
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg p-8 cursor-pointer hover:border-blue-400 transition-colors">
+              <FileUp className="h-10 w-10 text-gray-400 mb-3" />
+              <span className="text-sm font-medium text-gray-900">
+                {isParsing ? `Reading ${fileName}...` : 'Choose a FHIR (.json) or C-CDA (.xml) file'}
+              </span>
+              <span className="text-xs text-gray-500 mt-1">Nothing is uploaded until you confirm the preview</span>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,.xml,application/json,application/fhir+json,text/xml,application/xml"
+                className="hidden"
+                disabled={isParsing}
+                onChange={handleFileChange}
+              />
+            </label>
+            {parseError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+                {parseError}
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && parseResult && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>
+                {fileName} · {parseResult.format === 'fhir' ? 'FHIR R4 Bundle' : 'C-CDA document'} · {candidates.length} record(s)
+              </span>
+              {duplicateCount > 0 && (
+                <Badge variant="warning">{duplicateCount} already in your records</Badge>
+              )}
+            </div>
+
+            {parseResult.warnings.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                <div className="flex items-center font-medium mb-1">
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  Some entries will not be imported
+                </div>
+                <ul className="list-disc list-inside space-y-0.5">
+                  {parseResult.warnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-96 overflow-y-auto">
+              {candidates.map(candidate => (
+                <div key={candidate.key} className="flex items-center gap-3 p-3">
+                  <Checkbox
+                    checked={selected.has(candidate.key)}
+                    onCheckedChange={(checked) => toggleCandidate(candidate.key, checked)}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{candidate.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {RECORD_BODY_TYPE_LABELS[candidate.body.type]} · from {candidate.source}
+                    </p>
+                  </div>
+                  {candidate.duplicate && <Badge variant="secondary">Duplicate</Badge>}
+                  <select
+                    value={candidate.category}
+                    onChange={(e) => updateCategory(candidate.key, e.target.value)}
+                    className="text-sm border border-gray-300 rounded-md px-2 py-1"
+                  >
+                    {recordCategoryOptions.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-between pt-2">
+              <Button variant="outline" onClick={resetWizard}>
+                Choose Another File
+              </Button>
+              <Button onClick={handleImport} disabled={selected.size === 0}>
+                Import {selected.size} Record(s)
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'import' && (
+          <div className="space-y-4">
+            <div>
+              <div className="flex justify-between text-sm text-gray-600 mb-2">
+                <span>{isImporting ? 'Encrypting and saving records...' : 'Import finished'}</span>
+                <span>{finishedCount} / {queuedKeys.length}</span>
+              </div>
+              <Progress value={queuedKeys.length > 0 ? (finishedCount / queuedKeys.length) * 100 : 0} />
+            </div>
+
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-96 overflow-y-auto">
+              {candidates
+                .filter(candidate => statuses[candidate.key])
+                .map(candidate => {
+                  const status = statuses[candidate.key];
+                  return (
+                    <div key={candidate.key} className="flex items-center gap-3 p-3">
+                      {renderStatusIcon(status)}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-gray-900 truncate">{candidate.title}</p>
+                        {status.state === 'failed' && (
+                          <p className="text-xs text-red-600">{status.error}</p>
+                        )}
+                      </div>
+                      <span className="text-xs text-gray-500">{candidate.category}</span>
+                    </div>
+                  );
+                })}
+            </div>
+
+            {!isImporting && (
+              <div className="flex justify-end space-x-3 pt-2">
+                {failedCount > 0 && (
+                  <Button variant="outline" onClick={handleRetryFailed}>
+                    Retry {failedCount} Failed
+                  </Button>
+                )}
+                <Button onClick={() => handleClose(false)}>Done</Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportRecordsModal;
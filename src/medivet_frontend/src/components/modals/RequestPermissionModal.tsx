@@ -0,0 +1,255 @@
+import React, { useEffect, useState } from 'react';
+import { Principal } from '@dfinity/principal';
+import { KeyRound } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/Dialog';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Label from '../ui/Label';
+import Checkbox from '../ui/Checkbox';
+import Textarea from '../ui/Textarea';
+import usePermissionRequestStore from '../../stores/usePermissionRequestStore';
+import useAuthStore from '../../stores/useAuthStore';
+import { PermissionType, SharingContext } from '../../types';
+import { PERMISSION_LABELS } from '../../utils/permissions';
+import { useToast } from '../../hooks/useToast';
+
+interface RequestPermissionModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialPatient?: string;
+}
+
+type ContextType = SharingContext['type'];
+
+const CONTEXT_OPTIONS: { value: ContextType; label: string }[] = [
+  { value: 'consultation', label: 'Consultation' },
+  { value: 'emergency', label: 'Emergency' },
+  { value: 'second_opinion', label: 'Second opinion' },
+  { value: 'research', label: 'Research' },
+  { value: 'referral', label: 'Referral' },
+  { value: 'general', label: 'General' },
+];
+
+const RequestPermissionModal: React.FC<RequestPermissionModalProps> = ({ open, onOpenChange, initialPatient = '' }) => {
+  const { requestPermission, isLoading } = usePermissionRequestStore();
+  const { principal } = useAuthStore();
+  const { showSuccess, showError } = useToast();
+
+  const [patientPrincipal, setPatientPrincipal] = useState(initialPatient);
+  const [permissions, setPermissions] = useState<PermissionType[]>([PermissionType.READ_BASIC_INFO]);
+  const [contextType, setContextType] = useState<ContextType>('consultation');
+  const [appointmentId, setAppointmentId] = useState('');
+  const [severity, setSeverity] = useState('');
+  const [contactInfo, setContactInfo] = useState('');
+  const [studyId, setStudyId] = useState('');
+  const [targetSpecialty, setTargetSpecialty] = useState('');
+  const [purpose, setPurpose] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setPatientPrincipal(initialPatient);
+      setPermissions([PermissionType.READ_BASIC_INFO]);
+      setContextType('consultation');
+      setAppointmentId('');
+      setSeverity('');
+      setContactInfo('');
+      setStudyId('');
+      setTargetSpecialty('');
+      setPurpose('');
+      setExpiryDate('');
+      setFormError(null);
+    }
+  }, [open, initialPatient]);
+
+  const togglePermission = (permission: PermissionType) => {
+    setPermissions(prev =>
+      prev.includes(permission) ? prev.filter(p => p !== permission) : [...prev, permission]
+    );
+  };
+
+  const buildContext = (): SharingContext => {
+    const me = principal?.toString() || '';
+    switch (contextType) {
+      case 'consultation':
+        return { type: 'consultation', appointment_id: appointmentId ? Number(appointmentId) : null, purpose };
+      case 'emergency':
+        return { type: 'emergency', severity, contact_info: contactInfo };
+      case 'second_opinion':
+        return { type: 'second_opinion', requesting_provider: me };
+      case 'research':
+        // Consent is given by the patient when they approve the request
+        return { type: 'research', study_id: studyId, consent: false };
+      case 'referral':
+        return { type: 'referral', referring_provider: me, target_specialty: targetSpecialty };
+      case 'general':
+      default:
+        return { type: 'general', purpose };
+    }
+  };
+
+  const validate = (): string | null => {
+    try {
+      Principal.fromText(patientPrincipal.trim());
+    } catch {
+      return 'Please enter a valid patient principal.';
+    }
+    if (permissions.length === 0) return 'Select at least one permission.';
+    if (!purpose.trim()) return 'Please describe why you need access.';
+    if (contextType === 'consultation' && appointmentId && !/^\d+$/.test(appointmentId)) {
+      return 'Appointment ID must be a number.';
+    }
+    if (contextType === 'emergency' && !severity.trim()) return 'Please specify the emergency severity.';
+    if (contextType === 'research' && !studyId.trim()) return 'Please enter the study ID.';
+    if (contextType === 'referral' && !targetSpecialty.trim()) return 'Please enter the target specialty.';
+    if (expiryDate && new Date(`${expiryDate}T23:59:59`).getTime() <= Date.now()) {
+      return 'Expiry date must be in the future.';
+    }
+    return null;
+  };
+
+  const handleSubmit = async () => {
+    const error = validate();
+    setFormError(error);
+    if (error) return;
+
+    try {
+      await requestPermission(
+        patientPrincipal.trim(),
+        permissions,
+        buildContext(),
+        purpose.trim(),
+        expiryDate || undefined
+      );
+      showSuccess('Request sent', 'The patient will see your request in their inbox.');
+      onOpenChange(false);
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to send request');
+      showError('Request failed', err.message || 'Failed to send request');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <KeyRound className="h-5 w-5 mr-2" />
+            Request Record Access
+          </DialogTitle>
+          <DialogDescription>
+            Ask a patient for access. They choose which records to share when they approve.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-4">
+          <div>
+            <Label htmlFor="request-patient">Patient principal</Label>
+            <Input
+              id="request-patient"
+              value={patientPrincipal}
+              onChange={(e) => setPatientPrincipal(e.target.value)}
+              placeholder="xxxxx-xxxxx-xxxxx-xxxxx-cai"
+            />
+          </div>
+
+          <div>
+            <Label>Requested permissions</Label>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {Object.values(PermissionType).map(permission => (
+                <label key={permission} className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={permissions.includes(permission)}
+                    onCheckedChange={() => togglePermission(permission)}
+                  />
+                  <span>{PERMISSION_LABELS[permission]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="request-context">Context</Label>
+            <select
+              id="request-context"
+              value={contextType}
+              onChange={(e) => setContextType(e.target.value as ContextType)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {CONTEXT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {contextType === 'consultation' && (
+            <div>
+              <Label htmlFor="request-appointment">Appointment ID (optional)</Label>
+              <Input id="request-appointment" value={appointmentId} onChange={(e) => setAppointmentId(e.target.value)} />
+            </div>
+          )}
+          {contextType === 'emergency' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="request-severity">Severity</Label>
+                <Input id="request-severity" value={severity} onChange={(e) => setSeverity(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="request-contact">Contact info</Label>
+                <Input id="request-contact" value={contactInfo} onChange={(e) => setContactInfo(e.target.value)} />
+              </div>
+            </div>
+          )}
+          {contextType === 'research' && (
+            <div>
+              <Label htmlFor="request-study">Study ID</Label>
+              <Input id="request-study" value={studyId} onChange={(e) => setStudyId(e.target.value)} />
+            </div>
+          )}
+          {contextType === 'referral' && (
+            <div>
+              <Label htmlFor="request-specialty">Target specialty</Label>
+              <Input id="request-specialty" value={targetSpecialty} onChange={(e) => setTargetSpecialty(e.target.value)} />
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="request-purpose">Purpose</Label>
+            <Textarea
+              id="request-purpose"
+              value={purpose}
+              onChange={(e) => setPurpose(e.target.value)}
+              rows={3}
+              placeholder="Explain to the patient why you need access"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="request-expiry">Access until (optional)</Label>
+            <Input
+              id="request-expiry"
+              type="date"
+              value={expiryDate}
+              min={new Date().toISOString().split('T')[0]}
+              onChange={(e) => setExpiryDate(e.target.value)}
+            />
+          </div>
+
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isLoading}>
+              {isLoading ? 'Sending...' : 'Send Request'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RequestPermissionModal;
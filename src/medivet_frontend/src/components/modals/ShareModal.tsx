@@ -13,6 +13,7 @@ import useHealthRecordStore from '../../stores/useHealthRecordStore';
 import useUserMappingStore from '../../stores/useUserMappingStore';
 import { HealthRecord, PermissionType, PermissionPresets, UserPermission } from '../../types';
 import PrincipalPill from '../ui/PrincipalPill';
+import ShareLinkPanel from '../records/ShareLinkPanel';
 import { useToast } from '../../hooks/useToast';
 
 interface ShareModalProps {
@@ -494,6 +495,10 @@ const ShareModal: React.FC<ShareModalProps> = ({ open, onOpenChange, recordId })
               </Button>
             </div>
           </div>
+
+          <div className="border-t border-gray-200 pt-6">
+            <ShareLinkPanel recordId={record.id} />
+          </div>
         </div>
       </DialogContent>
     </Dialog>
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/Dialog';
 import { 
   X, 
@@ -18,6 +18,8 @@ import { formatDistance } from 'date-fns';
 import { HealthRecord } from '../../types';
 import Badge from '../ui/Badge';
 import Button from '../ui/Button';
+import RecordBodyViewer from '../records/RecordBodyViewer';
+import useHealthRecordStore from '../../stores/useHealthRecordStore';
 
 interface ViewRecordModalProps {
   open: boolean;
@@ -32,6 +34,35 @@ const ViewRecordModal: React.FC<ViewRecordModalProps> = ({
   record,
   onShare 
 }) => {
+  const { decryptHealthRecord } = useHealthRecordStore();
+  const [decryptedRecord, setDecryptedRecord] = useState<HealthRecord | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  // Decrypt and parse the body when the modal opens for a record that hasn't been decrypted yet
+  useEffect(() => {
+    if (!open || !record) {
+      setDecryptedRecord(null);
+      return;
+    }
+    if (record.body) {
+      setDecryptedRecord(record);
+      return;
+    }
+
+    let cancelled = false;
+    setIsDecrypting(true);
+    decryptHealthRecord(record)
+      .then((result) => {
+        if (!cancelled) setDecryptedRecord(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsDecrypting(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, record, decryptHealthRecord]);
+
   if (!record) return null;
 
   const formatDate = (timestamp: string | number) => {
@@ -159,14 +190,23 @@ const ViewRecordModal: React.FC<ViewRecordModalProps> = ({
           </div>
 
           {/* Record Content */}
-          {record.content && (
-            <div>
-              <label className="text-sm font-medium text-gray-500 mb-2 block">Record Content</label>
-              <div className="p-4 bg-gray-50 rounded-lg">
-                <p className="text-gray-900 whitespace-pre-wrap">{record.content}</p>
-              </div>
+          <div>
+            <label className="text-sm font-medium text-gray-500 mb-2 block">Record Content</label>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              {isDecrypting ? (
+                <div className="flex items-center space-x-2 text-sm text-gray-600">
+                  <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+                  <span>Decrypting...</span>
+                </div>
+              ) : decryptedRecord?.body ? (
+                <RecordBodyViewer body={decryptedRecord.body} />
+              ) : (
+                <p className="text-gray-900 whitespace-pre-wrap">
+                  {decryptedRecord?.content || 'Unable to decrypt content'}
+                </p>
+              )}
             </div>
-          )}
+          </div>
 
           {/* File Attachments */}
           {record.attachment_id && (
@@ -1,52 +1,173 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/Dialog';
 import Button from '../ui/Button';
 import Input from '../ui/Input';
 import Label from '../ui/Label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/Select';
-import { Wallet, Bitcoin, RefreshCcw, Check } from 'lucide-react';
+import { Wallet, RefreshCcw, Check, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Principal } from '@dfinity/principal';
+import useAuthStore from '../../stores/useAuthStore';
+import tokenService, { TokenService, TransferError } from '../../stores/tokenStore';
+import { useToast } from '../../hooks/useToast';
 
 interface WithdrawalModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
+// Only principal-based MDT transfers settle today; bridges are not implemented
+const SUPPORTED_TYPES = ['icp'];
+
+const describeTransferError = (err: TransferError): string => {
+  if (err.InsufficientFunds) return `Insufficient funds (balance ${TokenService.formatTokenAmount(err.InsufficientFunds.balance)} MDT)`;
+  if (err.BadFee) return `Fee changed to ${TokenService.formatTokenAmount(err.BadFee.expected_fee)} MDT, please retry`;
+  if (err.TemporarilyUnavailable !== undefined) return 'Ledger temporarily unavailable';
+  if (err.Duplicate) return `Duplicate of transaction #${err.Duplicate.duplicate_of}`;
+  if (err.TooOld !== undefined || err.CreatedInFuture) return 'Transaction time rejected by the ledger';
+  if (err.GenericError) return err.GenericError.message;
+  return 'Transfer rejected by the ledger';
+};
+
 const WithdrawalModal: React.FC<WithdrawalModalProps> = ({ open, onOpenChange }) => {
-  const [withdrawalType, setWithdrawalType] = useState('ourtoke');
+  const { principal } = useAuthStore();
+  const { showSuccess, showError } = useToast();
+  const [withdrawalType, setWithdrawalType] = useState('icp');
   const [amount, setAmount] = useState('');
   const [address, setAddress] = useState('');
+  const [toSubaccount, setToSubaccount] = useState('');
+  const [fromSubaccount, setFromSubaccount] = useState('');
   const [network, setNetwork] = useState('base'); // For EVM/BTC
   const [processing, setProcessing] = useState(false);
+  const [balance, setBalance] = useState<bigint | null>(null);
+  const [fee, setFee] = useState<bigint | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [completedTxIndex, setCompletedTxIndex] = useState<bigint | null>(null);
 
-  const handleWithdraw = async () => {
-    if (!amount || parseFloat(amount) <= 0) {
-      alert('Please enter a valid amount.');
-      return;
+  const isSupported = SUPPORTED_TYPES.includes(withdrawalType);
+
+  // Refresh balance and fee whenever the source account changes
+  useEffect(() => {
+    if (!open || !principal) return;
+
+    let cancelled = false;
+    const loadAccount = async () => {
+      try {
+        const subaccount = fromSubaccount.trim() ? TokenService.parseSubaccount(fromSubaccount) : undefined;
+        const account = TokenService.createAccount(Principal.fromText(principal), subaccount);
+        const [currentBalance, currentFee] = await Promise.all([
+          tokenService.getBalance(account),
+          tokenService.getFee()
+        ]);
+        if (!cancelled) {
+          setBalance(currentBalance);
+          setFee(currentFee);
+        }
+      } catch (error) {
+        console.error('Failed to load balance:', error);
+        if (!cancelled) setBalance(null);
+      }
+    };
+    loadAccount();
+    return () => { cancelled = true; };
+  }, [open, principal, fromSubaccount]);
+
+  const resetForm = () => {
+    setAmount('');
+    setAddress('');
+    setToSubaccount('');
+    setFromSubaccount('');
+    setNetwork('base');
+    setFormError(null);
+    setCompletedTxIndex(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (processing) return;
+    if (!nextOpen) resetForm();
+    onOpenChange(nextOpen);
+  };
+
+  // Validates the form and builds the transfer; returns an error message instead of throwing
+  const buildTransfer = (): { to: Principal; toSub?: Uint8Array; fromSub?: Uint8Array; units: bigint } | string => {
+    if (!/^\d+(\.\d{1,8})?$/.test(amount.trim())) {
+      return 'Enter an amount with at most 8 decimal places.';
+    }
+    const units = TokenService.parseTokenAmount(amount.trim(), 8);
+    if (units <= BigInt(0)) {
+      return 'Amount must be greater than zero.';
+    }
+
+    let to: Principal;
+    try {
+      to = Principal.fromText(address.trim());
+    } catch {
+      return 'Enter a valid principal ID.';
+    }
+
+    let toSub: Uint8Array | undefined;
+    let fromSub: Uint8Array | undefined;
+    try {
+      toSub = toSubaccount.trim() ? TokenService.parseSubaccount(toSubaccount) : undefined;
+      fromSub = fromSubaccount.trim() ? TokenService.parseSubaccount(fromSubaccount) : undefined;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid subaccount';
+    }
+
+    const defaultSubaccount = new Uint8Array(32);
+    const sameSubaccount = (toSub ?? defaultSubaccount).every((byte, i) => byte === (fromSub ?? defaultSubaccount)[i]);
+    if (principal && to.toText() === principal && sameSubaccount) {
+      return 'Destination is the same account you are withdrawing from.';
+    }
+
+    if (fee === null || balance === null) {
+      return 'Balance is still loading.';
+    }
+    if (units + fee > balance) {
+      return `Amount plus the ${TokenService.formatTokenAmount(fee)} MDT fee exceeds your balance of ${TokenService.formatTokenAmount(balance)} MDT.`;
     }
-    if (!address) {
-      alert('Please enter a withdrawal address.');
+
+    return { to, toSub, fromSub, units };
+  };
+
+  const handleWithdraw = async () => {
+    setFormError(null);
+    if (!isSupported) return;
+
+    const transfer = buildTransfer();
+    if (typeof transfer === 'string') {
+      setFormError(transfer);
       return;
     }
 
     setProcessing(true);
-    
-    // Simulate processing
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    setProcessing(false);
-    alert('Withdrawal successful! Funds should arrive shortly.');
-    
-    // Reset form
-    setAmount('');
-    setAddress('');
-    setNetwork('base');
-    onOpenChange(false);
+    try {
+      const result = await tokenService.transfer({
+        to: TokenService.createAccount(transfer.to, transfer.toSub),
+        amount: transfer.units,
+        fee: fee ?? undefined,
+        from_subaccount: transfer.fromSub
+      });
+
+      if (result.Ok !== undefined) {
+        setCompletedTxIndex(result.Ok);
+        setBalance(prev => (prev !== null && fee !== null ? prev - transfer.units - fee : prev));
+        showSuccess('Withdrawal Sent', `Transferred ${TokenService.formatTokenAmount(transfer.units)} MDT (tx #${result.Ok}).`);
+      } else {
+        throw new Error(result.Err ? describeTransferError(result.Err) : 'Transfer failed');
+      }
+    } catch (error) {
+      console.error('Withdrawal failed:', error);
+      const message = error instanceof Error ? error.message : 'Withdrawal failed';
+      setFormError(message);
+      showError('Withdrawal Failed', message);
+    } finally {
+      setProcessing(false);
+    }
   };
 
   const getAddressPlaceholder = () => {
     switch (withdrawalType) {
-      case 'ourtoke': return 'Your OurToken address';
-      case 'icp': return 'Your ICP principal ID';
+      case 'icp': return 'Recipient principal ID';
       case 'evm': return 'Your EVM wallet address (0x...)';
       case 'btc': return 'Your Bitcoin address';
       default: return 'Wallet address';
@@ -54,11 +175,33 @@ const WithdrawalModal: React.FC<WithdrawalModalProps> = ({ open, onOpenChange })
   };
 
   const isFormValid = () => {
-    return parseFloat(amount) > 0 && address.length > 0;
+    return isSupported && parseFloat(amount) > 0 && address.trim().length > 0;
   };
 
+  if (completedTxIndex !== null) {
+    return (
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-md">
+          <div className="text-center py-4">
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Withdrawal Complete</h3>
+            <p className="text-sm text-gray-600">
+              {amount} MDT was sent to <span className="font-mono break-all">{address}</span>.
+            </p>
+            <p className="text-sm text-gray-600 mt-2">
+              Ledger transaction index: <span className="font-mono font-medium">#{completedTxIndex.toString()}</span>
+            </p>
+            <Button className="mt-6 w-full" onClick={() => handleOpenChange(false)}>
+              Done
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle className="flex items-center space-x-2">
@@ -73,28 +216,55 @@ const WithdrawalModal: React.FC<WithdrawalModalProps> = ({ open, onOpenChange })
         <div className="space-y-4">
           <div>
             <Label htmlFor="withdrawalType">Withdrawal Type</Label>
-            <Select value={withdrawalType} onValueChange={setWithdrawalType}>
+            <Select value={withdrawalType} onValueChange={(value) => { setWithdrawalType(value); setFormError(null); }}>
               <SelectTrigger>
                 <SelectValue placeholder="Select a type" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="ourtoke">OurToken</SelectItem>
-                <SelectItem value="icp">ICP</SelectItem>
-                <SelectItem value="evm">EVM (Ethereum, Base, etc.)</SelectItem>
-                <SelectItem value="btc">Bitcoin</SelectItem>
+                <SelectItem value="icp">ICP principal (MDT)</SelectItem>
+                <SelectItem value="evm">EVM (Ethereum, Base, etc.) — not yet available</SelectItem>
+                <SelectItem value="btc">Bitcoin — not yet available</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
+          {!isSupported && (
+            <div className="flex items-start space-x-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                {withdrawalType === 'evm' ? 'EVM' : 'Bitcoin'} withdrawals are not yet available.
+                MDT can currently only be withdrawn to an Internet Computer principal.
+              </span>
+            </div>
+          )}
+
           <div>
-            <Label htmlFor="amount">Amount</Label>
-            <Input 
-              id="amount" 
-              type="number" 
+            <div className="flex justify-between items-center">
+              <Label htmlFor="amount">Amount (MDT)</Label>
+              {isSupported && balance !== null && fee !== null && (
+                <button
+                  type="button"
+                  className="text-xs text-blue-600 hover:underline"
+                  onClick={() => setAmount(TokenService.formatTokenAmount(balance > fee ? balance - fee : BigInt(0)))}
+                >
+                  Max
+                </button>
+              )}
+            </div>
+            <Input
+              id="amount"
+              type="number"
               placeholder="0.00"
               value={amount}
+              disabled={!isSupported}
               onChange={(e) => setAmount(e.target.value)}
             />
+            {isSupported && (
+              <p className="text-xs text-gray-500 mt-1">
+                Available: {balance !== null ? `${TokenService.formatTokenAmount(balance)} MDT` : '...'}
+                {' · '}Network fee: {fee !== null ? `${TokenService.formatTokenAmount(fee)} MDT` : '...'}
+              </p>
+            )}
           </div>
 
           {(withdrawalType === 'evm' || withdrawalType === 'btc') && (
@@ -125,24 +295,54 @@ const WithdrawalModal: React.FC<WithdrawalModalProps> = ({ open, onOpenChange })
 
           <div>
             <Label htmlFor="address">Withdrawal Address</Label>
-            <Input 
-              id="address" 
+            <Input
+              id="address"
               placeholder={getAddressPlaceholder()}
               value={address}
+              disabled={!isSupported}
               onChange={(e) => setAddress(e.target.value)}
             />
           </div>
 
+          {isSupported && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="toSubaccount">To Subaccount (optional)</Label>
+                <Input
+                  id="toSubaccount"
+                  placeholder="hex"
+                  value={toSubaccount}
+                  onChange={(e) => setToSubaccount(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="fromSubaccount">From Subaccount (optional)</Label>
+                <Input
+                  id="fromSubaccount"
+                  placeholder="hex"
+                  value={fromSubaccount}
+                  onChange={(e) => setFromSubaccount(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          {formError && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+              {formError}
+            </div>
+          )}
+
           <div className="flex space-x-3 pt-4">
-            <Button 
-              variant="outline" 
-              onClick={() => onOpenChange(false)}
+            <Button
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
               className="flex-1"
               disabled={processing}
             >
               Cancel
             </Button>
-            <Button 
+            <Button
               onClick={handleWithdraw}
               className="flex-1 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white"
               disabled={processing || !isFormValid()}
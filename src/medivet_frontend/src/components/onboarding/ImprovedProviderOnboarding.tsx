@@ -2,22 +2,27 @@ import React, { useState } from 'react';
 import useProfileStore from '../../stores/useProfileStore';
 import useAuthStore from '../../stores/useAuthStore';
 import useFileStore from '../../stores/useFileStore';
+import useVerificationStore from '../../stores/useVerificationStore';
 import { HealthcareProviderProfile } from '../../types';
 import AutocompleteInput from '../ui/AutocompleteInput';
 import FormInput from '../ui/FormInput';
 import Button from '../ui/Button';
 import Card from '../ui/Card';
 import ProfilePhotoUpload from '../common/ProfilePhotoUpload';
+import LicenseDocumentsInput from '../provider/LicenseDocumentsInput';
 import { useMedicalData } from '../../hooks/useMedicalData';
 import { validateEmail, validateName, validateLicenseNumber, validateAddress, ValidationResult } from '../../utils/validation';
-import { User, Mail, Shield, Building, MapPin, Stethoscope, AlertTriangle, Camera } from 'lucide-react';
+import { User, Mail, Shield, Building, MapPin, Stethoscope, AlertTriangle, Camera, BadgeCheck } from 'lucide-react';
 
 interface ImprovedProviderOnboardingProps {
   onComplete: () => void;
 }
 
 const ImprovedProviderOnboarding: React.FC<ImprovedProviderOnboardingProps> = ({ onComplete }) => {
-  const { createHealthcareProviderProfile, isLoading, error } = useProfileStore();
+  const { createHealthcareProviderProfile, isLoading: profileLoading, error: profileError } = useProfileStore();
+  const { submitCase, isLoading: verificationLoading, error: verificationError } = useVerificationStore();
+  const isLoading = profileLoading || verificationLoading;
+  const error = profileError || verificationError;
   const { principal } = useAuthStore();
   const { specializationOptions, facilityTypeOptions, cityOptions } = useMedicalData();
   
@@ -30,6 +35,7 @@ const ImprovedProviderOnboarding: React.FC<ImprovedProviderOnboardingProps> = ({
     facilityAddress: '',
   });
   
+  const [documents, setDocuments] = useState<File[]>([]);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -79,8 +85,9 @@ const ImprovedProviderOnboarding: React.FC<ImprovedProviderOnboardingProps> = ({
       errors.fullName = nameValidation.error || 'Invalid name';
     }
     
-    if (!formData.specialization.trim() || formData.specialization.length < 2) {
-      errors.specialization = 'Specialization must be at least 2 characters';
+    // The claimed specialty is checked by reviewers against the listed ones
+    if (!specializationOptions.some(option => option.value === formData.specialization)) {
+      errors.specialization = 'Choose a specialization from the list';
     }
     
     const licenseValidation = validateLicenseNumber(formData.licenseNumber);
@@ -88,6 +95,10 @@ const ImprovedProviderOnboarding: React.FC<ImprovedProviderOnboardingProps> = ({
       errors.licenseNumber = licenseValidation.error || 'Invalid license number';
     }
     
+    if (documents.length === 0) {
+      errors.documents = 'Attach at least one license document for verification';
+    }
+    
     const emailValidation = validateEmail(formData.contactInfo);
     if (!emailValidation.isValid) {
       errors.contactInfo = emailValidation.error || 'Invalid contact information';
@@ -119,6 +130,7 @@ const ImprovedProviderOnboarding: React.FC<ImprovedProviderOnboardingProps> = ({
         formData.facilityName || null,
         formData.facilityAddress || null
       );
+      await submitCase(licenseValidation.sanitized ?? formData.licenseNumber, formData.specialization, documents);
       onComplete();
     } catch (err) {
       console.error('Failed to create healthcare provider profile:', err);
@@ -217,7 +229,7 @@ const ImprovedProviderOnboarding: React.FC<ImprovedProviderOnboardingProps> = ({
                 value={formData.specialization}
                 onChange={handleSpecializationSelect}
                 placeholder="Type to search specializations..."
-                allowCustom={true}
+                allowCustom={false}
                 className={`
                   ${validationErrors.specialization 
                     ? 'border-red-300 focus:ring-red-500 focus:border-red-500' 
@@ -246,6 +258,28 @@ const ImprovedProviderOnboarding: React.FC<ImprovedProviderOnboardingProps> = ({
           </div>
         </Card>
 
+        {/* Credential Verification */}
+        <Card>
+          <div className="flex items-center mb-4">
+            <BadgeCheck className="w-5 h-5 text-blue-600 mr-2" />
+            <h4 className="text-lg font-semibold text-gray-900">Credential Verification</h4>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            An administrator checks your license and specialization before you are verified. You can use the
+            platform in the meantime; emergency access opens once you are approved.
+          </p>
+          <LicenseDocumentsInput
+            documents={documents}
+            onChange={(next) => {
+              setDocuments(next);
+              if (validationErrors.documents) {
+                setValidationErrors(prev => ({ ...prev, documents: '' }));
+              }
+            }}
+            error={validationErrors.documents}
+          />
+        </Card>
+
         {/* Facility Information */}
         <Card>
           <div className="flex items-center mb-4">
@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { HeartHandshake, UserPlus } from 'lucide-react';
+import { formatDistance } from 'date-fns';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import Input from '../ui/Input';
+import Checkbox from '../ui/Checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/Table';
+import useCaregiverStore, { DELEGATION_SCOPE_LABELS, isDelegationActive } from '../../stores/useCaregiverStore';
+import useAuthStore from '../../stores/useAuthStore';
+import useUserMappingStore from '../../stores/useUserMappingStore';
+import { CaregiverDelegation, DelegateAction, DelegationScope } from '../../types';
+import { useToast } from '../../hooks/useToast';
+
+const NS_PER_MS = 1_000_000;
+
+const ACTION_LABELS: Record<DelegateAction, string> = {
+  ListRecords: 'opened your record list',
+  ReadRecord: 'read a record',
+  CreateRecord: 'added a record',
+};
+
+const delegationStatus = (delegation: CaregiverDelegation) => {
+  if (delegation.revoked_at !== null) return <Badge variant="destructive">Revoked</Badge>;
+  if (!isDelegationActive(delegation)) return <Badge variant="secondary">Expired</Badge>;
+  return <Badge variant="success">Active</Badge>;
+};
+
+// Lets a patient name caregivers or guardians who can manage their records for them
+const CaregiverPanel: React.FC = () => {
+  const { caregivers, activity, isLoading, error, fetchCaregivers, fetchActivity, grantCaregiver, revokeDelegation } = useCaregiverStore();
+  const { principal } = useAuthStore();
+  const { getDisplayName } = useUserMappingStore();
+  const { showSuccess, showError } = useToast();
+  const [caregiver, setCaregiver] = useState('');
+  const [relationship, setRelationship] = useState('');
+  const [scopes, setScopes] = useState<DelegationScope[]>(['ViewRecords']);
+  const [expiresOn, setExpiresOn] = useState('');
+
+  useEffect(() => {
+    fetchCaregivers();
+    fetchActivity();
+  }, [fetchCaregivers, fetchActivity]);
+
+  const actedForMe = activity.filter(entry => entry.patient === principal).slice(0, 20);
+
+  const toggleScope = (scope: DelegationScope, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+  };
+
+  const grant = async () => {
+    if (!caregiver.trim() || !relationship.trim() || scopes.length === 0) {
+      showError('Missing details', 'Enter the caregiver\'s principal, your relationship and at least one permission.');
+      return;
+    }
+    // The delegation lasts through the chosen day
+    const expiresAtMs = expiresOn ? new Date(`${expiresOn}T23:59:59`).getTime() : null;
+    try {
+      await grantCaregiver(caregiver, scopes, relationship, expiresAtMs);
+      setCaregiver('');
+      setRelationship('');
+      setExpiresOn('');
+      showSuccess('Caregiver added', 'They can now switch to your account from their header.');
+    } catch (err: any) {
+      showError('Could not add caregiver', err.message);
+    }
+  };
+
+  const revoke = async (delegation: CaregiverDelegation) => {
+    if (!window.confirm(`Revoke ${getDisplayName(delegation.caregiver)}'s access? They will no longer be able to act for you.`)) {
+      return;
+    }
+    try {
+      await revokeDelegation(delegation.id);
+      showSuccess('Caregiver access revoked');
+    } catch (err: any) {
+      showError('Could not revoke access', err.message);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-xl font-semibold text-gray-900 flex items-center mb-2">
+        <HeartHandshake className="h-5 w-5 mr-2" />
+        Caregivers
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        A caregiver or guardian can switch into your account and manage your records for you. They use your
+        encryption key while doing so, and everything they do is recorded below and in each record's access log.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+        <div className="md:col-span-2">
+          <label htmlFor="caregiver-principal" className="block text-sm font-medium text-gray-700 mb-1">
+            Caregiver principal ID
+          </label>
+          <Input
+            id="caregiver-principal"
+            value={caregiver}
+            onChange={(e) => setCaregiver(e.target.value)}
+            placeholder="xxxxx-xxxxx-xxxxx-xxxxx-cai"
+          />
+        </div>
+        <div>
+          <label htmlFor="caregiver-relationship" className="block text-sm font-medium text-gray-700 mb-1">
+            Relationship
+          </label>
+          <Input
+            id="caregiver-relationship"
+            value={relationship}
+            maxLength={50}
+            onChange={(e) => setRelationship(e.target.value)}
+            placeholder="e.g. Parent, Guardian"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4 mb-4">
+        <div className="flex items-center space-x-4">
+          {(Object.keys(DELEGATION_SCOPE_LABELS) as DelegationScope[]).map(scope => (
+            <label key={scope} className="flex items-center space-x-2 text-sm text-gray-700">
+              <Checkbox checked={scopes.includes(scope)} onCheckedChange={(checked) => toggleScope(scope, checked)} />
+              <span>{DELEGATION_SCOPE_LABELS[scope]}</span>
+            </label>
+          ))}
+        </div>
+        <div>
+          <label htmlFor="caregiver-expiry" className="block text-sm font-medium text-gray-700 mb-1">
+            Until (optional)
+          </label>
+          <Input
+            id="caregiver-expiry"
+            type="date"
+            value={expiresOn}
+            min={new Date().toISOString().slice(0, 10)}
+            onChange={(e) => setExpiresOn(e.target.value)}
+          />
+        </div>
+        <Button onClick={grant} disabled={isLoading}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          {isLoading ? 'Saving...' : 'Add Caregiver'}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {caregivers.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Caregiver</TableHead>
+              <TableHead>Can</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {caregivers.map(delegation => (
+              <TableRow key={delegation.id}>
+                <TableCell>
+                  <div className="font-medium">{getDisplayName(delegation.caregiver)}</div>
+                  <div className="text-xs text-gray-500">
+                    {delegation.relationship}
+                    {delegation.expires_at !== null && ` · until ${new Date(delegation.expires_at / NS_PER_MS).toLocaleDateString()}`}
+                  </div>
+                </TableCell>
+                <TableCell>{delegation.scopes.map(scope => DELEGATION_SCOPE_LABELS[scope]).join(', ')}</TableCell>
+                <TableCell>{delegationStatus(delegation)}</TableCell>
+                <TableCell>
+                  {isDelegationActive(delegation) && (
+                    <Button variant="ghost" size="sm" onClick={() => revoke(delegation)} disabled={isLoading}>
+                      Revoke
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {actedForMe.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Recent caregiver activity</h3>
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+            {actedForMe.map(entry => (
+              <li key={entry.id} className="flex items-center justify-between p-2 text-sm">
+                <span>
+                  <span className="font-medium">{getDisplayName(entry.caregiver)}</span>{' '}
+                  {ACTION_LABELS[entry.action]}
+                  {entry.record_id !== null && ` (record #${entry.record_id})`}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {formatDistance(new Date(entry.occurred_at / NS_PER_MS), new Date(), { addSuffix: true })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default CaregiverPanel;
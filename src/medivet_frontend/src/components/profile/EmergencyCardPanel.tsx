@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { QrCode, Printer, Download, AlertTriangle } from 'lucide-react';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import Input from '../ui/Input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/Table';
+import EmergencyCardView from '../emergency/EmergencyCardView';
+import useEmergencyCardStore, { isCardStale } from '../../stores/useEmergencyCardStore';
+import useProfileStore from '../../stores/useProfileStore';
+import { CARD_PIN_MIN_LENGTH } from '../../utils/emergencyCard';
+import { useToast } from '../../hooks/useToast';
+
+const NS_PER_MS = 1_000_000;
+
+const EmergencyCardPanel: React.FC = () => {
+  const { overview, issued, isLoading, error, fetchCards, issueCard, revokeCard } = useEmergencyCardStore();
+  const { patientProfile } = useProfileStore();
+  const { showSuccess, showError } = useToast();
+  const [pin, setPin] = useState('');
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  // Profile edits bump the backend profile version, so refetch to pick up staleness
+  useEffect(() => {
+    fetchCards().catch(() => undefined);
+  }, [fetchCards, patientProfile]);
+
+  const activeCards = overview?.cards.filter(card => card.revoked_at === null) ?? [];
+  const latestActive = activeCards.length > 0 ? activeCards[activeCards.length - 1] : null;
+  const latestIsStale = Boolean(overview && latestActive && isCardStale(latestActive, overview));
+
+  const generate = async () => {
+    if (pin && pin.length < CARD_PIN_MIN_LENGTH) {
+      showError('PIN too short', `Use at least ${CARD_PIN_MIN_LENGTH} digits, or leave it empty.`);
+      return;
+    }
+    try {
+      await issueCard(pin || undefined);
+      setPin('');
+      showSuccess('Emergency card generated', 'Print it or save the QR code now; it cannot be shown again later.');
+    } catch (err: any) {
+      showError('Could not generate card', err.message);
+    }
+  };
+
+  const revoke = async (cardId: number) => {
+    if (!window.confirm(`Revoke emergency card #${cardId}? Scans will show it as revoked when the reader is online.`)) {
+      return;
+    }
+    try {
+      await revokeCard(cardId);
+      showSuccess('Emergency card revoked');
+    } catch (err: any) {
+      showError('Could not revoke card', err.message);
+    }
+  };
+
+  // Prints only the card by copying it and the page styles into a blank window
+  const print = () => {
+    if (!cardRef.current) return;
+    const printWindow = window.open('', '_blank', 'width=600,height=500');
+    if (!printWindow) {
+      showError('Could not open print window', 'Allow pop-ups for this site and try again.');
+      return;
+    }
+    const printDocument = printWindow.document;
+    printDocument.title = 'Emergency Medical Card';
+    document.querySelectorAll('link[rel="stylesheet"], style').forEach(node => {
+      printDocument.head.appendChild(printDocument.importNode(node, true));
+    });
+    printDocument.body.appendChild(printDocument.importNode(cardRef.current, true));
+    // Give the copied stylesheet links a moment to load before the print dialog opens
+    setTimeout(() => printWindow.print(), 300);
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <QrCode className="h-5 w-5 mr-2" />
+          Emergency Card
+        </h2>
+        {latestActive && (
+          <Badge variant={latestIsStale ? 'warning' : 'success'}>
+            {latestIsStale ? 'Out of date' : 'Up to date'}
+          </Badge>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        A printable card with a QR code that paramedics can scan to see your blood group, allergies,
+        medications and emergency contact, even without network access.
+      </p>
+
+      {latestIsStale && (
+        <div className="flex items-start text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-4">
+          <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+          <span>
+            Your profile changed after card #{latestActive!.id} was generated. Generate a new card and revoke the old one
+            so responders see current information.
+          </span>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3 mb-2">
+        <div className="flex-1">
+          <label htmlFor="emergency-card-pin" className="block text-sm font-medium text-gray-700 mb-1">
+            PIN (optional)
+          </label>
+          <Input
+            id="emergency-card-pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            value={pin}
+            onChange={(e) => setPin(e.target.value)}
+            placeholder={`At least ${CARD_PIN_MIN_LENGTH} digits`}
+          />
+        </div>
+        <Button onClick={generate} disabled={isLoading}>
+          <QrCode className="h-4 w-4 mr-2" />
+          {isLoading ? 'Generating...' : 'Generate Card'}
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        A PIN keeps the details out of the QR code for anyone who does not know it, but a short PIN only deters casual
+        reading. Responders must be able to learn the PIN, for example from a note in your wallet.
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {issued && (
+        <div className="mb-6">
+          <div ref={cardRef}>
+            <EmergencyCardView payload={issued.payload} qrDataUrl={issued.qrDataUrl} pinProtected={issued.pinProtected} />
+          </div>
+          <div className="flex space-x-3 mt-3">
+            <Button variant="outline" size="sm" onClick={print}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print
+            </Button>
+            <a href={issued.qrDataUrl} download={`emergency-card-${issued.card.id}.png`}>
+              <Button variant="outline" size="sm">
+                <Download className="h-4 w-4 mr-2" />
+                Download QR
+              </Button>
+            </a>
+          </div>
+        </div>
+      )}
+
+      {overview && overview.cards.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Card</TableHead>
+              <TableHead>Generated</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {overview.cards.slice().reverse().map(card => (
+              <TableRow key={card.id}>
+                <TableCell>#{card.id}</TableCell>
+                <TableCell>{new Date(card.issued_at / NS_PER_MS).toLocaleString()}</TableCell>
+                <TableCell>
+                  {card.revoked_at !== null ? (
+                    <Badge variant="destructive">Revoked</Badge>
+                  ) : isCardStale(card, overview) ? (
+                    <Badge variant="warning">Out of date</Badge>
+                  ) : (
+                    <Badge variant="success">Current</Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {card.revoked_at === null && (
+                    <Button variant="ghost" size="sm" onClick={() => revoke(card.id)} disabled={isLoading}>
+                      Revoke
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+};
+
+export default EmergencyCardPanel;
@@ -8,11 +8,16 @@ import Switch from '../ui/Switch';
 import Badge from '../ui/Badge';
 import ProfilePhotoUpload from '../common/ProfilePhotoUpload';
 import FileManager from '../files/FileManager';
+import KeyRotationCard from './KeyRotationCard';
+import KeyCachePanel from './KeyCachePanel';
+import EmergencyCardPanel from './EmergencyCardPanel';
+import CaregiverPanel from './CaregiverPanel';
 import { User, Save, Shield, DollarSign, Calendar, Phone, Mail, AlertCircle, Files } from 'lucide-react';
 import useAuthStore from '../../stores/useAuthStore';
 import useProfileStore from '../../stores/useProfileStore';
 import useFileStore from '../../stores/useFileStore';
 import { PatientProfile as PatientProfileType } from '../../types';
+import { BLOOD_GROUPS } from '../../utils/emergencyCard';
 
 const EnhancedPatientProfile: React.FC = () => {
   const { principal } = useAuthStore();
@@ -28,6 +33,7 @@ const EnhancedPatientProfile: React.FC = () => {
     medical_history: '',
     allergies: '',
     current_medications: '',
+    blood_group: '',
   });
   const [monetizeEnabled, setMonetizeEnabled] = useState(false);
 
@@ -49,6 +55,7 @@ const EnhancedPatientProfile: React.FC = () => {
         medical_history: patientProfile.medical_history || '',
         allergies: patientProfile.allergies || '',
         current_medications: patientProfile.current_medications || '',
+        blood_group: patientProfile.blood_group || '',
       });
     }
   }, [patientProfile]);
@@ -63,7 +70,8 @@ const EnhancedPatientProfile: React.FC = () => {
         formData.emergency_contact || '',
         formData.medical_history || '',
         formData.allergies || '',
-        formData.current_medications || ''
+        formData.current_medications || '',
+        formData.blood_group || null
       );
       // Show success message
       console.log('Profile updated successfully!');
@@ -301,6 +309,20 @@ const EnhancedPatientProfile: React.FC = () => {
               rows={2}
             />
           </div>
+          <div>
+            <Label htmlFor="bloodGroup">Blood Group</Label>
+            <select
+              id="bloodGroup"
+              value={formData.blood_group || ''}
+              onChange={(e) => handleInputChange('blood_group', e.target.value)}
+              className="flex h-10 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2"
+            >
+              <option value="">Not set</option>
+              {BLOOD_GROUPS.map(group => (
+                <option key={group} value={group}>{group === 'unknown' ? 'Unknown' : group}</option>
+              ))}
+            </select>
+          </div>
           <div>
             <Label htmlFor="medications">Current Medications</Label>
             <Textarea
@@ -402,6 +424,14 @@ const EnhancedPatientProfile: React.FC = () => {
           </div>
         )}
       </Card>
+
+      <EmergencyCardPanel />
+
+      <CaregiverPanel />
+
+      <KeyRotationCard />
+
+      <KeyCachePanel />
     </div>
   );
 };
@@ -18,6 +18,7 @@ import {
   FileText
 } from 'lucide-react';
 import useAuthStore from '../../stores/useAuthStore';
+import KeyCachePanel from './KeyCachePanel';
 import useProfileStore from '../../stores/useProfileStore';
 import { HealthcareProviderProfile as ProviderProfileType } from '../../types';
 
@@ -293,6 +294,8 @@ const EnhancedProviderProfile: React.FC = () => {
           </div>
         </div>
       </Card>
+
+      <KeyCachePanel />
     </div>
   );
 };
@@ -0,0 +1,156 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Database, Trash2, RefreshCw } from 'lucide-react';
+import { formatDistance } from 'date-fns';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/Table';
+import { CryptoService, CachedKeyEntry } from '../../services/CryptoService';
+import { useToast } from '../../hooks/useToast';
+
+const KIND_LABELS: Record<string, string> = {
+  user_key: 'User key',
+  shared_record_key: 'Shared record key',
+  shared_file_key: 'Shared file key',
+  offline_replica_key: 'Offline copy key',
+};
+
+const KeyCachePanel: React.FC = () => {
+  const { showSuccess, showError } = useToast();
+  const [expanded, setExpanded] = useState(false);
+  const [entries, setEntries] = useState<CachedKeyEntry[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await CryptoService.getCachedKeyEntries());
+      setSessionId(CryptoService.getKeyCacheSessionId());
+    } catch (err: any) {
+      console.error('Failed to read key cache:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (expanded) {
+      loadEntries();
+    }
+  }, [expanded, loadEntries]);
+
+  const runAndReload = async (action: () => Promise<unknown>, message: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      showSuccess(message);
+    } catch (err: any) {
+      showError('Key cache update failed', err.message);
+    } finally {
+      setIsBusy(false);
+      await loadEntries();
+    }
+  };
+
+  const entryStatus = (entry: CachedKeyEntry) => {
+    if (entry.persistent) return <Badge variant="secondary">Until logout</Badge>;
+    if (entry.sessionId !== sessionId) return <Badge variant="warning">Other session</Badge>;
+    if (entry.expiresAt <= Date.now()) return <Badge variant="secondary">Expired</Badge>;
+    return <Badge variant="success">Active</Badge>;
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <Database className="h-5 w-5 mr-2" />
+          Cached Keys on This Device
+        </h2>
+        <Button variant="outline" size="sm" onClick={() => setExpanded(!expanded)}>
+          {expanded ? 'Hide' : 'Show'}
+        </Button>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Decryption keys are cached in this browser for the current login session and removed when you log out.
+        The offline copy key stays until you log out, so changes made offline survive an expired session.
+        On a shared workstation you can wipe them at any time; changes still waiting to sync then become unreadable.
+      </p>
+
+      {expanded && (
+        <div className="mt-4">
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4 text-center">No keys are cached on this device.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Key</TableHead>
+                  <TableHead>For</TableHead>
+                  <TableHead>Cached</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.name.join('/')}>
+                    <TableCell className="font-medium">{KIND_LABELS[entry.kind] ?? entry.kind}</TableCell>
+                    <TableCell>
+                      <span className="text-xs text-gray-600 break-all" title={entry.name.join('/')}>
+                        {entry.name.slice(1).join(' / ')}
+                      </span>
+                    </TableCell>
+                    <TableCell>{formatDistance(new Date(entry.cachedAt), new Date(), { addSuffix: true })}</TableCell>
+                    <TableCell>
+                      {entry.persistent ? 'At logout' : entry.expiresAt ? formatDistance(new Date(entry.expiresAt), new Date(), { addSuffix: true }) : '—'}
+                    </TableCell>
+                    <TableCell>{entryStatus(entry)}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isBusy}
+                        onClick={() => runAndReload(
+                          () => CryptoService.evictCachedKeys(e => e.name.join('/') === entry.name.join('/')),
+                          'Key removed'
+                        )}
+                      >
+                        Remove
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex justify-end space-x-3 mt-4">
+            <Button variant="ghost" size="sm" onClick={loadEntries} disabled={isBusy}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isBusy}
+              onClick={() => runAndReload(() => CryptoService.evictExpiredKeys(), 'Expired keys removed')}
+            >
+              Remove Expired
+            </Button>
+            <Button
+              variant="danger"
+              size="sm"
+              disabled={isBusy}
+              onClick={() => runAndReload(() => CryptoService.clearAllCachedKeys(), 'All cached keys wiped')}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Wipe All
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default KeyCachePanel;
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, RefreshCw, AlertTriangle, CheckCircle } from 'lucide-react';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/Dialog';
+import useKeyRotationStore from '../../stores/useKeyRotationStore';
+import { useToast } from '../../hooks/useToast';
+
+const NS_PER_MS = 1_000_000;
+
+const PHASE_LABELS = {
+  records: 'Re-encrypting records',
+  files: 'Re-encrypting vault files',
+  finalizing: 'Finishing rotation',
+};
+
+const KeyRotationCard: React.FC = () => {
+  const { status, progress, isRunning, isLoading, error, fetchStatus, startRotation, resumeRotation } = useKeyRotationStore();
+  const { showSuccess, showError, showWarning } = useToast();
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  useEffect(() => {
+    fetchStatus().catch(() => undefined);
+  }, [fetchStatus]);
+
+  const inProgress = status?.rotation_started_at != null;
+
+  const run = async (action: () => Promise<void>) => {
+    setConfirmOpen(false);
+    try {
+      await action();
+      const { progress: finished } = useKeyRotationStore.getState();
+      if (finished && finished.failures.length > 0) {
+        showWarning('Rotation incomplete', `${finished.failures.length} item(s) failed. Resume to retry them.`);
+      } else {
+        showSuccess('Keys rotated', 'All records and files are encrypted under your new key.');
+      }
+    } catch (err: any) {
+      showError('Key rotation failed', err.message);
+    }
+  };
+
+  const percent = progress && progress.total > 0
+    ? Math.round((progress.completed / progress.total) * 100)
+    : 0;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <KeyRound className="h-5 w-5 mr-2" />
+          Encryption Keys
+        </h2>
+        {status && (
+          <Badge variant={inProgress ? 'warning' : 'secondary'}>
+            {inProgress ? 'Rotation in progress' : `Key epoch ${status.epoch}`}
+          </Badge>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        If you suspect your keys were exposed, rotate them. Every record and vault file is re-encrypted
+        under a new key, and providers you share with receive the new key automatically.
+      </p>
+
+      {status && inProgress && !isRunning && (
+        <div className="flex items-start text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-4">
+          <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+          <span>
+            A rotation started {new Date(status.rotation_started_at! / NS_PER_MS).toLocaleString()} has not finished.
+            {' '}{status.pending_record_ids.length} of {status.total_records} record(s) still use the old key.
+          </span>
+        </div>
+      )}
+
+      {progress && (
+        <div className="mb-4">
+          <div className="flex justify-between text-sm text-gray-700 mb-1">
+            <span>{isRunning ? PHASE_LABELS[progress.phase] : 'Last run'}</span>
+            <span>{progress.completed}/{progress.total}</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          {!isRunning && progress.failures.length === 0 && (
+            <p className="flex items-center text-sm text-green-700 mt-2">
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Everything is encrypted under the current key.
+            </p>
+          )}
+          {progress.failures.length > 0 && (
+            <ul className="mt-3 space-y-1 text-sm">
+              {progress.failures.map(failure => (
+                <li key={`${failure.kind}:${failure.id}`} className="text-red-700">
+                  <span className="font-medium">{failure.kind === 'record' ? 'Record' : 'File'} “{failure.label}”:</span> {failure.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        {inProgress ? (
+          <Button onClick={() => run(resumeRotation)} disabled={isRunning || isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isRunning ? 'animate-spin' : ''}`} />
+            {isRunning ? 'Rotating...' : 'Resume Rotation'}
+          </Button>
+        ) : (
+          <Button variant="outline" onClick={() => setConfirmOpen(true)} disabled={isRunning || isLoading || !status}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Rotate Keys
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rotate encryption keys?</DialogTitle>
+            <DialogDescription>
+              {status?.total_records ?? 0} record(s) and your vault files will be downloaded, decrypted and
+              re-encrypted in this browser. Keep this tab open until it finishes; an interrupted rotation can be resumed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end space-x-3 mt-4">
+            <Button variant="outline" onClick={() => setConfirmOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="danger" onClick={() => run(startRotation)}>
+              Rotate Keys
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default KeyRotationCard;
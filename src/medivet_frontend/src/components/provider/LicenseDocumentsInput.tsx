@@ -0,0 +1,60 @@
+import React from 'react';
+import { FileText, X } from 'lucide-react';
+import { VERIFICATION_MAX_DOCUMENTS } from '../../stores/useVerificationStore';
+
+interface LicenseDocumentsInputProps {
+  documents: File[];
+  onChange: (documents: File[]) => void;
+  error?: string;
+}
+
+// Scans or PDFs of the provider's license, uploaded encrypted to their vault on submission
+const LicenseDocumentsInput: React.FC<LicenseDocumentsInputProps> = ({ documents, onChange, error }) => {
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    onChange([...documents, ...selected].slice(0, VERIFICATION_MAX_DOCUMENTS));
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700">
+        License Documents <span className="text-red-500">*</span>
+      </label>
+      <input
+        type="file"
+        accept="application/pdf,image/*"
+        multiple
+        onChange={handleSelect}
+        disabled={documents.length >= VERIFICATION_MAX_DOCUMENTS}
+        className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+      />
+      {documents.length > 0 && (
+        <ul className="space-y-1">
+          {documents.map((document, index) => (
+            <li key={`${document.name}-${index}`} className="flex items-center justify-between text-sm text-gray-700 bg-gray-50 rounded px-3 py-1">
+              <span className="flex items-center">
+                <FileText className="h-4 w-4 mr-2 text-gray-400" />
+                {document.name}
+              </span>
+              <button
+                type="button"
+                className="text-gray-400 hover:text-red-600"
+                onClick={() => onChange(documents.filter((_, i) => i !== index))}
+                aria-label={`Remove ${document.name}`}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-gray-500">
+        Up to {VERIFICATION_MAX_DOCUMENTS} files. They are encrypted in your vault and shared only with the platform reviewer.
+      </p>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default LicenseDocumentsInput;
@@ -0,0 +1,111 @@
+import React, { useEffect } from 'react';
+import { Send } from 'lucide-react';
+import { formatDistance } from 'date-fns';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/Table';
+import usePermissionRequestStore from '../../stores/usePermissionRequestStore';
+import useUserMappingStore from '../../stores/useUserMappingStore';
+import { PermissionRequestStatus } from '../../types';
+import { PERMISSION_LABELS, describeSharingContext } from '../../utils/permissions';
+import { useToast } from '../../hooks/useToast';
+
+const NS_PER_MS = 1_000_000;
+
+const STATUS_VARIANTS: Record<PermissionRequestStatus, 'default' | 'secondary' | 'destructive' | 'success' | 'warning'> = {
+  Pending: 'warning',
+  Approved: 'success',
+  Denied: 'destructive',
+  Expired: 'secondary',
+  Cancelled: 'secondary',
+};
+
+const OutgoingPermissionRequests: React.FC = () => {
+  const { outgoingRequests, fetchOutgoingRequests, cancelRequest, isLoading } = usePermissionRequestStore();
+  const { getDisplayName } = useUserMappingStore();
+  const { showSuccess, showError } = useToast();
+
+  useEffect(() => {
+    fetchOutgoingRequests();
+  }, [fetchOutgoingRequests]);
+
+  const handleCancel = async (requestId: number) => {
+    try {
+      await cancelRequest(requestId);
+      showSuccess('Request cancelled');
+    } catch (err: any) {
+      showError('Cancel failed', err.message);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <Send className="h-5 w-5 mr-2" />
+          My Access Requests
+        </h2>
+        <Button variant="ghost" size="sm" onClick={() => fetchOutgoingRequests()} disabled={isLoading}>
+          Refresh
+        </Button>
+      </div>
+
+      {outgoingRequests.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">
+          You have not requested access from any patients yet.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Patient</TableHead>
+              <TableHead>Context</TableHead>
+              <TableHead>Permissions</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {outgoingRequests.map(request => (
+              <TableRow key={request.id}>
+                <TableCell className="font-medium">
+                  <span title={request.patient}>{getDisplayName(request.patient)}</span>
+                </TableCell>
+                <TableCell>{describeSharingContext(request.context)}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {request.requested_permissions.map(permission => (
+                      <Badge key={permission} variant="secondary" className="text-xs">
+                        {PERMISSION_LABELS[permission]}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  {formatDistance(new Date(request.requested_at / NS_PER_MS), new Date(), { addSuffix: true })}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={STATUS_VARIANTS[request.status]}>{request.status}</Badge>
+                  {request.patient_response && (
+                    <p className="text-xs text-gray-500 mt-1">“{request.patient_response}”</p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {request.status === 'Pending' && (
+                    <Button variant="ghost" size="sm" onClick={() => handleCancel(request.id)} disabled={isLoading}>
+                      Cancel
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+};
+
+export default OutgoingPermissionRequests;
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { BadgeCheck, Clock, ShieldAlert, ShieldX } from 'lucide-react';
+import Card from '../ui/Card';
+import Badge from '../ui/Badge';
+import Button from '../ui/Button';
+import FormInput from '../ui/FormInput';
+import LicenseDocumentsInput from './LicenseDocumentsInput';
+import useVerificationStore, { VERIFICATION_STATUS_LABELS, canResubmitVerification } from '../../stores/useVerificationStore';
+import useProfileStore from '../../stores/useProfileStore';
+import { useMedicalData } from '../../hooks/useMedicalData';
+import { validateLicenseNumber } from '../../utils/validation';
+import { VerificationStatus } from '../../types';
+
+const STATUS_VARIANTS: Record<VerificationStatus, 'default' | 'secondary' | 'destructive' | 'success' | 'warning'> = {
+  Submitted: 'secondary',
+  UnderReview: 'warning',
+  Approved: 'success',
+  Rejected: 'destructive',
+  Expired: 'warning',
+};
+
+const formatDate = (ns: number) => new Date(ns / 1_000_000).toLocaleDateString();
+
+// The provider's credential verification case, with a form to submit a new one when needed
+const VerificationStatusCard: React.FC = () => {
+  const { myCase, isLoading, error, fetchMyCase, submitCase } = useVerificationStore();
+  const { healthcareProviderProfile } = useProfileStore();
+  const { specializationOptions } = useMedicalData();
+  const [showForm, setShowForm] = useState(false);
+  const [licenseNumber, setLicenseNumber] = useState('');
+  const [specialty, setSpecialty] = useState('');
+  const [documents, setDocuments] = useState<File[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchMyCase();
+  }, [fetchMyCase]);
+
+  // Start from what was claimed last time, or the profile
+  useEffect(() => {
+    setLicenseNumber(myCase?.license_number ?? healthcareProviderProfile?.license_number ?? '');
+    setSpecialty(myCase?.specialty ?? healthcareProviderProfile?.specialization ?? '');
+  }, [myCase, healthcareProviderProfile]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const license = validateLicenseNumber(licenseNumber);
+    if (!license.isValid) {
+      setFormError(license.error || 'Invalid license number');
+      return;
+    }
+    if (!specializationOptions.some(option => option.value === specialty)) {
+      setFormError('Choose a specialization from the list');
+      return;
+    }
+    if (documents.length === 0) {
+      setFormError('Attach at least one license document');
+      return;
+    }
+    setFormError(null);
+    try {
+      await submitCase(license.sanitized ?? licenseNumber, specialty, documents);
+      setDocuments([]);
+      setShowForm(false);
+    } catch {
+      // Shown through the store's error
+    }
+  };
+
+  const decision = myCase ? [...myCase.history].reverse().find(event => event.status === myCase.status) : undefined;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-start justify-between">
+        <div className="flex items-start space-x-3">
+          {myCase?.status === 'Approved' ? (
+            <BadgeCheck className="h-6 w-6 text-green-600 mt-0.5" />
+          ) : myCase?.status === 'Rejected' ? (
+            <ShieldX className="h-6 w-6 text-red-600 mt-0.5" />
+          ) : myCase?.status === 'Expired' || !myCase ? (
+            <ShieldAlert className="h-6 w-6 text-yellow-600 mt-0.5" />
+          ) : (
+            <Clock className="h-6 w-6 text-blue-600 mt-0.5" />
+          )}
+          <div>
+            <div className="flex items-center space-x-2">
+              <h3 className="text-lg font-semibold text-gray-900">Credential Verification</h3>
+              {myCase ? (
+                <Badge variant={STATUS_VARIANTS[myCase.status]}>{VERIFICATION_STATUS_LABELS[myCase.status]}</Badge>
+              ) : (
+                <Badge variant="secondary">Not submitted</Badge>
+              )}
+            </div>
+            {myCase ? (
+              <p className="text-sm text-gray-600 mt-1">
+                License {myCase.license_number} · {myCase.specialty} · submitted {formatDate(myCase.submitted_at)}
+                {myCase.status === 'Approved' && myCase.expires_at !== null && ` · valid until ${formatDate(myCase.expires_at)}`}
+              </p>
+            ) : (
+              <p className="text-sm text-gray-600 mt-1">
+                Submit your license documents to be verified and unlock emergency access.
+              </p>
+            )}
+            {myCase?.status === 'Expired' && (
+              <p className="text-sm text-yellow-700 mt-1">Your approval has expired. Submit current documents to be verified again.</p>
+            )}
+            {decision?.note && (
+              <p className={`text-sm mt-2 ${myCase?.status === 'Rejected' ? 'text-red-700' : 'text-gray-700'}`}>
+                Reviewer: {decision.note}
+              </p>
+            )}
+          </div>
+        </div>
+        {canResubmitVerification(myCase) && !showForm && (
+          <Button size="sm" onClick={() => setShowForm(true)}>
+            {myCase ? 'Submit again' : 'Submit documents'}
+          </Button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mt-6 space-y-4 border-t border-gray-100 pt-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormInput
+              label="Medical License Number"
+              name="licenseNumber"
+              value={licenseNumber}
+              onChange={(e) => setLicenseNumber(e.target.value)}
+              required
+            />
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">
+                Medical Specialization <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={specialty}
+                onChange={(e) => setSpecialty(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              >
+                <option value="">Select a specialization</option>
+                {specializationOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <LicenseDocumentsInput documents={documents} onChange={setDocuments} />
+          {(formError || error) && <p className="text-sm text-red-600">{formError || error}</p>}
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={isLoading}>
+              Submit for Review
+            </Button>
+          </div>
+        </form>
+      )}
+    </Card>
+  );
+};
+
+export default VerificationStatusCard;
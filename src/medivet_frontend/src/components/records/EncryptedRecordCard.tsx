@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
 import { Eye, EyeOff, Calendar, User, FileText, Lock, Unlock, UserCheck, Shield } from 'lucide-react';
-import { HealthRecord } from '../../types';
+import { HealthRecord, RecordBody, RecordBodyType } from '../../types';
 import { CryptoService } from '../../services/CryptoService';
 import { createAuthenticatedActor } from '../../services/actorService';
 import useAuthStore from '../../stores/useAuthStore';
 import PatientProfileModal from '../modals/PatientProfileModal';
 import { formatTimestamp } from '../../utils/dateUtils';
+import { parseRecordBody } from '../../utils/recordBody';
+import RecordBodyViewer from './RecordBodyViewer';
 
 interface EncryptedRecordCardProps {
   record: HealthRecord;
@@ -17,7 +19,7 @@ const EncryptedRecordCard: React.FC<EncryptedRecordCardProps> = ({
   onAccessLogged 
 }) => {
   const [isDecrypted, setIsDecrypted] = useState(false);
-  const [decryptedContent, setDecryptedContent] = useState<string>('');
+  const [decryptedBody, setDecryptedBody] = useState<RecordBody | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [error, setError] = useState<string>('');
   const [showPatientProfile, setShowPatientProfile] = useState(false);
@@ -27,7 +29,7 @@ const EncryptedRecordCard: React.FC<EncryptedRecordCardProps> = ({
     if (isDecrypted) {
       // Hide decrypted content
       setIsDecrypted(false);
-      setDecryptedContent('');
+      setDecryptedBody(null);
       return;
     }
 
@@ -52,7 +54,7 @@ const EncryptedRecordCard: React.FC<EncryptedRecordCardProps> = ({
         encryptedContentBase64
       );
 
-      setDecryptedContent(decrypted);
+      setDecryptedBody(parseRecordBody(decrypted));
       setIsDecrypted(true);
       
       // Notify parent component that access was logged
@@ -199,14 +201,16 @@ const EncryptedRecordCard: React.FC<EncryptedRecordCardProps> = ({
       )}
 
       {/* Decrypted Content */}
-      {isDecrypted && decryptedContent && (
+      {isDecrypted && decryptedBody && (
         <div className="border-t pt-4">
           <h4 className="text-sm font-medium text-gray-900 mb-3 flex items-center gap-2">
             <Unlock className="h-4 w-4 text-green-600" />
             Decrypted Record Content
           </h4>
           <div className="bg-gray-50 rounded-md p-4">
-            {formatContent(decryptedContent)}
+            {decryptedBody.type === RecordBodyType.PlainText
+              ? formatContent(decryptedBody.text)
+              : <RecordBodyViewer body={decryptedBody} />}
           </div>
         </div>
       )}
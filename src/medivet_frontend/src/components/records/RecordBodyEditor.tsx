@@ -0,0 +1,505 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import AutocompleteInput from '../ui/AutocompleteInput';
+import ItemChips from '../ui/ItemChips';
+import { useMedicalData } from '../../hooks/useMedicalData';
+import {
+  RecordBody,
+  RecordBodyType,
+  LabPanelBody,
+  PrescriptionBody,
+  VisitNoteBody,
+  ImmunizationBody,
+  VitalSignsBody,
+  ImagingReportBody,
+  LabResultEntry,
+  LabResultFlag,
+} from '../../types';
+import { createEmptyLabResult } from '../../utils/recordBody';
+
+interface RecordBodyEditorProps {
+  body: RecordBody;
+  onChange: (body: RecordBody) => void;
+  errors?: Record<string, string>;
+}
+
+interface TypedEditorProps<T extends RecordBody> {
+  body: T;
+  onChange: (body: T) => void;
+  errors: Record<string, string>;
+}
+
+const inputClass = (error?: string) =>
+  `w-full p-2 border rounded-md ${error ? 'border-red-500' : 'border-gray-300'}`;
+
+interface FieldProps {
+  label: string;
+  error?: string;
+  required?: boolean;
+  children: React.ReactNode;
+}
+
+const Field: React.FC<FieldProps> = ({ label, error, required = false, children }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-700 mb-1">
+      {label} {required && <span className="text-red-500">*</span>}
+    </label>
+    {children}
+    {error && <p className="text-red-500 text-sm mt-1">{error}</p>}
+  </div>
+);
+
+const toNumberOrNull = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const LabPanelEditor: React.FC<TypedEditorProps<LabPanelBody>> = ({ body, onChange, errors }) => {
+  const updateResult = (index: number, patch: Partial<LabResultEntry>) => {
+    const results = body.results.map((result, i) => (i === index ? { ...result, ...patch } : result));
+    onChange({ ...body, results });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Field label="Panel Name" error={errors.panel_name} required>
+          <input
+            type="text"
+            value={body.panel_name}
+            onChange={(e) => onChange({ ...body, panel_name: e.target.value })}
+            className={inputClass(errors.panel_name)}
+            placeholder="e.g., Complete Blood Count"
+          />
+        </Field>
+        <Field label="Collected On" error={errors.collected_at}>
+          <input
+            type="date"
+            value={body.collected_at}
+            onChange={(e) => onChange({ ...body, collected_at: e.target.value })}
+            className={inputClass(errors.collected_at)}
+          />
+        </Field>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Results <span className="text-red-500">*</span>
+        </label>
+        <div className="space-y-2">
+          {body.results.map((result, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-start">
+              <input
+                type="text"
+                value={result.test}
+                onChange={(e) => updateResult(index, { test: e.target.value })}
+                className={`col-span-3 ${inputClass(errors[`results.${index}.test`])}`}
+                placeholder="Test"
+              />
+              <input
+                type="text"
+                value={result.value}
+                onChange={(e) => updateResult(index, { value: e.target.value })}
+                className={`col-span-2 ${inputClass(errors[`results.${index}.value`])}`}
+                placeholder="Value"
+              />
+              <input
+                type="text"
+                value={result.unit}
+                onChange={(e) => updateResult(index, { unit: e.target.value })}
+                className={`col-span-2 ${inputClass()}`}
+                placeholder="Unit"
+              />
+              <input
+                type="text"
+                value={result.reference_range}
+                onChange={(e) => updateResult(index, { reference_range: e.target.value })}
+                className={`col-span-2 ${inputClass()}`}
+                placeholder="Ref. range"
+              />
+              <select
+                value={result.flag}
+                onChange={(e) => updateResult(index, { flag: e.target.value as LabResultFlag })}
+                className={`col-span-2 ${inputClass()}`}
+              >
+                <option value="">Flag</option>
+                <option value="normal">Normal</option>
+                <option value="low">Low</option>
+                <option value="high">High</option>
+                <option value="critical">Critical</option>
+              </select>
+              <button
+                type="button"
+                onClick={() => onChange({ ...body, results: body.results.filter((_, i) => i !== index) })}
+                disabled={body.results.length === 1}
+                className="col-span-1 p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                aria-label="Remove result"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        {errors.results && <p className="text-red-500 text-sm mt-1">{errors.results}</p>}
+        <button
+          type="button"
+          onClick={() => onChange({ ...body, results: [...body.results, createEmptyLabResult()] })}
+          className="mt-2 inline-flex items-center text-sm text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add result
+        </button>
+      </div>
+
+      <Field label="Notes" error={errors.notes}>
+        <textarea
+          value={body.notes}
+          onChange={(e) => onChange({ ...body, notes: e.target.value })}
+          rows={3}
+          className={`${inputClass(errors.notes)} resize-y`}
+        />
+      </Field>
+    </div>
+  );
+};
+
+const PrescriptionEditor: React.FC<TypedEditorProps<PrescriptionBody>> = ({ body, onChange, errors }) => {
+  const { medicationOptions, frequencyOptions } = useMedicalData();
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <AutocompleteInput
+          label="Medication"
+          value={body.medication}
+          onChange={(value) => onChange({ ...body, medication: value })}
+          options={medicationOptions}
+          placeholder="Select or type a medication"
+          required
+          error={errors.medication}
+          allowCustom={true}
+        />
+        <Field label="Dosage" error={errors.dosage} required>
+          <input
+            type="text"
+            value={body.dosage}
+            onChange={(e) => onChange({ ...body, dosage: e.target.value })}
+            className={inputClass(errors.dosage)}
+            placeholder="e.g., 10mg"
+          />
+        </Field>
+        <AutocompleteInput
+          label="Frequency"
+          value={body.frequency}
+          onChange={(value) => onChange({ ...body, frequency: value })}
+          options={frequencyOptions}
+          placeholder="Select or type a frequency"
+          required
+          error={errors.frequency}
+          allowCustom={true}
+        />
+        <Field label="Route" error={errors.route}>
+          <input
+            type="text"
+            value={body.route}
+            onChange={(e) => onChange({ ...body, route: e.target.value })}
+            className={inputClass(errors.route)}
+            placeholder="e.g., Oral"
+          />
+        </Field>
+        <Field label="Start Date" error={errors.start_date}>
+          <input
+            type="date"
+            value={body.start_date}
+            onChange={(e) => onChange({ ...body, start_date: e.target.value })}
+            className={inputClass(errors.start_date)}
+          />
+        </Field>
+        <Field label="End Date" error={errors.end_date}>
+          <input
+            type="date"
+            value={body.end_date}
+            onChange={(e) => onChange({ ...body, end_date: e.target.value })}
+            className={inputClass(errors.end_date)}
+          />
+        </Field>
+      </div>
+      <Field label="Prescriber" error={errors.prescriber}>
+        <input
+          type="text"
+          value={body.prescriber}
+          onChange={(e) => onChange({ ...body, prescriber: e.target.value })}
+          className={inputClass(errors.prescriber)}
+          placeholder="e.g., Dr. Smith"
+        />
+      </Field>
+      <Field label="Instructions" error={errors.instructions}>
+        <textarea
+          value={body.instructions}
+          onChange={(e) => onChange({ ...body, instructions: e.target.value })}
+          rows={3}
+          className={`${inputClass(errors.instructions)} resize-y`}
+          placeholder="e.g., Take with food"
+        />
+      </Field>
+    </div>
+  );
+};
+
+const VisitNoteEditor: React.FC<TypedEditorProps<VisitNoteBody>> = ({ body, onChange, errors }) => {
+  const { conditionOptions } = useMedicalData();
+
+  const sections: Array<{ key: 'subjective' | 'objective' | 'assessment' | 'plan'; label: string; required?: boolean }> = [
+    { key: 'subjective', label: 'Subjective' },
+    { key: 'objective', label: 'Objective' },
+    { key: 'assessment', label: 'Assessment', required: true },
+    { key: 'plan', label: 'Plan' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Field label="Chief Complaint" error={errors.chief_complaint} required>
+          <input
+            type="text"
+            value={body.chief_complaint}
+            onChange={(e) => onChange({ ...body, chief_complaint: e.target.value })}
+            className={inputClass(errors.chief_complaint)}
+          />
+        </Field>
+        <Field label="Visit Date" error={errors.visit_date}>
+          <input
+            type="date"
+            value={body.visit_date}
+            onChange={(e) => onChange({ ...body, visit_date: e.target.value })}
+            className={inputClass(errors.visit_date)}
+          />
+        </Field>
+      </div>
+      {sections.map(({ key, label, required }) => (
+        <Field key={key} label={label} error={errors[key]} required={required}>
+          <textarea
+            value={body[key]}
+            onChange={(e) => onChange({ ...body, [key]: e.target.value })}
+            rows={3}
+            className={`${inputClass(errors[key])} resize-y`}
+          />
+        </Field>
+      ))}
+      <div>
+        <AutocompleteInput
+          label="Diagnoses"
+          value=""
+          onChange={(value) => {
+            if (value && !body.diagnoses.includes(value)) {
+              onChange({ ...body, diagnoses: [...body.diagnoses, value] });
+            }
+          }}
+          options={conditionOptions}
+          placeholder="Add diagnosis..."
+          allowCustom={true}
+        />
+        <ItemChips
+          items={body.diagnoses}
+          onRemove={(index) => onChange({ ...body, diagnoses: body.diagnoses.filter((_, i) => i !== index) })}
+        />
+      </div>
+    </div>
+  );
+};
+
+const ImmunizationEditor: React.FC<TypedEditorProps<ImmunizationBody>> = ({ body, onChange, errors }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+    <Field label="Vaccine" error={errors.vaccine} required>
+      <input
+        type="text"
+        value={body.vaccine}
+        onChange={(e) => onChange({ ...body, vaccine: e.target.value })}
+        className={inputClass(errors.vaccine)}
+        placeholder="e.g., Influenza (IIV4)"
+      />
+    </Field>
+    <Field label="Date Administered" error={errors.administered_at} required>
+      <input
+        type="date"
+        value={body.administered_at}
+        onChange={(e) => onChange({ ...body, administered_at: e.target.value })}
+        className={inputClass(errors.administered_at)}
+      />
+    </Field>
+    <Field label="Dose Number" error={errors.dose_number}>
+      <input
+        type="text"
+        value={body.dose_number}
+        onChange={(e) => onChange({ ...body, dose_number: e.target.value })}
+        className={inputClass(errors.dose_number)}
+        placeholder="e.g., 2 of 3"
+      />
+    </Field>
+    <Field label="Lot Number" error={errors.lot_number}>
+      <input
+        type="text"
+        value={body.lot_number}
+        onChange={(e) => onChange({ ...body, lot_number: e.target.value })}
+        className={inputClass(errors.lot_number)}
+      />
+    </Field>
+    <Field label="Site" error={errors.site}>
+      <input
+        type="text"
+        value={body.site}
+        onChange={(e) => onChange({ ...body, site: e.target.value })}
+        className={inputClass(errors.site)}
+        placeholder="e.g., Left deltoid"
+      />
+    </Field>
+    <Field label="Administered By" error={errors.administered_by}>
+      <input
+        type="text"
+        value={body.administered_by}
+        onChange={(e) => onChange({ ...body, administered_by: e.target.value })}
+        className={inputClass(errors.administered_by)}
+      />
+    </Field>
+  </div>
+);
+
+const VitalSignsEditor: React.FC<TypedEditorProps<VitalSignsBody>> = ({ body, onChange, errors }) => {
+  const measurements: Array<{ key: Exclude<keyof VitalSignsBody, 'type' | 'measured_at'>; label: string; step?: string }> = [
+    { key: 'systolic', label: 'Systolic (mmHg)' },
+    { key: 'diastolic', label: 'Diastolic (mmHg)' },
+    { key: 'heart_rate', label: 'Heart Rate (bpm)' },
+    { key: 'respiratory_rate', label: 'Respiratory Rate (/min)' },
+    { key: 'temperature_c', label: 'Temperature (°C)', step: '0.1' },
+    { key: 'oxygen_saturation', label: 'SpO2 (%)' },
+    { key: 'weight_kg', label: 'Weight (kg)', step: '0.1' },
+    { key: 'height_cm', label: 'Height (cm)', step: '0.1' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <Field label="Measured On" error={errors.measured_at}>
+        <input
+          type="date"
+          value={body.measured_at}
+          onChange={(e) => onChange({ ...body, measured_at: e.target.value })}
+          className={inputClass(errors.measured_at)}
+        />
+      </Field>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {measurements.map(({ key, label, step }) => (
+          <Field key={key} label={label} error={errors[key]}>
+            <input
+              type="number"
+              step={step || '1'}
+              value={body[key] ?? ''}
+              onChange={(e) => onChange({ ...body, [key]: toNumberOrNull(e.target.value) })}
+              className={inputClass(errors[key])}
+            />
+          </Field>
+        ))}
+      </div>
+      {errors.body && <p className="text-red-500 text-sm">{errors.body}</p>}
+    </div>
+  );
+};
+
+const ImagingReportEditor: React.FC<TypedEditorProps<ImagingReportBody>> = ({ body, onChange, errors }) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <Field label="Modality" error={errors.modality} required>
+        <select
+          value={body.modality}
+          onChange={(e) => onChange({ ...body, modality: e.target.value })}
+          className={inputClass(errors.modality)}
+        >
+          <option value="">Select...</option>
+          <option value="X-Ray">X-Ray</option>
+          <option value="CT">CT</option>
+          <option value="MRI">MRI</option>
+          <option value="Ultrasound">Ultrasound</option>
+          <option value="PET">PET</option>
+          <option value="Mammography">Mammography</option>
+          <option value="Other">Other</option>
+        </select>
+      </Field>
+      <Field label="Body Part" error={errors.body_part} required>
+        <input
+          type="text"
+          value={body.body_part}
+          onChange={(e) => onChange({ ...body, body_part: e.target.value })}
+          className={inputClass(errors.body_part)}
+          placeholder="e.g., Chest"
+        />
+      </Field>
+      <Field label="Performed On" error={errors.performed_at}>
+        <input
+          type="date"
+          value={body.performed_at}
+          onChange={(e) => onChange({ ...body, performed_at: e.target.value })}
+          className={inputClass(errors.performed_at)}
+        />
+      </Field>
+    </div>
+    <Field label="Findings" error={errors.findings}>
+      <textarea
+        value={body.findings}
+        onChange={(e) => onChange({ ...body, findings: e.target.value })}
+        rows={4}
+        className={`${inputClass(errors.findings)} resize-y`}
+      />
+    </Field>
+    <Field label="Impression" error={errors.impression} required>
+      <textarea
+        value={body.impression}
+        onChange={(e) => onChange({ ...body, impression: e.target.value })}
+        rows={2}
+        className={`${inputClass(errors.impression)} resize-y`}
+      />
+    </Field>
+    <Field label="Radiologist" error={errors.radiologist}>
+      <input
+        type="text"
+        value={body.radiologist}
+        onChange={(e) => onChange({ ...body, radiologist: e.target.value })}
+        className={inputClass(errors.radiologist)}
+      />
+    </Field>
+  </div>
+);
+
+/**
+ * Renders the editor matching the body's record type.
+ * Free-text bodies are edited by the caller (AddRecordModal keeps its own textarea).
+ */
+const RecordBodyEditor: React.FC<RecordBodyEditorProps> = ({ body, onChange, errors = {} }) => {
+  switch (body.type) {
+    case RecordBodyType.LabPanel:
+      return <LabPanelEditor body={body} onChange={onChange} errors={errors} />;
+    case RecordBodyType.Prescription:
+      return <PrescriptionEditor body={body} onChange={onChange} errors={errors} />;
+    case RecordBodyType.VisitNote:
+      return <VisitNoteEditor body={body} onChange={onChange} errors={errors} />;
+    case RecordBodyType.Immunization:
+      return <ImmunizationEditor body={body} onChange={onChange} errors={errors} />;
+    case RecordBodyType.VitalSigns:
+      return <VitalSignsEditor body={body} onChange={onChange} errors={errors} />;
+    case RecordBodyType.ImagingReport:
+      return <ImagingReportEditor body={body} onChange={onChange} errors={errors} />;
+    case RecordBodyType.PlainText:
+    default:
+      return (
+        <Field label="Content" error={errors.text} required>
+          <textarea
+            value={body.type === RecordBodyType.PlainText ? body.text : ''}
+            onChange={(e) => onChange({ type: RecordBodyType.PlainText, text: e.target.value })}
+            rows={8}
+            className={`${inputClass(errors.text)} resize-y`}
+          />
+        </Field>
+      );
+  }
+};
+
+export default RecordBodyEditor;
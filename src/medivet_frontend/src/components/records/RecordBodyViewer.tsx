@@ -0,0 +1,201 @@
+import React from 'react';
+import {
+  RecordBody,
+  RecordBodyType,
+  LabPanelBody,
+  PrescriptionBody,
+  VisitNoteBody,
+  ImmunizationBody,
+  VitalSignsBody,
+  ImagingReportBody,
+  LabResultFlag,
+} from '../../types';
+import Badge from '../ui/Badge';
+import { RECORD_BODY_TYPE_LABELS } from '../../utils/recordBody';
+
+interface RecordBodyViewerProps {
+  body: RecordBody;
+  className?: string;
+}
+
+interface DetailRowProps {
+  label: string;
+  value?: string | number | null;
+  multiline?: boolean;
+}
+
+const DetailRow: React.FC<DetailRowProps> = ({ label, value, multiline = false }) => {
+  if (value === null || value === undefined || value === '') return null;
+  return (
+    <div className="border-b border-gray-200 pb-2 last:border-b-0">
+      <dt className="text-sm font-medium text-gray-600">{label}</dt>
+      <dd className={`text-sm text-gray-900 mt-1 ${multiline ? 'whitespace-pre-wrap' : ''}`}>{value}</dd>
+    </div>
+  );
+};
+
+const flagVariant = (flag: LabResultFlag) => {
+  switch (flag) {
+    case 'critical': return 'destructive';
+    case 'high':
+    case 'low': return 'warning';
+    case 'normal': return 'success';
+    default: return 'secondary';
+  }
+};
+
+const LabPanelViewer: React.FC<{ body: LabPanelBody }> = ({ body }) => (
+  <div className="space-y-3">
+    <dl className="space-y-2">
+      <DetailRow label="Panel" value={body.panel_name} />
+      <DetailRow label="Collected" value={body.collected_at} />
+    </dl>
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600 border-b border-gray-200">
+            <th className="py-2 pr-4 font-medium">Test</th>
+            <th className="py-2 pr-4 font-medium">Result</th>
+            <th className="py-2 pr-4 font-medium">Reference</th>
+            <th className="py-2 font-medium">Flag</th>
+          </tr>
+        </thead>
+        <tbody>
+          {body.results.map((result, index) => (
+            <tr key={index} className="border-b border-gray-100 last:border-b-0">
+              <td className="py-2 pr-4 text-gray-900">{result.test}</td>
+              <td className="py-2 pr-4 text-gray-900">
+                {result.value} {result.unit}
+              </td>
+              <td className="py-2 pr-4 text-gray-600">{result.reference_range || '—'}</td>
+              <td className="py-2">
+                {result.flag && (
+                  <Badge variant={flagVariant(result.flag)} className="capitalize">
+                    {result.flag}
+                  </Badge>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+    <dl>
+      <DetailRow label="Notes" value={body.notes} multiline />
+    </dl>
+  </div>
+);
+
+const PrescriptionViewer: React.FC<{ body: PrescriptionBody }> = ({ body }) => (
+  <dl className="space-y-2">
+    <DetailRow label="Medication" value={body.medication} />
+    <DetailRow label="Dosage" value={body.dosage} />
+    <DetailRow label="Frequency" value={body.frequency} />
+    <DetailRow label="Route" value={body.route} />
+    <DetailRow label="Start Date" value={body.start_date} />
+    <DetailRow label="End Date" value={body.end_date} />
+    <DetailRow label="Prescriber" value={body.prescriber} />
+    <DetailRow label="Instructions" value={body.instructions} multiline />
+  </dl>
+);
+
+const VisitNoteViewer: React.FC<{ body: VisitNoteBody }> = ({ body }) => (
+  <div className="space-y-3">
+    <dl className="space-y-2">
+      <DetailRow label="Visit Date" value={body.visit_date} />
+      <DetailRow label="Chief Complaint" value={body.chief_complaint} />
+      <DetailRow label="Subjective" value={body.subjective} multiline />
+      <DetailRow label="Objective" value={body.objective} multiline />
+      <DetailRow label="Assessment" value={body.assessment} multiline />
+      <DetailRow label="Plan" value={body.plan} multiline />
+    </dl>
+    {body.diagnoses.length > 0 && (
+      <div>
+        <p className="text-sm font-medium text-gray-600 mb-1">Diagnoses</p>
+        <div className="flex flex-wrap gap-2">
+          {body.diagnoses.map((diagnosis) => (
+            <Badge key={diagnosis} variant="secondary">{diagnosis}</Badge>
+          ))}
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+const ImmunizationViewer: React.FC<{ body: ImmunizationBody }> = ({ body }) => (
+  <dl className="space-y-2">
+    <DetailRow label="Vaccine" value={body.vaccine} />
+    <DetailRow label="Date Administered" value={body.administered_at} />
+    <DetailRow label="Dose" value={body.dose_number} />
+    <DetailRow label="Lot Number" value={body.lot_number} />
+    <DetailRow label="Site" value={body.site} />
+    <DetailRow label="Administered By" value={body.administered_by} />
+  </dl>
+);
+
+const VitalSignsViewer: React.FC<{ body: VitalSignsBody }> = ({ body }) => {
+  const withUnit = (value: number | null, unit: string) => (value === null ? null : `${value} ${unit}`);
+  return (
+    <dl className="grid grid-cols-2 gap-x-6 gap-y-2">
+      <DetailRow label="Measured" value={body.measured_at} />
+      <DetailRow
+        label="Blood Pressure"
+        value={body.systolic !== null && body.diastolic !== null ? `${body.systolic}/${body.diastolic} mmHg` : null}
+      />
+      <DetailRow label="Heart Rate" value={withUnit(body.heart_rate, 'bpm')} />
+      <DetailRow label="Respiratory Rate" value={withUnit(body.respiratory_rate, '/min')} />
+      <DetailRow label="Temperature" value={withUnit(body.temperature_c, '°C')} />
+      <DetailRow label="SpO2" value={withUnit(body.oxygen_saturation, '%')} />
+      <DetailRow label="Weight" value={withUnit(body.weight_kg, 'kg')} />
+      <DetailRow label="Height" value={withUnit(body.height_cm, 'cm')} />
+    </dl>
+  );
+};
+
+const ImagingReportViewer: React.FC<{ body: ImagingReportBody }> = ({ body }) => (
+  <dl className="space-y-2">
+    <DetailRow label="Modality" value={body.modality} />
+    <DetailRow label="Body Part" value={body.body_part} />
+    <DetailRow label="Performed" value={body.performed_at} />
+    <DetailRow label="Findings" value={body.findings} multiline />
+    <DetailRow label="Impression" value={body.impression} multiline />
+    <DetailRow label="Radiologist" value={body.radiologist} />
+  </dl>
+);
+
+/**
+ * Renders a decrypted record body with the viewer for its type.
+ * Legacy plain-text records render as preformatted text.
+ */
+const RecordBodyViewer: React.FC<RecordBodyViewerProps> = ({ body, className = '' }) => {
+  const renderBody = () => {
+    switch (body.type) {
+      case RecordBodyType.LabPanel: return <LabPanelViewer body={body} />;
+      case RecordBodyType.Prescription: return <PrescriptionViewer body={body} />;
+      case RecordBodyType.VisitNote: return <VisitNoteViewer body={body} />;
+      case RecordBodyType.Immunization: return <ImmunizationViewer body={body} />;
+      case RecordBodyType.VitalSigns: return <VitalSignsViewer body={body} />;
+      case RecordBodyType.ImagingReport: return <ImagingReportViewer body={body} />;
+      case RecordBodyType.PlainText:
+      default:
+        return (
+          <p className="text-sm text-gray-900 whitespace-pre-wrap">
+            {body.type === RecordBodyType.PlainText ? body.text : ''}
+          </p>
+        );
+    }
+  };
+
+  return (
+    <div className={className}>
+      {body.type !== RecordBodyType.PlainText && (
+        <p className="text-xs font-medium uppercase tracking-wide text-blue-600 mb-2">
+          {RECORD_BODY_TYPE_LABELS[body.type]}
+        </p>
+      )}
+      {renderBody()}
+    </div>
+  );
+};
+
+export default RecordBodyViewer;
@@ -5,6 +5,7 @@ import Card from '../ui/Card';
 import Badge from '../ui/Badge';
 import Separator from '../ui/Separator';
 import ShareModal from '../modals/ShareModal';
+import RecordBodyViewer from './RecordBodyViewer';
 import { 
   FileText, 
   ArrowLeft, 
@@ -32,11 +33,13 @@ const RecordDetail: React.FC = () => {
     sharedRecords, 
     fetchRecords, 
     fetchSharedRecords,
+    decryptHealthRecord,
     isLoading 
   } = useHealthRecordStore();
   
   const [decrypting, setDecrypting] = useState(false);
-  const [decrypted, setDecrypted] = useState(false);
+  const [decryptedRecord, setDecryptedRecord] = useState<HealthRecord | null>(null);
+  const decrypted = decryptedRecord !== null;
   const [showShareModal, setShowShareModal] = useState(false);
   const [selectedRecordId, setSelectedRecordId] = useState<number | null>(null);
 
@@ -91,9 +94,11 @@ const RecordDetail: React.FC = () => {
     
     setDecrypting(true);
     try {
-      // Simulate decryption process
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      setDecrypted(true);
+      const result = record.body ? record : await decryptHealthRecord(record);
+      if (!result.body) {
+        throw new Error(result.content || 'Unable to decrypt content');
+      }
+      setDecryptedRecord(result);
       showSuccess(
         'Record Decrypted!',
         'You can now view the medical record contents securely.'
@@ -248,7 +253,7 @@ const RecordDetail: React.FC = () => {
                 </div>
               </div>
 
-              {/* Mock decrypted content */}
+              {/* Decrypted content */}
               <div className="space-y-4">
                 <Separator />
                 <div className="prose max-w-none">
@@ -261,11 +266,7 @@ const RecordDetail: React.FC = () => {
                       <strong>Title:</strong> {record.title}
                     </p>
                     <Separator className="my-3" />
-                    <p className="text-sm">
-                      This is a simulated view of the decrypted medical record. In a real implementation, 
-                      this would show the actual medical data including test results, diagnoses, 
-                      treatment plans, and other relevant health information.
-                    </p>
+                    {decryptedRecord?.body && <RecordBodyViewer body={decryptedRecord.body} />}
                   </div>
                 </div>
 
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { Link2, Copy } from 'lucide-react';
+import { formatDistance } from 'date-fns';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import Input from '../ui/Input';
+import useShareLinkStore, { isShareLinkActive } from '../../stores/useShareLinkStore';
+import { ShareLink } from '../../types';
+import { SHARE_LINK_EXPIRY_OPTIONS, SHARE_LINK_MAX_VIEWS } from '../../utils/shareLink';
+import { useToast } from '../../hooks/useToast';
+
+const NS_PER_MS = 1_000_000;
+
+interface ShareLinkPanelProps {
+  recordId: number;
+}
+
+const linkStatus = (link: ShareLink) => {
+  if (link.revoked_at !== null) return <Badge variant="destructive">Revoked</Badge>;
+  if (link.views >= link.max_views) return <Badge variant="secondary">Used</Badge>;
+  if (link.expires_at / NS_PER_MS <= Date.now()) return <Badge variant="secondary">Expired</Badge>;
+  return <Badge variant="success">Active</Badge>;
+};
+
+// One-time links for recipients without a MediVet account, such as an outside specialist
+const ShareLinkPanel: React.FC<ShareLinkPanelProps> = ({ recordId }) => {
+  const { links, linksRecordId, created, isLoading, error, fetchLinks, createLink, revokeLink, clearCreated } = useShareLinkStore();
+  const { showSuccess, showError } = useToast();
+  const [expiresInMs, setExpiresInMs] = useState<number>(SHARE_LINK_EXPIRY_OPTIONS[1].ms);
+  const [maxViews, setMaxViews] = useState(1);
+
+  useEffect(() => {
+    clearCreated();
+    fetchLinks(recordId).catch(() => undefined);
+  }, [recordId, fetchLinks, clearCreated]);
+
+  const recordLinks = linksRecordId === recordId ? links : [];
+
+  const create = async () => {
+    try {
+      await createLink(recordId, expiresInMs, maxViews);
+      showSuccess('Share link created', 'Copy it now; it cannot be shown again.');
+    } catch (err: any) {
+      showError('Could not create share link', err.message);
+    }
+  };
+
+  const copy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      showSuccess('Link copied');
+    } catch {
+      showError('Could not copy link', 'Select the link and copy it manually.');
+    }
+  };
+
+  const revoke = async (link: ShareLink) => {
+    if (!window.confirm('Revoke this share link? Anyone holding it will no longer be able to open the record.')) {
+      return;
+    }
+    try {
+      await revokeLink(link.id);
+      showSuccess('Share link revoked');
+    } catch (err: any) {
+      showError('Could not revoke share link', err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="flex items-center text-sm font-medium text-gray-700">
+          <Link2 className="h-4 w-4 mr-1" />
+          Share with someone without an account
+        </h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Anyone with the link can read this record until it expires or runs out of views. The record is
+          decrypted in their browser, and every view appears in this record's access log.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="shareLinkExpiry" className="block text-xs font-medium text-gray-700 mb-1">
+            Expires after
+          </label>
+          <select
+            id="shareLinkExpiry"
+            value={expiresInMs}
+            onChange={(e) => setExpiresInMs(Number(e.target.value))}
+            className="flex h-10 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+            disabled={isLoading}
+          >
+            {SHARE_LINK_EXPIRY_OPTIONS.map(option => (
+              <option key={option.ms} value={option.ms}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="shareLinkViews" className="block text-xs font-medium text-gray-700 mb-1">
+            Views allowed
+          </label>
+          <Input
+            id="shareLinkViews"
+            type="number"
+            min={1}
+            max={SHARE_LINK_MAX_VIEWS}
+            value={maxViews}
+            onChange={(e) => setMaxViews(Math.min(SHARE_LINK_MAX_VIEWS, Math.max(1, Number(e.target.value) || 1)))}
+            disabled={isLoading}
+          />
+        </div>
+      </div>
+
+      <Button type="button" variant="outline" onClick={create} disabled={isLoading}>
+        <Link2 className="h-4 w-4 mr-2" />
+        {isLoading ? 'Working...' : 'Create Link'}
+      </Button>
+
+      {created && created.link.record_id === recordId && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
+          <p className="text-xs text-blue-700 mb-2">Send this link to the recipient. It is shown only once.</p>
+          <div className="flex gap-2">
+            <Input readOnly value={created.url} onFocus={(e) => e.target.select()} className="text-xs" />
+            <Button type="button" variant="outline" size="sm" onClick={() => copy(created.url)} title="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {recordLinks.length > 0 && (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {recordLinks.map(link => (
+            <li key={link.id} className="flex items-center justify-between p-2 text-sm">
+              <div>
+                <div className="flex items-center space-x-2">
+                  {linkStatus(link)}
+                  <span className="text-gray-700">{link.views}/{link.max_views} views</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Created {formatDistance(new Date(link.created_at / NS_PER_MS), new Date(), { addSuffix: true })}
+                  {' · '}
+                  {link.expires_at / NS_PER_MS > Date.now() ? 'expires' : 'expired'}{' '}
+                  {formatDistance(new Date(link.expires_at / NS_PER_MS), new Date(), { addSuffix: true })}
+                </p>
+              </div>
+              {isShareLinkActive(link) && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => revoke(link)} disabled={isLoading}>
+                  Revoke
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ShareLinkPanel;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { FileText, Lock, ShieldAlert } from 'lucide-react';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import Input from '../ui/Input';
+import RecordBodyViewer from './RecordBodyViewer';
+import useShareLinkStore from '../../stores/useShareLinkStore';
+import { SharedLinkRecord } from '../../types';
+
+const NS_PER_MS = 1_000_000;
+
+// Public page for share link recipients; the record is fetched and decrypted only when they choose to open it
+const SharedRecordViewer: React.FC = () => {
+  const [link, setLink] = useState(() => window.location.hash.slice(1));
+  const [pasted, setPasted] = useState('');
+  const [record, setRecord] = useState<SharedLinkRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+
+  // Opening uses up a view, so it waits for an explicit click rather than running on page load
+  const open = async (value: string) => {
+    setIsOpening(true);
+    setError(null);
+    try {
+      setRecord(await useShareLinkStore.getState().openLink(value));
+      // Drop the secret from the address bar and history now that the record is on screen
+      window.history.replaceState(null, '', window.location.pathname);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-2xl mx-auto space-y-4">
+        <div className="flex items-center">
+          <img src="/logo2.svg" alt="MediVet Logo" className="h-8 w-auto mr-2" />
+          <h1 className="text-2xl font-bold text-gray-900">Shared Health Record</h1>
+        </div>
+
+        {!record && (
+          <Card className="p-6">
+            <h2 className="flex items-center font-semibold text-gray-900 mb-2">
+              <Lock className="h-4 w-4 mr-2" />
+              A patient shared a health record with you
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              The record is decrypted in this browser. Opening it counts as one of the views the patient allowed and
+              is recorded in their access log. Keep this page open while you read it; reloading uses another view.
+            </p>
+            {link ? (
+              <Button onClick={() => open(link)} disabled={isOpening}>
+                <FileText className="h-4 w-4 mr-2" />
+                {isOpening ? 'Opening...' : 'Open Record'}
+              </Button>
+            ) : (
+              <div className="flex gap-3">
+                <Input value={pasted} onChange={(e) => setPasted(e.target.value)} placeholder="Paste the share link" />
+                <Button onClick={() => setLink(pasted.trim())} disabled={!pasted.trim()}>
+                  Continue
+                </Button>
+              </div>
+            )}
+          </Card>
+        )}
+
+        {error && (
+          <div className="flex items-start text-sm text-red-800 bg-red-50 border border-red-200 rounded-md p-3">
+            <ShieldAlert className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {record && (
+          <Card className="p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">{record.title}</h2>
+                <p className="text-sm text-gray-500">
+                  {record.category} · last updated {new Date(record.updated_at / NS_PER_MS).toLocaleDateString()}
+                </p>
+              </div>
+              <Badge variant={record.views_remaining > 0 ? 'secondary' : 'warning'}>
+                {record.views_remaining > 0 ? `${record.views_remaining} view(s) left` : 'Last view'}
+              </Badge>
+            </div>
+            <RecordBodyViewer body={record.body} />
+            <p className="text-xs text-gray-500 mt-4">
+              This link expires {new Date(record.expires_at / NS_PER_MS).toLocaleString()}.
+            </p>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedRecordViewer;
@@ -2,6 +2,7 @@ import React from 'react';
 import { useLocation } from 'react-router-dom';
 import Header from '../layout/Header';
 import Sidebar from '../layout/Sidebar';
+import ActingForBanner from '../layout/ActingForBanner';
 import useAuthStore from '../../stores/useAuthStore';
 
 interface LayoutProps {
@@ -20,6 +21,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
+      <ActingForBanner />
       <div className="flex">
         <div className='h-full'>
           <Sidebar />
@@ -5,8 +5,10 @@ import useAuthStore from '../stores/useAuthStore';
 interface UsePollingOptions {
   healthRecordsInterval?: number;
   accessLogsInterval?: number;
+  offlineSyncInterval?: number;
   enableHealthRecords?: boolean;
   enableAccessLogs?: boolean;
+  enableOfflineSync?: boolean; // Replay writes queued while the backend was unreachable
   enableOnFocus?: boolean; // Refresh when window gains focus
   enableOnVisibility?: boolean; // Refresh when tab becomes visible
 }
@@ -15,8 +17,10 @@ export const usePolling = (options: UsePollingOptions = {}) => {
   const {
     healthRecordsInterval = 30000, // 30 seconds
     accessLogsInterval = 60000, // 1 minute
+    offlineSyncInterval = 15000, // 15 seconds
     enableHealthRecords = true,
     enableAccessLogs = true,
+    enableOfflineSync = true,
     enableOnFocus = true,
     enableOnVisibility = true
   } = options;
@@ -51,6 +55,10 @@ export const usePolling = (options: UsePollingOptions = {}) => {
       if (enableAccessLogs) {
         pollingService.startAccessLogsPolling(accessLogsInterval);
       }
+      
+      if (enableOfflineSync) {
+        pollingService.startOfflineSync(offlineSyncInterval);
+      }
     } else {
       console.log('Stopping polling services...');
       pollingService.stopAllPolling();
@@ -60,7 +68,7 @@ export const usePolling = (options: UsePollingOptions = {}) => {
     return () => {
       pollingService.stopAllPolling();
     };
-  }, [isAuthenticated, enableHealthRecords, enableAccessLogs, healthRecordsInterval, accessLogsInterval]);
+  }, [isAuthenticated, enableHealthRecords, enableAccessLogs, enableOfflineSync, healthRecordsInterval, accessLogsInterval, offlineSyncInterval]);
 
   // Handle window focus events
   useEffect(() => {
@@ -1,10 +1,255 @@
-import { get, set } from 'idb-keyval';
+import { get, set, del, delMany, keys, update } from 'idb-keyval';
 import * as vetkd from "@dfinity/vetkeys";
 import { Principal } from '@dfinity/principal';
 import { createAuthenticatedActor } from './actorService';
 import useAuthStore from '../stores/useAuthStore';
+import {
+  ENVELOPE_VERSION,
+  EnvelopeAlgorithm,
+  EnvelopeHeader,
+  EnvelopeKeyKind,
+  EnvelopePurpose,
+  ParsedEnvelope,
+  buildEnvelope,
+  encodeEnvelopeHeader,
+  envelopeAdditionalData,
+  parseEnvelope,
+} from '../utils/cipherEnvelope';
+
+// Every key cached in IndexedDB is listed here so it can be found and evicted later
+const KEY_REGISTRY = 'key_registry';
+const CACHED_KEY_KINDS = ['user_key', 'shared_record_key', 'shared_file_key', 'offline_replica_key'];
+// Matches the login delegation lifetime; keys never outlive the session that derived them
+const KEY_CACHE_TTL_MS = 30 * 60 * 1000;
+
+export interface CachedKeyEntry {
+  name: string[];
+  kind: string;
+  cachedAt: number;
+  expiresAt: number;
+  // Identifies the login session that cached the key
+  sessionId: string;
+  // Kept across sessions until logout or a wipe, e.g. the key of the offline write queue
+  persistent?: boolean;
+}
+
+interface KeyCacheSession {
+  sessionId: string;
+  expiresAt: number | null;
+}
+
+// Owner-wrapped record data key and the user key epoch that wrapped it
+export interface WrappedRecordKey {
+  wrappedKey: Uint8Array;
+  keyVersion: bigint;
+}
+
+// Unwrapped record data key and the user key epoch its owner copy is wrapped with
+export interface RecordDataKey {
+  key: CryptoKey;
+  keyVersion: number;
+}
 
 export class CryptoService {
+  // Unwrapped record data keys for this session, keyed by owner and record id
+  private static recordKeys = new Map<string, RecordDataKey>();
+  // Caller's current user key epoch; refreshed when a rotation starts
+  private static currentEpoch: number | null = null;
+
+  /**
+   * Identifies the current login session from the identity's delegation chain
+   */
+  private static currentKeyCacheSession(): KeyCacheSession {
+    const { identity, principal } = useAuthStore.getState();
+    if (!identity || !principal) {
+      throw new Error('User not authenticated');
+    }
+    const delegations = identity.getDelegation?.().delegations ?? [];
+    const expirationNs: bigint | undefined = delegations[delegations.length - 1]?.delegation.expiration;
+    if (expirationNs === undefined) {
+      return { sessionId: principal, expiresAt: null };
+    }
+    return {
+      sessionId: `${principal}:${expirationNs}`,
+      expiresAt: Number(expirationNs / 1_000_000n)
+    };
+  }
+
+  /**
+   * Session id that keys cached now are bound to
+   */
+  public static getKeyCacheSessionId(): string {
+    return this.currentKeyCacheSession().sessionId;
+  }
+
+  /**
+   * Whether a cached key belongs to the current session and has not expired
+   */
+  private static isCacheEntryLive(entry: CachedKeyEntry, session: KeyCacheSession): boolean {
+    return entry.persistent === true || (entry.sessionId === session.sessionId && entry.expiresAt > Date.now());
+  }
+
+  /**
+   * Stores a key in IndexedDB, non-extractable, and records it in the key registry
+   * against the current session
+   * @param name Cache key; the first element is the key kind
+   * @param key The key to cache
+   * @param persistent Keep the key past the session until logout or a wipe
+   */
+  public static async cacheKey(name: string[], key: CryptoKey, persistent = false): Promise<void> {
+    const session = this.currentKeyCacheSession();
+    const now = Date.now();
+    const expiresAt = persistent ? Infinity : Math.min(now + KEY_CACHE_TTL_MS, session.expiresAt ?? Infinity);
+
+    // Cached keys are only used for encrypt/decrypt, so the stored copy never needs exporting
+    const stored = key.extractable
+      ? await window.crypto.subtle.importKey(
+          'raw',
+          await window.crypto.subtle.exportKey('raw', key),
+          key.algorithm,
+          false,
+          key.usages
+        )
+      : key;
+
+    await set(name, stored);
+    await update<CachedKeyEntry[]>(KEY_REGISTRY, (entries = []) => [
+      ...entries.filter(entry => entry.name.join('/') !== name.join('/')),
+      { name, kind: name[0], cachedAt: now, expiresAt, sessionId: session.sessionId, persistent }
+    ]);
+  }
+
+  /**
+   * Loads a cached key from IndexedDB. Keys from another session, expired keys and
+   * keys missing from the registry are deleted instead of returned.
+   * @param name Cache key used with cacheKey
+   */
+  public static async getCachedKey(name: string[]): Promise<CryptoKey | undefined> {
+    const entry = (await this.getCachedKeyEntries()).find(e => e.name.join('/') === name.join('/'));
+    if (!entry) {
+      await del(name);
+      return undefined;
+    }
+    if (!this.isCacheEntryLive(entry, this.currentKeyCacheSession())) {
+      await this.evictCachedKeys(e => e.name.join('/') === name.join('/'));
+      return undefined;
+    }
+    return get(name);
+  }
+
+  /**
+   * Lists the registered cached keys
+   */
+  public static async getCachedKeyEntries(): Promise<CachedKeyEntry[]> {
+    return (await get<CachedKeyEntry[]>(KEY_REGISTRY)) || [];
+  }
+
+  /**
+   * Deletes registered cached keys matching a predicate
+   * @param predicate Selects the entries to evict
+   * @returns Number of evicted keys
+   */
+  public static async evictCachedKeys(predicate: (entry: CachedKeyEntry) => boolean): Promise<number> {
+    const stale = (await this.getCachedKeyEntries()).filter(predicate);
+    if (stale.length === 0) {
+      return 0;
+    }
+    await delMany(stale.map(entry => entry.name));
+    const staleNames = new Set(stale.map(entry => entry.name.join('/')));
+    await update<CachedKeyEntry[]>(KEY_REGISTRY, (entries = []) =>
+      entries.filter(entry => !staleNames.has(entry.name.join('/')))
+    );
+    return stale.length;
+  }
+
+  /**
+   * Deletes cached keys that are expired or belong to another session
+   * @returns Number of evicted keys
+   */
+  public static async evictExpiredKeys(): Promise<number> {
+    const session = this.currentKeyCacheSession();
+    return this.evictCachedKeys(entry => !this.isCacheEntryLive(entry, session));
+  }
+
+  /**
+   * Returns the caller's current user key epoch
+   * @param refresh Re-read the epoch from the backend
+   */
+  public static async getUserKeyEpoch(refresh = false): Promise<number> {
+    if (this.currentEpoch !== null && !refresh) {
+      return this.currentEpoch;
+    }
+    const { identity } = useAuthStore.getState();
+    if (!identity) {
+      throw new Error('User not authenticated');
+    }
+    const { actor } = await createAuthenticatedActor(identity);
+    this.currentEpoch = Number(await actor.getUserKeyEpoch());
+    return this.currentEpoch;
+  }
+
+  /**
+   * Stops acting for a patient and drops their record keys from this session and the key cache
+   * @param owner The principal ID of the patient
+   */
+  public static async forgetDelegatedOwner(owner: string): Promise<void> {
+    for (const cacheKey of Array.from(this.recordKeys.keys())) {
+      if (cacheKey.startsWith(`${owner}:`)) {
+        this.recordKeys.delete(cacheKey);
+      }
+    }
+    await this.evictCachedKeys(entry => entry.kind === 'user_key' && entry.name[1] === owner);
+  }
+
+  /**
+   * Whether the caller holds the owner's user key, which only the owner does. Caregivers
+   * and grantees get record data keys wrapped to their own identity instead.
+   */
+  private static holdsUserKeyOf(owner: string): boolean {
+    const { principal } = useAuthStore.getState();
+    return principal?.toString() === owner;
+  }
+
+  /**
+   * Current user key epoch of the owner, who must be the caller
+   * @param owner The principal ID of the key owner
+   */
+  private static async getOwnerKeyEpoch(owner: string): Promise<number> {
+    if (!this.holdsUserKeyOf(owner)) {
+      throw new Error('Only the owner can use their user key');
+    }
+    return this.getUserKeyEpoch();
+  }
+
+  /**
+   * Drops user keys from epochs before the current one after a completed rotation
+   * @param owner The principal ID of the key owner
+   * @param epoch The current epoch
+   */
+  public static async evictStaleUserKeys(owner: string, epoch: number): Promise<number> {
+    this.recordKeys.clear();
+    return this.evictCachedKeys(entry =>
+      entry.kind === 'user_key' && entry.name[1] === owner && Number(entry.name[2]) < epoch
+    );
+  }
+
+  /**
+   * Loads (deriving if needed) the user key of an epoch
+   * @param owner The principal ID of the key owner
+   * @param epoch User key epoch
+   */
+  private static async getUserKey(owner: string, epoch: number): Promise<CryptoKey> {
+    if (!this.holdsUserKeyOf(owner)) {
+      throw new Error('Only the owner can use their user key');
+    }
+    await this.fetch_user_key_if_needed(owner, epoch);
+    const user_key = await this.getCachedKey(['user_key', owner, String(epoch)]);
+    if (!user_key) {
+      throw new Error('Failed to retrieve encryption key for user');
+    }
+    return user_key;
+  }
+
   /**
    * Encrypts data with the user-specific secretKey (pure identity-based encryption)
    * @param owner The principal ID of the record owner
@@ -16,12 +261,8 @@ export class CryptoService {
       throw new Error('Cannot encrypt empty data');
     }
     
-    await this.fetch_user_key_if_needed(owner);
-    const user_key = await get(['user_key', owner]);
-    
-    if (!user_key) {
-      throw new Error('Failed to retrieve encryption key for user');
-    }
+    // Content encrypted directly with a user key predates key epochs
+    const user_key = await this.getUserKey(owner, 0);
     
     const iv = window.crypto.getRandomValues(new Uint8Array(12));
     
@@ -66,11 +307,7 @@ export class CryptoService {
     }
     
     try {
-      await this.fetch_user_key_if_needed(owner);
-      const user_key = await get(['user_key', owner]);
-      if (!user_key) {
-        throw new Error('Failed to retrieve encryption key for user');
-      }
+      const user_key = await this.getUserKey(owner, 0);
       
       console.log('Decrypting data for user:', owner, 'data length:', data.length);
       
@@ -100,34 +337,62 @@ export class CryptoService {
   }
 
   /**
-   * Legacy method name for backward compatibility - delegates to identity-based encryption
-   * @param record_id The ID of the health record (ignored - for backward compatibility only)
+   * Encrypts record content into a ciphertext envelope with the record's data key,
+   * falling back to the owner's current user key for records without one
+   * @param record_id The ID of the health record
    * @param owner The principal ID of the record owner
    * @param data The data to encrypt
+   * @param purpose Whether the data is the record body or its metadata
    * @returns Promise with the encrypted data as a string
    */
-  public static async encryptWithRecordKey(record_id: bigint, owner: string, data: string): Promise<string> {
-    console.log('Using legacy encryptWithRecordKey - delegating to identity-based encryption');
-    return this.encryptWithUserKey(owner, data);
+  public static async encryptWithRecordKey(record_id: bigint, owner: string, data: string, purpose: EnvelopePurpose = 'record'): Promise<string> {
+    const recordKey = await this.getRecordKey(record_id, owner);
+    if (recordKey) {
+      return this.encryptRecordContent(recordKey, record_id, owner, data, purpose);
+    }
+    console.log('Record has no data key - using identity-based encryption');
+    const epoch = await this.getOwnerKeyEpoch(owner);
+    return this.sealEnvelope(
+      await this.getUserKey(owner, epoch),
+      { keyKind: EnvelopeKeyKind.UserKey, keyEpoch: epoch, keyId: 0n },
+      record_id,
+      owner,
+      data,
+      purpose
+    );
   }
 
   /**
-   * Enhanced method for cross-user decryption - allows providers to decrypt patient records
+   * Decrypts record content for the owner or a grantee. Envelopes name their key;
+   * legacy headerless content falls back to looking the key up.
    * @param record_id The ID of the health record
    * @param owner The principal ID of the record owner
    * @param data The encrypted data to decrypt
+   * @param purpose Whether the data is the record body or its metadata
    * @returns Promise with the decrypted data as a string
    */
-  public static async decryptWithRecordKey(record_id: bigint, owner: string, data: string): Promise<string> {
+  public static async decryptWithRecordKey(record_id: bigint, owner: string, data: string, purpose: EnvelopePurpose = 'record'): Promise<string> {
     const { principal } = useAuthStore.getState();
     if (!principal) {
       throw new Error('User not authenticated');
     }
+    if (!data) {
+      console.warn('Empty data provided for decryption');
+      return '';
+    }
     
-    const callerPrincipalStr = principal.toString();
+    const envelope = parseEnvelope(CryptoService.base64ToArrayBuffer(data));
+    if (envelope) {
+      return this.openEnvelope(envelope, record_id, owner, purpose);
+    }
     
-    // If caller is the owner, use identity-based decryption
-    if (callerPrincipalStr === owner) {
+    const recordKey = await this.getRecordKey(record_id, owner);
+    if (recordKey) {
+      return this.decryptHeaderless(recordKey.key, data);
+    }
+    
+    // Legacy record: if caller is the owner, use identity-based decryption
+    if (this.holdsUserKeyOf(owner)) {
       console.log('Using identity-based decryption (owner access)');
       return this.decryptWithUserKey(owner, data);
     }
@@ -136,7 +401,322 @@ export class CryptoService {
     console.log('Using cross-user decryption for shared record', record_id, 'owned by', owner);
     return this.decryptSharedRecord(record_id, owner, data);
   }
+
+  /**
+   * Encrypts record content into a ciphertext envelope with a record data key
+   * @param recordKey The record's data key
+   * @param record_id The ID of the health record
+   * @param owner The principal ID of the record owner
+   * @param data The data to encrypt
+   * @param purpose Whether the data is the record body or its metadata
+   * @returns Base64 of the envelope
+   */
+  public static async encryptRecordContent(
+    recordKey: RecordDataKey,
+    record_id: bigint,
+    owner: string,
+    data: string,
+    purpose: EnvelopePurpose = 'record'
+  ): Promise<string> {
+    return this.sealEnvelope(
+      recordKey.key,
+      { keyKind: EnvelopeKeyKind.RecordKey, keyEpoch: recordKey.keyVersion, keyId: record_id },
+      record_id,
+      owner,
+      data,
+      purpose
+    );
+  }
+
+  /**
+   * Decrypts record content with a data key the caller already holds, without a login
+   * (e.g. a key unwrapped from a share link)
+   * @param recordKey The record's data key
+   * @param record_id The ID of the health record
+   * @param owner The principal ID of the record owner
+   * @param data Base64 of the envelope or legacy IV + ciphertext
+   * @param purpose Whether the data is the record body or its metadata
+   */
+  public static async decryptRecordContent(
+    recordKey: RecordDataKey,
+    record_id: bigint,
+    owner: string,
+    data: string,
+    purpose: EnvelopePurpose = 'record'
+  ): Promise<string> {
+    const envelope = parseEnvelope(CryptoService.base64ToArrayBuffer(data));
+    if (!envelope) {
+      return this.decryptHeaderless(recordKey.key, data);
+    }
+    const { header } = envelope;
+    if (header.keyKind !== EnvelopeKeyKind.RecordKey || header.keyId !== record_id) {
+      throw new Error('Ciphertext is not encrypted with this record\'s data key');
+    }
+    if (header.keyEpoch !== recordKey.keyVersion) {
+      throw new Error(`Record was encrypted under key epoch ${header.keyEpoch} but its data key is from epoch ${recordKey.keyVersion}`);
+    }
+    try {
+      const plaintext = await window.crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: envelope.iv,
+          additionalData: envelopeAdditionalData(envelope.headerBytes, record_id, owner, purpose)
+        },
+        recordKey.key,
+        envelope.ciphertext
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch (error) {
+      console.error('Record decryption failed:', record_id, error);
+      throw new Error('Decryption failed: the ciphertext was modified or does not belong to this record');
+    }
+  }
+
+  /**
+   * Encrypts a string into a ciphertext envelope bound to a record and its owner
+   */
+  private static async sealEnvelope(
+    key: CryptoKey,
+    keyId: Pick<EnvelopeHeader, 'keyKind' | 'keyEpoch' | 'keyId'>,
+    record_id: bigint,
+    owner: string,
+    data: string,
+    purpose: EnvelopePurpose
+  ): Promise<string> {
+    if (!data) {
+      throw new Error('Cannot encrypt empty data');
+    }
+    const headerBytes = encodeEnvelopeHeader({
+      version: ENVELOPE_VERSION,
+      algorithm: EnvelopeAlgorithm.AesGcm256,
+      ...keyId,
+    });
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    try {
+      const ciphertext = new Uint8Array(
+        await window.crypto.subtle.encrypt(
+          { name: 'AES-GCM', iv, additionalData: envelopeAdditionalData(headerBytes, record_id, owner, purpose) },
+          key,
+          new TextEncoder().encode(data)
+        )
+      );
+      return CryptoService.arrayBufferToBase64(buildEnvelope(headerBytes, iv, ciphertext));
+    } catch (error) {
+      console.error('Encryption failed:', error);
+      throw new Error(`Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Decrypts a ciphertext envelope with the key its header names
+   */
+  private static async openEnvelope(envelope: ParsedEnvelope, record_id: bigint, owner: string, purpose: EnvelopePurpose): Promise<string> {
+    const { header } = envelope;
+    let key: CryptoKey;
+
+    if (header.keyKind === EnvelopeKeyKind.RecordKey) {
+      if (header.keyId !== record_id) {
+        throw new Error(`Ciphertext belongs to record ${header.keyId}, not record ${record_id}`);
+      }
+      let recordKey = await this.getRecordKey(record_id, owner);
+      if (recordKey && recordKey.keyVersion !== header.keyEpoch) {
+        // The record was re-keyed since its data key was cached
+        this.forgetRecordKey(record_id, owner);
+        recordKey = await this.getRecordKey(record_id, owner);
+      }
+      if (!recordKey) {
+        throw new Error('Record data key not found');
+      }
+      if (recordKey.keyVersion !== header.keyEpoch) {
+        throw new Error(`Record was encrypted under key epoch ${header.keyEpoch} but its data key is from epoch ${recordKey.keyVersion}`);
+      }
+      key = recordKey.key;
+    } else {
+      if (!this.holdsUserKeyOf(owner)) {
+        throw new Error('Record is encrypted with its owner\'s personal key and has not been shared yet');
+      }
+      key = await this.getUserKey(owner, header.keyEpoch);
+    }
+
+    try {
+      const plaintext = await window.crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: envelope.iv,
+          additionalData: envelopeAdditionalData(envelope.headerBytes, record_id, owner, purpose)
+        },
+        key,
+        envelope.ciphertext
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch (error) {
+      console.error('Record decryption failed:', record_id, error);
+      throw new Error('Decryption failed: the ciphertext was modified or does not belong to this record');
+    }
+  }
   
+  /**
+   * Creates a data key for a record and wraps it for the owner
+   * @param record_id The ID of the health record
+   * @param owner The principal ID of the record owner
+   * @returns The data key and its owner-wrapped copy for updateHealthRecord
+   */
+  public static async createRecordKey(record_id: bigint, owner: string): Promise<{ dataKey: RecordDataKey; recordKey: WrappedRecordKey }> {
+    const key = await this.generateDataKey();
+    const epoch = await this.getOwnerKeyEpoch(owner);
+    const wrappedKey = await this.wrapKeyWithUserKey(owner, key, epoch);
+    console.log('Created data key for record:', record_id, 'epoch:', epoch);
+    return { dataKey: { key, keyVersion: epoch }, recordKey: { wrappedKey, keyVersion: BigInt(epoch) } };
+  }
+
+  /**
+   * Creates a data key for a record a caregiver creates for a patient. The patient gets it
+   * wrapped to their identity, to adopt with adoptRecordKey; the caregiver keeps a copy wrapped
+   * to their own identity.
+   * @param record_id The ID of the health record
+   * @param patient The principal ID of the patient who owns the record
+   * @param epoch The patient's current user key epoch, used as the key version
+   * @returns The data key, the patient's copy and the caregiver's copy for completeDependentHealthRecord
+   */
+  public static async createDependentRecordKey(
+    record_id: bigint,
+    patient: string,
+    epoch: number
+  ): Promise<{ dataKey: RecordDataKey; recordKey: WrappedRecordKey; caregiverKey: Uint8Array }> {
+    const { principal } = useAuthStore.getState();
+    if (!principal) {
+      throw new Error('User not authenticated');
+    }
+    const key = await this.generateDataKey();
+    const wrappedKey = await this.wrapKeyForUser(patient, key);
+    const caregiverKey = await this.wrapKeyForUser(principal.toString(), key);
+    console.log('Created data key for dependent record:', record_id, 'epoch:', epoch);
+    return { dataKey: { key, keyVersion: epoch }, recordKey: { wrappedKey, keyVersion: BigInt(epoch) }, caregiverKey };
+  }
+
+  /**
+   * Re-wraps the data key of a record a caregiver created for the caller with the caller's
+   * user key, keeping its key version
+   * @param record_id The ID of the health record
+   * @param pending The copy the caregiver wrapped to the caller's identity
+   * @returns The owner copy for adoptDependentRecordKey
+   */
+  public static async adoptRecordKey(record_id: bigint, pending: WrappedRecordKey): Promise<WrappedRecordKey> {
+    const { principal } = useAuthStore.getState();
+    if (!principal) {
+      throw new Error('User not authenticated');
+    }
+    const owner = principal.toString();
+    const epoch = Number(pending.keyVersion);
+    const key = await this.unwrapKeyForCaller(new Uint8Array(pending.wrappedKey));
+    const wrappedKey = await this.wrapKeyWithUserKey(owner, key, epoch);
+    console.log('Adopted data key for record:', record_id, 'epoch:', epoch);
+    return { wrappedKey, keyVersion: pending.keyVersion };
+  }
+
+  /**
+   * Drops a record's cached data key after the record was re-keyed
+   * @param record_id The ID of the health record
+   * @param owner The principal ID of the record owner
+   */
+  public static forgetRecordKey(record_id: bigint, owner: string): void {
+    this.recordKeys.delete(`${owner}:${record_id}`);
+  }
+
+  /**
+   * Returns the record's data key, unwrapping the copy the backend holds for the caller
+   * @param record_id The ID of the health record
+   * @param owner The principal ID of the record owner
+   * @returns The data key, or null for legacy records encrypted with the user key
+   */
+  public static async getRecordKey(record_id: bigint, owner: string): Promise<RecordDataKey | null> {
+    const cacheKey = `${owner}:${record_id}`;
+    const cached = this.recordKeys.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const { identity, principal } = useAuthStore.getState();
+    if (!identity || !principal) {
+      throw new Error('User not authenticated');
+    }
+    const { actor } = await createAuthenticatedActor(identity);
+    const result = await actor.getWrappedRecordKey(record_id);
+    if ('err' in result) {
+      throw new Error(`Backend error: ${result.err}`);
+    }
+    if (result.ok.length === 0) {
+      return null;
+    }
+
+    const { wrappedKey } = result.ok[0];
+    const keyVersion = Number(result.ok[0].keyVersion);
+    const wrapped = new Uint8Array(wrappedKey);
+    const key = this.holdsUserKeyOf(owner)
+      ? await this.unwrapKeyWithUserKey(owner, wrapped, keyVersion)
+      : await this.unwrapKeyForCaller(wrapped);
+    const recordKey = { key, keyVersion };
+    this.recordKeys.set(cacheKey, recordKey);
+    return recordKey;
+  }
+
+  /**
+   * Wraps a data key for another user with vetKeys identity-based encryption.
+   * Only the recipient can unwrap it, using the vetKey derived from their principal.
+   * @param recipient The principal ID of the grantee
+   * @param key The extractable key to wrap
+   */
+  public static async wrapKeyForUser(recipient: string, key: CryptoKey): Promise<Uint8Array> {
+    const { identity } = useAuthStore.getState();
+    if (!identity) {
+      throw new Error('User not authenticated');
+    }
+    const { actor } = await createAuthenticatedActor(identity);
+    const pk_bytes_hex = await actor.symmetric_key_verification_key_for_user();
+    const dpk = vetkd.DerivedPublicKey.deserialize(CryptoService.hex_decode(pk_bytes_hex));
+    const raw = new Uint8Array(await window.crypto.subtle.exportKey('raw', key));
+    const ciphertext = vetkd.IbeCiphertext.encrypt(
+      dpk,
+      vetkd.IbeIdentity.fromPrincipal(Principal.fromText(recipient)),
+      raw,
+      vetkd.IbeSeed.random()
+    );
+    return ciphertext.serialize();
+  }
+
+  /**
+   * Unwraps a data key that another user wrapped for the caller with wrapKeyForUser
+   * @param wrapped Serialized IBE ciphertext
+   */
+  private static async unwrapKeyForCaller(wrapped: Uint8Array): Promise<CryptoKey> {
+    const vetKey = await this.fetch_ibe_vetkey();
+    const raw = vetkd.IbeCiphertext.deserialize(wrapped).decrypt(vetKey);
+    return window.crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+  }
+
+  /**
+   * Decrypts legacy headerless record content (IV + ciphertext) with a data key
+   * @param key AES-GCM data key
+   * @param data Base64 of IV + ciphertext
+   */
+  private static async decryptHeaderless(key: CryptoKey, data: string): Promise<string> {
+    const encrypted_array = CryptoService.base64ToArrayBuffer(data);
+    if (encrypted_array.length < 13) {
+      throw new Error('Encrypted data is too short to contain valid IV and ciphertext');
+    }
+    try {
+      const plaintext = await window.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: encrypted_array.slice(0, 12) },
+        key,
+        encrypted_array.slice(12)
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch (error) {
+      console.error('Record decryption failed:', error);
+      throw new Error(`Decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Decrypts a shared record that the current user has permissions for
    * @param record_id The ID of the health record
@@ -152,7 +732,7 @@ export class CryptoService {
     
     try {
       await this.fetch_shared_record_key_if_needed(record_id, owner);
-      const shared_key = await get(['shared_record_key', owner, record_id.toString()]);
+      const shared_key = await this.getCachedKey(['shared_record_key', owner, record_id.toString()]);
       if (!shared_key) {
         throw new Error('Failed to retrieve shared record encryption key');
       }
@@ -193,7 +773,7 @@ export class CryptoService {
     const cacheKey = ['shared_record_key', owner, record_id.toString()];
     
     // Check if we already have the shared key cached
-    const cachedKey = await get(cacheKey);
+    const cachedKey = await this.getCachedKey(cacheKey);
     if (cachedKey) {
       console.log('Using cached shared record encryption key for:', owner, record_id);
       return;
@@ -281,7 +861,7 @@ export class CryptoService {
         const shared_key = await keyMaterial.deriveAesGcmCryptoKey("shared-record-key");
         
         // Cache the shared key
-        await set(cacheKey, shared_key);
+        await this.cacheKey(cacheKey, shared_key);
         console.log('Successfully derived and cached shared record encryption key');
         return;
       } catch (keyDerivationError) {
@@ -297,29 +877,91 @@ export class CryptoService {
   /**
    * Fetches the encryption key for a user if it's not already cached (pure identity-based)
    * @param owner The principal ID of the record owner
+   * @param epoch User key epoch
    */
-  private static async fetch_user_key_if_needed(owner: string): Promise<void> {
+  private static async fetch_user_key_if_needed(owner: string, epoch: number): Promise<void> {
+    const cacheKey = ['user_key', owner, String(epoch)];
+    
     // Check if we already have the user key cached
-    const cachedKey = await get(['user_key', owner]);
+    const cachedKey = await this.getCachedKey(cacheKey);
     if (cachedKey) {
-      console.log('Using cached encryption key for user:', owner);
+      console.log('Using cached encryption key for user:', owner, 'epoch:', epoch);
       return;
     }
     
-    console.log('Fetching encryption key for user:', owner);
+    console.log('Fetching encryption key for user:', owner, 'epoch:', epoch);
+    try {
+      const vetKey = await this.fetch_user_vetkey(epoch);
+      const user_key = await (await vetKey.asDerivedKeyMaterial()).deriveAesGcmCryptoKey("user-key");
+      
+      // Cache the user key
+      await this.cacheKey(cacheKey, user_key);
+      console.log('Successfully derived identity-based encryption key');
+    } catch (error) {
+      console.error('Error fetching encryption key for user:', owner, 'Error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches and verifies a user key epoch vetKey of the caller; the derivation input comes from
+   * the backend so the key is verified against exactly what was derived
+   * @param epoch User key epoch
+   */
+  private static async fetch_user_vetkey(epoch: number): Promise<vetkd.VetKey> {
+    const { identity } = useAuthStore.getState();
+    if (!identity) {
+      throw new Error('User not authenticated');
+    }
+    const { actor } = await createAuthenticatedActor(identity);
+    console.log('Requesting encrypted key for caller, epoch:', epoch);
+
+    const input = new Uint8Array(await actor.getUserKeyInput(identity.getPrincipal(), BigInt(epoch)));
+    return this.fetch_vetkey(input, async (transportPublicKey) => {
+      const result = await actor.encrypted_symmetric_key_for_user_epoch(BigInt(epoch), transportPublicKey);
+      if ('err' in result) {
+        throw new Error(`Backend error: ${result.err}`);
+      }
+      return result.ok;
+    });
+  }
+
+  /**
+   * Fetches and verifies the caller's IBE identity vetKey, which unwraps data keys that
+   * other users wrapped for the caller. It is never used as a user key.
+   */
+  private static async fetch_ibe_vetkey(): Promise<vetkd.VetKey> {
+    const { identity } = useAuthStore.getState();
+    if (!identity) {
+      throw new Error('User not authenticated');
+    }
+    const { actor } = await createAuthenticatedActor(identity);
+    console.log('Requesting IBE identity key for caller');
+    return this.fetch_vetkey(
+      identity.getPrincipal().toUint8Array(),
+      (transportPublicKey) => actor.encrypted_symmetric_key_for_user(transportPublicKey)
+    );
+  }
+
+  /**
+   * Requests an encrypted vetKey for a fresh transport key and decrypts and verifies it
+   * @param input The vetKD derivation input the key must match
+   * @param requestKey Asks the backend for the key encrypted to the transport public key
+   */
+  private static async fetch_vetkey(
+    input: Uint8Array,
+    requestKey: (transportPublicKey: Uint8Array) => Promise<string>
+  ): Promise<vetkd.VetKey> {
     const tsk = vetkd.TransportSecretKey.random();
 
     try {
-      // Get authenticated actor
       const { identity } = useAuthStore.getState();
       if (!identity) {
         throw new Error('User not authenticated');
       }
       const { actor } = await createAuthenticatedActor(identity);
-      
-      // Fetch encrypted key from backend (no record ID needed - pure identity-based)
-      console.log('Requesting encrypted key for user:', owner);
-      const ek_bytes_hex = await actor.encrypted_symmetric_key_for_user(tsk.publicKeyBytes());
+
+      const ek_bytes_hex = await requestKey(tsk.publicKeyBytes());
       if (!ek_bytes_hex) {
         throw new Error('Received empty encrypted key from backend');
       }
@@ -354,27 +996,116 @@ export class CryptoService {
         throw new Error('Invalid verification key format');
       }
 
-      // Use user's identity to derive key (pure identity-based)
-      const callerPrincipal = identity?.getPrincipal();
-      if (!callerPrincipal) {
-        throw new Error('Could not get caller principal for key derivation');
-      }
-      
-      console.log('Using identity-based key derivation (pure vetKeys pattern)');
-      const callerBytes = callerPrincipal.toUint8Array();
-      const vetKey = encryptedVetKey.decryptAndVerify(tsk, dpk, callerBytes);
-      const user_key = await (await vetKey.asDerivedKeyMaterial()).deriveAesGcmCryptoKey("user-key");
-      
-      // Cache the user key
-      await set(['user_key', owner], user_key);
-      console.log('Successfully derived identity-based encryption key');
-      return;
+      return encryptedVetKey.decryptAndVerify(tsk, dpk, input);
     } catch (error) {
-      console.error('Error fetching encryption key for user:', owner, 'Error:', error);
+      console.error('Error fetching vetKey for caller:', error);
       throw error;
     }
   }
 
+  /**
+   * Generates a random per-file or per-record AES-GCM data key
+   * @returns Promise with an extractable 256-bit AES-GCM key
+   */
+  public static async generateDataKey(): Promise<CryptoKey> {
+    return window.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  }
+
+  /**
+   * Encrypts a raw key with a wrapping key
+   * @param wrappingKey AES-GCM key used for wrapping
+   * @param key The extractable key to wrap
+   * @returns Promise with IV + wrapped key bytes
+   */
+  public static async wrapKey(wrappingKey: CryptoKey, key: CryptoKey): Promise<Uint8Array> {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const raw = await window.crypto.subtle.exportKey('raw', key);
+    const wrapped = new Uint8Array(await window.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, wrappingKey, raw));
+    const result = new Uint8Array(iv.length + wrapped.length);
+    result.set(iv, 0);
+    result.set(wrapped, iv.length);
+    return result;
+  }
+
+  /**
+   * Decrypts a key produced by wrapKey
+   * @param wrappingKey AES-GCM key used for wrapping
+   * @param wrapped IV + wrapped key bytes
+   * @returns Promise with the unwrapped AES-GCM key
+   */
+  public static async unwrapKey(wrappingKey: CryptoKey, wrapped: Uint8Array): Promise<CryptoKey> {
+    if (wrapped.length < 13) {
+      throw new Error('Wrapped key is too short to contain valid IV and ciphertext');
+    }
+    const raw = await window.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: wrapped.slice(0, 12) },
+      wrappingKey,
+      wrapped.slice(12)
+    );
+    return window.crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+  }
+
+  /**
+   * Wraps a key with the owner's vetKeys-derived user key
+   * @param owner The principal ID of the key owner
+   * @param key The extractable key to wrap
+   * @param epoch User key epoch to wrap with (recorded alongside the wrapped key)
+   */
+  public static async wrapKeyWithUserKey(owner: string, key: CryptoKey, epoch: number): Promise<Uint8Array> {
+    return this.wrapKey(await this.getUserKey(owner, epoch), key);
+  }
+
+  /**
+   * Unwraps a key that was wrapped with the owner's user key
+   * @param owner The principal ID of the key owner
+   * @param wrapped IV + wrapped key bytes
+   * @param epoch User key epoch the key was wrapped with
+   */
+  public static async unwrapKeyWithUserKey(owner: string, wrapped: Uint8Array, epoch: number): Promise<CryptoKey> {
+    return this.unwrapKey(await this.getUserKey(owner, epoch), wrapped);
+  }
+
+  /**
+   * Encrypts one chunk of binary data with AES-GCM
+   * @param key The AES-GCM key
+   * @param nonce 12-byte nonce, unique per chunk
+   * @param data Plaintext bytes
+   * @param additionalData Bytes bound to the ciphertext (e.g. file name and chunk index)
+   */
+  public static async encryptChunk(key: CryptoKey, nonce: BufferSource, data: BufferSource, additionalData: BufferSource): Promise<Uint8Array> {
+    const ciphertext = await window.crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce, additionalData }, key, data);
+    return new Uint8Array(ciphertext);
+  }
+
+  /**
+   * Decrypts one chunk produced by encryptChunk
+   */
+  public static async decryptChunk(key: CryptoKey, nonce: BufferSource, data: BufferSource, additionalData: BufferSource): Promise<Uint8Array> {
+    const plaintext = await window.crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce, additionalData }, key, data);
+    return new Uint8Array(plaintext);
+  }
+
+  /**
+   * Derives an AES-GCM key through vetKD for canisters other than the backend
+   * @param fetchEncryptedKey Requests the encrypted vetKey for a transport public key
+   * @param verificationKey The derived public key for the vetKD context
+   * @param input The derivation input the canister used
+   * @param domain Domain separator for the derived AES key
+   */
+  public static async deriveVetKdAesKey(
+    fetchEncryptedKey: (transportPublicKey: Uint8Array) => Promise<Uint8Array>,
+    verificationKey: Uint8Array,
+    input: Uint8Array,
+    domain: string
+  ): Promise<CryptoKey> {
+    const tsk = vetkd.TransportSecretKey.random();
+    const encryptedKey = await fetchEncryptedKey(tsk.publicKeyBytes());
+    const encryptedVetKey = vetkd.EncryptedVetKey.deserialize(encryptedKey);
+    const dpk = vetkd.DerivedPublicKey.deserialize(verificationKey);
+    const vetKey = encryptedVetKey.decryptAndVerify(tsk, dpk, input);
+    return (await vetKey.asDerivedKeyMaterial()).deriveAesGcmCryptoKey(domain);
+  }
+
   /**
    * Decodes a hex string to a Uint8Array
    * @param hexString Hex string to decode
@@ -478,11 +1209,17 @@ export class CryptoService {
    */
   public static async clearAllCachedKeys(): Promise<void> {
     try {
-      // Clear all user keys and shared record keys from IndexedDB
-      const allKeys = await this.getAllCachedKeyNames();
-      for (const key of allKeys) {
-        await set(key, undefined);
-      }
+      await this.evictCachedKeys(() => true);
+      await del(KEY_REGISTRY);
+
+      // Keys cached before the registry existed are found by their kind prefix
+      const untracked = (await keys()).filter(
+        key => Array.isArray(key) && CACHED_KEY_KINDS.includes(String(key[0]))
+      );
+      await delMany(untracked);
+
+      this.recordKeys.clear();
+      this.currentEpoch = null;
       console.log('Cleared all cached encryption keys');
     } catch (error) {
       console.error('Error clearing cached keys:', error);
@@ -490,19 +1227,6 @@ export class CryptoService {
     }
   }
 
-  /**
-   * Gets a list of all cached key names for debugging purposes
-   */
-  private static async getAllCachedKeyNames(): Promise<Array<string[]>> {
-    // This is a simplified approach - in a real implementation, 
-    // you might want to maintain a registry of keys
-    return [
-      // Common patterns - this is not exhaustive but covers main cases
-      ['user_key'], // Will need specific principal IDs
-      ['shared_record_key'] // Will need owner and record_id
-    ];
-  }
-
   /**
    * Validates encrypted data format before attempting decryption
    * @param data The encrypted data to validate
@@ -1,6 +1,9 @@
 import { Actor, Identity, HttpAgent } from '@dfinity/agent';
 import { idlFactory } from '../../../declarations/medivet_backend/medivet_backend.did.js';
 
+// Backend canister ID; also the ICRC-2 spender that buyers approve for marketplace purchases
+export const BACKEND_CANISTER_ID: string = import.meta.env.VITE_CANISTER_ID_MEDIVET_BACKEND || 'uxrrr-q7777-77774-qaaaq-cai';
+
 // Store the authenticated actor instance and the identity used to create it
 let authenticatedActor: any = null;
 let currentIdentity: Identity | null = null;
@@ -18,7 +21,7 @@ export const createAuthenticatedActor = async (identity: Identity): Promise<{ ac
     }
     
     // Create a new actor with the authenticated identity
-    const canisterId = import.meta.env.VITE_CANISTER_ID_MEDIVET_BACKEND || 'uxrrr-q7777-77774-qaaaq-cai';
+    const canisterId = BACKEND_CANISTER_ID;
     const host = import.meta.env.VITE_DFX_NETWORK === 'ic' ? 'https://ic0.app' : 'http://127.0.0.1:4943';
     
     console.log('Creating actor with canister ID:', canisterId, 'and host:', host);
@@ -0,0 +1,392 @@
+/**
+ * FHIR Service
+ *
+ * Converts decrypted health records and the patient profile into a FHIR R4
+ * Bundle. Everything runs in the browser so plaintext never leaves the client.
+ */
+
+import conditionsData from '../data/conditions.json';
+import {
+  HealthRecord,
+  PatientProfile,
+  RecordBodyType,
+  LabPanelBody,
+  LabResultFlag,
+  PrescriptionBody,
+  VisitNoteBody,
+  VitalSignsBody,
+} from '../types';
+import { recordBodyToText } from '../utils/recordBody';
+import { CryptoService } from './CryptoService';
+
+// Minimal FHIR R4 shapes used by the exporter
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirIdentifier {
+  system: string;
+  value: string;
+}
+
+export interface FhirReference {
+  reference: string;
+  display?: string;
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [key: string]: unknown;
+}
+
+export interface FhirBundleEntry {
+  fullUrl: string;
+  resource: FhirResource;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: FhirBundleEntry[];
+}
+
+export const MEDIVET_PRINCIPAL_SYSTEM = 'urn:medivet:principal';
+export const MEDIVET_RECORD_SYSTEM = 'urn:medivet:record';
+
+const ICD10_SYSTEM = 'http://hl7.org/fhir/sid/icd-10-cm';
+const LOINC_SYSTEM = 'http://loinc.org';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const CONDITION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-category';
+const CONDITION_CLINICAL_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+const INTERPRETATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+
+const INTERPRETATION_CODES: Record<Exclude<LabResultFlag, ''>, FhirCoding> = {
+  normal: { system: INTERPRETATION_SYSTEM, code: 'N', display: 'Normal' },
+  low: { system: INTERPRETATION_SYSTEM, code: 'L', display: 'Low' },
+  high: { system: INTERPRETATION_SYSTEM, code: 'H', display: 'High' },
+  critical: { system: INTERPRETATION_SYSTEM, code: 'AA', display: 'Critical abnormal' },
+};
+
+// LOINC codes for the vital signs captured by VitalSignsBody
+const VITAL_SIGN_CODES: Array<{
+  key: 'heart_rate' | 'respiratory_rate' | 'temperature_c' | 'oxygen_saturation' | 'weight_kg' | 'height_cm';
+  code: string;
+  display: string;
+  unit: string;
+}> = [
+  { key: 'heart_rate', code: '8867-4', display: 'Heart rate', unit: '/min' },
+  { key: 'respiratory_rate', code: '9279-1', display: 'Respiratory rate', unit: '/min' },
+  { key: 'temperature_c', code: '8310-5', display: 'Body temperature', unit: 'Cel' },
+  { key: 'oxygen_saturation', code: '2708-6', display: 'Oxygen saturation in Arterial blood', unit: '%' },
+  { key: 'weight_kg', code: '29463-7', display: 'Body weight', unit: 'kg' },
+  { key: 'height_cm', code: '8302-2', display: 'Body height', unit: 'cm' },
+];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+class FhirService {
+  /**
+   * Looks up an ICD-10 code for a condition name in data/conditions.json
+   */
+  findConditionCoding(name: string): FhirCoding | null {
+    const needle = name.trim().toLowerCase();
+    const match = conditionsData.common_conditions.find(condition =>
+      condition.name.toLowerCase() === needle ||
+      condition.common_name?.toLowerCase() === needle
+    );
+    if (!match?.icd10) return null;
+    return { system: ICD10_SYSTEM, code: match.icd10, display: match.name };
+  }
+
+  /**
+   * Builds a FHIR R4 collection Bundle from the patient's profile and decrypted records.
+   * Records without a parsed body (e.g. failed decryption) are skipped.
+   */
+  buildPatientBundle(owner: string, profile: PatientProfile | null, records: HealthRecord[]): FhirBundle {
+    const entries: FhirBundleEntry[] = [];
+    const add = (resource: FhirResource): FhirReference => {
+      const fullUrl = `urn:uuid:${crypto.randomUUID()}`;
+      entries.push({ fullUrl, resource });
+      return { reference: fullUrl };
+    };
+
+    const patient = add(this.buildPatient(owner, profile));
+
+    if (profile) {
+      this.splitList(profile.allergies).forEach(allergy => add(this.buildAllergy(patient, allergy)));
+      this.splitList(profile.current_medications).forEach(medication =>
+        add({
+          resourceType: 'MedicationStatement',
+          status: 'active',
+          medicationCodeableConcept: { text: medication },
+          subject: patient,
+        })
+      );
+      this.splitList(profile.medical_history).forEach(condition =>
+        add(this.buildCondition(patient, condition, 'problem-list-item'))
+      );
+    }
+
+    records.forEach(record => {
+      if (!record.body) return;
+      this.buildRecordResources(patient, record).forEach(resource => add(resource));
+    });
+
+    return {
+      resourceType: 'Bundle',
+      id: crypto.randomUUID(),
+      type: 'collection',
+      timestamp: new Date().toISOString(),
+      entry: entries,
+    };
+  }
+
+  /**
+   * Triggers a browser download of the bundle as application/fhir+json
+   */
+  downloadBundle(bundle: FhirBundle, fileName = `medivet-fhir-${new Date().toISOString().slice(0, 10)}.json`): void {
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  private buildPatient(owner: string, profile: PatientProfile | null): FhirResource {
+    const patient: FhirResource = {
+      resourceType: 'Patient',
+      identifier: [{ system: MEDIVET_PRINCIPAL_SYSTEM, value: owner }],
+    };
+    if (!profile) return patient;
+
+    const nameParts = profile.full_name.trim().split(/\s+/);
+    patient.name = [{
+      text: profile.full_name,
+      family: nameParts.length > 1 ? nameParts[nameParts.length - 1] : undefined,
+      given: nameParts.length > 1 ? nameParts.slice(0, -1) : nameParts,
+    }];
+    if (ISO_DATE.test(profile.date_of_birth)) {
+      patient.birthDate = profile.date_of_birth;
+    }
+    if (profile.contact_info) {
+      patient.telecom = [{
+        system: profile.contact_info.includes('@') ? 'email' : 'phone',
+        value: profile.contact_info,
+      }];
+    }
+    if (profile.emergency_contact) {
+      patient.contact = [{
+        relationship: [{ text: 'Emergency contact' }],
+        name: { text: profile.emergency_contact },
+      }];
+    }
+    return patient;
+  }
+
+  private buildAllergy(patient: FhirReference, substance: string): FhirResource {
+    return {
+      resourceType: 'AllergyIntolerance',
+      clinicalStatus: {
+        coding: [{ system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical', code: 'active' }],
+      },
+      code: { text: substance },
+      patient,
+    };
+  }
+
+  private buildCondition(
+    patient: FhirReference,
+    name: string,
+    category: 'problem-list-item' | 'encounter-diagnosis',
+    recordedDate?: string
+  ): FhirResource {
+    const coding = this.findConditionCoding(name);
+    return {
+      resourceType: 'Condition',
+      clinicalStatus: { coding: [{ system: CONDITION_CLINICAL_SYSTEM, code: 'active' }] },
+      category: [{ coding: [{ system: CONDITION_CATEGORY_SYSTEM, code: category }] }],
+      code: { coding: coding ? [coding] : undefined, text: name },
+      subject: patient,
+      recordedDate,
+    };
+  }
+
+  private buildRecordResources(patient: FhirReference, record: HealthRecord): FhirResource[] {
+    const body = record.body!;
+    const identifier: FhirIdentifier[] = [{ system: MEDIVET_RECORD_SYSTEM, value: String(record.id) }];
+
+    switch (body.type) {
+      case RecordBodyType.LabPanel:
+        return this.buildLabObservations(patient, record, body, identifier);
+      case RecordBodyType.VitalSigns:
+        return this.buildVitalSignObservations(patient, body, identifier);
+      case RecordBodyType.Prescription:
+        return [this.buildPrescription(patient, body, identifier)];
+      case RecordBodyType.VisitNote:
+        return [
+          this.buildDocumentReference(patient, record, identifier),
+          ...this.buildVisitDiagnoses(patient, body),
+        ];
+      default:
+        return [this.buildDocumentReference(patient, record, identifier)];
+    }
+  }
+
+  private buildLabObservations(
+    patient: FhirReference,
+    record: HealthRecord,
+    body: LabPanelBody,
+    identifier: FhirIdentifier[]
+  ): FhirResource[] {
+    return body.results.map(result => {
+      const numeric = Number(result.value);
+      const observation: FhirResource = {
+        resourceType: 'Observation',
+        identifier,
+        status: 'final',
+        category: [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: 'laboratory' }] }],
+        code: { text: result.test },
+        subject: patient,
+        effectiveDateTime: ISO_DATE.test(body.collected_at) ? body.collected_at : new Date(record.created_at).toISOString(),
+      };
+      if (result.value.trim() !== '' && Number.isFinite(numeric)) {
+        observation.valueQuantity = { value: numeric, unit: result.unit || undefined };
+      } else {
+        observation.valueString = result.value;
+      }
+      if (result.reference_range) {
+        observation.referenceRange = [{ text: result.reference_range }];
+      }
+      if (result.flag) {
+        observation.interpretation = [{ coding: [INTERPRETATION_CODES[result.flag]] }];
+      }
+      if (body.panel_name) {
+        observation.note = [{ text: `Panel: ${body.panel_name}` }];
+      }
+      return observation;
+    });
+  }
+
+  private buildVitalSignObservations(
+    patient: FhirReference,
+    body: VitalSignsBody,
+    identifier: FhirIdentifier[]
+  ): FhirResource[] {
+    const base = {
+      resourceType: 'Observation',
+      identifier,
+      status: 'final',
+      category: [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: 'vital-signs' }] }],
+      subject: patient,
+      effectiveDateTime: ISO_DATE.test(body.measured_at) ? body.measured_at : undefined,
+    };
+    const quantity = (value: number, unit: string) => ({ value, unit, system: UCUM_SYSTEM, code: unit });
+    const observations: FhirResource[] = [];
+
+    if (body.systolic !== null && body.diastolic !== null) {
+      observations.push({
+        ...base,
+        code: { coding: [{ system: LOINC_SYSTEM, code: '85354-9', display: 'Blood pressure panel' }] },
+        component: [
+          {
+            code: { coding: [{ system: LOINC_SYSTEM, code: '8480-6', display: 'Systolic blood pressure' }] },
+            valueQuantity: quantity(body.systolic, 'mm[Hg]'),
+          },
+          {
+            code: { coding: [{ system: LOINC_SYSTEM, code: '8462-4', display: 'Diastolic blood pressure' }] },
+            valueQuantity: quantity(body.diastolic, 'mm[Hg]'),
+          },
+        ],
+      });
+    }
+
+    VITAL_SIGN_CODES.forEach(({ key, code, display, unit }) => {
+      const value = body[key];
+      if (value === null) return;
+      observations.push({
+        ...base,
+        code: { coding: [{ system: LOINC_SYSTEM, code, display }] },
+        valueQuantity: quantity(value, unit),
+      });
+    });
+
+    return observations;
+  }
+
+  private buildPrescription(patient: FhirReference, body: PrescriptionBody, identifier: FhirIdentifier[]): FhirResource {
+    const today = new Date().toISOString().slice(0, 10);
+    const ended = ISO_DATE.test(body.end_date) && body.end_date < today;
+    return {
+      resourceType: 'MedicationStatement',
+      identifier,
+      status: ended ? 'completed' : 'active',
+      medicationCodeableConcept: { text: body.medication },
+      subject: patient,
+      effectivePeriod: {
+        start: ISO_DATE.test(body.start_date) ? body.start_date : undefined,
+        end: ISO_DATE.test(body.end_date) ? body.end_date : undefined,
+      },
+      informationSource: body.prescriber ? { display: body.prescriber } : undefined,
+      dosage: [{
+        text: [body.dosage, body.frequency].filter(Boolean).join(' '),
+        route: body.route ? { text: body.route } : undefined,
+        patientInstruction: body.instructions || undefined,
+      }],
+    };
+  }
+
+  private buildVisitDiagnoses(patient: FhirReference, body: VisitNoteBody): FhirResource[] {
+    const recordedDate = ISO_DATE.test(body.visit_date) ? body.visit_date : undefined;
+    return body.diagnoses.map(diagnosis => this.buildCondition(patient, diagnosis, 'encounter-diagnosis', recordedDate));
+  }
+
+  private buildDocumentReference(patient: FhirReference, record: HealthRecord, identifier: FhirIdentifier[]): FhirResource {
+    const text = recordBodyToText(record.body!);
+    return {
+      resourceType: 'DocumentReference',
+      identifier,
+      status: 'current',
+      type: { text: record.record_type },
+      category: [{ text: record.category }],
+      subject: patient,
+      date: new Date(record.created_at).toISOString(),
+      description: record.title,
+      content: [{
+        attachment: {
+          contentType: 'text/plain; charset=utf-8',
+          title: record.title,
+          data: CryptoService.arrayBufferToBase64(new TextEncoder().encode(text)),
+        },
+      }],
+    };
+  }
+
+  /**
+   * Splits free-text profile lists ("Penicillin, Peanuts") into entries
+   */
+  private splitList(value: string | null): string[] {
+    if (!value) return [];
+    return value
+      .split(/[,;\n]/)
+      .map(item => item.trim())
+      .filter(item => item.length > 0 && !/^(none|n\/a|nil)$/i.test(item));
+  }
+}
+
+// Export singleton instance
+export const fhirService = new FhirService();
@@ -10,6 +10,13 @@ import { Actor, Identity } from '@dfinity/agent';
 import { Principal } from '@dfinity/principal';
 import { idlFactory as vaultIdlFactory } from '../../../declarations/vault/vault.did.js';
 import { createAuthenticatedActor } from './actorService';
+import { CryptoService } from './CryptoService';
+
+// Chunks are encrypted client-side with a per-file key before upload
+const FILE_ENCRYPTION_ALGORITHM = 'AES-GCM-256/chunked';
+const SHARED_FILE_KEY_DOMAIN = 'shared-file-key';
+// Random per envelope, so each upload or rotation of a file gets a new shared file key
+const FILE_KEY_SALT_SIZE = 16;
 
 // Types for file operations
 export interface FileMetadata {
@@ -53,9 +60,21 @@ export interface FileDownloadResult {
   fileType: string;
 }
 
+// Encryption envelope recorded in the vault for each uploaded file
+interface FileEncryptionInfo {
+  algorithm: string;
+  wrappedKey: Uint8Array;
+  sharedWrappedKey: Uint8Array | null;
+  chunkNonces: Uint8Array<ArrayBuffer>[];
+  plainSize: number;
+  keyVersion: number;
+  keySalt: Uint8Array;
+}
+
 // File service class
 class FileService {
   private vaultActor: any = null;
+  private ownerPrincipal: string | null = null;
   private readonly CHUNK_SIZE = 1024 * 1024; // 1MB chunks
 
   /**
@@ -72,6 +91,7 @@ class FileService {
         agent,
         canisterId
       });
+      this.ownerPrincipal = identity.getPrincipal().toText();
 
       console.log('Vault actor initialized successfully');
     } catch (error) {
@@ -80,6 +100,185 @@ class FileService {
     }
   }
 
+  /**
+   * Principal of the authenticated user, who owns uploaded files
+   */
+  private getOwnerPrincipal(): string {
+    if (!this.ownerPrincipal) {
+      throw new Error('Vault actor not initialized');
+    }
+    return this.ownerPrincipal;
+  }
+
+  /**
+   * Additional authenticated data binding a chunk to its file and position
+   */
+  private chunkAad(fileName: string, chunkIndex: number): Uint8Array<ArrayBuffer> {
+    return new TextEncoder().encode(`${fileName}:${chunkIndex}`);
+  }
+
+  /**
+   * vetKD derivation input for a file's shared key: len(owner) || owner || file name
+   */
+  private sharedFileKeyInput(owner: string, fileName: string, keySalt: Uint8Array): Uint8Array {
+    const ownerBytes = Principal.fromText(owner).toUint8Array();
+    const nameBytes = new TextEncoder().encode(fileName);
+    const input = new Uint8Array(1 + ownerBytes.length + keySalt.length + nameBytes.length);
+    input[0] = ownerBytes.length;
+    input.set(ownerBytes, 1);
+    input.set(keySalt, 1 + ownerBytes.length);
+    input.set(nameBytes, 1 + ownerBytes.length + keySalt.length);
+    return input;
+  }
+
+  /**
+   * Fetch the encryption envelope for a file, or null for legacy plaintext files
+   */
+  private async getFileEncryption(owner: string, fileName: string): Promise<FileEncryptionInfo | null> {
+    const result = await this.vaultActor.getFileEncryption(Principal.fromText(owner), fileName);
+    if (!result || result.length === 0) {
+      return null;
+    }
+    const encryption = result[0];
+    return {
+      algorithm: encryption.algorithm,
+      wrappedKey: new Uint8Array(encryption.wrappedKey),
+      sharedWrappedKey: encryption.sharedWrappedKey.length ? new Uint8Array(encryption.sharedWrappedKey[0]) : null,
+      chunkNonces: encryption.chunkNonces.map((nonce: Uint8Array | number[]) => new Uint8Array(nonce)),
+      plainSize: Number(encryption.plainSize),
+      keyVersion: Number(encryption.keyVersion),
+      keySalt: new Uint8Array(encryption.keySalt)
+    };
+  }
+
+  /**
+   * Derive (or load from cache) the vetKD key that wraps a file key for grantees
+   */
+  private async getSharedFileKey(owner: string, fileName: string, keySalt: Uint8Array): Promise<CryptoKey> {
+    const saltHex = Array.from(keySalt, (b) => b.toString(16).padStart(2, '0')).join('');
+    const cacheKey = ['shared_file_key', owner, fileName, saltHex];
+    const cachedKey = await CryptoService.getCachedKey(cacheKey);
+    if (cachedKey) {
+      return cachedKey;
+    }
+
+    const ownerPrincipal = Principal.fromText(owner);
+    const verificationKey = new Uint8Array(await this.vaultActor.file_key_verification_key());
+    const sharedKey = await CryptoService.deriveVetKdAesKey(
+      async (transportPublicKey) => {
+        const result = await this.vaultActor.encrypted_file_key(ownerPrincipal, fileName, transportPublicKey);
+        if ('err' in result) {
+          throw new Error(`Access denied: ${result.err}`);
+        }
+        return new Uint8Array(result.ok);
+      },
+      verificationKey,
+      this.sharedFileKeyInput(owner, fileName, keySalt),
+      SHARED_FILE_KEY_DOMAIN
+    );
+
+    await CryptoService.cacheKey(cacheKey, sharedKey);
+    return sharedKey;
+  }
+
+  /**
+   * Make an encrypted file's key available to grantees by wrapping it with the shared file key
+   */
+  private async ensureSharedWrappedKey(fileName: string): Promise<void> {
+    const owner = this.getOwnerPrincipal();
+    const encryption = await this.getFileEncryption(owner, fileName);
+    if (!encryption || encryption.sharedWrappedKey) {
+      return;
+    }
+
+    const fileKey = await CryptoService.unwrapKeyWithUserKey(owner, encryption.wrappedKey, encryption.keyVersion);
+    const sharedKey = await this.getSharedFileKey(owner, fileName, encryption.keySalt);
+    const sharedWrappedKey = await CryptoService.wrapKey(sharedKey, fileKey);
+
+    const result = await this.vaultActor.setSharedWrappedKey(fileName, sharedWrappedKey);
+    if ('err' in result) {
+      throw new Error(result.err);
+    }
+  }
+
+  /**
+   * Decrypt downloaded chunks; legacy plaintext files are returned unchanged
+   */
+  private async decryptChunks(owner: string, fileName: string, chunks: Uint8Array<ArrayBuffer>[]): Promise<Uint8Array<ArrayBuffer>[]> {
+    const encryption = await this.getFileEncryption(owner, fileName);
+    if (!encryption) {
+      return chunks;
+    }
+    if (encryption.chunkNonces.length !== chunks.length) {
+      throw new Error(`Encryption metadata for "${fileName}" does not match its chunks`);
+    }
+
+    let fileKey: CryptoKey;
+    if (owner === this.getOwnerPrincipal()) {
+      fileKey = await CryptoService.unwrapKeyWithUserKey(owner, encryption.wrappedKey, encryption.keyVersion);
+    } else {
+      if (!encryption.sharedWrappedKey) {
+        throw new Error(`The owner has not shared the key for "${fileName}"`);
+      }
+      fileKey = await CryptoService.unwrapKey(await this.getSharedFileKey(owner, fileName, encryption.keySalt), encryption.sharedWrappedKey);
+    }
+
+    return Promise.all(
+      chunks.map(async (chunk, index) =>
+        new Uint8Array(await CryptoService.decryptChunk(fileKey, encryption.chunkNonces[index], chunk, this.chunkAad(fileName, index)))
+      )
+    );
+  }
+
+  /**
+   * Fetch every chunk of one of the caller's own files
+   */
+  private async downloadOwnChunks(fileName: string): Promise<Uint8Array<ArrayBuffer>[]> {
+    const totalChunks = Number(await this.vaultActor.getTotalChunks(fileName));
+    if (totalChunks === 0) {
+      throw new Error(`No chunks found for file "${fileName}"`);
+    }
+
+    const chunks: Uint8Array<ArrayBuffer>[] = [];
+    for (let i = 0; i < totalChunks; i++) {
+      const chunkResult = await this.vaultActor.getFileChunk(fileName, i);
+      if (!chunkResult || chunkResult.length === 0) {
+        throw new Error(`Failed to download chunk ${i} for file "${fileName}"`);
+      }
+      
+      chunks.push(new Uint8Array(chunkResult[0]));
+    }
+    return chunks;
+  }
+
+  /**
+   * Decrypt downloaded chunks (if the file is encrypted) and assemble the file
+   */
+  private async assembleFile(
+    owner: string,
+    fileName: string,
+    chunks: Uint8Array<ArrayBuffer>[],
+    fileType: string
+  ): Promise<FileDownloadResult> {
+    const plainChunks = await this.decryptChunks(owner, fileName, chunks);
+
+    // Reconstruct file
+    const totalSize = plainChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const fileData = new Uint8Array(totalSize);
+    let offset = 0;
+
+    for (const chunk of plainChunks) {
+      fileData.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    return {
+      fileName,
+      fileData: new Blob([fileData], { type: fileType }),
+      fileType
+    };
+  }
+
   /**
    * Check if a file already exists
    */
@@ -122,16 +321,44 @@ class FileService {
         throw new Error(`File "${fileName}" already exists`);
       }
 
+      // Each chunk is encrypted under a fresh per-file key with its own nonce
+      const owner = this.getOwnerPrincipal();
+      const fileKey = await CryptoService.generateDataKey();
+      const chunkNonces = Array.from({ length: totalChunks }, () => window.crypto.getRandomValues(new Uint8Array(12)));
+
+      // The envelope goes first: if the upload is interrupted, the partial file is still
+      // known to be ciphertext and fails to decrypt instead of being read as plaintext
+      const epoch = await CryptoService.getUserKeyEpoch();
+      const wrappedKey = await CryptoService.wrapKeyWithUserKey(owner, fileKey, epoch);
+      const encryptionResult = await this.vaultActor.setFileEncryption(
+        fileName,
+        FILE_ENCRYPTION_ALGORITHM,
+        wrappedKey,
+        chunkNonces,
+        BigInt(totalSize),
+        BigInt(epoch),
+        window.crypto.getRandomValues(new Uint8Array(FILE_KEY_SALT_SIZE))
+      );
+      if ('err' in encryptionResult) {
+        throw new Error(`Failed to save encryption metadata: ${encryptionResult.err}`);
+      }
+
       for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
         const start = chunkIndex * this.CHUNK_SIZE;
         const end = Math.min(start + this.CHUNK_SIZE, totalSize);
         const chunk = file.slice(start, end);
         
         const chunkArray = new Uint8Array(await chunk.arrayBuffer());
+        const encryptedChunk = await CryptoService.encryptChunk(
+          fileKey,
+          chunkNonces[chunkIndex],
+          chunkArray,
+          this.chunkAad(fileName, chunkIndex)
+        );
         
         await this.vaultActor.uploadFileChunk(
           fileName,
-          chunkArray,
+          encryptedChunk,
           chunkIndex,
           fileType,
           isProfilePhoto
@@ -185,43 +412,115 @@ class FileService {
         throw new Error(`File "${fileName}" not found`);
       }
 
-      // Get total number of chunks
-      const totalChunks = await this.vaultActor.getTotalChunks(fileName);
+      const chunks = await this.downloadOwnChunks(fileName);
+
+      return await this.assembleFile(this.getOwnerPrincipal(), fileName, chunks, fileType[0]);
+    } catch (error) {
+      console.error('Error downloading file:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download a file another user shared with the caller
+   */
+  async downloadSharedFile(owner: string, fileName: string): Promise<FileDownloadResult> {
+    try {
+      if (!this.vaultActor) {
+        throw new Error('Vault actor not initialized');
+      }
+
+      const ownerPrincipal = Principal.fromText(owner);
+      const fileType = await this.vaultActor.getSharedFileType(ownerPrincipal, fileName);
+      if (!fileType || fileType.length === 0) {
+        throw new Error(`File "${fileName}" not found or not shared with you`);
+      }
+
+      const totalChunks = Number(await this.vaultActor.getSharedTotalChunks(ownerPrincipal, fileName));
       if (totalChunks === 0) {
         throw new Error(`No chunks found for file "${fileName}"`);
       }
 
-      // Download all chunks
-      const chunks: Uint8Array[] = [];
+      const chunks: Uint8Array<ArrayBuffer>[] = [];
       for (let i = 0; i < totalChunks; i++) {
-        const chunkResult = await this.vaultActor.getFileChunk(fileName, i);
+        const chunkResult = await this.vaultActor.getSharedFileChunk(ownerPrincipal, fileName, i);
         if (!chunkResult || chunkResult.length === 0) {
           throw new Error(`Failed to download chunk ${i} for file "${fileName}"`);
         }
-        
         chunks.push(new Uint8Array(chunkResult[0]));
       }
 
-      // Reconstruct file
-      const totalSize = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-      const fileData = new Uint8Array(totalSize);
-      let offset = 0;
+      return await this.assembleFile(owner, fileName, chunks, fileType[0]);
+    } catch (error) {
+      console.error('Error downloading shared file:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Own files whose key was not wrapped under the given user key epoch (including legacy plaintext files)
+   */
+  async getFilesNeedingRotation(epoch: number): Promise<FileMetadata[]> {
+    if (!this.vaultActor) {
+      throw new Error('Vault actor not initialized');
+    }
 
-      for (const chunk of chunks) {
-        fileData.set(chunk, offset);
-        offset += chunk.length;
+    const owner = this.getOwnerPrincipal();
+    const files = await this.getFilesWithMetadata();
+    const pending: FileMetadata[] = [];
+    for (const file of files) {
+      const encryption = await this.getFileEncryption(owner, file.name);
+      if (!encryption || encryption.keyVersion < epoch) {
+        pending.push(file);
       }
+    }
+    return pending;
+  }
 
-      const blob = new Blob([fileData], { type: fileType[0] });
+  /**
+   * Re-encrypt a file under a fresh file key wrapped with the given user key epoch.
+   * Chunks are staged in the vault and swapped in together, so a failed attempt can be retried.
+   */
+  async rotateFileKey(file: FileMetadata, epoch: number): Promise<void> {
+    if (!this.vaultActor) {
+      throw new Error('Vault actor not initialized');
+    }
 
-      return {
-        fileName,
-        fileData: blob,
-        fileType: fileType[0]
-      };
-    } catch (error) {
-      console.error('Error downloading file:', error);
-      throw error;
+    const owner = this.getOwnerPrincipal();
+    const fileName = file.name;
+    const plainChunks = await this.decryptChunks(owner, fileName, await this.downloadOwnChunks(fileName));
+
+    const fileKey = await CryptoService.generateDataKey();
+    const chunkNonces: Uint8Array[] = [];
+    for (let chunkIndex = 0; chunkIndex < plainChunks.length; chunkIndex++) {
+      const nonce = window.crypto.getRandomValues(new Uint8Array(12));
+      const encryptedChunk = await CryptoService.encryptChunk(fileKey, nonce, plainChunks[chunkIndex], this.chunkAad(fileName, chunkIndex));
+      chunkNonces.push(nonce);
+
+      const stageResult = await this.vaultActor.stageRotatedChunk(fileName, BigInt(chunkIndex), encryptedChunk);
+      if ('err' in stageResult) {
+        throw new Error(`Failed to stage chunk ${chunkIndex}: ${stageResult.err}`);
+      }
+    }
+
+    const plainSize = plainChunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const wrappedKey = await CryptoService.wrapKeyWithUserKey(owner, fileKey, epoch);
+    const commitResult = await this.vaultActor.commitFileRotation(
+      fileName,
+      FILE_ENCRYPTION_ALGORITHM,
+      wrappedKey,
+      chunkNonces,
+      BigInt(plainSize),
+      BigInt(epoch),
+      window.crypto.getRandomValues(new Uint8Array(FILE_KEY_SALT_SIZE))
+    );
+    if ('err' in commitResult) {
+      throw new Error(`Failed to commit re-encrypted file: ${commitResult.err}`);
+    }
+
+    // Grantees need the new file key wrapped with the shared file key again
+    if (file.permissions.length > 0) {
+      await this.ensureSharedWrappedKey(fileName);
     }
   }
 
@@ -311,16 +610,19 @@ class FileService {
 
       const result = await this.vaultActor.shareFile(
         options.fileName,
-        options.targetUser,
+        Principal.fromText(options.targetUser),
         options.canDownload,
         options.canView,
         options.expiryDays ? [options.expiryDays] : []
       );
 
-      if ('Err' in result) {
-        throw new Error(result.Err);
+      if ('err' in result) {
+        throw new Error(result.err);
       }
 
+      // Grantees decrypt through the derived shared file key
+      await this.ensureSharedWrappedKey(options.fileName);
+
       console.log(`File "${options.fileName}" shared successfully with ${options.targetUser}`);
     } catch (error) {
       console.error('Error sharing file:', error);
@@ -481,9 +783,11 @@ class FileService {
   /**
    * Download and create object URL for file preview
    */
-  async getFilePreviewUrl(fileName: string): Promise<string> {
+  async getFilePreviewUrl(fileName: string, owner?: string): Promise<string> {
     try {
-      const downloadResult = await this.downloadFile(fileName);
+      const downloadResult = owner && owner !== this.ownerPrincipal
+        ? await this.downloadSharedFile(owner, fileName)
+        : await this.downloadFile(fileName);
       return URL.createObjectURL(downloadResult.fileData);
     } catch (error) {
       console.error('Error creating file preview URL:', error);
@@ -0,0 +1,249 @@
+import { get, set, del, delMany, keys } from 'idb-keyval';
+import { Principal } from '@dfinity/principal';
+import { CryptoService } from './CryptoService';
+import useAuthStore from '../stores/useAuthStore';
+
+// Encrypted local copy of the data a user last fetched, read while the replica is unreachable.
+// Entries live under [REPLICA_PREFIX, owner, collection] and are encrypted with a random key kept
+// in the CryptoService key cache until logout, so an outage longer than the session keeps the
+// queued writes readable. Logout or wiping the key cache makes them unreadable.
+const REPLICA_PREFIX = 'offline_replica';
+const REPLICA_KEY_KIND = 'offline_replica_key';
+// A write queue whose key is gone is parked under this prefix instead of being overwritten,
+// so the user is told about the changes it held
+const UNREADABLE_QUEUE_PREFIX = 'syncQueue:unreadable:';
+
+export type ReplicaCollection =
+  | 'records'
+  | 'sharedRecords'
+  | 'patientProfile'
+  | 'providerProfile'
+  | 'accessLogs'
+  | 'syncQueue'
+  | `recordAccessLogs:${number}`;
+
+interface ReplicaEntry {
+  iv: Uint8Array;
+  ciphertext: Uint8Array;
+  savedAt: number;
+}
+
+export interface ReplicaSnapshot<T> {
+  value: T;
+  savedAt: number;
+}
+
+/**
+ * Whether an error means the backend could not be reached, as opposed to a rejected call
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true;
+  }
+  if (error instanceof TypeError) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /failed to fetch|networkerror|network error|load failed|timed out|ERR_INTERNET_DISCONNECTED/i.test(message);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// JSON cannot carry bytes, bigints or principals, so they are tagged on the way out and revived on the way in
+const replacer = (_key: string, value: unknown): unknown => {
+  if (value instanceof Uint8Array) {
+    return { $bytes: CryptoService.arrayBufferToBase64(value) };
+  }
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+  return value;
+};
+
+const reviver = (_key: string, value: any): unknown => {
+  if (value && typeof value === 'object') {
+    if (typeof value.$bytes === 'string') return base64ToBytes(value.$bytes);
+    if (typeof value.$bigint === 'string') return BigInt(value.$bigint);
+    // Principal.toJSON output
+    if (typeof value.__principal__ === 'string') return Principal.fromText(value.__principal__);
+  }
+  return value;
+};
+
+class OfflineReplica {
+  // One key per owner per session; shared by concurrent saves so they never race to create it
+  private keyPromises = new Map<string, Promise<CryptoKey | null>>();
+
+  private currentOwner(): string {
+    const { principal } = useAuthStore.getState();
+    if (!principal) {
+      throw new Error('User not authenticated');
+    }
+    return principal;
+  }
+
+  /**
+   * Loads the replica key, creating one when `create` is set. A new key makes existing
+   * entries unreadable, so they are dropped first, except a write queue, which is parked.
+   */
+  private async getReplicaKey(owner: string, create: boolean): Promise<CryptoKey | null> {
+    const pending = this.keyPromises.get(owner);
+    if (pending) {
+      return pending;
+    }
+    const cached = await CryptoService.getCachedKey([REPLICA_KEY_KIND, owner]);
+    if (cached || !create) {
+      return cached ?? null;
+    }
+
+    // Another save may have started creating the key while the cache was read
+    const started = this.keyPromises.get(owner);
+    if (started) {
+      return started;
+    }
+    const promise = (async () => {
+      await this.parkWriteQueue(owner);
+      await this.deleteEntries(owner);
+      const key = await CryptoService.generateDataKey();
+      await CryptoService.cacheKey([REPLICA_KEY_KIND, owner], key, true);
+      return key;
+    })();
+    this.keyPromises.set(owner, promise);
+    promise.catch(() => this.keyPromises.delete(owner));
+    return promise;
+  }
+
+  /**
+   * Deletes stored entries; for a single owner, parked write queues are kept
+   */
+  private async deleteEntries(owner?: string): Promise<void> {
+    const stale = (await keys()).filter(
+      key => Array.isArray(key) && key[0] === REPLICA_PREFIX && (owner === undefined || (
+        key[1] === owner && !String(key[2]).startsWith(UNREADABLE_QUEUE_PREFIX)
+      ))
+    );
+    await delMany(stale);
+  }
+
+  private async unreadableQueueKeys(owner: string): Promise<IDBValidKey[]> {
+    return (await keys()).filter(
+      key => Array.isArray(key) && key[0] === REPLICA_PREFIX && key[1] === owner &&
+        String(key[2]).startsWith(UNREADABLE_QUEUE_PREFIX)
+    );
+  }
+
+  /**
+   * Moves a write queue that can no longer be decrypted out of the way of the next save
+   */
+  private async parkWriteQueue(owner: string): Promise<void> {
+    const entry = await get<ReplicaEntry>([REPLICA_PREFIX, owner, 'syncQueue']);
+    if (!entry) {
+      return;
+    }
+    console.warn('Offline write queue can no longer be decrypted; keeping it aside');
+    await set([REPLICA_PREFIX, owner, `${UNREADABLE_QUEUE_PREFIX}${entry.savedAt}`], entry);
+    await del([REPLICA_PREFIX, owner, 'syncQueue']);
+  }
+
+  /**
+   * Encrypts and stores a collection for the current user
+   */
+  async save<T>(collection: ReplicaCollection, value: T): Promise<void> {
+    const owner = this.currentOwner();
+    const key = await this.getReplicaKey(owner, true);
+    if (!key) {
+      return;
+    }
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const plaintext = new TextEncoder().encode(JSON.stringify(value, replacer));
+    const ciphertext = new Uint8Array(
+      await window.crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(`${owner}:${collection}`) },
+        key,
+        plaintext
+      )
+    );
+    const entry: ReplicaEntry = { iv, ciphertext, savedAt: Date.now() };
+    await set([REPLICA_PREFIX, owner, collection], entry);
+  }
+
+  /**
+   * Saves without waiting; a failed save only costs offline availability, so it is logged and ignored
+   */
+  saveInBackground<T>(collection: ReplicaCollection, value: T): void {
+    this.save(collection, value).catch(error =>
+      console.warn(`Failed to update offline replica entry ${collection}:`, error)
+    );
+  }
+
+  /**
+   * Loads and decrypts a collection for the current user
+   * @returns null when nothing readable is stored
+   */
+  async load<T>(collection: ReplicaCollection): Promise<ReplicaSnapshot<T> | null> {
+    const owner = this.currentOwner();
+    const entry = await get<ReplicaEntry>([REPLICA_PREFIX, owner, collection]);
+    if (!entry) {
+      return null;
+    }
+    const key = await this.getReplicaKey(owner, false);
+    if (!key) {
+      return null;
+    }
+    try {
+      const plaintext = await window.crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: new Uint8Array(entry.iv),
+          additionalData: new TextEncoder().encode(`${owner}:${collection}`)
+        },
+        key,
+        new Uint8Array(entry.ciphertext)
+      );
+      return { value: JSON.parse(new TextDecoder().decode(plaintext), reviver) as T, savedAt: entry.savedAt };
+    } catch (error) {
+      if (collection === 'syncQueue') {
+        await this.parkWriteQueue(owner);
+        return null;
+      }
+      console.warn(`Discarding unreadable offline replica entry ${collection}:`, error);
+      await del([REPLICA_PREFIX, owner, collection]);
+      return null;
+    }
+  }
+
+  /**
+   * Number of the current user's write queues that were saved offline but can no longer be decrypted
+   */
+  async countUnreadableQueues(): Promise<number> {
+    return (await this.unreadableQueueKeys(this.currentOwner())).length;
+  }
+
+  /**
+   * Deletes the current user's unreadable write queues once they have been told about them
+   */
+  async discardUnreadableQueues(): Promise<void> {
+    await delMany(await this.unreadableQueueKeys(this.currentOwner()));
+  }
+
+  /**
+   * Deletes stored collections for one owner, or for everyone on this device
+   */
+  async clear(owner?: string): Promise<void> {
+    await this.deleteEntries(owner);
+    if (owner === undefined) {
+      this.keyPromises.clear();
+    } else {
+      this.keyPromises.delete(owner);
+    }
+  }
+}
+
+export const offlineReplica = new OfflineReplica();
@@ -1,6 +1,8 @@
 // src/medivet_frontend/src/services/pollingService.ts
 import useHealthRecordStore from '../stores/useHealthRecordStore';
 import useAuthStore from '../stores/useAuthStore';
+import useSyncStore from '../stores/useSyncStore';
+import { isNetworkError } from './offlineReplica';
 
 interface PollingConfig {
   interval: number; // in milliseconds
@@ -10,6 +12,7 @@ interface PollingConfig {
 class PollingService {
   private static instance: PollingService;
   private intervals: Map<string, NodeJS.Timeout> = new Map();
+  private removeConnectivityListeners: (() => void) | null = null;
   private config: PollingConfig = {
     interval: 30000, // 30 seconds default
     enabled: false
@@ -110,6 +113,115 @@ class PollingService {
     console.log(`Started access logs polling with ${interval}ms interval`);
   }
 
+  /**
+   * Watch connectivity and replay queued offline writes once the backend is reachable again
+   */
+  startOfflineSync(interval: number = 15000): void {
+    this.stopPolling('offlineSync');
+
+    const handleOnline = () => {
+      console.log('Browser back online, replaying queued writes');
+      useSyncStore.getState().markOnline();
+      this.syncPendingWrites().catch(err => console.warn('Offline sync failed:', err));
+    };
+    const handleOffline = () => useSyncStore.getState().markOffline();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    this.removeConnectivityListeners = () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+
+    // navigator.onLine misses an unreachable replica, so keep retrying while offline or behind
+    const pollOfflineSync = async () => {
+      const { isOffline, queue } = useSyncStore.getState();
+      if (!navigator.onLine || (!isOffline && !queue.some(write => write.status === 'pending'))) {
+        return;
+      }
+      try {
+        await this.syncPendingWrites();
+      } catch (error) {
+        console.error('Error during offline sync:', error);
+      }
+    };
+
+    // Pick up writes queued before a reload
+    useSyncStore.getState().loadQueue().then(pollOfflineSync);
+
+    const intervalId = setInterval(pollOfflineSync, interval);
+    this.intervals.set('offlineSync', intervalId);
+
+    console.log(`Started offline sync with ${interval}ms interval`);
+  }
+
+  /**
+   * Replay queued record writes in order. An update is held back as a conflict when the
+   * record's modifiedAt moved past the version it was based on.
+   */
+  async syncPendingWrites(): Promise<void> {
+    const sync = useSyncStore.getState();
+    const { isAuthenticated, userRole } = useAuthStore.getState();
+    if (!isAuthenticated || sync.isSyncing) {
+      return;
+    }
+
+    const recordStore = useHealthRecordStore.getState();
+    const refreshRecords = userRole === 'HEALTHCARE_PROVIDER'
+      ? recordStore.fetchSharedRecordsWithoutDecryption
+      : recordStore.fetchRecords;
+    await sync.loadQueue();
+
+    // The fetch doubles as a reachability check: it marks the store offline when it fails
+    await refreshRecords();
+    const pending = useSyncStore.getState().queue.filter(write => write.status === 'pending');
+    if (useSyncStore.getState().isOffline || pending.length === 0) {
+      return;
+    }
+
+    console.log(`Replaying ${pending.length} queued write(s)`);
+    sync.setSyncing(true);
+    try {
+      for (const write of pending) {
+        try {
+          if (write.kind === 'create') {
+            await recordStore.createRecord(
+              write.title,
+              write.category,
+              write.provider,
+              write.record_type,
+              write.body,
+              null,
+              write.encrypt_metadata
+            );
+          } else {
+            const current = useHealthRecordStore.getState().records.find(r => r.id === write.record_id);
+            if (!current) {
+              await sync.updateQueuedWrite(write.id, { status: 'conflict', error: 'The record was deleted on another device' });
+              continue;
+            }
+            if (current.updated_at > write.base_updated_at) {
+              await sync.updateQueuedWrite(write.id, { status: 'conflict', error: 'The record was changed on another device' });
+              continue;
+            }
+            await recordStore.updateRecord(write.record_id, write.body, { refresh: false });
+          }
+          await sync.removeQueuedWrite(write.id);
+        } catch (error: any) {
+          if (isNetworkError(error)) {
+            sync.markOffline();
+            break;
+          }
+          await sync.updateQueuedWrite(write.id, { status: 'failed', error: error.message });
+        }
+      }
+    } finally {
+      sync.setSyncing(false);
+    }
+
+    await refreshRecords();
+    window.dispatchEvent(new CustomEvent('refreshHealthRecords'));
+  }
+
   /**
    * Stop specific polling
    */
@@ -120,6 +232,10 @@ class PollingService {
       this.intervals.delete(key);
       console.log(`Stopped ${key} polling`);
     }
+    if (key === 'offlineSync') {
+      this.removeConnectivityListeners?.();
+      this.removeConnectivityListeners = null;
+    }
   }
 
   /**
@@ -131,6 +247,8 @@ class PollingService {
       console.log(`Stopped ${key} polling`);
     });
     this.intervals.clear();
+    this.removeConnectivityListeners?.();
+    this.removeConnectivityListeners = null;
   }
 
   /**
@@ -0,0 +1,596 @@
+/**
+ * Record Import Service
+ *
+ * Parses FHIR R4 Bundles (JSON) and C-CDA documents (XML) locally into
+ * structured record bodies ready for createRecord. Nothing is uploaded
+ * until the user confirms the preview.
+ */
+
+import {
+  HealthRecord,
+  RecordBody,
+  RecordBodyType,
+  LabResultEntry,
+  LabResultFlag,
+  VitalSignsBody,
+} from '../types';
+import { createEmptyRecordBody, recordBodyToText, validateRecordBody } from '../utils/recordBody';
+import { FhirBundle, FhirResource } from './fhirService';
+
+export type ImportFormat = 'fhir' | 'ccda';
+
+export interface ImportCandidate {
+  key: string;
+  title: string;
+  category: string;
+  recordType: string;
+  provider: string;
+  body: RecordBody;
+  source: string; // Resource type or C-CDA section the candidate came from
+  duplicate: boolean;
+}
+
+export interface ImportParseResult {
+  format: ImportFormat;
+  candidates: ImportCandidate[];
+  warnings: string[];
+}
+
+const CCDA_NAMESPACE = 'urn:hl7-org:v3';
+
+// LOINC section codes used by C-CDA R2.1 document templates
+const CCDA_SECTIONS = {
+  RESULTS: '30954-2',
+  VITAL_SIGNS: '8716-3',
+  MEDICATIONS: '10160-0',
+  PROBLEMS: '11450-4',
+  ALLERGIES: '48765-2',
+  IMMUNIZATIONS: '11369-6',
+};
+
+// LOINC codes mapped onto VitalSignsBody fields (shared by FHIR and C-CDA)
+const VITAL_SIGN_FIELDS: Record<string, Exclude<keyof VitalSignsBody, 'type' | 'measured_at'>> = {
+  '8480-6': 'systolic',
+  '8462-4': 'diastolic',
+  '8867-4': 'heart_rate',
+  '9279-1': 'respiratory_rate',
+  '8310-5': 'temperature_c',
+  '2708-6': 'oxygen_saturation',
+  '59408-5': 'oxygen_saturation',
+  '29463-7': 'weight_kg',
+  '8302-2': 'height_cm',
+};
+
+const INTERPRETATION_FLAGS: Record<string, LabResultFlag> = {
+  N: 'normal',
+  L: 'low',
+  H: 'high',
+  LL: 'critical',
+  HH: 'critical',
+  AA: 'critical',
+  A: 'high',
+};
+
+// Normalizes any date/datetime representation (FHIR ISO or HL7 yyyymmdd...) to yyyy-mm-dd
+const toIsoDate = (value?: string | null): string => {
+  if (!value) return '';
+  const hl7 = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (hl7) return `${hl7[1]}-${hl7[2]}-${hl7[3]}`;
+  const iso = value.match(/^(\d{4}-\d{2}-\d{2})/);
+  return iso ? iso[1] : '';
+};
+
+const conceptText = (concept: any): string =>
+  concept?.text || concept?.coding?.[0]?.display || concept?.coding?.[0]?.code || '';
+
+const conceptCode = (concept: any, system?: string): string | undefined =>
+  (concept?.coding || []).find((coding: any) => !system || coding.system === system)?.code;
+
+const decodeBase64Text = (data: string): string => {
+  const binary = atob(data);
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Fingerprint used to dedupe imports against existing records and each other
+ */
+export function recordFingerprint(title: string, body: RecordBody): string {
+  return `${title.trim().toLowerCase()}|${recordBodyToText(body).replace(/\s+/g, ' ').trim().toLowerCase()}`;
+}
+
+class RecordImportService {
+  /**
+   * Detects the format of an uploaded file and parses it into import candidates
+   */
+  async parseFile(file: File): Promise<ImportParseResult> {
+    const text = await file.text();
+    const trimmed = text.trimStart();
+    if (trimmed.startsWith('{')) {
+      return this.parseFhirBundle(text);
+    }
+    if (trimmed.startsWith('<')) {
+      return this.parseCcda(text);
+    }
+    throw new Error('Unsupported file: expected a FHIR Bundle (JSON) or C-CDA document (XML)');
+  }
+
+  /**
+   * Marks candidates that match an existing (decrypted) record or an earlier candidate
+   */
+  markDuplicates(candidates: ImportCandidate[], existing: HealthRecord[]): ImportCandidate[] {
+    const seen = new Set(
+      existing
+        .filter(record => record.body)
+        .map(record => recordFingerprint(record.title, record.body!))
+    );
+    return candidates.map(candidate => {
+      const fingerprint = recordFingerprint(candidate.title, candidate.body);
+      const duplicate = seen.has(fingerprint);
+      seen.add(fingerprint);
+      return { ...candidate, duplicate };
+    });
+  }
+
+  parseFhirBundle(json: string): ImportParseResult {
+    let bundle: FhirBundle;
+    try {
+      bundle = JSON.parse(json);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+    if (bundle?.resourceType !== 'Bundle' || !Array.isArray(bundle.entry)) {
+      throw new Error('JSON file is not a FHIR Bundle');
+    }
+
+    const warnings: string[] = [];
+    const candidates: ImportCandidate[] = [];
+    const labGroups = new Map<string, { date: string; results: LabResultEntry[]; panel: string }>();
+    const vitalGroups = new Map<string, VitalSignsBody>();
+    const push = (candidate: Omit<ImportCandidate, 'key' | 'duplicate'>) =>
+      candidates.push({ ...candidate, key: `fhir-${candidates.length}`, duplicate: false });
+
+    bundle.entry.forEach(({ resource }) => {
+      if (!resource) return;
+      switch (resource.resourceType) {
+        case 'Patient':
+          break;
+        case 'Observation':
+          this.collectFhirObservation(resource, labGroups, vitalGroups);
+          break;
+        case 'MedicationStatement':
+        case 'MedicationRequest': {
+          const body = createEmptyRecordBody(RecordBodyType.Prescription);
+          if (body.type !== RecordBodyType.Prescription) break;
+          const dosage: any = (resource.dosage as any[] | undefined)?.[0] || (resource.dosageInstruction as any[] | undefined)?.[0] || {};
+          body.medication = conceptText(resource.medicationCodeableConcept);
+          body.dosage = dosage.text || 'See instructions';
+          body.frequency = dosage.timing?.code?.text || dosage.text || 'As directed';
+          body.route = conceptText(dosage.route);
+          body.start_date = toIsoDate((resource.effectivePeriod as any)?.start || (resource.authoredOn as string));
+          body.end_date = toIsoDate((resource.effectivePeriod as any)?.end);
+          body.prescriber = (resource.informationSource as any)?.display || (resource.requester as any)?.display || '';
+          body.instructions = dosage.patientInstruction || '';
+          push({
+            title: body.medication || 'Medication',
+            category: 'Medications',
+            recordType: 'Prescription',
+            provider: body.prescriber || 'Imported',
+            body,
+            source: resource.resourceType,
+          });
+          break;
+        }
+        case 'Condition': {
+          const name = conceptText(resource.code);
+          const icd10 = conceptCode(resource.code, 'http://hl7.org/fhir/sid/icd-10-cm') || conceptCode(resource.code, 'http://hl7.org/fhir/sid/icd-10');
+          push({
+            title: name || 'Condition',
+            category: 'Chronic Conditions',
+            recordType: 'Assessment',
+            provider: 'Imported',
+            body: {
+              type: RecordBodyType.PlainText,
+              text: [`Condition: ${name}`, icd10 && `ICD-10: ${icd10}`, resource.recordedDate && `Recorded: ${toIsoDate(resource.recordedDate as string)}`]
+                .filter(Boolean)
+                .join('\n'),
+            },
+            source: 'Condition',
+          });
+          break;
+        }
+        case 'AllergyIntolerance': {
+          const substance = conceptText(resource.code);
+          const reactions = ((resource.reaction as any[]) || [])
+            .flatMap(reaction => (reaction.manifestation || []).map(conceptText))
+            .filter(Boolean);
+          push({
+            title: `Allergy: ${substance || 'Unknown substance'}`,
+            category: 'Allergies',
+            recordType: 'Assessment',
+            provider: 'Imported',
+            body: {
+              type: RecordBodyType.PlainText,
+              text: [`Allergy: ${substance}`, reactions.length > 0 && `Reactions: ${reactions.join(', ')}`].filter(Boolean).join('\n'),
+            },
+            source: 'AllergyIntolerance',
+          });
+          break;
+        }
+        case 'Immunization': {
+          const body = createEmptyRecordBody(RecordBodyType.Immunization);
+          if (body.type !== RecordBodyType.Immunization) break;
+          body.vaccine = conceptText(resource.vaccineCode);
+          body.administered_at = toIsoDate(resource.occurrenceDateTime as string);
+          body.lot_number = (resource.lotNumber as string) || '';
+          body.site = conceptText(resource.site);
+          body.dose_number = String((resource.protocolApplied as any[])?.[0]?.doseNumberPositiveInt ?? '');
+          push({
+            title: body.vaccine || 'Immunization',
+            category: 'Immunizations',
+            recordType: 'Procedure Note',
+            provider: 'Imported',
+            body,
+            source: 'Immunization',
+          });
+          break;
+        }
+        case 'DiagnosticReport':
+          this.pushFhirDiagnosticReport(resource, push);
+          break;
+        case 'DocumentReference': {
+          const attachment: any = (resource.content as any[])?.[0]?.attachment;
+          if (!attachment?.data || (attachment.contentType && !String(attachment.contentType).startsWith('text/'))) {
+            warnings.push(`Skipped DocumentReference "${resource.description || attachment?.title || 'untitled'}": only text attachments can be imported`);
+            break;
+          }
+          push({
+            title: (resource.description as string) || attachment.title || 'Clinical Document',
+            category: (resource.category as any[])?.[0]?.text || 'General Health',
+            recordType: conceptText(resource.type) || 'Discharge Summary',
+            provider: 'Imported',
+            body: { type: RecordBodyType.PlainText, text: decodeBase64Text(attachment.data) },
+            source: 'DocumentReference',
+          });
+          break;
+        }
+        default:
+          warnings.push(`Skipped unsupported resource type ${resource.resourceType}`);
+      }
+    });
+
+    labGroups.forEach(group => {
+      push({
+        title: group.panel || `Lab Results ${group.date}`.trim(),
+        category: 'Lab Results',
+        recordType: 'Lab Report',
+        provider: 'Imported',
+        body: { type: RecordBodyType.LabPanel, panel_name: group.panel || 'Lab Results', collected_at: group.date, results: group.results, notes: '' },
+        source: 'Observation',
+      });
+    });
+    vitalGroups.forEach(body => {
+      push({
+        title: `Vital Signs ${body.measured_at}`.trim(),
+        category: 'General Health',
+        recordType: 'Assessment',
+        provider: 'Imported',
+        body,
+        source: 'Observation',
+      });
+    });
+
+    return this.finalize('fhir', candidates, warnings);
+  }
+
+  parseCcda(xml: string): ImportParseResult {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('File is not valid XML');
+    }
+    const root = doc.documentElement;
+    if (root.localName !== 'ClinicalDocument') {
+      throw new Error('XML file is not a C-CDA ClinicalDocument');
+    }
+
+    const warnings: string[] = [];
+    const candidates: ImportCandidate[] = [];
+    const push = (candidate: Omit<ImportCandidate, 'key' | 'duplicate'>) =>
+      candidates.push({ ...candidate, key: `ccda-${candidates.length}`, duplicate: false });
+    const author = this.ccdaAuthor(root) || 'Imported';
+    const documentTitle = this.text(this.child(root, 'title')) || 'Clinical Document';
+
+    this.descendants(root, 'section').forEach(section => {
+      const code = this.child(section, 'code')?.getAttribute('code') || '';
+      const title = this.text(this.child(section, 'title')) || documentTitle;
+      const entries = this.children(section, 'entry');
+
+      switch (code) {
+        case CCDA_SECTIONS.RESULTS:
+          this.descendants(section, 'organizer').forEach(organizer => {
+            const results = this.descendants(organizer, 'observation').map(observation => this.ccdaLabResult(observation));
+            if (results.length === 0) return;
+            const panel = this.displayName(this.child(organizer, 'code')) || title;
+            push({
+              title: panel,
+              category: 'Lab Results',
+              recordType: 'Lab Report',
+              provider: author,
+              body: {
+                type: RecordBodyType.LabPanel,
+                panel_name: panel,
+                collected_at: this.ccdaDate(organizer),
+                results,
+                notes: '',
+              },
+              source: title,
+            });
+          });
+          return;
+        case CCDA_SECTIONS.VITAL_SIGNS:
+          this.descendants(section, 'organizer').forEach(organizer => {
+            const body = createEmptyRecordBody(RecordBodyType.VitalSigns) as VitalSignsBody;
+            body.measured_at = this.ccdaDate(organizer);
+            this.descendants(organizer, 'observation').forEach(observation => {
+              const field = VITAL_SIGN_FIELDS[this.child(observation, 'code')?.getAttribute('code') || ''];
+              const value = Number(this.child(observation, 'value')?.getAttribute('value'));
+              if (field && Number.isFinite(value)) body[field] = value;
+            });
+            push({
+              title: `Vital Signs ${body.measured_at}`.trim(),
+              category: 'General Health',
+              recordType: 'Assessment',
+              provider: author,
+              body,
+              source: title,
+            });
+          });
+          return;
+        case CCDA_SECTIONS.MEDICATIONS:
+          entries.forEach(entry => {
+            const administration = this.descendants(entry, 'substanceAdministration')[0];
+            if (!administration) return;
+            const material = this.descendants(administration, 'manufacturedMaterial')[0];
+            const dose = this.child(administration, 'doseQuantity');
+            const period = this.descendants(administration, 'period')[0];
+            const body = createEmptyRecordBody(RecordBodyType.Prescription);
+            if (body.type !== RecordBodyType.Prescription) return;
+            body.medication = this.displayName(this.child(material, 'code')) || this.text(material) || 'Medication';
+            body.dosage = dose ? `${dose.getAttribute('value') || ''} ${dose.getAttribute('unit') || ''}`.trim() || 'See instructions' : 'See instructions';
+            body.frequency = period ? `Every ${period.getAttribute('value')} ${period.getAttribute('unit')}` : 'As directed';
+            body.route = this.displayName(this.child(administration, 'routeCode'));
+            const effective = this.child(administration, 'effectiveTime');
+            body.start_date = toIsoDate(this.child(effective, 'low')?.getAttribute('value'));
+            body.end_date = toIsoDate(this.child(effective, 'high')?.getAttribute('value'));
+            body.prescriber = author;
+            push({
+              title: body.medication,
+              category: 'Medications',
+              recordType: 'Prescription',
+              provider: author,
+              body,
+              source: title,
+            });
+          });
+          return;
+        case CCDA_SECTIONS.IMMUNIZATIONS:
+          entries.forEach(entry => {
+            const administration = this.descendants(entry, 'substanceAdministration')[0];
+            if (!administration) return;
+            const material = this.descendants(administration, 'manufacturedMaterial')[0];
+            const body = createEmptyRecordBody(RecordBodyType.Immunization);
+            if (body.type !== RecordBodyType.Immunization) return;
+            body.vaccine = this.displayName(this.child(material, 'code')) || 'Vaccine';
+            body.administered_at = this.ccdaDate(administration);
+            body.lot_number = this.text(this.child(material, 'lotNumberText'));
+            body.site = this.displayName(this.child(administration, 'approachSiteCode'));
+            push({
+              title: body.vaccine,
+              category: 'Immunizations',
+              recordType: 'Procedure Note',
+              provider: author,
+              body,
+              source: title,
+            });
+          });
+          return;
+        case CCDA_SECTIONS.PROBLEMS:
+        case CCDA_SECTIONS.ALLERGIES: {
+          const isAllergy = code === CCDA_SECTIONS.ALLERGIES;
+          entries.forEach(entry => {
+            // Problem/allergy observations carry the coded concept in <value> (allergies: participant/playingEntity)
+            const observation = this.descendants(entry, 'observation')[0];
+            const playing = this.descendants(entry, 'playingEntity')[0];
+            const name = isAllergy
+              ? this.displayName(this.child(playing, 'code')) || this.text(this.child(playing, 'name'))
+              : this.displayName(this.child(observation, 'value'));
+            if (!name) return;
+            const icd10 = isAllergy ? null : this.ccdaIcd10(this.child(observation, 'value'));
+            push({
+              title: isAllergy ? `Allergy: ${name}` : name,
+              category: isAllergy ? 'Allergies' : 'Chronic Conditions',
+              recordType: 'Assessment',
+              provider: author,
+              body: {
+                type: RecordBodyType.PlainText,
+                text: [isAllergy ? `Allergy: ${name}` : `Condition: ${name}`, icd10 && `ICD-10: ${icd10}`].filter(Boolean).join('\n'),
+              },
+              source: title,
+            });
+          });
+          return;
+        }
+        default: {
+          // Narrative sections (hospital course, discharge instructions, ...) are imported as free text
+          const narrative = this.text(this.child(section, 'text'));
+          if (!narrative) return;
+          push({
+            title,
+            category: 'Hospital Admission',
+            recordType: 'Discharge Summary',
+            provider: author,
+            body: { type: RecordBodyType.PlainText, text: narrative },
+            source: title,
+          });
+        }
+      }
+    });
+
+    return this.finalize('ccda', candidates, warnings);
+  }
+
+  private collectFhirObservation(
+    resource: FhirResource,
+    labGroups: Map<string, { date: string; results: LabResultEntry[]; panel: string }>,
+    vitalGroups: Map<string, VitalSignsBody>
+  ): void {
+    const category = ((resource.category as any[]) || []).map(c => conceptCode(c)).find(Boolean);
+    const date = toIsoDate((resource.effectiveDateTime as string) || (resource.issued as string));
+
+    if (category === 'vital-signs') {
+      const body = vitalGroups.get(date) || (createEmptyRecordBody(RecordBodyType.VitalSigns) as VitalSignsBody);
+      body.measured_at = date;
+      const readings = [
+        { code: conceptCode(resource.code, 'http://loinc.org'), quantity: resource.valueQuantity as any },
+        ...((resource.component as any[]) || []).map(component => ({
+          code: conceptCode(component.code, 'http://loinc.org'),
+          quantity: component.valueQuantity,
+        })),
+      ];
+      readings.forEach(({ code, quantity }) => {
+        const field = code ? VITAL_SIGN_FIELDS[code] : undefined;
+        if (field && typeof quantity?.value === 'number') body[field] = quantity.value;
+      });
+      vitalGroups.set(date, body);
+      return;
+    }
+
+    const panel = ((resource.note as any[]) || [])
+      .map(note => String(note.text || ''))
+      .find(text => text.startsWith('Panel: '))
+      ?.slice('Panel: '.length) || '';
+    const groupKey = `${date}|${panel}`;
+    const group = labGroups.get(groupKey) || { date, results: [], panel };
+    const quantity = resource.valueQuantity as any;
+    const interpretation = conceptCode((resource.interpretation as any[])?.[0]);
+    group.results.push({
+      test: conceptText(resource.code) || 'Result',
+      value: quantity?.value !== undefined ? String(quantity.value) : String(resource.valueString ?? conceptText(resource.valueCodeableConcept)),
+      unit: quantity?.unit || quantity?.code || '',
+      reference_range: (resource.referenceRange as any[])?.[0]?.text || '',
+      flag: (interpretation && INTERPRETATION_FLAGS[interpretation]) || '',
+    });
+    labGroups.set(groupKey, group);
+  }
+
+  private pushFhirDiagnosticReport(
+    resource: FhirResource,
+    push: (candidate: Omit<ImportCandidate, 'key' | 'duplicate'>) => void
+  ): void {
+    const isImaging = ((resource.category as any[]) || []).some(c => ['RAD', 'imaging'].includes(conceptCode(c) || ''));
+    const title = conceptText(resource.code) || 'Diagnostic Report';
+    const performed = toIsoDate((resource.effectiveDateTime as string) || (resource.issued as string));
+    const conclusion = (resource.conclusion as string) || '';
+
+    if (isImaging && conclusion) {
+      push({
+        title,
+        category: 'Imaging',
+        recordType: 'Imaging Report',
+        provider: 'Imported',
+        body: {
+          type: RecordBodyType.ImagingReport,
+          modality: 'Other',
+          body_part: title,
+          performed_at: performed,
+          findings: '',
+          impression: conclusion,
+          radiologist: '',
+        },
+        source: 'DiagnosticReport',
+      });
+      return;
+    }
+
+    push({
+      title,
+      category: 'Lab Results',
+      recordType: 'Lab Report',
+      provider: 'Imported',
+      body: { type: RecordBodyType.PlainText, text: [title, performed && `Date: ${performed}`, conclusion].filter(Boolean).join('\n') },
+      source: 'DiagnosticReport',
+    });
+  }
+
+  private ccdaLabResult(observation: Element): LabResultEntry {
+    const value = this.child(observation, 'value');
+    const range = this.descendants(observation, 'referenceRange')[0];
+    const interpretation = this.child(observation, 'interpretationCode')?.getAttribute('code') || '';
+    return {
+      test: this.displayName(this.child(observation, 'code')) || 'Result',
+      value: value?.getAttribute('value') || this.text(value) || '',
+      unit: value?.getAttribute('unit') || '',
+      reference_range: this.text(range),
+      flag: INTERPRETATION_FLAGS[interpretation] || '',
+    };
+  }
+
+  private ccdaIcd10(value: Element | null): string | null {
+    if (!value) return null;
+    const codes = [value, ...this.children(value, 'translation')];
+    // 2.16.840.1.113883.6.90 is the ICD-10-CM code system OID
+    const icd = codes.find(el => el.getAttribute('codeSystem') === '2.16.840.1.113883.6.90');
+    return icd?.getAttribute('code') || null;
+  }
+
+  private ccdaAuthor(root: Element): string {
+    const person = this.descendants(this.child(root, 'author') || root, 'assignedPerson')[0];
+    const name = this.child(person, 'name');
+    if (!name) return '';
+    return [this.text(this.child(name, 'prefix')), ...this.children(name, 'given').map(el => this.text(el)), this.text(this.child(name, 'family'))]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  private ccdaDate(el: Element): string {
+    const effective = this.child(el, 'effectiveTime');
+    return toIsoDate(effective?.getAttribute('value') || this.child(effective, 'low')?.getAttribute('value'));
+  }
+
+  private displayName(el: Element | null): string {
+    return el?.getAttribute('displayName') || this.text(this.child(el, 'originalText')) || '';
+  }
+
+  private child(el: Element | null, name: string): Element | null {
+    return el ? this.children(el, name)[0] || null : null;
+  }
+
+  private children(el: Element, name: string): Element[] {
+    return Array.from(el.children).filter(child => child.localName === name);
+  }
+
+  private descendants(el: Element, name: string): Element[] {
+    return Array.from(el.getElementsByTagNameNS(CCDA_NAMESPACE, name));
+  }
+
+  private text(el: Element | null): string {
+    return el?.textContent?.replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n').trim() || '';
+  }
+
+  /**
+   * Drops candidates whose bodies fail schema validation, reporting them as warnings
+   */
+  private finalize(format: ImportFormat, candidates: ImportCandidate[], warnings: string[]): ImportParseResult {
+    const valid = candidates.filter(candidate => {
+      const { isValid, errors } = validateRecordBody(candidate.body);
+      if (!isValid) {
+        warnings.push(`Skipped "${candidate.title}": ${Object.values(errors)[0]}`);
+      }
+      return isValid;
+    });
+    return { format, candidates: valid, warnings };
+  }
+}
+
+// Export singleton instance
+export const recordImportService = new RecordImportService();
@@ -47,6 +47,32 @@ export interface TransferArgs {
   created_at_time?: bigint;
 }
 
+export interface ApproveArgs {
+  spender: TokenAccount;
+  amount: bigint;
+  expected_allowance?: bigint;
+  expires_at?: bigint; // Nanoseconds since epoch
+  fee?: bigint;
+  memo?: Uint8Array;
+  from_subaccount?: Uint8Array;
+  created_at_time?: bigint;
+}
+
+export interface ApproveResult {
+  Ok?: bigint;
+  Err?: ApproveError;
+}
+
+export interface ApproveError extends TransferError {
+  Expired?: { ledger_time: bigint };
+  AllowanceChanged?: { current_allowance: bigint };
+}
+
+export interface Allowance {
+  allowance: bigint;
+  expires_at: bigint | null;
+}
+
 export interface TransferResult {
   Ok?: bigint;
   Err?: TransferError;
@@ -63,6 +89,24 @@ export interface TransferError {
   InsufficientFunds?: { balance: bigint };
 }
 
+export type LedgerOperationKind = 'transfer' | 'approve' | 'mint' | 'burn';
+
+// Flattened view of a meditoken ledger transaction
+export interface LedgerTransaction {
+  index: bigint;
+  kind: LedgerOperationKind;
+  from: string;
+  to: string | null; // Spender for approvals
+  amount: bigint;
+  fee: bigint;
+  timestamp: bigint; // Nanoseconds
+}
+
+export interface AccountTransactionsPage {
+  transactions: LedgerTransaction[]; // Newest first
+  oldestTxId: bigint | null;
+}
+
 export interface TokenMetadata {
   name: string;
   symbol: string;
@@ -72,6 +116,29 @@ export interface TokenMetadata {
   logo?: string;
 }
 
+// Candid encodes optional values as [] / [value]
+const toOpt = <T>(value?: T): [] | [T] => (value === undefined ? [] : [value]);
+
+const toCandidAccount = (account: TokenAccount) => ({
+  owner: account.owner,
+  subaccount: toOpt(account.subaccount)
+});
+
+// Flattens a candid Transaction into a LedgerTransaction
+const toLedgerTransaction = (index: bigint, tx: any): LedgerTransaction => {
+  const [variant, args] = Object.entries(tx.operation)[0] as [string, any];
+  const kind = variant.toLowerCase() as LedgerOperationKind;
+  return {
+    index,
+    kind,
+    from: args.from.owner.toString(),
+    to: kind === 'approve' ? args.spender.owner.toString() : args.to.owner.toString(),
+    amount: args.amount,
+    fee: tx.fee,
+    timestamp: tx.timestamp
+  };
+};
+
 class TokenService {
   private actor: any = null;
   private authClient: AuthClient | null = null;
@@ -148,7 +215,7 @@ class TokenService {
     }
 
     try {
-      return await this.actor.icrc1_balance_of(account);
+      return await this.actor.icrc1_balance_of(toCandidAccount(account));
     } catch (error) {
       console.error('Error fetching balance:', error);
       throw error;
@@ -166,7 +233,14 @@ class TokenService {
     }
 
     try {
-      const result = await this.actor.icrc1_transfer(args);
+      const result = await this.actor.icrc1_transfer({
+        to: toCandidAccount(args.to),
+        amount: args.amount,
+        fee: toOpt(args.fee),
+        memo: toOpt(args.memo),
+        from_subaccount: toOpt(args.from_subaccount),
+        created_at_time: toOpt(args.created_at_time)
+      });
       return result;
     } catch (error) {
       console.error('Error performing transfer:', error);
@@ -174,6 +248,117 @@ class TokenService {
     }
   }
 
+  // ICRC-2: allow `spender` to move up to `amount` (plus fees) out of the caller's account
+  async approve(args: ApproveArgs): Promise<ApproveResult> {
+    if (!this.actor) {
+      throw new Error('Token service not initialized');
+    }
+
+    const isAuthenticated = await this.authClient?.isAuthenticated();
+    if (!isAuthenticated) {
+      throw new Error('User must be authenticated to approve spending');
+    }
+
+    try {
+      return await this.actor.icrc2_approve({
+        spender: toCandidAccount(args.spender),
+        amount: args.amount,
+        expected_allowance: toOpt(args.expected_allowance),
+        expires_at: toOpt(args.expires_at),
+        fee: toOpt(args.fee),
+        memo: toOpt(args.memo),
+        from_subaccount: toOpt(args.from_subaccount),
+        created_at_time: toOpt(args.created_at_time)
+      });
+    } catch (error) {
+      console.error('Error approving spender:', error);
+      throw error;
+    }
+  }
+
+  async getAllowance(account: TokenAccount, spender: TokenAccount): Promise<Allowance> {
+    if (!this.actor) {
+      throw new Error('Token service not initialized');
+    }
+
+    try {
+      const result = await this.actor.icrc2_allowance({
+        account: toCandidAccount(account),
+        spender: toCandidAccount(spender)
+      });
+      return { allowance: result.allowance, expires_at: result.expires_at[0] ?? null };
+    } catch (error) {
+      console.error('Error fetching allowance:', error);
+      throw error;
+    }
+  }
+
+  async getFee(): Promise<bigint> {
+    if (!this.actor) {
+      throw new Error('Token service not initialized');
+    }
+
+    try {
+      return await this.actor.icrc1_fee();
+    } catch (error) {
+      console.error('Error fetching fee:', error);
+      throw error;
+    }
+  }
+
+  async getTransaction(index: bigint): Promise<LedgerTransaction | null> {
+    if (!this.actor) {
+      throw new Error('Token service not initialized');
+    }
+
+    try {
+      const [tx] = await this.actor.get_transaction(index);
+      return tx ? toLedgerTransaction(index, tx) : null;
+    } catch (error) {
+      console.error('Error fetching transaction:', error);
+      throw error;
+    }
+  }
+
+  // Pages through the full ledger log, oldest first
+  async getTransactions(start: bigint, length: bigint): Promise<LedgerTransaction[]> {
+    if (!this.actor) {
+      throw new Error('Token service not initialized');
+    }
+
+    try {
+      const response = await this.actor.get_transactions({ start, length });
+      return response.transactions.map((tx: any, i: number) =>
+        toLedgerTransaction(response.first_index + BigInt(i), tx)
+      );
+    } catch (error) {
+      console.error('Error fetching transactions:', error);
+      throw error;
+    }
+  }
+
+  // Pages through one account's history, newest first; pass the last returned index as `before` for the next page
+  async getAccountTransactions(account: TokenAccount, maxResults: number, before?: bigint): Promise<AccountTransactionsPage> {
+    if (!this.actor) {
+      throw new Error('Token service not initialized');
+    }
+
+    try {
+      const response = await this.actor.get_account_transactions({
+        account: toCandidAccount(account),
+        start: toOpt(before),
+        max_results: BigInt(maxResults)
+      });
+      return {
+        transactions: response.transactions.map((entry: any) => toLedgerTransaction(entry.id, entry.transaction)),
+        oldestTxId: response.oldest_tx_id[0] ?? null
+      };
+    } catch (error) {
+      console.error('Error fetching account transactions:', error);
+      throw error;
+    }
+  }
+
   async mintTokens(to: TokenAccount, amount: bigint): Promise<TransferResult> {
     if (!this.actor) {
       throw new Error('Token service not initialized');
@@ -271,6 +456,16 @@ class TokenService {
     return BigInt(wholePart) * BigInt(10 ** decimals) + BigInt(paddedFractional);
   }
 
+  // Parses a hex subaccount (up to 32 bytes, left-padded with zeros as in ICRC-1 textual accounts)
+  static parseSubaccount(hex: string): Uint8Array {
+    const clean = hex.trim().replace(/^0x/i, '');
+    if (!/^[0-9a-fA-F]{1,64}$/.test(clean)) {
+      throw new Error('Subaccount must be up to 64 hexadecimal characters');
+    }
+    const padded = clean.padStart(64, '0');
+    return Uint8Array.from(padded.match(/.{2}/g)!, byte => parseInt(byte, 16));
+  }
+
   static createAccount(principal: Principal, subaccount?: Uint8Array): TokenAccount {
     return {
       owner: principal,
@@ -0,0 +1,263 @@
+import { create } from 'zustand';
+import { Principal } from '@dfinity/principal';
+import { AccessAction, AccessLog, AccessLogFilter, AccessLogVerification } from '../types';
+import useAuthStore from './useAuthStore';
+import { BACKEND_CANISTER_ID, createAuthenticatedActor } from '../services/actorService';
+import {
+  ACCESS_LOG_CHAIN_PAGE_SIZE,
+  GENESIS_HEAD,
+  bytesEqual,
+  digestAccessLogEntry,
+  fromHex,
+  loadChainCheckpoint,
+  nextChainHead,
+  readCertifiedData,
+  saveChainCheckpoint,
+  toHex,
+} from '../utils/accessLogChain';
+
+const NS_PER_MS = 1_000_000;
+
+// The backend caps a page at 100 entries
+export const ACCESS_LOG_PAGE_SIZE = 50;
+
+export const EMPTY_ACCESS_LOG_FILTER: AccessLogFilter = { action: null, accessor: null, from_ms: null, to_ms: null };
+
+export const ACCESS_ACTION_LABELS: Record<AccessAction, string> = {
+  View: 'Viewed record',
+  KeyIssued: 'Decryption key issued',
+  Grant: 'Access granted',
+  Revoke: 'Access revoked',
+  Purchase: 'Purchased',
+  Emergency: 'Emergency access',
+  ProfileView: 'Viewed profile',
+  Create: 'Added record',
+  KeyDerived: 'Decryption key derived',
+  KeyDenied: 'Decryption key denied',
+};
+
+// Actions that gave the accessor the means to decrypt a record, as opposed to seeing it listed
+export const DECRYPTION_ACTIONS: AccessAction[] = ['KeyIssued', 'KeyDerived'];
+
+// These backend variants carry a reason
+const ACTIONS_WITH_REASON: AccessAction[] = ['KeyDerived', 'KeyDenied'];
+
+export const toAccessLog = (log: any): AccessLog => {
+  const [action, reason] = Object.entries(log.action)[0];
+  return {
+    id: Number(log.id),
+    patient: log.patient.toString(),
+    record_id: log.recordId.length ? Number(log.recordId[0]) : null,
+    accessor: log.accessor.toString(),
+    access_time: Number(log.ts),
+    paid_amount: Number(log.paidMT),
+    action: action as AccessAction,
+    reason: typeof reason === 'string' ? reason : null,
+  };
+};
+
+/**
+ * Client-side equivalent of the filter getMyAccessLog applies, for lists fetched in one go
+ */
+export const matchesAccessLogFilter = (log: AccessLog, filter: AccessLogFilter): boolean =>
+  (filter.action === null || log.action === filter.action) &&
+  (filter.accessor === null || log.accessor === filter.accessor) &&
+  (filter.from_ms === null || log.access_time / NS_PER_MS >= filter.from_ms) &&
+  (filter.to_ms === null || log.access_time / NS_PER_MS <= filter.to_ms);
+
+// Share link recipients open records without logging in
+export const isAnonymousAccessor = (accessor: string): boolean => accessor === Principal.anonymous().toText();
+
+interface AccessLogState {
+  // Pages of the patient-wide log loaded so far for the current filter, newest first
+  entries: AccessLog[];
+  total: number;
+  filter: AccessLogFilter;
+  isLoading: boolean;
+  error: string | null;
+  verification: AccessLogVerification | null;
+  isVerifying: boolean;
+  verifyError: string | null;
+
+  // Methods
+  fetchMyAccessLog: (filter?: AccessLogFilter) => Promise<void>;
+  loadMore: () => Promise<void>;
+  verifyLog: () => Promise<void>;
+  reset: () => void;
+}
+
+const toBackendFilter = (filter: AccessLogFilter) => ({
+  // The backend filters by kind of action and ignores the reason
+  action: filter.action === null ? [] : [{ [filter.action]: ACTIONS_WITH_REASON.includes(filter.action) ? '' : null }],
+  accessor: filter.accessor === null ? [] : [Principal.fromText(filter.accessor)],
+  from: filter.from_ms === null ? [] : [BigInt(filter.from_ms) * BigInt(NS_PER_MS)],
+  to: filter.to_ms === null ? [] : [BigInt(filter.to_ms) * BigInt(NS_PER_MS)],
+});
+
+const fetchPage = async (filter: AccessLogFilter, offset: number): Promise<{ entries: AccessLog[]; total: number }> => {
+  const { identity } = useAuthStore.getState();
+  if (!identity) throw new Error('User not authenticated');
+  const { actor } = await createAuthenticatedActor(identity);
+  const result = await actor.getMyAccessLog(toBackendFilter(filter), BigInt(offset), BigInt(ACCESS_LOG_PAGE_SIZE));
+  if (!('ok' in result)) {
+    throw new Error(result.err || 'Failed to fetch access log');
+  }
+  return { entries: result.ok.entries.map(toAccessLog), total: Number(result.ok.total) };
+};
+
+const useAccessLogStore = create<AccessLogState>((set, get) => ({
+  entries: [],
+  total: 0,
+  filter: EMPTY_ACCESS_LOG_FILTER,
+  isLoading: false,
+  error: null,
+  verification: null,
+  isVerifying: false,
+  verifyError: null,
+
+  // Starts over from the first page; without a filter the current one is kept
+  fetchMyAccessLog: async (filter) => {
+    const nextFilter = filter ?? get().filter;
+    set({ filter: nextFilter, isLoading: true, error: null });
+    try {
+      const page = await fetchPage(nextFilter, 0);
+      // A newer filter may have been applied while this page was loading
+      if (get().filter === nextFilter) {
+        set({ entries: page.entries, total: page.total, isLoading: false });
+      }
+    } catch (error: any) {
+      console.error('Error fetching access log:', error);
+      set({ error: error.message, isLoading: false });
+    }
+  },
+
+  loadMore: async () => {
+    const { filter, entries, total } = get();
+    if (entries.length >= total) return;
+    set({ isLoading: true, error: null });
+    try {
+      const page = await fetchPage(filter, entries.length);
+      if (get().filter === filter) {
+        // New entries shift older ones down a page; skip any already shown
+        const seen = new Set(get().entries.map(entry => entry.id));
+        set({
+          entries: [...get().entries, ...page.entries.filter(entry => !seen.has(entry.id))],
+          total: page.total,
+          isLoading: false,
+        });
+      }
+    } catch (error: any) {
+      console.error('Error fetching access log:', error);
+      set({ error: error.message, isLoading: false });
+    }
+  },
+
+  // Walks the hash chain from this browser's checkpoint (or the start) to the certified head
+  verifyLog: async () => {
+    set({ isVerifying: true, verifyError: null });
+    try {
+      const { identity, principal } = useAuthStore.getState();
+      if (!identity || !principal) throw new Error('User not authenticated');
+      const { actor, agent } = await createAuthenticatedActor(identity);
+      const problems: string[] = [];
+
+      const head = await actor.getAccessLogHead();
+      const certifiedHead = new Uint8Array(head.head);
+      const length = Number(head.length);
+      if (length > 0) {
+        const certified = head.certificate.length
+          ? await readCertifiedData(new Uint8Array(head.certificate[0]), agent, Principal.fromText(BACKEND_CANISTER_ID))
+          : null;
+        if (!certified) {
+          problems.push('The log head is not covered by a valid certificate');
+        } else if (!bytesEqual(certified, certifiedHead)) {
+          problems.push('The log head does not match the certified one');
+        }
+      }
+
+      let position = 0;
+      let running: Uint8Array = GENESIS_HEAD;
+      const checkpoint = loadChainCheckpoint(principal);
+      if (checkpoint && checkpoint.length > length) {
+        problems.push(`The log has ${length} entries but had ${checkpoint.length} when last verified`);
+      } else if (checkpoint) {
+        position = checkpoint.length;
+        running = fromHex(checkpoint.head);
+      }
+      const resumedFrom = position;
+
+      let ownEntries = 0;
+      walk: while (position < length) {
+        const result = await actor.getAccessLogChain(BigInt(position), BigInt(ACCESS_LOG_CHAIN_PAGE_SIZE));
+        if (!('ok' in result)) {
+          throw new Error(result.err || 'Failed to fetch the access log chain');
+        }
+        if (result.ok.items.length === 0) {
+          problems.push(`Entries from position ${position} on are missing`);
+          break;
+        }
+        for (const item of result.ok.items) {
+          // The chain may have grown since the head was fetched
+          if (position >= length) break walk;
+          const itemPosition = Number(item.position);
+          if (itemPosition !== position) {
+            problems.push(`Entries at positions ${position} to ${itemPosition - 1} are missing`);
+            break walk;
+          }
+          if (!bytesEqual(new Uint8Array(item.prevHash), running)) {
+            problems.push(`The entry at position ${position} does not follow the one before it`);
+          }
+          const digest = new Uint8Array(item.digest);
+          if (item.entry.length) {
+            const entry = item.entry[0];
+            ownEntries += 1;
+            if (entry.patient.toText() !== principal) {
+              problems.push(`The entry at position ${position} belongs to another patient`);
+            } else if (!bytesEqual(await digestAccessLogEntry(entry), digest)) {
+              problems.push(`Entry #${entry.id} was changed after it was written`);
+            }
+          }
+          running = await nextChainHead(running, digest);
+          position += 1;
+        }
+      }
+
+      if (position === length && length > 0 && !bytesEqual(running, certifiedHead)) {
+        problems.push('The entries do not add up to the certified log head');
+      }
+      if (problems.length === 0) {
+        saveChainCheckpoint(principal, { length, head: toHex(running) });
+      }
+
+      set({
+        verification: {
+          verified: problems.length === 0,
+          chain_length: length,
+          own_entries: ownEntries,
+          resumed_from: resumedFrom,
+          problems,
+          checked_at: Date.now(),
+        },
+        isVerifying: false,
+      });
+    } catch (error: any) {
+      console.error('Error verifying access log:', error);
+      set({ verifyError: error.message, isVerifying: false });
+    }
+  },
+
+  reset: () => {
+    set({
+      entries: [],
+      total: 0,
+      filter: EMPTY_ACCESS_LOG_FILTER,
+      isLoading: false,
+      error: null,
+      verification: null,
+      isVerifying: false,
+      verifyError: null,
+    });
+  },
+}));
+
+export default useAccessLogStore;
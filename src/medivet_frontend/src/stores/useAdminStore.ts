@@ -0,0 +1,250 @@
+import { create } from 'zustand';
+import { Principal } from '@dfinity/principal';
+import { AdminUser, BackendRole, FlaggedRecord, FlagResolution, PlatformStats } from '../types';
+import useAuthStore from './useAuthStore';
+import { createAuthenticatedActor } from '../services/actorService';
+
+// The backend caps a page at 100 users
+export const ADMIN_USER_PAGE_SIZE = 50;
+
+interface AdminState {
+  // Current page of users for the role filter, ordered by principal
+  users: AdminUser[];
+  usersTotal: number;
+  usersOffset: number;
+  roleFilter: BackendRole | null;
+  // Every provider, for whitelisting; providers are few compared to patients
+  providers: AdminUser[];
+  flaggedRecords: FlaggedRecord[];
+  stats: PlatformStats | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Methods
+  fetchUsers: (role?: BackendRole | null, offset?: number) => Promise<void>;
+  fetchProviders: () => Promise<void>;
+  fetchFlaggedRecords: () => Promise<void>;
+  fetchStats: () => Promise<void>;
+  setProviderWhitelisted: (provider: string, whitelisted: boolean) => Promise<void>;
+  suspendUser: (user: string, reason: string) => Promise<void>;
+  reinstateUser: (user: string) => Promise<void>;
+  resolveFlag: (recordId: number, resolution: FlagResolution) => Promise<void>;
+}
+
+const variantName = (variant: Record<string, null>): string => Object.keys(variant)[0];
+
+const optional = <T>(value: [] | [T]): T | null => (value.length ? value[0] : null);
+
+const toAdminUser = (u: any): AdminUser => {
+  const suspension = optional<any>(u.suspension);
+  return {
+    id: u.id.toString(),
+    role: variantName(u.role) as BackendRole,
+    name: optional(u.name),
+    contact: optional(u.contact),
+    license: optional(u.license),
+    specialty: optional(u.specialty),
+    reputation: Number(u.reputation),
+    whitelisted: u.whitelisted,
+    onboarded: u.onboarded,
+    suspension: suspension && {
+      reason: suspension.reason,
+      suspended_by: suspension.suspendedBy.toString(),
+      suspended_at: Number(suspension.suspendedAt),
+    },
+  };
+};
+
+const toFlaggedRecord = (r: any): FlaggedRecord => {
+  const flag = optional<any>(r.flag);
+  return {
+    record_id: Number(r.recordId),
+    owner: r.owner.toString(),
+    title: r.title,
+    category: r.category,
+    created_at: Number(r.createdAt),
+    flagged_at: flag ? Number(flag.flaggedAt) : null,
+    flagged_by: flag ? flag.flaggedBy.toString() : null,
+  };
+};
+
+const toPlatformStats = (s: any): PlatformStats => ({
+  total_users: Number(s.totalUsers),
+  patients: Number(s.patients),
+  providers: Number(s.providers),
+  admins: Number(s.admins),
+  whitelisted_providers: Number(s.whitelistedProviders),
+  suspended_users: Number(s.suspendedUsers),
+  total_records: Number(s.totalRecords),
+  flagged_records: Number(s.flaggedRecords),
+  active_listings: Number(s.activeListings),
+  completed_purchases: Number(s.completedPurchases),
+  marketplace_volume: BigInt(s.marketplaceVolume),
+});
+
+const getActor = async () => {
+  const { identity } = useAuthStore.getState();
+  if (!identity) throw new Error('User not authenticated');
+  const { actor } = await createAuthenticatedActor(identity);
+  return actor;
+};
+
+// Every admin endpoint checks that the caller is the canister admin
+const useAdminStore = create<AdminState>((set, get) => ({
+  users: [],
+  usersTotal: 0,
+  usersOffset: 0,
+  roleFilter: null,
+  providers: [],
+  flaggedRecords: [],
+  stats: null,
+  isLoading: false,
+  error: null,
+
+  // Without arguments the current role filter and page are reloaded
+  fetchUsers: async (role, offset) => {
+    const roleFilter = role === undefined ? get().roleFilter : role;
+    const usersOffset = offset ?? (role === undefined ? get().usersOffset : 0);
+    set({ roleFilter, usersOffset, isLoading: true, error: null });
+    try {
+      const actor = await getActor();
+      const result = await actor.adminListUsers(
+        roleFilter === null ? [] : [{ [roleFilter]: null }],
+        BigInt(usersOffset),
+        BigInt(ADMIN_USER_PAGE_SIZE)
+      );
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to fetch users');
+      }
+      // A newer filter or page may have been requested while this one was loading
+      if (get().roleFilter === roleFilter && get().usersOffset === usersOffset) {
+        set({ users: result.ok.users.map(toAdminUser), usersTotal: Number(result.ok.total), isLoading: false });
+      }
+    } catch (error: any) {
+      console.error('Error fetching users:', error);
+      set({ error: error.message, isLoading: false });
+    }
+  },
+
+  fetchProviders: async () => {
+    try {
+      const actor = await getActor();
+      const providers: AdminUser[] = [];
+      for (let offset = 0; ; offset += ADMIN_USER_PAGE_SIZE) {
+        const result = await actor.adminListUsers([{ Provider: null }], BigInt(offset), BigInt(ADMIN_USER_PAGE_SIZE));
+        if (!('ok' in result)) {
+          throw new Error(result.err || 'Failed to fetch providers');
+        }
+        providers.push(...result.ok.users.map(toAdminUser));
+        if (providers.length >= Number(result.ok.total) || result.ok.users.length === 0) break;
+      }
+      set({ providers });
+    } catch (error: any) {
+      console.error('Error fetching providers:', error);
+      set({ error: error.message });
+    }
+  },
+
+  fetchFlaggedRecords: async () => {
+    try {
+      const actor = await getActor();
+      const result = await actor.adminListFlaggedRecords();
+      if ('ok' in result) {
+        set({ flaggedRecords: result.ok.map(toFlaggedRecord) });
+      } else {
+        throw new Error(result.err || 'Failed to fetch flagged records');
+      }
+    } catch (error: any) {
+      console.error('Error fetching flagged records:', error);
+      set({ error: error.message });
+    }
+  },
+
+  fetchStats: async () => {
+    try {
+      const actor = await getActor();
+      const result = await actor.adminGetPlatformStats();
+      if ('ok' in result) {
+        set({ stats: toPlatformStats(result.ok) });
+      } else {
+        throw new Error(result.err || 'Failed to fetch platform stats');
+      }
+    } catch (error: any) {
+      console.error('Error fetching platform stats:', error);
+      set({ error: error.message });
+    }
+  },
+
+  setProviderWhitelisted: async (provider, whitelisted) => {
+    set({ isLoading: true, error: null });
+    try {
+      const actor = await getActor();
+      const principal = Principal.fromText(provider);
+      const result = whitelisted
+        ? await actor.whitelistProvider(principal)
+        : await actor.removeProviderFromWhitelist(principal);
+      if (!('ok' in result)) {
+        throw new Error(result.err || `Failed to ${whitelisted ? 'whitelist' : 'unwhitelist'} provider`);
+      }
+      set({ isLoading: false });
+      await Promise.all([get().fetchProviders(), get().fetchStats()]);
+    } catch (error: any) {
+      console.error('Error updating provider whitelist:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  suspendUser: async (user, reason) => {
+    set({ isLoading: true, error: null });
+    try {
+      const actor = await getActor();
+      const result = await actor.adminSuspendUser(Principal.fromText(user), reason);
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to suspend user');
+      }
+      set({ isLoading: false });
+      await Promise.all([get().fetchUsers(), get().fetchStats()]);
+    } catch (error: any) {
+      console.error('Error suspending user:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  reinstateUser: async (user) => {
+    set({ isLoading: true, error: null });
+    try {
+      const actor = await getActor();
+      const result = await actor.adminReinstateUser(Principal.fromText(user));
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to reinstate user');
+      }
+      set({ isLoading: false });
+      await Promise.all([get().fetchUsers(), get().fetchStats()]);
+    } catch (error: any) {
+      console.error('Error reinstating user:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  resolveFlag: async (recordId, resolution) => {
+    set({ isLoading: true, error: null });
+    try {
+      const actor = await getActor();
+      const result = await actor.adminResolveFlag(BigInt(recordId), { [resolution]: null });
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to resolve flag');
+      }
+      set({ isLoading: false });
+      await Promise.all([get().fetchFlaggedRecords(), get().fetchStats()]);
+    } catch (error: any) {
+      console.error('Error resolving flag:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+}));
+
+export default useAdminStore;
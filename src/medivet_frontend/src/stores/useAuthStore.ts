@@ -8,6 +8,16 @@ import { UserRole } from '../types';
 import { Actor, Identity } from '@dfinity/agent';
 import { createAuthenticatedActor, clearAuthenticatedActor } from '../services/actorService';
 import { fileService } from '../services/fileService';
+import { CryptoService } from '../services/CryptoService';
+import { offlineReplica } from '../services/offlineReplica';
+import useSyncStore from './useSyncStore';
+import useCaregiverStore from './useCaregiverStore';
+import useAccessLogStore from './useAccessLogStore';
+import useVerificationStore from './useVerificationStore';
+
+// Returned by getUser once an admin has suspended the account
+const ACCOUNT_SUSPENDED = 'account suspended';
+const SUSPENDED_MESSAGE = 'This account has been suspended by an administrator.';
 
 interface AuthState {
   isAuthenticated: boolean;
@@ -50,6 +60,11 @@ const useAuthStore = create<AuthState>((set, get) => ({
           isLoading: false 
         });
         
+        // Drop keys cached by earlier sessions on this device
+        CryptoService.evictExpiredKeys().catch(cacheError =>
+          console.error('Failed to evict expired cached keys:', cacheError)
+        );
+        
         // Initialize file service with the authenticated identity
         try {
           await fileService.initializeVaultActor(identity);
@@ -82,6 +97,8 @@ const useAuthStore = create<AuthState>((set, get) => ({
               ...state,
               userRole: frontendRole
             }));
+          } else if (userResult.err === ACCOUNT_SUSPENDED) {
+            set({ error: SUSPENDED_MESSAGE });
           } else {
             // User not found - this is normal for new users
             console.log("User not yet registered:", userResult.err);
@@ -142,6 +159,11 @@ const useAuthStore = create<AuthState>((set, get) => ({
         isLoading: false 
       });
       
+      // Drop keys cached by earlier sessions on this device
+      CryptoService.evictExpiredKeys().catch(cacheError =>
+        console.error('Failed to evict expired cached keys:', cacheError)
+      );
+      
       // Initialize file service with the authenticated identity
       try {
         await fileService.initializeVaultActor(identity);
@@ -180,6 +202,8 @@ const useAuthStore = create<AuthState>((set, get) => ({
           }));
           
           console.log('User found with role:', frontendRole);
+        } else if (userResult.err === ACCOUNT_SUSPENDED) {
+          set({ error: SUSPENDED_MESSAGE });
         } else {
           console.log('User not yet registered:', userResult.err);
           // User not found - this is normal for new users
@@ -201,6 +225,24 @@ const useAuthStore = create<AuthState>((set, get) => ({
   logout: async () => {
     set({ isLoading: true, error: null });
     try {
+      // Remove every cached key so the next user of this device cannot read them
+      try {
+        await CryptoService.clearAllCachedKeys();
+      } catch (cacheError) {
+        console.error('Failed to clear cached keys on logout:', cacheError);
+      }
+      
+      // The offline copy and any unsynced writes go with the keys that encrypt them
+      try {
+        await offlineReplica.clear();
+      } catch (replicaError) {
+        console.error('Failed to clear offline replica on logout:', replicaError);
+      }
+      useSyncStore.getState().reset();
+      useCaregiverStore.getState().reset();
+      useAccessLogStore.getState().reset();
+      useVerificationStore.getState().reset();
+      
       const authClient = await AuthClient.create();
       await authClient.logout();
       
@@ -0,0 +1,321 @@
+import { create } from 'zustand';
+import { Principal } from '@dfinity/principal';
+import { CaregiverDelegation, DelegateActivity, DelegateAction, DelegationScope, Dependent, HealthRecord, RecordBody } from '../types';
+import useAuthStore from './useAuthStore';
+import useHealthRecordStore, { encryptRecordMetadata, toBlob, toRecordBody, withDecryptedMetadata } from './useHealthRecordStore';
+import { createAuthenticatedActor } from '../services/actorService';
+import { CryptoService } from '../services/CryptoService';
+import { safeTimestampToDate } from '../utils/dateUtils';
+import { serializeRecordBody } from '../utils/recordBody';
+import { toPublicCategory } from '../utils/recordMetadata';
+
+interface CaregiverState {
+  caregivers: CaregiverDelegation[]; // Delegations the current user granted
+  dependents: Dependent[]; // Patients the current user can act for
+  activity: DelegateActivity[];
+  actingFor: Dependent | null;
+  dependentRecords: HealthRecord[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Methods
+  fetchCaregivers: () => Promise<void>;
+  grantCaregiver: (caregiver: string, scopes: DelegationScope[], relationship: string, expiresAtMs: number | null) => Promise<void>;
+  revokeDelegation: (delegationId: number) => Promise<void>;
+  fetchActivity: () => Promise<void>;
+  fetchDependents: () => Promise<void>;
+  actAs: (dependent: Dependent | null) => Promise<void>;
+  fetchDependentRecords: () => Promise<void>;
+  createDependentRecord: (
+    title: string,
+    category: string,
+    content: string | RecordBody,
+    encryptMetadata?: boolean
+  ) => Promise<number>;
+  reset: () => void;
+}
+
+const variantName = (variant: Record<string, null>): string => Object.keys(variant)[0];
+
+const toDelegation = (d: any): CaregiverDelegation => ({
+  id: Number(d.id),
+  patient: d.patient.toString(),
+  caregiver: d.caregiver.toString(),
+  scopes: d.scopes.map(variantName) as DelegationScope[],
+  relationship: d.relationship,
+  granted_at: Number(d.grantedAt),
+  expires_at: d.expiresAt.length ? Number(d.expiresAt[0]) : null,
+  revoked_at: d.revokedAt.length ? Number(d.revokedAt[0]) : null,
+});
+
+const toActivity = (a: any): DelegateActivity => ({
+  id: Number(a.id),
+  delegation_id: Number(a.delegationId),
+  patient: a.patient.toString(),
+  caregiver: a.caregiver.toString(),
+  action: variantName(a.action) as DelegateAction,
+  record_id: a.recordId.length ? Number(a.recordId[0]) : null,
+  occurred_at: Number(a.ts),
+});
+
+const toDependentRecord = (record: any): HealthRecord => {
+  const createdAtDate = safeTimestampToDate(record.createdAt);
+  const modifiedAtDate = safeTimestampToDate(record.modifiedAt);
+  return {
+    id: Number(record.id),
+    title: record.title,
+    category: record.category,
+    provider: 'Unknown',
+    record_type: record.category,
+    record_date: createdAtDate ? createdAtDate.getTime() : Date.now(),
+    encrypted_content: new Uint8Array(record.encryptedBlob),
+    attachment_id: record.attachment.length ? Number(record.attachment[0]) : null,
+    user_permissions: [],
+    access_count: Number(record.accessCount),
+    created_at: createdAtDate ? createdAtDate.getTime() : Date.now(),
+    updated_at: modifiedAtDate ? modifiedAtDate.getTime() : Date.now(),
+    owner: record.owner.toString(),
+  };
+};
+
+/**
+ * Whether a delegation is still in force
+ */
+export const isDelegationActive = (delegation: CaregiverDelegation, nowMs: number = Date.now()): boolean =>
+  delegation.revoked_at === null && (delegation.expires_at === null || delegation.expires_at / 1_000_000 > nowMs);
+
+export const DELEGATION_SCOPE_LABELS: Record<DelegationScope, string> = {
+  ViewRecords: 'View records',
+  CreateRecords: 'Add records',
+};
+
+const getActor = async () => {
+  const { identity } = useAuthStore.getState();
+  if (!identity) throw new Error('User not authenticated');
+  const { actor } = await createAuthenticatedActor(identity);
+  return actor;
+};
+
+// Acting for a dependent is online only: their records are never written to the offline replica
+const useCaregiverStore = create<CaregiverState>((set, get) => ({
+  caregivers: [],
+  dependents: [],
+  activity: [],
+  actingFor: null,
+  dependentRecords: [],
+  isLoading: false,
+  error: null,
+
+  fetchCaregivers: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const actor = await getActor();
+      const result = await actor.getMyCaregivers();
+      if ('ok' in result) {
+        set({ caregivers: result.ok.map(toDelegation), isLoading: false });
+      } else {
+        throw new Error(result.err || 'Failed to fetch caregivers');
+      }
+    } catch (error: any) {
+      console.error('Error fetching caregivers:', error);
+      set({ error: error.message, isLoading: false });
+    }
+  },
+
+  grantCaregiver: async (caregiver, scopes, relationship, expiresAtMs) => {
+    set({ isLoading: true, error: null });
+    try {
+      let caregiverPrincipal: Principal;
+      try {
+        caregiverPrincipal = Principal.fromText(caregiver.trim());
+      } catch {
+        throw new Error('Enter a valid principal ID for the caregiver');
+      }
+      const actor = await getActor();
+      const result = await actor.grantCaregiverAccess(
+        caregiverPrincipal,
+        scopes.map(scope => ({ [scope]: null })),
+        relationship,
+        expiresAtMs === null ? [] : [BigInt(expiresAtMs) * 1_000_000n]
+      );
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to add caregiver');
+      }
+      set({ isLoading: false });
+      await get().fetchCaregivers();
+    } catch (error: any) {
+      console.error('Error adding caregiver:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  revokeDelegation: async (delegationId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const actor = await getActor();
+      const result = await actor.revokeCaregiverAccess(BigInt(delegationId));
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to revoke caregiver access');
+      }
+      set({ isLoading: false });
+      await Promise.all([get().fetchCaregivers(), get().fetchDependents()]);
+    } catch (error: any) {
+      console.error('Error revoking caregiver access:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  fetchActivity: async () => {
+    try {
+      const actor = await getActor();
+      const result = await actor.getCaregiverActivity();
+      if ('ok' in result) {
+        set({ activity: result.ok.map(toActivity) });
+      } else {
+        throw new Error(result.err || 'Failed to fetch caregiver activity');
+      }
+    } catch (error: any) {
+      console.error('Error fetching caregiver activity:', error);
+      set({ error: error.message });
+    }
+  },
+
+  fetchDependents: async () => {
+    try {
+      const actor = await getActor();
+      const result = await actor.getMyDependents();
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to fetch dependents');
+      }
+      const dependents: Dependent[] = result.ok.map((d: any) => ({
+        delegation: toDelegation(d.delegation),
+        patient_name: d.patientName.length ? d.patientName[0] : null,
+        key_epoch: Number(d.keyEpoch),
+      }));
+      set({ dependents });
+
+      // Leave the dependent's context once the delegation ends; otherwise pick up scope or epoch changes
+      const { actingFor } = get();
+      if (actingFor) {
+        const current = dependents.find(d => d.delegation.patient === actingFor.delegation.patient);
+        if (!current) {
+          await get().actAs(null);
+        } else {
+          set({ actingFor: current });
+        }
+      }
+    } catch (error: any) {
+      console.error('Error fetching dependents:', error);
+      set({ error: error.message });
+    }
+  },
+
+  actAs: async (dependent) => {
+    const previous = get().actingFor;
+    if (previous && previous.delegation.patient !== dependent?.delegation.patient) {
+      await CryptoService.forgetDelegatedOwner(previous.delegation.patient);
+    }
+    set({ actingFor: dependent, dependentRecords: [], error: null });
+  },
+
+  fetchDependentRecords: async () => {
+    const { actingFor } = get();
+    if (!actingFor) return;
+    set({ isLoading: true, error: null });
+    try {
+      const patient = actingFor.delegation.patient;
+      const actor = await getActor();
+      const result = await actor.getDependentHealthRecords(Principal.fromText(patient));
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to fetch records');
+      }
+      const records = await withDecryptedMetadata(actor, result.ok.map(toDependentRecord));
+      const { decryptHealthRecord } = useHealthRecordStore.getState();
+      const decrypted = await Promise.all(records.map(decryptHealthRecord));
+      // The user may have switched context while the records were loading
+      if (get().actingFor?.delegation.patient === patient) {
+        set({ dependentRecords: decrypted.sort((a, b) => b.created_at - a.created_at), isLoading: false });
+      }
+    } catch (error: any) {
+      console.error('Error fetching dependent records:', error);
+      set({ error: error.message, isLoading: false });
+    }
+  },
+
+  createDependentRecord: async (title, category, content, encryptMetadata = false) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { actingFor } = get();
+      if (!actingFor) throw new Error('Not acting for a dependent');
+      const patient = actingFor.delegation.patient;
+      const serializedBody = serializeRecordBody(toRecordBody(content));
+      const actor = await getActor();
+
+      const publicTitle = encryptMetadata ? '' : title;
+      const publicCategory = encryptMetadata ? toPublicCategory(category) : category;
+
+      // Same two steps as the patient's own records: the record id is bound into the ciphertext
+      const createResult = await actor.createDependentHealthRecord(
+        Principal.fromText(patient),
+        publicTitle,
+        publicCategory,
+        new Uint8Array([0])
+      );
+      if (!('ok' in createResult)) {
+        throw new Error(createResult.err || 'Failed to create record');
+      }
+      const recordId = Number(createResult.ok);
+
+      try {
+        // The patient adopts their copy of the data key; the caregiver keeps one to read the record
+        const { dataKey, recordKey, caregiverKey } = await CryptoService.createDependentRecordKey(
+          BigInt(recordId),
+          patient,
+          actingFor.key_epoch
+        );
+        const encryptedContent = await CryptoService.encryptRecordContent(dataKey, BigInt(recordId), patient, serializedBody);
+        const encryptedMetadata = encryptMetadata
+          ? [await encryptRecordMetadata(dataKey, recordId, patient, { title, category })]
+          : [];
+        const completeResult = await actor.completeDependentHealthRecord(
+          BigInt(recordId),
+          publicTitle,
+          publicCategory,
+          toBlob(encryptedContent),
+          recordKey,
+          [caregiverKey],
+          encryptedMetadata
+        );
+        if (!('ok' in completeResult)) {
+          throw new Error(completeResult.err || 'Failed to encrypt and save record');
+        }
+      } catch (error) {
+        try {
+          await actor.discardDependentHealthRecord(BigInt(recordId));
+        } catch (discardError) {
+          console.warn('Failed to clean up placeholder record:', discardError);
+        }
+        throw error;
+      }
+
+      set({ isLoading: false });
+      if (actingFor.delegation.scopes.includes('ViewRecords')) {
+        await get().fetchDependentRecords();
+      }
+      return recordId;
+    } catch (error: any) {
+      console.error('Error creating record for dependent:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  // Called on logout; CryptoService.clearAllCachedKeys drops the dependents' record keys
+  reset: () => {
+    set({ caregivers: [], dependents: [], activity: [], actingFor: null, dependentRecords: [], isLoading: false, error: null });
+  },
+}));
+
+export default useCaregiverStore;
@@ -0,0 +1,128 @@
+import { create } from 'zustand';
+import { Principal } from '@dfinity/principal';
+import { EmergencyAccessEvent } from '../types';
+import useAuthStore from './useAuthStore';
+import { createAuthenticatedActor } from '../services/actorService';
+import { fromBackendPermission } from '../utils/permissions';
+
+interface EmergencyAccessState {
+  events: EmergencyAccessEvent[];
+  isWhitelisted: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  // Methods
+  fetchEvents: () => Promise<void>;
+  checkWhitelisted: () => Promise<boolean>;
+  breakGlass: (patientPrincipal: string, justification: string, severity: string) => Promise<EmergencyAccessEvent>;
+  reviewEvent: (eventId: number, revoke: boolean) => Promise<void>;
+}
+
+const toEmergencyAccessEvent = (event: any, review: any | null, active: boolean): EmergencyAccessEvent => ({
+  id: Number(event.id),
+  provider: event.provider.toString(),
+  patient: event.patient.toString(),
+  justification: event.justification,
+  severity: event.severity,
+  permissions: event.permissions.map(fromBackendPermission),
+  granted_at: Number(event.grantedAt),
+  expires_at: Number(event.expiresAt),
+  reviewed_at: review ? Number(review.reviewedAt) : null,
+  revoked: review ? review.revoked : false,
+  active,
+});
+
+const useEmergencyAccessStore = create<EmergencyAccessState>((set, get) => ({
+  events: [],
+  isWhitelisted: false,
+  isLoading: false,
+  error: null,
+
+  fetchEvents: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const result = await actor.getEmergencyAccessEvents();
+      if ('ok' in result) {
+        const events = result.ok.map((summary: any) =>
+          toEmergencyAccessEvent(summary.event, summary.review.length ? summary.review[0] : null, summary.active)
+        );
+        set({ events, isLoading: false });
+      } else {
+        throw new Error(result.err || 'Failed to fetch emergency access events');
+      }
+    } catch (error: any) {
+      console.error('Error fetching emergency access events:', error);
+      set({ error: error.message, isLoading: false });
+    }
+  },
+
+  checkWhitelisted: async () => {
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const isWhitelisted = await actor.isWhitelistedProvider();
+      set({ isWhitelisted });
+      return isWhitelisted;
+    } catch (error: any) {
+      console.error('Error checking emergency access whitelist:', error);
+      set({ isWhitelisted: false });
+      return false;
+    }
+  },
+
+  breakGlass: async (patientPrincipal, justification, severity) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const result = await actor.breakGlassAccess(
+        Principal.fromText(patientPrincipal),
+        justification,
+        severity
+      );
+      if ('ok' in result) {
+        const event = toEmergencyAccessEvent(result.ok, null, true);
+        set({ isLoading: false });
+        await get().fetchEvents();
+        return event;
+      } else {
+        throw new Error(result.err || 'Failed to obtain emergency access');
+      }
+    } catch (error: any) {
+      console.error('Error requesting emergency access:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  reviewEvent: async (eventId, revoke) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const result = await actor.reviewEmergencyAccess(BigInt(eventId), revoke);
+      if ('ok' in result) {
+        set({ isLoading: false });
+        await get().fetchEvents();
+      } else {
+        throw new Error(result.err || 'Failed to review emergency access');
+      }
+    } catch (error: any) {
+      console.error('Error reviewing emergency access:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+}));
+
+export default useEmergencyAccessStore;
@@ -0,0 +1,173 @@
+import { create } from 'zustand';
+import { Principal } from '@dfinity/principal';
+import QRCode from 'qrcode';
+import { medivet_backend } from '../../../declarations/medivet_backend';
+import { EmergencyCard, EmergencyCardCheck, EmergencyCardOverview } from '../types';
+import useAuthStore from './useAuthStore';
+import useProfileStore from './useProfileStore';
+import { createAuthenticatedActor } from '../services/actorService';
+import {
+  EMERGENCY_CARD_SCHEMA,
+  EMERGENCY_CARD_VERSION,
+  EmergencyCardPayload,
+  emergencyCardUrl,
+  encodeEmergencyCard,
+  generateCardSigningKey,
+} from '../utils/emergencyCard';
+
+// A card generated in this session; the QR code cannot be rebuilt later because the signing key is gone
+export interface IssuedEmergencyCard {
+  card: EmergencyCard;
+  payload: EmergencyCardPayload;
+  url: string;
+  qrDataUrl: string;
+  pinProtected: boolean;
+}
+
+interface EmergencyCardState {
+  overview: EmergencyCardOverview | null;
+  issued: IssuedEmergencyCard | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Methods
+  fetchCards: () => Promise<void>;
+  issueCard: (pin?: string) => Promise<IssuedEmergencyCard>;
+  revokeCard: (cardId: number) => Promise<void>;
+  checkCard: (patient: string, cardId: number, publicKey: Uint8Array) => Promise<EmergencyCardCheck>;
+}
+
+const toEmergencyCard = (card: any): EmergencyCard => ({
+  id: Number(card.id),
+  public_key: new Uint8Array(card.publicKey),
+  profile_version: Number(card.profileVersion),
+  issued_at: Number(card.issuedAt),
+  revoked_at: card.revokedAt.length ? Number(card.revokedAt[0]) : null,
+});
+
+/**
+ * Whether a card was generated before the latest profile change
+ */
+export const isCardStale = (card: EmergencyCard, overview: EmergencyCardOverview): boolean =>
+  card.profile_version < overview.profile_version;
+
+const useEmergencyCardStore = create<EmergencyCardState>((set, get) => ({
+  overview: null,
+  issued: null,
+  isLoading: false,
+  error: null,
+
+  fetchCards: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const result = await actor.getEmergencyCards();
+      if ('ok' in result) {
+        set({
+          overview: {
+            profile_version: Number(result.ok.profileVersion),
+            cards: result.ok.cards.map(toEmergencyCard),
+          },
+          isLoading: false,
+        });
+      } else {
+        throw new Error(result.err || 'Failed to fetch emergency cards');
+      }
+    } catch (error: any) {
+      console.error('Error fetching emergency cards:', error);
+      set({ error: error.message, isLoading: false });
+    }
+  },
+
+  issueCard: async (pin) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity, principal } = useAuthStore.getState();
+      if (!identity || !principal) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      // Read the profile fresh so the card matches the version the backend records for it
+      await useProfileStore.getState().fetchPatientProfile();
+      const profile = useProfileStore.getState().patientProfile;
+      if (!profile) {
+        throw new Error('Complete your patient profile before generating an emergency card');
+      }
+
+      const { keyPair, publicKey } = await generateCardSigningKey();
+      const result = await actor.registerEmergencyCard(publicKey);
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to register emergency card');
+      }
+      const card = toEmergencyCard(result.ok);
+
+      const payload: EmergencyCardPayload = {
+        schema: EMERGENCY_CARD_SCHEMA,
+        version: EMERGENCY_CARD_VERSION,
+        card_id: card.id,
+        patient: principal,
+        issued_at: Math.floor(card.issued_at / 1_000_000),
+        profile_version: card.profile_version,
+        full_name: profile.full_name,
+        date_of_birth: profile.date_of_birth,
+        blood_group: profile.blood_group ?? null,
+        allergies: profile.allergies || null,
+        current_medications: profile.current_medications || null,
+        emergency_contact: profile.emergency_contact,
+      };
+      const url = emergencyCardUrl(await encodeEmergencyCard(payload, keyPair, pin));
+      const qrDataUrl = await QRCode.toDataURL(url, { errorCorrectionLevel: 'M', margin: 2, width: 320 });
+
+      const issued: IssuedEmergencyCard = { card, payload, url, qrDataUrl, pinProtected: Boolean(pin) };
+      set({ issued, isLoading: false });
+      await get().fetchCards();
+      return issued;
+    } catch (error: any) {
+      console.error('Error issuing emergency card:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  revokeCard: async (cardId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const result = await actor.revokeEmergencyCard(BigInt(cardId));
+      if ('ok' in result) {
+        set({ isLoading: false });
+        await get().fetchCards();
+      } else {
+        throw new Error(result.err || 'Failed to revoke emergency card');
+      }
+    } catch (error: any) {
+      console.error('Error revoking emergency card:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  // Used by the reader, which may have no login; the anonymous actor is enough for this call
+  checkCard: async (patient, cardId, publicKey) => {
+    const result = await medivet_backend.checkEmergencyCard(
+      Principal.fromText(patient),
+      BigInt(cardId),
+      publicKey
+    );
+    if ('ok' in result) {
+      return {
+        issued_at: Number(result.ok.issuedAt),
+        stale: result.ok.stale,
+        revoked: result.ok.revoked,
+      };
+    }
+    throw new Error(result.err || 'Emergency card not found');
+  },
+}));
+
+export default useEmergencyCardStore;
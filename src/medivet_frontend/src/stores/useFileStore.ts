@@ -460,7 +460,7 @@ const useFileStore = create<FileStore>((set, get) => ({
       
       if (photoMetadata) {
         console.log('Profile photo metadata found:', photoMetadata.name);
-        const photoUrl = await fileService.getFilePreviewUrl(photoMetadata.name);
+        const photoUrl = await fileService.getFilePreviewUrl(photoMetadata.name, userPrincipal);
         set({ profilePhotoUrl: photoUrl });
         console.log('Profile photo loaded successfully');
       } else {
@@ -1,10 +1,22 @@
 import { create } from 'zustand';
 import { Principal } from '@dfinity/principal';
-import { HealthRecord, AccessLog, UserRole } from '../types';
+import { HealthRecord, AccessLog, UserRole, RecordBody, RecordBodyType, PermissionType, SharingContext } from '../types';
 import useAuthStore from './useAuthStore';
+import useSyncStore, { applyPendingWrites, shouldQueueWrites } from './useSyncStore';
+import { toAccessLog } from './useAccessLogStore';
 import { createAuthenticatedActor } from '../services/actorService';
-import { CryptoService } from '../services/CryptoService';
+import { CryptoService, RecordDataKey, WrappedRecordKey } from '../services/CryptoService';
+import { isNetworkError, offlineReplica } from '../services/offlineReplica';
 import { safeTimestampToDate } from '../utils/dateUtils';
+import { serializeRecordBody, parseRecordBody, recordBodyToText } from '../utils/recordBody';
+import { toBackendPermission, toBackendSharingContext } from '../utils/permissions';
+import {
+  PRIVATE_RECORD_TITLE,
+  RecordMetadata,
+  parseRecordMetadata,
+  serializeRecordMetadata,
+  toPublicCategory,
+} from '../utils/recordMetadata';
 
 interface HealthRecordState {
   records: HealthRecord[];
@@ -25,13 +37,23 @@ interface HealthRecordState {
     category: string, 
     provider: string, 
     recordType: string, 
-    content: string,
-    attachmentId?: number | null
+    content: string | RecordBody,
+    attachmentId?: number | null,
+    encryptMetadata?: boolean
   ) => Promise<number>;
-  updateRecord: (id: number, content: string) => Promise<void>;
+  updateRecord: (id: number, content: string | RecordBody, options?: UpdateRecordOptions) => Promise<void>;
   deleteRecord: (id: number) => Promise<void>;
   grantAccess: (recordId: number, userPrincipal: string) => Promise<void>;
   grantSpecificAccess: (recordId: number, userPrincipal: string, permissions: string[], expiryDate?: string) => Promise<void>;
+  grantAccessWithContext: (
+    recordId: number,
+    userPrincipal: string,
+    permissions: PermissionType[],
+    context: SharingContext,
+    purpose: string,
+    expiresAtMs?: number | null,
+    canReshare?: boolean
+  ) => Promise<void>;
   revokeAccess: (recordId: number, userPrincipal: string) => Promise<void>;
   getRecordAccessLogs: (recordId: number) => Promise<AccessLog[]>;
   setCurrentRecord: (record: HealthRecord | null) => Promise<void>;
@@ -39,6 +61,236 @@ interface HealthRecordState {
   decryptHealthRecord: (record: HealthRecord) => Promise<HealthRecord>;
 }
 
+export interface UpdateRecordOptions {
+  rotateKey?: boolean; // Re-encrypt under a fresh data key wrapped with the current key epoch
+  refresh?: boolean; // Reload the record list afterwards (default true)
+}
+
+// Plain strings are stored as free-text bodies so every new record carries the schema envelope
+export const toRecordBody = (content: string | RecordBody): RecordBody =>
+  typeof content === 'string' ? { type: RecordBodyType.PlainText, text: content } : content;
+
+export const toBlob = (base64: string): Uint8Array => {
+  const binaryString = atob(base64);
+  const blob = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    blob[i] = binaryString.charCodeAt(i);
+  }
+  return blob;
+};
+
+// Returns the record's data key. Legacy records encrypted with the owner's user key are
+// re-encrypted under a fresh data key first, since only a data key can be wrapped for grantees.
+export const ensureRecordKey = async (
+  actor: any,
+  owner: string,
+  record: { id: number; title: string; category: string; encrypted_content: Uint8Array }
+): Promise<CryptoKey> => {
+  const existing = await CryptoService.getRecordKey(BigInt(record.id), owner);
+  if (existing) {
+    return existing.key;
+  }
+
+  const plaintext = await CryptoService.decryptWithRecordKey(
+    BigInt(record.id),
+    owner,
+    CryptoService.arrayBufferToBase64(record.encrypted_content)
+  );
+  const { dataKey, recordKey } = await CryptoService.createRecordKey(BigInt(record.id), owner);
+  const encryptedContent = await CryptoService.encryptRecordContent(dataKey, BigInt(record.id), owner, plaintext);
+  const result = await actor.updateHealthRecord(
+    BigInt(record.id),
+    record.title,
+    record.category,
+    toBlob(encryptedContent),
+    [recordKey],
+    []
+  );
+  if (!('ok' in result)) {
+    throw new Error(result.err || 'Failed to migrate record to a data key');
+  }
+  return dataKey.key;
+};
+
+export const encryptRecordMetadata = async (
+  dataKey: RecordDataKey,
+  recordId: number,
+  owner: string,
+  metadata: RecordMetadata
+): Promise<Uint8Array> =>
+  toBlob(await CryptoService.encryptRecordContent(dataKey, BigInt(recordId), owner, serializeRecordMetadata(metadata), 'metadata'));
+
+const decryptMetadataBlob = async (record: HealthRecord, blob: Uint8Array): Promise<RecordMetadata> =>
+  parseRecordMetadata(
+    await CryptoService.decryptWithRecordKey(BigInt(record.id), record.owner, CryptoService.arrayBufferToBase64(blob), 'metadata')
+  );
+
+// Replaces the empty title and public category of records with encrypted metadata by their
+// decrypted values. Records the caller cannot decrypt get a generic title.
+export const withDecryptedMetadata = async (actor: any, records: HealthRecord[]): Promise<HealthRecord[]> => {
+  if (records.length === 0) {
+    return records;
+  }
+  let encrypted: Map<number, Uint8Array>;
+  try {
+    const result = await actor.getEncryptedRecordMetadata(records.map(record => BigInt(record.id)));
+    if ('err' in result) {
+      throw new Error(result.err);
+    }
+    encrypted = new Map(result.ok.map(([id, blob]: [bigint, Uint8Array]) => [Number(id), new Uint8Array(blob)]));
+  } catch (error) {
+    console.warn('Failed to fetch encrypted record metadata:', error);
+    return records.map(record => ({ ...record, title: record.title || PRIVATE_RECORD_TITLE }));
+  }
+
+  return Promise.all(records.map(async record => {
+    const blob = encrypted.get(record.id);
+    if (!blob) {
+      return record;
+    }
+    const privateRecord = { ...record, metadata_encrypted: true, public_category: record.category };
+    try {
+      const { title, category } = await decryptMetadataBlob(record, blob);
+      return { ...privateRecord, title, category, record_type: category };
+    } catch (error) {
+      console.warn(`Failed to decrypt metadata for record ${record.id}:`, error);
+      return { ...privateRecord, title: PRIVATE_RECORD_TITLE };
+    }
+  }));
+};
+
+// Decrypts a record's metadata straight from the backend, so a re-key never re-encrypts a placeholder
+const loadRecordMetadata = async (actor: any, record: HealthRecord): Promise<RecordMetadata> => {
+  const result = await actor.getEncryptedRecordMetadata([BigInt(record.id)]);
+  if ('err' in result) {
+    throw new Error(result.err || 'Failed to fetch record metadata');
+  }
+  if (result.ok.length === 0) {
+    throw new Error('Record metadata not found');
+  }
+  return decryptMetadataBlob(record, new Uint8Array(result.ok[0][1]));
+};
+
+const wrapRecordKeyFor = async (actor: any, owner: string, recordId: number, grantee: string, records: HealthRecord[]): Promise<Uint8Array> => {
+  const record = records.find(r => r.id === recordId);
+  if (!record) {
+    throw new Error('Record not found');
+  }
+  const recordKey = await ensureRecordKey(actor, owner, record);
+  return CryptoService.wrapKeyForUser(grantee, recordKey);
+};
+
+// Wraps data keys for grants that were created without one (marketplace purchases, grants
+// made before per-record keys). Returns the number of legacy records that were re-encrypted.
+const deliverPendingRecordKeys = async (actor: any, owner: string, backendRecords: any[]): Promise<number> => {
+  const nowNs = BigInt(Date.now()) * 1_000_000n;
+  let migrated = 0;
+
+  for (const record of backendRecords) {
+    const pending = (record.userPermissions || []).filter((perm: any) =>
+      perm.encryptedRecordKey.length === 0 &&
+      (perm.expiresAt.length === 0 || perm.expiresAt[0] > nowNs)
+    );
+    if (pending.length === 0) continue;
+
+    try {
+      const hadKey = (await CryptoService.getRecordKey(record.id, owner)) !== null;
+      const recordKey = await ensureRecordKey(actor, owner, {
+        id: Number(record.id),
+        title: record.title,
+        category: record.category,
+        encrypted_content: new Uint8Array(record.encryptedBlob)
+      });
+      if (!hadKey) migrated++;
+
+      for (const perm of pending) {
+        const wrapped = await CryptoService.wrapKeyForUser(perm.user.toString(), recordKey);
+        const result = await actor.setGranteeRecordKey(record.id, perm.user, wrapped);
+        if ('err' in result) {
+          console.warn(`Failed to share key for record ${record.id}:`, result.err);
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to deliver record keys for record ${record.id}:`, error);
+    }
+  }
+
+  return migrated;
+};
+
+// Wraps data keys for caregivers who may view records but do not hold a record's key yet.
+// Returns the number of legacy records that were re-encrypted.
+const deliverDelegateRecordKeys = async (actor: any, owner: string, backendRecords: any[]): Promise<number> => {
+  let migrated = 0;
+  try {
+    const result = await actor.getPendingDelegateRecordKeys();
+    if ('err' in result) {
+      throw new Error(result.err);
+    }
+
+    for (const [recordId, caregiver] of result.ok as [bigint, any][]) {
+      const record = backendRecords.find(r => r.id === recordId);
+      if (!record) continue;
+      try {
+        const hadKey = (await CryptoService.getRecordKey(record.id, owner)) !== null;
+        const recordKey = await ensureRecordKey(actor, owner, {
+          id: Number(record.id),
+          title: record.title,
+          category: record.category,
+          encrypted_content: new Uint8Array(record.encryptedBlob)
+        });
+        if (!hadKey) migrated++;
+
+        const wrapped = await CryptoService.wrapKeyForUser(caregiver.toString(), recordKey);
+        const setResult = await actor.setDelegateRecordKey(record.id, caregiver, wrapped);
+        if ('err' in setResult) {
+          console.warn(`Failed to share key for record ${record.id} with caregiver:`, setResult.err);
+        }
+      } catch (error) {
+        console.warn(`Failed to deliver caregiver key for record ${record.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to deliver caregiver record keys:', error);
+  }
+  return migrated;
+};
+
+// Re-wraps the data keys of records caregivers created for the caller with the caller's user key
+const adoptDependentRecordKeys = async (actor: any): Promise<void> => {
+  try {
+    const result = await actor.getDependentRecordKeys();
+    if ('err' in result) {
+      throw new Error(result.err);
+    }
+    for (const [recordId, pending] of result.ok as [bigint, WrappedRecordKey][]) {
+      try {
+        const recordKey = await CryptoService.adoptRecordKey(recordId, pending);
+        const adoptResult = await actor.adoptDependentRecordKey(recordId, recordKey);
+        if ('err' in adoptResult) {
+          console.warn(`Failed to adopt key for record ${recordId}:`, adoptResult.err);
+        }
+      } catch (error) {
+        console.warn(`Failed to adopt key for record ${recordId}:`, error);
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to adopt caregiver record keys:', error);
+  }
+};
+
+// Last saved copy of a record list from the offline replica, with queued writes shown on top
+const loadReplicaRecords = async (collection: 'records' | 'sharedRecords') => {
+  try {
+    const snapshot = await offlineReplica.load<HealthRecord[]>(collection);
+    if (!snapshot) return null;
+    return { records: applyPendingWrites(snapshot.value, useSyncStore.getState().queue), savedAt: snapshot.savedAt };
+  } catch (error) {
+    console.warn(`Failed to read offline replica entry ${collection}:`, error);
+    return null;
+  }
+};
+
 const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
   records: [],
   sharedRecords: [],
@@ -51,6 +303,10 @@ const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
   
   // Helper function to decrypt a single health record
   decryptHealthRecord: async (record: HealthRecord): Promise<HealthRecord> => {
+    // Queued offline writes carry their content in plaintext until they are synced
+    if (record.pending_sync && record.body) {
+      return record;
+    }
     try {
       const { principal } = useAuthStore.getState();
       if (!principal) {
@@ -68,10 +324,14 @@ const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
         encryptedContentBase64
       );
 
+      // Parse the structured body (legacy plain-text records come back as PlainText)
+      const body = parseRecordBody(decryptedContent);
+
       // Return record with decrypted content (we'll add a content field for display)
       return {
         ...record,
-        content: decryptedContent
+        content: recordBodyToText(body),
+        body
       } as HealthRecord & { content: string };
     } catch (error) {
       console.error('Error decrypting health record:', error);
@@ -103,9 +363,14 @@ const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
         }
       }
       
+      await useSyncStore.getState().loadQueue();
+      
       // Get the authenticated actor
       const { actor } = await createAuthenticatedActor(identity);
       
+      // Records caregivers created are only readable once their keys are adopted
+      await adoptDependentRecordKeys(actor);
+      
       // Call the backend method
       const result = await actor.getHealthRecords();
       
@@ -133,15 +398,35 @@ const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
           };
         });
         
+        const records = await withDecryptedMetadata(actor, transformedRecords);
+        offlineReplica.saveInBackground('records', records);
+        useSyncStore.getState().markOnline();
+        
         set({ 
-          records: transformedRecords, 
+          records: applyPendingWrites(records, useSyncStore.getState().queue), 
           isLoading: false, 
           lastFetchTime: Date.now() 
         });
+        
+        // Runs in the background; reload if legacy records were re-encrypted
+        const owner = identity.getPrincipal().toString();
+        deliverPendingRecordKeys(actor, owner, result.ok)
+          .then(async migrated => migrated + await deliverDelegateRecordKeys(actor, owner, result.ok))
+          .then(migrated => {
+            if (migrated > 0) get().fetchRecords();
+          });
       } else {
         throw new Error(result.err || 'Failed to fetch records');
       }
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        useSyncStore.getState().markOffline();
+        const replica = await loadReplicaRecords('records');
+        if (replica) {
+          set({ records: replica.records, isLoading: false, lastFetchTime: replica.savedAt });
+          return;
+        }
+      }
       console.error("Error fetching health records:", error);
       set({ error: error.message, isLoading: false });
     }
@@ -206,7 +491,7 @@ const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
         
         // Decrypt each record
         const decryptedRecords = await Promise.all(
-          transformedRecords.map(async (record: HealthRecord) => {
+          (await withDecryptedMetadata(actor, transformedRecords)).map(async (record: HealthRecord) => {
             try {
               return await get().decryptHealthRecord(record);
             } catch (error) {
@@ -219,6 +504,9 @@ const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
           })
         );
         
+        offlineReplica.saveInBackground('sharedRecords', decryptedRecords);
+        useSyncStore.getState().markOnline();
+        
         set({ 
           sharedRecords: decryptedRecords, 
           isLoading: false, 
@@ -228,6 +516,14 @@ const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
         throw new Error(result.err || 'Failed to fetch shared records');
       }
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        useSyncStore.getState().markOffline();
+        const replica = await loadReplicaRecords('sharedRecords');
+        if (replica) {
+          set({ sharedRecords: replica.records, isLoading: false, lastSharedFetchTime: replica.savedAt });
+          return;
+        }
+      }
       console.error("Error fetching shared health records:", error);
       set({ error: error.message, isLoading: false });
     }
@@ -331,8 +627,12 @@ const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
           return transformedRecord;
         });
         
+        const sharedRecords = await withDecryptedMetadata(actor, transformedRecords);
+        offlineReplica.saveInBackground('sharedRecords', sharedRecords);
+        useSyncStore.getState().markOnline();
+        
         set({ 
-          sharedRecords: transformedRecords, 
+          sharedRecords, 
           isLoading: false, 
           lastSharedFetchTime: Date.now() 
         });
@@ -340,30 +640,67 @@ const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
         throw new Error(result.err || 'Failed to fetch shared records');
       }
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        useSyncStore.getState().markOffline();
+        const replica = await loadReplicaRecords('sharedRecords');
+        if (replica) {
+          set({ sharedRecords: replica.records, isLoading: false, lastSharedFetchTime: replica.savedAt });
+          return;
+        }
+      }
       console.error("Error fetching shared health records:", error);
       set({ error: error.message, isLoading: false });
     }
   },
   
-  createRecord: async (title, category, provider, recordType, content, attachmentId = null) => {
+  createRecord: async (title, category, provider, recordType, content, attachmentId = null, encryptMetadata = false) => {
     set({ isLoading: true, error: null });
+    // Set once the backend holds the placeholder; from then on a lost connection cannot be queued
+    let placeholderCreated = false;
+    const body = toRecordBody(content);
+    
+    // Attachments live in the backend, so only attachment-free records can be created offline
+    const queueCreate = async () => {
+      const tempRecordId = await useSyncStore.getState().queueRecordCreate({
+        title,
+        category,
+        provider,
+        record_type: recordType,
+        body,
+        encrypt_metadata: encryptMetadata,
+      });
+      set({ records: applyPendingWrites(get().records, useSyncStore.getState().queue), isLoading: false });
+      return tempRecordId;
+    };
+    
     try {
+      // Serialize (and validate) before creating the placeholder so a bad body never leaves an orphan record
+      const serializedBody = serializeRecordBody(body);
+      
       const { identity, principal } = useAuthStore.getState();
       
       if (!identity || !principal) {
         throw new Error('User not authenticated');
       }
       
+      if (!attachmentId && shouldQueueWrites()) {
+        return await queueCreate();
+      }
+      
       // Get the authenticated actor
       const { actor } = await createAuthenticatedActor(identity);
       
+      // Private records keep only a coarse category in plaintext
+      const publicTitle = encryptMetadata ? '' : title;
+      const publicCategory = encryptMetadata ? toPublicCategory(category) : category;
+      
       // First, create the record with placeholder content
       // This is needed so the record exists in the backend before we can encrypt
       const placeholderBlob = new Uint8Array([0]); // Minimal placeholder
       
       const createResult = await actor.createHealthRecord(
-        title,
-        category,
+        publicTitle,
+        publicCategory,
         placeholderBlob,
         attachmentId ? [BigInt(attachmentId)] : [],
         { Monetizable: null } // Default status
@@ -372,29 +709,25 @@ const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
       if (!('ok' in createResult)) {
         throw new Error(createResult.err || 'Failed to create record');
       }
+      placeholderCreated = true;
       
       const recordId = Number(createResult.ok);
       
-      // Now encrypt the content using the real record ID
-      const encryptedContent = await CryptoService.encryptWithRecordKey(
-        BigInt(recordId),
-        principal,
-        content
-      );
-      
-      // Convert encrypted content to blob (browser-compatible)
-      const binaryString = atob(encryptedContent);
-      const encryptedBlob = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        encryptedBlob[i] = binaryString.charCodeAt(i);
-      }
+      // Now encrypt the serialized body with a fresh data key for this record
+      const { dataKey, recordKey } = await CryptoService.createRecordKey(BigInt(recordId), principal);
+      const encryptedContent = await CryptoService.encryptRecordContent(dataKey, BigInt(recordId), principal, serializedBody);
+      const encryptedMetadata = encryptMetadata
+        ? [await encryptRecordMetadata(dataKey, recordId, principal, { title, category })]
+        : [];
       
-      // Update the record with encrypted content
+      // Update the record with encrypted content and the owner-wrapped data key
       const updateResult = await actor.updateHealthRecord(
         BigInt(recordId),
-        title,
-        category,
-        encryptedBlob
+        publicTitle,
+        publicCategory,
+        toBlob(encryptedContent),
+        [recordKey],
+        encryptedMetadata
       );
       
       if (!('ok' in updateResult)) {
@@ -413,14 +746,26 @@ const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
       set({ isLoading: false });
       return recordId;
     } catch (error: any) {
+      if (!placeholderCreated && !attachmentId && !useSyncStore.getState().isSyncing && isNetworkError(error)) {
+        useSyncStore.getState().markOffline();
+        return queueCreate();
+      }
       console.error("Error creating health record:", error);
       set({ error: error.message, isLoading: false });
       throw error;
     }
   },
   
-  updateRecord: async (id, content) => {
+  updateRecord: async (id, content, options = {}) => {
+    const { rotateKey = false, refresh = true } = options;
     set({ isLoading: true, error: null });
+    let attempted: HealthRecord | null = null;
+    
+    const queueUpdate = async (record: HealthRecord) => {
+      await useSyncStore.getState().queueRecordUpdate(id, record.updated_at, toRecordBody(content));
+      set({ records: applyPendingWrites(get().records, useSyncStore.getState().queue), isLoading: false });
+    };
+    
     try {
       const { identity, principal } = useAuthStore.getState();
       
@@ -428,46 +773,74 @@ const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
         throw new Error('User not authenticated');
       }
       
-      // Get the authenticated actor
-      const { actor } = await createAuthenticatedActor(identity);
-      
       // Find the current record to get its existing data
       const currentRecord = get().records.find(r => r.id === id);
       if (!currentRecord) {
         throw new Error('Record not found');
       }
+      attempted = currentRecord;
+      
+      // Re-keys need the backend; plain edits are queued while it is unreachable
+      if (!rotateKey && (id < 0 || shouldQueueWrites())) {
+        await queueUpdate(currentRecord);
+        return;
+      }
       
-      // Encrypt the new content
-      const encryptedContent = await CryptoService.encryptWithRecordKey(
+      // Get the authenticated actor
+      const { actor } = await createAuthenticatedActor(identity);
+      
+      // Legacy records get their own data key when their content is rewritten
+      let dataKey = rotateKey ? null : await CryptoService.getRecordKey(BigInt(id), principal);
+      let newRecordKey: [] | [WrappedRecordKey] = [];
+      // Encrypted metadata has to follow the record onto a new data key; read it before the key changes
+      const metadata = !dataKey && currentRecord.metadata_encrypted
+        ? await loadRecordMetadata(actor, currentRecord)
+        : null;
+      if (!dataKey) {
+        const created = await CryptoService.createRecordKey(BigInt(id), principal);
+        dataKey = created.dataKey;
+        newRecordKey = [created.recordKey];
+      }
+      
+      // Encrypt the new serialized body
+      const encryptedContent = await CryptoService.encryptRecordContent(
+        dataKey,
         BigInt(id),
         principal,
-        content
+        serializeRecordBody(toRecordBody(content))
       );
-      
-      // Convert encrypted content to blob (browser-compatible)
-      const binaryString = atob(encryptedContent);
-      const encryptedBlob = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        encryptedBlob[i] = binaryString.charCodeAt(i);
-      }
+      const encryptedMetadata = metadata ? [await encryptRecordMetadata(dataKey, id, principal, metadata)] : [];
       
       // Call the backend method
       const result = await actor.updateHealthRecord(
         BigInt(id),
-        currentRecord.title,
-        currentRecord.category,
-        encryptedBlob
+        currentRecord.metadata_encrypted ? '' : currentRecord.title,
+        currentRecord.metadata_encrypted ? currentRecord.public_category : currentRecord.category,
+        toBlob(encryptedContent),
+        newRecordKey,
+        encryptedMetadata
       );
       
       if ('ok' in result) {
+        if (newRecordKey.length > 0) {
+          CryptoService.forgetRecordKey(BigInt(id), principal);
+        }
+        
         // Refresh the records list
-        await get().fetchRecords();
+        if (refresh) {
+          await get().fetchRecords();
+        }
         
         set({ isLoading: false });
       } else {
         throw new Error(result.err || 'Failed to update record');
       }
     } catch (error: any) {
+      if (attempted && !rotateKey && !useSyncStore.getState().isSyncing && isNetworkError(error)) {
+        useSyncStore.getState().markOffline();
+        await queueUpdate(attempted);
+        return;
+      }
       console.error("Error updating health record:", error);
       set({ error: error.message, isLoading: false });
       throw error;
@@ -477,6 +850,17 @@ const useHealthRecordStore = create<HealthRecordState>((set, get) => ({
   deleteRecord: async (id) => {
     set({ isLoading: true, error: null });
     try {
+      // A record created offline only exists in the queue
+      if (id < 0) {
+        const sync = useSyncStore.getState();
+        const queued = sync.queue.find(write => write.kind === 'create' && write.temp_record_id === id);
+        if (queued) {
+          await sync.removeQueuedWrite(queued.id);
+        }
+        set({ records: get().records.filter(record => record.id !== id), isLoading: false });
+        return;
+      }
+      
       // Get the identity from the auth store
       const { identity } = useAuthStore.getState();
       
@@ -506,13 +890,15 @@ grantAccess: async (recordId, userPrincipal) => {
       if (!identity) throw new Error('User not authenticated');
       const { actor } = await createAuthenticatedActor(identity);
       const userPrincipalObj = Principal.fromText(userPrincipal);
+      const wrappedKey = await wrapRecordKeyFor(actor, identity.getPrincipal().toString(), recordId, userPrincipal, get().records);
       // Basic preset maps to ReadBasicInfo
       const backendPermissions = [{ ReadBasicInfo: null }];
       const result = await actor.grantSpecificAccess(
         BigInt(recordId),
         userPrincipalObj,
         backendPermissions,
-        [] // no expiry
+        [], // no expiry
+        [wrappedKey]
       );
       if ('ok' in result) {
         set({ isLoading: false });
@@ -555,11 +941,14 @@ const mapPermission = (p: string) => {
       // Convert expiry date (yyyy-mm-dd) to ms BigInt (backend converts mse ns)
       const expiryOpt = expiryDate ? [BigInt(new Date(expiryDate).getTime())] : [];
 
+      const wrappedKey = await wrapRecordKeyFor(actor, identity.getPrincipal().toString(), recordId, userPrincipal, get().records);
+
       const result = await actor.grantSpecificAccess(
         BigInt(recordId),
         userPrincipalObj,
         backendPermissions,
-        expiryOpt
+        expiryOpt,
+        [wrappedKey]
       );
       if ('ok' in result) {
         set({ isLoading: false });
@@ -573,6 +962,36 @@ const mapPermission = (p: string) => {
     }
   },
   
+  grantAccessWithContext: async (recordId, userPrincipal, permissions, context, purpose, expiresAtMs, canReshare = false) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+      const wrappedKey = await wrapRecordKeyFor(actor, identity.getPrincipal().toString(), recordId, userPrincipal, get().records);
+
+      const result = await actor.grantAccessWithContext(
+        BigInt(recordId),
+        Principal.fromText(userPrincipal),
+        permissions.map(toBackendPermission),
+        toBackendSharingContext(context),
+        purpose,
+        expiresAtMs ? [BigInt(Math.floor(expiresAtMs))] : [],
+        canReshare,
+        [wrappedKey]
+      );
+      if ('ok' in result) {
+        set({ isLoading: false });
+      } else {
+        throw new Error(result.err || 'Failed to grant access');
+      }
+    } catch (error: any) {
+      console.error('Error granting access with context:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
   revokeAccess: async (recordId, userPrincipal) => {
     set({ isLoading: true, error: null });
     try {
@@ -623,21 +1042,23 @@ const mapPermission = (p: string) => {
       
       if ('ok' in result) {
         // Transform backend logs to frontend format
-        const transformedLogs = result.ok.map((log: any) => ({
-          id: Number(log.id),
-          record_id: Number(log.recordId),
-          provider_principal: log.provider.toString(),
-          access_time: Number(log.ts),
-          paid_amount: Number(log.paidMT),
-          action: 'Accessed' // Default action since backend doesn't specify
-        }));
+        const transformedLogs: AccessLog[] = result.ok.map(toAccessLog);
         
+        offlineReplica.saveInBackground(`recordAccessLogs:${recordId}`, transformedLogs);
         set({ isLoading: false });
         return transformedLogs;
       } else {
         throw new Error(result.err || 'Failed to fetch access logs');
       }
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        useSyncStore.getState().markOffline();
+        const snapshot = await offlineReplica.load<AccessLog[]>(`recordAccessLogs:${recordId}`).catch(() => null);
+        if (snapshot) {
+          set({ isLoading: false });
+          return snapshot.value;
+        }
+      }
       console.error("Error fetching record access logs:", error);
       set({ error: error.message, isLoading: false });
       throw error;
@@ -660,6 +1081,9 @@ const mapPermission = (p: string) => {
   },
   
   decryptRecord: async (record) => {
+    if (record.pending_sync && record.body) {
+      return recordBodyToText(record.body);
+    }
     set({ isLoading: true, error: null });
     try {
       // Get the current user's principal
@@ -679,7 +1103,7 @@ const mapPermission = (p: string) => {
       );
       
       set({ isLoading: false });
-      return decryptedContent;
+      return recordBodyToText(parseRecordBody(decryptedContent));
     } catch (error: any) {
       console.error("Error decrypting record:", error);
       set({ error: error.message, isLoading: false });
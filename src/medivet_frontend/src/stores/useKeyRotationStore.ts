@@ -0,0 +1,173 @@
+import { create } from 'zustand';
+import { KeyRotationFailure, KeyRotationProgress, KeyRotationStatus } from '../types';
+import useAuthStore from './useAuthStore';
+import useHealthRecordStore from './useHealthRecordStore';
+import { createAuthenticatedActor } from '../services/actorService';
+import { CryptoService } from '../services/CryptoService';
+import { fileService } from '../services/fileService';
+
+// Records are re-encrypted in small batches so progress is saved on the backend as we go
+const ROTATION_BATCH_SIZE = 5;
+
+interface KeyRotationState {
+  status: KeyRotationStatus | null;
+  progress: KeyRotationProgress | null;
+  isRunning: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  // Methods
+  fetchStatus: () => Promise<KeyRotationStatus>;
+  startRotation: () => Promise<void>;
+  resumeRotation: () => Promise<void>;
+}
+
+const toKeyRotationStatus = (status: any): KeyRotationStatus => ({
+  epoch: Number(status.epoch),
+  rotation_started_at: status.rotationStartedAt.length ? Number(status.rotationStartedAt[0]) : null,
+  total_records: Number(status.totalRecords),
+  pending_record_ids: status.pendingRecordIds.map((id: bigint) => Number(id)),
+});
+
+const useKeyRotationStore = create<KeyRotationState>((set, get) => {
+  const recordFailed = (failure: KeyRotationFailure) => {
+    const progress = get().progress;
+    if (progress) {
+      set({ progress: { ...progress, failures: [...progress.failures, failure] } });
+    }
+  };
+
+  const advance = (phase: KeyRotationProgress['phase']) => {
+    const progress = get().progress;
+    if (progress) {
+      set({ progress: { ...progress, phase, completed: progress.completed + 1 } });
+    }
+  };
+
+  // Re-encrypts everything still on an older epoch, then closes the rotation if nothing failed
+  const runRotation = async () => {
+    set({ isRunning: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+      const owner = identity.getPrincipal().toString();
+
+      const epoch = await CryptoService.getUserKeyEpoch(true);
+      const status = await get().fetchStatus();
+      const recordStore = useHealthRecordStore.getState();
+      await recordStore.fetchRecords();
+      const pendingFiles = await fileService.getFilesNeedingRotation(epoch);
+
+      set({
+        progress: {
+          phase: 'records',
+          total: status.pending_record_ids.length + pendingFiles.length,
+          completed: 0,
+          failures: [],
+        },
+      });
+
+      for (let i = 0; i < status.pending_record_ids.length; i += ROTATION_BATCH_SIZE) {
+        const batch = status.pending_record_ids.slice(i, i + ROTATION_BATCH_SIZE);
+        for (const recordId of batch) {
+          const record = useHealthRecordStore.getState().records.find(r => r.id === recordId);
+          try {
+            if (!record) throw new Error('Record not found');
+            const decrypted = await recordStore.decryptHealthRecord(record);
+            if (!decrypted.body) throw new Error('Unable to decrypt record');
+            await recordStore.updateRecord(recordId, decrypted.body, { rotateKey: true, refresh: false });
+          } catch (error: any) {
+            recordFailed({ kind: 'record', id: String(recordId), label: record?.title || `Record #${recordId}`, error: error.message });
+          }
+          advance('records');
+        }
+      }
+
+      for (const file of pendingFiles) {
+        try {
+          await fileService.rotateFileKey(file, epoch);
+        } catch (error: any) {
+          recordFailed({ kind: 'file', id: file.name, label: file.name, error: error.message });
+        }
+        advance('files');
+      }
+
+      const progress = get().progress;
+      if (progress && progress.failures.length === 0) {
+        set({ progress: { ...progress, phase: 'finalizing' } });
+        const result = await actor.completeKeyRotation();
+        if ('err' in result) {
+          throw new Error(result.err);
+        }
+        const evicted = await CryptoService.evictStaleUserKeys(owner, epoch);
+        console.log(`Key rotation to epoch ${epoch} complete; evicted ${evicted} stale cached keys`);
+      }
+
+      // Reloading records re-wraps data keys for grantees
+      await useHealthRecordStore.getState().fetchRecords();
+      await get().fetchStatus();
+      set({ isRunning: false });
+    } catch (error: any) {
+      console.error('Error rotating keys:', error);
+      set({ error: error.message, isRunning: false });
+      throw error;
+    }
+  };
+
+  return {
+    status: null,
+    progress: null,
+    isRunning: false,
+    isLoading: false,
+    error: null,
+
+    fetchStatus: async () => {
+      set({ isLoading: true, error: null });
+      try {
+        const { identity } = useAuthStore.getState();
+        if (!identity) throw new Error('User not authenticated');
+        const { actor } = await createAuthenticatedActor(identity);
+
+        const result = await actor.getKeyRotationStatus();
+        if ('ok' in result) {
+          const status = toKeyRotationStatus(result.ok);
+          set({ status, isLoading: false });
+          return status;
+        } else {
+          throw new Error(result.err || 'Failed to fetch key rotation status');
+        }
+      } catch (error: any) {
+        console.error('Error fetching key rotation status:', error);
+        set({ error: error.message, isLoading: false });
+        throw error;
+      }
+    },
+
+    startRotation: async () => {
+      set({ isLoading: true, error: null });
+      try {
+        const { identity } = useAuthStore.getState();
+        if (!identity) throw new Error('User not authenticated');
+        const { actor } = await createAuthenticatedActor(identity);
+
+        const result = await actor.startKeyRotation();
+        if ('err' in result) {
+          throw new Error(result.err || 'Failed to start key rotation');
+        }
+        set({ isLoading: false });
+      } catch (error: any) {
+        console.error('Error starting key rotation:', error);
+        set({ error: error.message, isLoading: false });
+        throw error;
+      }
+      await runRotation();
+    },
+
+    resumeRotation: async () => {
+      await runRotation();
+    },
+  };
+});
+
+export default useKeyRotationStore;
@@ -1,9 +1,10 @@
 import { create } from 'zustand';
 import { HealthRecord } from '../types';
 import useAuthStore from './useAuthStore';
-import { createAuthenticatedActor } from '../services/actorService';
-import tokenService, { TokenService } from './tokenStore';
+import { createAuthenticatedActor, BACKEND_CANISTER_ID } from '../services/actorService';
+import tokenService, { TokenService, LedgerTransaction } from './tokenStore';
 import { Principal } from '@dfinity/principal';
+import { displayRecordTitle } from '../utils/recordMetadata';
 
 export interface MarketplaceListing {
   id: number;
@@ -15,6 +16,7 @@ export interface MarketplaceListing {
   price: bigint; // Price in MDT tokens
   isActive: boolean;
   createdAt: number;
+  accessCount: number;
   record?: HealthRecord;
 }
 
@@ -26,13 +28,28 @@ export interface PurchaseRecord {
   recordId: number;
   price: bigint;
   purchasedAt: number;
-  transactionHash?: string;
+  ledgerTxIndex: number; // meditoken transaction index of the payment
+}
+
+export interface SaleRecord {
+  purchaseId: number;
+  listingId: number;
+  recordId: number;
+  recordTitle: string;
+  buyerId: string;
+  price: bigint;
+  fee: bigint | null; // Ledger fee paid by the buyer, when the ledger tx was found
+  purchasedAt: number; // Nanoseconds
+  ledgerTxIndex: number;
+  // Confirmed when the ledger tx is a transfer of the listed price from buyer to seller
+  status: 'Confirmed' | 'Unverified';
 }
 
 interface MarketplaceState {
   listings: MarketplaceListing[];
   myListings: MarketplaceListing[];
   purchases: PurchaseRecord[];
+  sales: SaleRecord[];
   isLoading: boolean;
   error: string | null;
   
@@ -40,17 +57,47 @@ interface MarketplaceState {
   fetchMarketplaceListings: () => Promise<void>;
   fetchMyListings: () => Promise<void>;
   fetchPurchases: () => Promise<void>;
+  fetchSales: () => Promise<void>;
   createListing: (recordId: number, price: string, description?: string) => Promise<void>;
   updateListing: (listingId: number, price: string, description?: string) => Promise<void>;
   deactivateListing: (listingId: number) => Promise<void>;
-  purchaseRecord: (listingId: number) => Promise<void>;
+  purchaseRecord: (listingId: number) => Promise<PurchaseRecord>;
   setPrice: (recordId: number, price: string) => Promise<void>;
 }
 
+// How long the ICRC-2 approval for a purchase stays valid
+const PURCHASE_APPROVAL_TTL_MS = 5 * 60 * 1000;
+
+const toPurchaseRecord = (purchase: any): PurchaseRecord => ({
+  id: Number(purchase.id),
+  listingId: Number(purchase.listingId),
+  buyerId: purchase.buyer,
+  sellerId: purchase.seller,
+  recordId: Number(purchase.recordId),
+  price: BigInt(purchase.price),
+  purchasedAt: Number(purchase.purchasedAt),
+  ledgerTxIndex: Number(purchase.ledgerTxIndex),
+});
+
+// Maps a backend ListingSummary (listing + record metadata) to the frontend shape
+const toMarketplaceListing = (summary: any): MarketplaceListing => ({
+  id: Number(summary.listing.id),
+  recordId: Number(summary.listing.recordId),
+  sellerId: summary.listing.seller,
+  title: displayRecordTitle(summary.title),
+  category: summary.category,
+  description: summary.listing.description,
+  price: BigInt(summary.listing.price),
+  isActive: summary.listing.active,
+  createdAt: Number(summary.listing.createdAt),
+  accessCount: Number(summary.accessCount),
+});
+
 const useMarketplaceStore = create<MarketplaceState>((set, get) => ({
   listings: [],
   myListings: [],
   purchases: [],
+  sales: [],
   isLoading: false,
   error: null,
 
@@ -66,40 +113,11 @@ const useMarketplaceStore = create<MarketplaceState>((set, get) => ({
       // Get the authenticated actor
       const { actor } = await createAuthenticatedActor(identity);
       
-      // Fetch monetizable records from backend
-      const result = await actor.getMonetizableRecords();
+      const result = await actor.getActiveListings();
       
       if ('ok' in result) {
-        // Convert to marketplace listings format
-        const listings: MarketplaceListing[] = result.ok.map((record: any, index: number) => ({
-          id: index + 1,
-          recordId: Number(record.id),
-          sellerId: record.owner,
-          title: record.title,
-          category: record.category,
-          description: record.category,
-          price: BigInt(1000000), // Default price: 0.01 MDT (1000000 units with 8 decimals)
-          isActive: record.status === 'Monetizable',
-          createdAt: Number(record.createdAt),
-          record: {
-            id: Number(record.id),
-            title: record.title,
-            category: record.category,
-            provider: 'Unknown',
-            record_type: record.category,
-            record_date: Number(record.createdAt),
-            encrypted_content: new Uint8Array(record.encryptedBlob),
-            attachment_id: record.attachment ? Number(record.attachment) : null,
-            user_permissions: [],
-            access_count: Number(record.accessCount),
-            created_at: Number(record.createdAt),
-            updated_at: Number(record.modifiedAt),
-            owner: record.owner.toString()
-          }
-        }));
-        
         set({ 
-          listings,
+          listings: result.ok.map(toMarketplaceListing),
           isLoading: false 
         });
       } else {
@@ -114,24 +132,25 @@ const useMarketplaceStore = create<MarketplaceState>((set, get) => ({
   fetchMyListings: async () => {
     set({ isLoading: true, error: null });
     try {
-      const { identity, principal } = useAuthStore.getState();
+      const { identity } = useAuthStore.getState();
       
-      if (!identity || !principal) {
+      if (!identity) {
         throw new Error('User not authenticated');
       }
       
-      // For now, filter from all listings by current user's principal
-      await get().fetchMarketplaceListings();
+      // Get the authenticated actor
+      const { actor } = await createAuthenticatedActor(identity);
       
-      const allListings = get().listings;
-      const myListings = allListings.filter(listing => 
-        listing.sellerId.toString() === principal.toString()
-      );
+      const result = await actor.getMyListings();
       
-      set({ 
-        myListings,
-        isLoading: false 
-      });
+      if ('ok' in result) {
+        set({ 
+          myListings: result.ok.map(toMarketplaceListing),
+          isLoading: false 
+        });
+      } else {
+        throw new Error(result.err || 'Failed to fetch your listings');
+      }
     } catch (error: any) {
       console.error("Error fetching my listings:", error);
       set({ error: error.message, isLoading: false });
@@ -150,23 +169,11 @@ const useMarketplaceStore = create<MarketplaceState>((set, get) => ({
       // Get the authenticated actor
       const { actor } = await createAuthenticatedActor(identity);
       
-      // Fetch access logs (which represent purchases)
-      const result = await actor.getAccessLogs();
+      const result = await actor.getMyPurchases();
       
       if ('ok' in result) {
-        // Transform access logs to purchase records
-        const purchases: PurchaseRecord[] = result.ok.map((log: any) => ({
-          id: Number(log.id),
-          listingId: Number(log.recordId), // Use recordId as listing ID
-          buyerId: log.provider,
-          sellerId: Principal.anonymous(), // We don't have seller info in access logs
-          recordId: Number(log.recordId),
-          price: BigInt(log.paidMT),
-          purchasedAt: Number(log.ts),
-        }));
-        
         set({ 
-          purchases,
+          purchases: result.ok.map(toPurchaseRecord),
           isLoading: false 
         });
       } else {
@@ -178,7 +185,7 @@ const useMarketplaceStore = create<MarketplaceState>((set, get) => ({
     }
   },
 
-  createListing: async (recordId: number, price: string, description?: string) => {
+  fetchSales: async () => {
     set({ isLoading: true, error: null });
     try {
       const { identity, principal } = useAuthStore.getState();
@@ -187,14 +194,76 @@ const useMarketplaceStore = create<MarketplaceState>((set, get) => ({
         throw new Error('User not authenticated');
       }
       
+      // Get the authenticated actor
+      const { actor } = await createAuthenticatedActor(identity);
+      
+      const result = await actor.getMySales();
+      
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to fetch sales');
+      }
+      
+      // Join each sale with its meditoken transaction so amounts reflect what actually moved on the ledger
+      const sales: SaleRecord[] = await Promise.all(
+        result.ok.map(async (summary: any): Promise<SaleRecord> => {
+          const purchase = toPurchaseRecord(summary.purchase);
+          const buyerId = purchase.buyerId.toString();
+          let tx: LedgerTransaction | null = null;
+          try {
+            tx = await tokenService.getTransaction(BigInt(purchase.ledgerTxIndex));
+          } catch (error) {
+            console.warn(`Could not load ledger tx ${purchase.ledgerTxIndex}:`, error);
+          }
+          
+          const confirmed = tx !== null &&
+            tx.kind === 'transfer' &&
+            tx.from === buyerId &&
+            tx.to === principal.toString() &&
+            tx.amount === purchase.price;
+          
+          return {
+            purchaseId: purchase.id,
+            listingId: purchase.listingId,
+            recordId: purchase.recordId,
+            recordTitle: displayRecordTitle(summary.recordTitle),
+            buyerId,
+            price: purchase.price,
+            fee: tx ? tx.fee : null,
+            purchasedAt: purchase.purchasedAt,
+            ledgerTxIndex: purchase.ledgerTxIndex,
+            status: confirmed ? 'Confirmed' : 'Unverified',
+          };
+        })
+      );
+      
+      set({ 
+        sales: sales.sort((a, b) => a.purchasedAt - b.purchasedAt),
+        isLoading: false 
+      });
+    } catch (error: any) {
+      console.error("Error fetching sales:", error);
+      set({ error: error.message, isLoading: false });
+    }
+  },
+
+  createListing: async (recordId: number, price: string, description?: string) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      
+      if (!identity) {
+        throw new Error('User not authenticated');
+      }
+      
       // Parse price (convert from MDT to units)
       const priceInUnits = TokenService.parseTokenAmount(price, 8);
       
-      // For now, we just simulate creating a listing since the backend doesn't have marketplace functionality
-      console.log(`Creating listing for record ${recordId} at price ${price} MDT`);
+      const { actor } = await createAuthenticatedActor(identity);
+      const result = await actor.createListing(BigInt(recordId), priceInUnits, description || '');
       
-      // In a real implementation, you would call a backend method here
-      // await actor.createMarketplaceListing(recordId, priceInUnits, description);
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to create listing');
+      }
       
       // Refresh listings
       await get().fetchMyListings();
@@ -219,10 +288,12 @@ const useMarketplaceStore = create<MarketplaceState>((set, get) => ({
       // Parse price
       const priceInUnits = TokenService.parseTokenAmount(price, 8);
       
-      console.log(`Updating listing ${listingId} with price ${price} MDT`);
+      const { actor } = await createAuthenticatedActor(identity);
+      const result = await actor.updateListing(BigInt(listingId), priceInUnits, description || '');
       
-      // In a real implementation, you would call a backend method here
-      // await actor.updateMarketplaceListing(listingId, priceInUnits, description);
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to update listing');
+      }
       
       // Refresh listings
       await get().fetchMyListings();
@@ -244,10 +315,12 @@ const useMarketplaceStore = create<MarketplaceState>((set, get) => ({
         throw new Error('User not authenticated');
       }
       
-      console.log(`Deactivating listing ${listingId}`);
+      const { actor } = await createAuthenticatedActor(identity);
+      const result = await actor.deactivateListing(BigInt(listingId));
       
-      // In a real implementation, you would call a backend method here
-      // await actor.deactivateMarketplaceListing(listingId);
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to deactivate listing');
+      }
       
       // Refresh listings
       await get().fetchMyListings();
@@ -275,46 +348,44 @@ const useMarketplaceStore = create<MarketplaceState>((set, get) => ({
         throw new Error('Listing not found');
       }
       
-      // Check if user has enough tokens
+      // The buyer pays one fee for the approval and one for the transfer_from
+      const fee = await tokenService.getFee();
       const userAccount = TokenService.createAccount(Principal.fromText(principal.toString()));
       const balance = await tokenService.getBalance(userAccount);
+      const required = listing.price + fee * BigInt(2);
       
-      if (balance < listing.price) {
-        throw new Error(`Insufficient funds. You have ${TokenService.formatTokenAmount(balance)} MDT, but need ${TokenService.formatTokenAmount(listing.price)} MDT`);
+      if (balance < required) {
+        throw new Error(`Insufficient funds. You have ${TokenService.formatTokenAmount(balance)} MDT, but need ${TokenService.formatTokenAmount(required)} MDT`);
       }
       
-      // Create seller account
-      const sellerAccount = TokenService.createAccount(listing.sellerId);
-      
-      // Transfer tokens to seller (simulated - in real implementation this would be handled by the backend)
-      const transferResult = await tokenService.transfer({
-        to: sellerAccount,
-        amount: listing.price,
-        from_subaccount: undefined,
-        fee: undefined,
-        memo: undefined,
-        created_at_time: undefined
+      // Approve the backend to pull exactly the listing price (plus its transfer fee), valid briefly
+      const approveResult = await tokenService.approve({
+        spender: TokenService.createAccount(Principal.fromText(BACKEND_CANISTER_ID)),
+        amount: listing.price + fee,
+        expires_at: BigInt(Date.now() + PURCHASE_APPROVAL_TTL_MS) * BigInt(1_000_000)
       });
       
-      if (transferResult.Err) {
-        throw new Error('Token transfer failed');
+      if (approveResult.Err) {
+        throw new Error(`Token approval failed: ${Object.keys(approveResult.Err)[0]}`);
       }
       
-      // Access the record through the backend (this logs the purchase)
+      // The backend charges the buyer via transfer_from and only grants access if the ledger accepts it.
+      // Passing the price shown to the buyer makes the purchase fail if the seller repriced meanwhile.
       const { actor } = await createAuthenticatedActor(identity);
-      const recordResult = await actor.queryRecord(BigInt(listing.recordId));
-      
-      if ('ok' in recordResult) {
-        console.log(`Successfully purchased record ${listing.recordId} for ${TokenService.formatTokenAmount(listing.price)} MDT`);
-        
-        // Refresh purchases
-        await get().fetchPurchases();
-        
-        set({ isLoading: false });
-        return recordResult.ok;
-      } else {
-        throw new Error(recordResult.err || 'Failed to access purchased record');
+      const result = await actor.purchaseListing(BigInt(listingId), listing.price);
+      
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Purchase failed');
       }
+      
+      const purchase = toPurchaseRecord(result.ok);
+      console.log(`Purchased record ${purchase.recordId} for ${TokenService.formatTokenAmount(purchase.price)} MDT (ledger tx ${purchase.ledgerTxIndex})`);
+      
+      // Refresh purchases
+      await get().fetchPurchases();
+      
+      set({ isLoading: false });
+      return purchase;
     } catch (error: any) {
       console.error("Error purchasing record:", error);
       set({ error: error.message, isLoading: false });
@@ -0,0 +1,226 @@
+import { create } from 'zustand';
+import { Principal } from '@dfinity/principal';
+import { PermissionRequest, PermissionType, SharingContext } from '../types';
+import useAuthStore from './useAuthStore';
+import useHealthRecordStore from './useHealthRecordStore';
+import { createAuthenticatedActor } from '../services/actorService';
+import {
+  toBackendPermission,
+  fromBackendPermission,
+  toBackendSharingContext,
+  fromBackendSharingContext,
+} from '../utils/permissions';
+
+const NS_PER_MS = 1_000_000;
+
+interface PermissionRequestState {
+  incomingRequests: PermissionRequest[];
+  outgoingRequests: PermissionRequest[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Patient methods
+  fetchIncomingRequests: () => Promise<void>;
+  approveRequest: (request: PermissionRequest, recordIds: number[], response?: string) => Promise<void>;
+  denyRequest: (requestId: number, response?: string) => Promise<void>;
+
+  // Provider methods
+  fetchOutgoingRequests: () => Promise<void>;
+  requestPermission: (
+    patientPrincipal: string,
+    permissions: PermissionType[],
+    context: SharingContext,
+    purpose: string,
+    expiryDate?: string
+  ) => Promise<number>;
+  cancelRequest: (requestId: number) => Promise<void>;
+}
+
+const toPermissionRequest = (req: any): PermissionRequest => ({
+  id: Number(req.id),
+  requester: req.requester.toString(),
+  patient: req.patient.toString(),
+  requested_permissions: req.requestedPermissions.map(fromBackendPermission),
+  context: fromBackendSharingContext(req.context),
+  purpose: req.purpose,
+  requested_at: Number(req.requestedAt),
+  requested_expiry: req.requestedExpiry.length ? Number(req.requestedExpiry[0]) : null,
+  status: Object.keys(req.status)[0] as PermissionRequest['status'],
+  patient_response: req.patientResponse.length ? req.patientResponse[0] : null,
+  responded_at: req.respondedAt.length ? Number(req.respondedAt[0]) : null,
+});
+
+// Newest requests first
+const byNewest = (a: PermissionRequest, b: PermissionRequest) => b.requested_at - a.requested_at;
+
+const usePermissionRequestStore = create<PermissionRequestState>((set, get) => ({
+  incomingRequests: [],
+  outgoingRequests: [],
+  isLoading: false,
+  error: null,
+
+  fetchIncomingRequests: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const result = await actor.getIncomingPermissionRequests();
+      if ('ok' in result) {
+        set({ incomingRequests: result.ok.map(toPermissionRequest).sort(byNewest), isLoading: false });
+      } else {
+        throw new Error(result.err || 'Failed to fetch permission requests');
+      }
+    } catch (error: any) {
+      console.error('Error fetching incoming permission requests:', error);
+      set({ error: error.message, isLoading: false });
+    }
+  },
+
+  approveRequest: async (request, recordIds, response) => {
+    if (recordIds.length === 0) {
+      throw new Error('Select at least one record to share');
+    }
+
+    // Grant the requested scope on each chosen record before marking the request approved,
+    // so a failed grant leaves the request pending for another attempt
+    const { grantAccessWithContext } = useHealthRecordStore.getState();
+    const expiresAtMs = request.requested_expiry !== null ? request.requested_expiry / NS_PER_MS : null;
+    // Approving a research request is the patient's consent to the study
+    const context: SharingContext = request.context.type === 'research'
+      ? { ...request.context, consent: true }
+      : request.context;
+    for (const recordId of recordIds) {
+      await grantAccessWithContext(
+        recordId,
+        request.requester,
+        request.requested_permissions,
+        context,
+        request.purpose,
+        expiresAtMs
+      );
+    }
+
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const result = await actor.respondToPermissionRequest(
+        BigInt(request.id),
+        true,
+        response ? [response] : []
+      );
+      if ('ok' in result) {
+        set({ isLoading: false });
+        await get().fetchIncomingRequests();
+      } else {
+        throw new Error(result.err || 'Failed to approve request');
+      }
+    } catch (error: any) {
+      console.error('Error approving permission request:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  denyRequest: async (requestId, response) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const result = await actor.respondToPermissionRequest(
+        BigInt(requestId),
+        false,
+        response ? [response] : []
+      );
+      if ('ok' in result) {
+        set({ isLoading: false });
+        await get().fetchIncomingRequests();
+      } else {
+        throw new Error(result.err || 'Failed to deny request');
+      }
+    } catch (error: any) {
+      console.error('Error denying permission request:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  fetchOutgoingRequests: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const result = await actor.getOutgoingPermissionRequests();
+      if ('ok' in result) {
+        set({ outgoingRequests: result.ok.map(toPermissionRequest).sort(byNewest), isLoading: false });
+      } else {
+        throw new Error(result.err || 'Failed to fetch permission requests');
+      }
+    } catch (error: any) {
+      console.error('Error fetching outgoing permission requests:', error);
+      set({ error: error.message, isLoading: false });
+    }
+  },
+
+  requestPermission: async (patientPrincipal, permissions, context, purpose, expiryDate) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      // Expiry date (yyyy-mm-dd) is sent in ms; the backend converts to ns
+      const expiryOpt = expiryDate ? [BigInt(new Date(`${expiryDate}T23:59:59`).getTime())] : [];
+
+      const result = await actor.requestPermission(
+        Principal.fromText(patientPrincipal),
+        permissions.map(toBackendPermission),
+        toBackendSharingContext(context),
+        purpose,
+        expiryOpt
+      );
+      if ('ok' in result) {
+        set({ isLoading: false });
+        await get().fetchOutgoingRequests();
+        return Number(result.ok);
+      } else {
+        throw new Error(result.err || 'Failed to send permission request');
+      }
+    } catch (error: any) {
+      console.error('Error requesting permission:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  cancelRequest: async (requestId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const result = await actor.cancelPermissionRequest(BigInt(requestId));
+      if ('ok' in result) {
+        set({ isLoading: false });
+        await get().fetchOutgoingRequests();
+      } else {
+        throw new Error(result.err || 'Failed to cancel request');
+      }
+    } catch (error: any) {
+      console.error('Error cancelling permission request:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+}));
+
+export default usePermissionRequestStore;
@@ -3,6 +3,8 @@ import { create } from 'zustand';
 import { PatientProfile, HealthcareProviderProfile, Time, PermissionType, ProfilePermission } from '../types';
 import { createAuthenticatedActor } from '../services/actorService';
 import useAuthStore from './useAuthStore';
+import useSyncStore from './useSyncStore';
+import { isNetworkError, offlineReplica } from '../services/offlineReplica';
 
 interface ProfileState {
   patientProfile: PatientProfile | null;
@@ -31,7 +33,8 @@ interface ProfileState {
     emergencyContact: string,
     medicalHistory?: string | null,
     allergies?: string | null,
-    currentMedications?: string | null
+    currentMedications?: string | null,
+    bloodGroup?: string | null
   ) => Promise<void>;
   
   fetchHealthcareProviderProfile: () => Promise<void>;
@@ -71,6 +74,7 @@ interface ProfileState {
 }
 
 import { AccessLog } from '../types';
+import { toAccessLog } from './useAccessLogStore';
 
 const useProfileStore = create<ProfileState>((set, get) => ({
   // ...other methods
@@ -80,7 +84,7 @@ const useProfileStore = create<ProfileState>((set, get) => ({
       if (!identity) throw new Error('User not authenticated');
       const { actor } = await createAuthenticatedActor(identity);
       const logs = await actor.get_user_access_logs();
-      return logs;
+      return logs.map(toAccessLog);
     } catch (error: any) {
       console.error('Error fetching access logs:', error);
       return [];
@@ -140,6 +144,9 @@ const useProfileStore = create<ProfileState>((set, get) => ({
         
         if ('ok' in result) {
           const backendProfile = result.ok;
+          // Blood group is stored next to the profile rather than in it
+          const bloodGroupResult = await actor.getPatientBloodGroup();
+          const bloodGroup = 'ok' in bloodGroupResult && bloodGroupResult.ok.length ? bloodGroupResult.ok[0] : null;
           const profile: PatientProfile = {
             owner: identity.getPrincipal().toString(),
             full_name: backendProfile.fullName,
@@ -149,8 +156,10 @@ const useProfileStore = create<ProfileState>((set, get) => ({
             medical_history: backendProfile.medicalHistory?.[0] || null,
             allergies: backendProfile.allergies?.[0] || null,
             current_medications: backendProfile.medications?.[0] || null,
+            blood_group: bloodGroup,
             profile_permissions: []
           };
+          offlineReplica.saveInBackground('patientProfile', profile);
           set({ patientProfile: profile, isLoading: false });
           console.log('Patient profile fetched successfully:', profile);
         } else {
@@ -160,6 +169,14 @@ const useProfileStore = create<ProfileState>((set, get) => ({
         }
       }
     } catch (error: any) {
+      if (!patientPrincipal && isNetworkError(error)) {
+        useSyncStore.getState().markOffline();
+        const snapshot = await offlineReplica.load<PatientProfile>('patientProfile').catch(() => null);
+        if (snapshot) {
+          set({ patientProfile: snapshot.value, isLoading: false });
+          return;
+        }
+      }
       console.error("Error fetching patient profile:", error);
       set({ error: error.message, isLoading: false, patientProfile: null });
     }
@@ -198,6 +215,11 @@ const useProfileStore = create<ProfileState>((set, get) => ({
         // Handle backend errors gracefully
         console.warn('Backend error creating patient profile:', result.err);
         // Continue with placeholder profile creation for now
+      } else if (bloodGroup) {
+        const bloodGroupResult = await actor.setPatientBloodGroup([bloodGroup]);
+        if ('err' in bloodGroupResult) {
+          console.warn('Backend error saving blood group:', bloodGroupResult.err);
+        }
       }
       
       // After successful profile creation, set a proper profile object
@@ -211,6 +233,7 @@ const useProfileStore = create<ProfileState>((set, get) => ({
         medical_history: medicalHistory || null,
         allergies: allergies || null,
         current_medications: currentMedications || null,
+        blood_group: bloodGroup || null,
         profile_permissions: []
       };
       
@@ -223,7 +246,7 @@ const useProfileStore = create<ProfileState>((set, get) => ({
     }
   },
   
-  updatePatientProfile: async (fullName, dateOfBirth, contactInfo, emergencyContact, medicalHistory = null, allergies = null, currentMedications = null) => {
+  updatePatientProfile: async (fullName, dateOfBirth, contactInfo, emergencyContact, medicalHistory = null, allergies = null, currentMedications = null, bloodGroup) => {
     set({ isLoading: true, error: null });
     try {
       // Get the identity from the auth store
@@ -251,6 +274,14 @@ const useProfileStore = create<ProfileState>((set, get) => ({
       
       await actor.updatePatientProfile(patientProfile);
       
+      // Leaving the blood group out keeps whatever is stored
+      if (bloodGroup !== undefined) {
+        const bloodGroupResult = await actor.setPatientBloodGroup(bloodGroup ? [bloodGroup] : []);
+        if ('err' in bloodGroupResult) {
+          throw new Error(bloodGroupResult.err || 'Failed to save blood group');
+        }
+      }
+      
       // Update local state with the updated profile including our extended fields
       const profile: PatientProfile = {
         owner: identity.getPrincipal().toString(),
@@ -261,6 +292,7 @@ const useProfileStore = create<ProfileState>((set, get) => ({
         medical_history: medicalHistory,
         allergies: allergies,
         current_medications: currentMedications,
+        blood_group: bloodGroup !== undefined ? bloodGroup : get().patientProfile?.blood_group ?? null,
         profile_permissions: [] // New profiles start with no permissions
       };
       
@@ -299,6 +331,7 @@ const useProfileStore = create<ProfileState>((set, get) => ({
           facility_name: null, // Extended field not in backend
           facility_address: null // Extended field not in backend
         };
+        offlineReplica.saveInBackground('providerProfile', profile);
         set({ healthcareProviderProfile: profile, isLoading: false });
         console.log('Healthcare provider profile fetched successfully:', profile);
       } else {
@@ -307,6 +340,14 @@ const useProfileStore = create<ProfileState>((set, get) => ({
         console.log('No healthcare provider profile found:', result.err);
       }
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        useSyncStore.getState().markOffline();
+        const snapshot = await offlineReplica.load<HealthcareProviderProfile>('providerProfile').catch(() => null);
+        if (snapshot) {
+          set({ healthcareProviderProfile: snapshot.value, isLoading: false });
+          return;
+        }
+      }
       console.error("Error fetching healthcare provider profile:", error);
       set({ error: error.message, isLoading: false, healthcareProviderProfile: null });
     }
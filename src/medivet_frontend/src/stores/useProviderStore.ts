@@ -1,7 +1,11 @@
 import { create } from 'zustand';
 import { HealthRecord, AccessLog } from '../types';
 import useAuthStore from './useAuthStore';
+import useSyncStore from './useSyncStore';
+import { toAccessLog } from './useAccessLogStore';
 import { createAuthenticatedActor } from '../services/actorService';
+import { isNetworkError, offlineReplica } from '../services/offlineReplica';
+import { displayRecordTitle } from '../utils/recordMetadata';
 
 interface ProviderState {
   accessLogs: AccessLog[];
@@ -42,14 +46,9 @@ const useProviderStore = create<ProviderState>((set, get) => ({
       
       if ('ok' in result) {
         // Transform backend logs to frontend format
-        const transformedLogs = result.ok.map((log: any) => ({
-          id: Number(log.id),
-          record_id: Number(log.recordId),
-          provider_principal: log.provider.toString(),
-          access_time: Number(log.ts),
-          paid_amount: Number(log.paidMT),
-          action: 'Accessed'
-        }));
+        const transformedLogs: AccessLog[] = result.ok.map(toAccessLog);
+        
+        offlineReplica.saveInBackground('accessLogs', transformedLogs);
         
         set({ 
           accessLogs: transformedLogs, 
@@ -60,6 +59,14 @@ const useProviderStore = create<ProviderState>((set, get) => ({
         throw new Error(result.err || 'Failed to fetch access logs');
       }
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        useSyncStore.getState().markOffline();
+        const snapshot = await offlineReplica.load<AccessLog[]>('accessLogs').catch(() => null);
+        if (snapshot) {
+          set({ accessLogs: snapshot.value, isLoading: false, lastAccessLogsFetch: snapshot.savedAt });
+          return;
+        }
+      }
       console.error("Error fetching provider access logs:", error);
       set({ error: error.message, isLoading: false });
     }
@@ -84,7 +91,7 @@ const useProviderStore = create<ProviderState>((set, get) => ({
         // Transform backend records to frontend format
         const transformedRecords = result.ok.map((record: any) => ({
           id: Number(record.id),
-          title: record.title,
+          title: displayRecordTitle(record.title),
           category: record.category,
           provider: 'Unknown', // Backend doesn't store provider field
           record_type: record.category,
@@ -0,0 +1,185 @@
+import { create } from 'zustand';
+import { medivet_backend } from '../../../declarations/medivet_backend';
+import { ShareLink, SharedLinkRecord } from '../types';
+import useAuthStore from './useAuthStore';
+import useHealthRecordStore, { ensureRecordKey } from './useHealthRecordStore';
+import { createAuthenticatedActor } from '../services/actorService';
+import { CryptoService } from '../services/CryptoService';
+import { parseRecordBody } from '../utils/recordBody';
+import { parseRecordMetadata } from '../utils/recordMetadata';
+import { createShareLinkSecret, deriveShareLinkKeys, parseShareLink, shareLinkUrl } from '../utils/shareLink';
+
+// A link created in this session; the URL cannot be shown again because the secret is not stored
+export interface CreatedShareLink {
+  link: ShareLink;
+  url: string;
+}
+
+interface ShareLinkState {
+  links: ShareLink[];
+  linksRecordId: number | null;
+  created: CreatedShareLink | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Methods
+  fetchLinks: (recordId: number) => Promise<void>;
+  createLink: (recordId: number, expiresInMs: number, maxViews: number) => Promise<CreatedShareLink>;
+  revokeLink: (linkId: number) => Promise<void>;
+  openLink: (link: string) => Promise<SharedLinkRecord>;
+  clearCreated: () => void;
+}
+
+const toShareLink = (link: any): ShareLink => ({
+  id: Number(link.id),
+  record_id: Number(link.recordId),
+  created_at: Number(link.createdAt),
+  expires_at: Number(link.expiresAt),
+  max_views: Number(link.maxViews),
+  views: Number(link.views),
+  revoked_at: link.revokedAt.length ? Number(link.revokedAt[0]) : null,
+});
+
+/**
+ * Whether a link can still be opened
+ */
+export const isShareLinkActive = (link: ShareLink, nowMs: number = Date.now()): boolean =>
+  link.revoked_at === null && link.expires_at / 1_000_000 > nowMs && link.views < link.max_views;
+
+const useShareLinkStore = create<ShareLinkState>((set, get) => ({
+  links: [],
+  linksRecordId: null,
+  created: null,
+  isLoading: false,
+  error: null,
+
+  fetchLinks: async (recordId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const result = await actor.getShareLinks(BigInt(recordId));
+      if ('ok' in result) {
+        set({ links: result.ok.map(toShareLink), linksRecordId: recordId, isLoading: false });
+      } else {
+        throw new Error(result.err || 'Failed to fetch share links');
+      }
+    } catch (error: any) {
+      console.error('Error fetching share links:', error);
+      set({ error: error.message, isLoading: false });
+    }
+  },
+
+  createLink: async (recordId, expiresInMs, maxViews) => {
+    set({ isLoading: true, error: null, created: null });
+    try {
+      const { identity, principal } = useAuthStore.getState();
+      if (!identity || !principal) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const record = useHealthRecordStore.getState().records.find(r => r.id === recordId);
+      if (!record) throw new Error('Record not found');
+      if (record.pending_sync) throw new Error('Wait for this record to sync before sharing it');
+
+      const recordKey = await ensureRecordKey(actor, principal, record);
+      const secret = createShareLinkSecret();
+      const { token, wrappingKey } = await deriveShareLinkKeys(secret);
+      const wrappedKey = await CryptoService.wrapKey(wrappingKey, recordKey);
+
+      const expiresAtNs = BigInt(Date.now() + expiresInMs) * 1_000_000n;
+      const result = await actor.createShareLink(BigInt(recordId), token, wrappedKey, expiresAtNs, BigInt(maxViews));
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to create share link');
+      }
+
+      const link = toShareLink(result.ok);
+      const created = { link, url: shareLinkUrl(link.id, secret) };
+      set({ created, isLoading: false });
+      await get().fetchLinks(recordId);
+      return created;
+    } catch (error: any) {
+      console.error('Error creating share link:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  revokeLink: async (linkId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const { identity } = useAuthStore.getState();
+      if (!identity) throw new Error('User not authenticated');
+      const { actor } = await createAuthenticatedActor(identity);
+
+      const result = await actor.revokeShareLink(BigInt(linkId));
+      if ('ok' in result) {
+        set({ isLoading: false });
+        const { linksRecordId, created } = get();
+        if (created?.link.id === linkId) set({ created: null });
+        if (linksRecordId !== null) await get().fetchLinks(linksRecordId);
+      } else {
+        throw new Error(result.err || 'Failed to revoke share link');
+      }
+    } catch (error: any) {
+      console.error('Error revoking share link:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  // Used by the public viewer, which has no login; opening uses up one view
+  openLink: async (link) => {
+    const { linkId, secret } = parseShareLink(link);
+    const { token, wrappingKey } = await deriveShareLinkKeys(secret);
+
+    const result = await medivet_backend.openShareLink(BigInt(linkId), token);
+    if (!('ok' in result)) {
+      throw new Error(result.err || 'Failed to open share link');
+    }
+    const view = result.ok;
+    const recordId = BigInt(view.recordId);
+    const owner = view.owner.toText();
+
+    let key: CryptoKey;
+    try {
+      key = await CryptoService.unwrapKey(wrappingKey, new Uint8Array(view.wrappedKey));
+    } catch {
+      throw new Error('This share link could not unlock the record');
+    }
+    const dataKey = { key, keyVersion: Number(view.keyVersion) };
+
+    const content = await CryptoService.decryptRecordContent(
+      dataKey,
+      recordId,
+      owner,
+      CryptoService.arrayBufferToBase64(new Uint8Array(view.encryptedBlob))
+    );
+    let { title, category } = view;
+    if (view.encryptedMetadata.length) {
+      ({ title, category } = parseRecordMetadata(await CryptoService.decryptRecordContent(
+        dataKey,
+        recordId,
+        owner,
+        CryptoService.arrayBufferToBase64(new Uint8Array(view.encryptedMetadata[0])),
+        'metadata'
+      )));
+    }
+
+    return {
+      record_id: Number(view.recordId),
+      owner,
+      title,
+      category,
+      body: parseRecordBody(content),
+      updated_at: Number(view.modifiedAt),
+      expires_at: Number(view.expiresAt),
+      views_remaining: Number(view.viewsRemaining),
+    };
+  },
+
+  clearCreated: () => set({ created: null }),
+}));
+
+export default useShareLinkStore;
@@ -0,0 +1,211 @@
+import { create } from 'zustand';
+import { HealthRecord, QueuedRecordCreate, QueuedRecordUpdate, QueuedRecordWrite, RecordBody } from '../types';
+import useAuthStore from './useAuthStore';
+import { offlineReplica } from '../services/offlineReplica';
+import { recordBodyToText } from '../utils/recordBody';
+
+interface SyncState {
+  isOffline: boolean;
+  isSyncing: boolean;
+  queue: QueuedRecordWrite[];
+  queueOwner: string | null; // Principal the loaded queue belongs to
+  unreadableQueues: number; // Queues saved offline whose key was wiped; their changes cannot be synced
+  lastSyncedAt: number | null;
+  error: string | null;
+
+  // Methods
+  loadQueue: () => Promise<void>;
+  markOffline: () => void;
+  markOnline: () => void;
+  setSyncing: (isSyncing: boolean) => void;
+  queueRecordCreate: (draft: Omit<QueuedRecordCreate, 'id' | 'kind' | 'temp_record_id' | 'queued_at' | 'status' | 'error'>) => Promise<number>;
+  queueRecordUpdate: (recordId: number, baseUpdatedAt: number, body: RecordBody) => Promise<void>;
+  updateQueuedWrite: (id: string, changes: Partial<Pick<QueuedRecordWrite, 'status' | 'error'>> & { base_updated_at?: number }) => Promise<void>;
+  removeQueuedWrite: (id: string) => Promise<void>;
+  discardUnreadableQueues: () => Promise<void>;
+  reset: () => void;
+}
+
+const newWriteId = (): string => window.crypto.randomUUID();
+
+// Whether record writes should go to the queue instead of the backend right now
+export const shouldQueueWrites = (): boolean => {
+  const { isOffline, isSyncing } = useSyncStore.getState();
+  return isOffline && !isSyncing;
+};
+
+/**
+ * Shows queued writes on top of the last known records: queued creates appear under their
+ * temporary ids and queued updates replace the record's content. Safe to apply repeatedly.
+ */
+export const applyPendingWrites = (records: HealthRecord[], queue: QueuedRecordWrite[]): HealthRecord[] => {
+  const { principal } = useAuthStore.getState();
+  const updates = new Map<number, QueuedRecordUpdate>();
+  queue.forEach(write => {
+    if (write.kind === 'update') updates.set(write.record_id, write);
+  });
+
+  const overlaid = records
+    .filter(record => record.id >= 0)
+    .map(record => {
+      const update = updates.get(record.id);
+      if (!update) return record;
+      return { ...record, body: update.body, content: recordBodyToText(update.body), pending_sync: true };
+    });
+
+  const created = queue
+    .filter((write): write is QueuedRecordCreate => write.kind === 'create')
+    .map(write => ({
+      id: write.temp_record_id,
+      owner: principal ?? '',
+      title: write.title,
+      category: write.category,
+      provider: write.provider,
+      record_date: write.queued_at,
+      record_type: write.record_type,
+      encrypted_content: new Uint8Array(),
+      attachment_id: null,
+      user_permissions: [],
+      access_count: 0,
+      created_at: write.queued_at,
+      updated_at: write.queued_at,
+      content: recordBodyToText(write.body),
+      body: write.body,
+      pending_sync: true,
+    }));
+
+  return [...overlaid, ...created];
+};
+
+const useSyncStore = create<SyncState>((set, get) => {
+  // The queue is kept in the encrypted replica so it survives reloads without storing plaintext
+  const persist = async (queue: QueuedRecordWrite[]) => {
+    set({ queue });
+    try {
+      await offlineReplica.save('syncQueue', queue);
+    } catch (error: any) {
+      console.error('Failed to persist offline write queue:', error);
+      set({ error: error.message });
+    }
+  };
+
+  return {
+    isOffline: typeof navigator !== 'undefined' ? !navigator.onLine : false,
+    isSyncing: false,
+    queue: [],
+    queueOwner: null,
+    unreadableQueues: 0,
+    lastSyncedAt: null,
+    error: null,
+
+    loadQueue: async () => {
+      const { principal } = useAuthStore.getState();
+      if (!principal || get().queueOwner === principal) {
+        return;
+      }
+      try {
+        const snapshot = await offlineReplica.load<QueuedRecordWrite[]>('syncQueue');
+        set({
+          queue: snapshot?.value ?? [],
+          queueOwner: principal,
+          unreadableQueues: await offlineReplica.countUnreadableQueues(),
+        });
+      } catch (error: any) {
+        console.error('Failed to load offline write queue:', error);
+        set({ error: error.message });
+      }
+    },
+
+    markOffline: () => {
+      if (!get().isOffline) {
+        console.log('Backend unreachable, switching to the offline replica');
+        set({ isOffline: true });
+      }
+    },
+
+    markOnline: () => {
+      if (get().isOffline) {
+        console.log('Backend reachable again');
+        set({ isOffline: false, error: null });
+      }
+    },
+
+    setSyncing: (isSyncing) => {
+      set(isSyncing ? { isSyncing, error: null } : { isSyncing, lastSyncedAt: Date.now() });
+    },
+
+    queueRecordCreate: async (draft) => {
+      await get().loadQueue();
+      const queuedAt = Date.now();
+      // Never collides with backend ids, which start at zero
+      const tempRecordId = -queuedAt;
+      const write: QueuedRecordCreate = {
+        ...draft,
+        id: newWriteId(),
+        kind: 'create',
+        temp_record_id: tempRecordId,
+        queued_at: queuedAt,
+        status: 'pending',
+        error: null,
+      };
+      await persist([...get().queue, write]);
+      return tempRecordId;
+    },
+
+    queueRecordUpdate: async (recordId, baseUpdatedAt, body) => {
+      await get().loadQueue();
+      const queue = get().queue;
+
+      // Editing a record that is itself still queued just changes what will be created
+      const queuedCreate = queue.find(write => write.kind === 'create' && write.temp_record_id === recordId);
+      if (queuedCreate) {
+        await persist(queue.map(write => write === queuedCreate ? { ...write, body } : write));
+        return;
+      }
+
+      // Later edits replace earlier ones but keep the version the first edit was based on
+      const queuedUpdate = queue.find(write => write.kind === 'update' && write.record_id === recordId);
+      if (queuedUpdate) {
+        await persist(queue.map(write => write === queuedUpdate ? { ...write, body, queued_at: Date.now() } : write));
+        return;
+      }
+
+      const write: QueuedRecordUpdate = {
+        id: newWriteId(),
+        kind: 'update',
+        record_id: recordId,
+        base_updated_at: baseUpdatedAt,
+        body,
+        queued_at: Date.now(),
+        status: 'pending',
+        error: null,
+      };
+      await persist([...queue, write]);
+    },
+
+    updateQueuedWrite: async (id, changes) => {
+      await persist(get().queue.map(write => {
+        if (write.id !== id) return write;
+        const { base_updated_at, ...rest } = changes;
+        return write.kind === 'update' && base_updated_at !== undefined
+          ? { ...write, ...rest, base_updated_at }
+          : { ...write, ...rest };
+      }));
+    },
+
+    removeQueuedWrite: async (id) => {
+      await persist(get().queue.filter(write => write.id !== id));
+    },
+
+    discardUnreadableQueues: async () => {
+      await offlineReplica.discardUnreadableQueues();
+      set({ unreadableQueues: 0 });
+    },
+
+    reset: () => {
+      set({ queue: [], queueOwner: null, unreadableQueues: 0, isSyncing: false, lastSyncedAt: null, error: null });
+    },
+  };
+});
+
+export default useSyncStore;
@@ -0,0 +1,196 @@
+import { create } from 'zustand';
+import { VerificationCase, VerificationStatus } from '../types';
+import useAuthStore from './useAuthStore';
+import { createAuthenticatedActor } from '../services/actorService';
+import { fileService } from '../services/fileService';
+
+export const VERIFICATION_MAX_DOCUMENTS = 5;
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  Submitted: 'Submitted',
+  UnderReview: 'Under review',
+  Approved: 'Approved',
+  Rejected: 'Rejected',
+  Expired: 'Expired',
+};
+
+// Cases in these states can be followed by a new submission
+export const canResubmitVerification = (verificationCase: VerificationCase | null): boolean =>
+  verificationCase === null || verificationCase.status === 'Rejected' || verificationCase.status === 'Expired';
+
+interface VerificationState {
+  myCase: VerificationCase | null;
+  cases: VerificationCase[]; // Admin only, newest first
+  isLoading: boolean;
+  error: string | null;
+
+  // Methods
+  fetchMyCase: () => Promise<void>;
+  submitCase: (licenseNumber: string, specialty: string, documents: File[]) => Promise<void>;
+  fetchCases: (status?: VerificationStatus | null) => Promise<void>;
+  startReview: (caseId: number) => Promise<void>;
+  decideCase: (caseId: number, approve: boolean, note: string) => Promise<void>;
+  addNote: (caseId: number, note: string) => Promise<void>;
+  reset: () => void;
+}
+
+const variantName = (variant: Record<string, null>): string => Object.keys(variant)[0];
+
+const toVerificationCase = (c: any): VerificationCase => ({
+  id: Number(c.id),
+  provider: c.provider.toString(),
+  license_number: c.licenseNumber,
+  specialty: c.specialty,
+  documents: c.documents.map((d: any) => ({ file_name: d.fileName, kind: d.kind })),
+  status: variantName(c.status) as VerificationStatus,
+  history: c.history.map((e: any) => ({
+    status: variantName(e.status) as VerificationStatus,
+    by: e.by.toString(),
+    note: e.note.length ? e.note[0] : null,
+    at: Number(e.at),
+  })),
+  reviewer_notes: c.reviewerNotes.map((n: any) => ({
+    author: n.author.toString(),
+    text: n.text,
+    at: Number(n.at),
+  })),
+  submitted_at: Number(c.submittedAt),
+  expires_at: c.expiresAt.length ? Number(c.expiresAt[0]) : null,
+});
+
+const getActor = async () => {
+  const { identity } = useAuthStore.getState();
+  if (!identity) throw new Error('User not authenticated');
+  const { actor } = await createAuthenticatedActor(identity);
+  return actor;
+};
+
+const useVerificationStore = create<VerificationState>((set, get) => ({
+  myCase: null,
+  cases: [],
+  isLoading: false,
+  error: null,
+
+  fetchMyCase: async () => {
+    try {
+      const actor = await getActor();
+      const result = await actor.getMyVerificationCase();
+      if ('ok' in result) {
+        set({ myCase: result.ok.length ? toVerificationCase(result.ok[0]) : null });
+      } else {
+        throw new Error(result.err || 'Failed to fetch verification status');
+      }
+    } catch (error: any) {
+      console.error('Error fetching verification status:', error);
+      set({ error: error.message });
+    }
+  },
+
+  // Documents are uploaded to the provider's vault and shared with the reviewer before the case is opened
+  submitCase: async (licenseNumber, specialty, documents) => {
+    set({ isLoading: true, error: null });
+    try {
+      if (documents.length === 0 || documents.length > VERIFICATION_MAX_DOCUMENTS) {
+        throw new Error(`Attach between 1 and ${VERIFICATION_MAX_DOCUMENTS} license documents`);
+      }
+      const actor = await getActor();
+      const reviewer = (await actor.getVerificationReviewer()).toString();
+
+      const uploaded = [];
+      for (const document of documents) {
+        // Vault file names are unique per owner
+        const fileName = `license-${Date.now()}-${document.name}`;
+        await fileService.uploadFile(new File([document], fileName, { type: document.type }));
+        await fileService.shareFile({ fileName, targetUser: reviewer, canDownload: true, canView: true });
+        uploaded.push({ fileName, kind: 'Medical license' });
+      }
+
+      const result = await actor.submitVerificationCase(licenseNumber.trim().toUpperCase(), specialty, uploaded);
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to submit verification case');
+      }
+      set({ myCase: toVerificationCase(result.ok), isLoading: false });
+    } catch (error: any) {
+      console.error('Error submitting verification case:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  fetchCases: async (status = null) => {
+    set({ isLoading: true, error: null });
+    try {
+      const actor = await getActor();
+      const result = await actor.adminListVerificationCases(status === null ? [] : [{ [status]: null }]);
+      if ('ok' in result) {
+        set({ cases: result.ok.map(toVerificationCase), isLoading: false });
+      } else {
+        throw new Error(result.err || 'Failed to fetch verification cases');
+      }
+    } catch (error: any) {
+      console.error('Error fetching verification cases:', error);
+      set({ error: error.message, isLoading: false });
+    }
+  },
+
+  startReview: async (caseId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const actor = await getActor();
+      const result = await actor.startVerificationReview(BigInt(caseId));
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to start review');
+      }
+      const updated = toVerificationCase(result.ok);
+      set({ cases: get().cases.map(c => (c.id === caseId ? updated : c)), isLoading: false });
+    } catch (error: any) {
+      console.error('Error starting verification review:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  decideCase: async (caseId, approve, note) => {
+    set({ isLoading: true, error: null });
+    try {
+      const actor = await getActor();
+      const result = await actor.decideVerificationCase(
+        BigInt(caseId),
+        approve ? { Approve: null } : { Reject: null },
+        note.trim() ? [note.trim()] : []
+      );
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to decide verification case');
+      }
+      const updated = toVerificationCase(result.ok);
+      set({ cases: get().cases.map(c => (c.id === caseId ? updated : c)), isLoading: false });
+    } catch (error: any) {
+      console.error('Error deciding verification case:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  addNote: async (caseId, note) => {
+    set({ isLoading: true, error: null });
+    try {
+      const actor = await getActor();
+      const result = await actor.addVerificationNote(BigInt(caseId), note);
+      if (!('ok' in result)) {
+        throw new Error(result.err || 'Failed to add note');
+      }
+      const updated = toVerificationCase(result.ok);
+      set({ cases: get().cases.map(c => (c.id === caseId ? updated : c)), isLoading: false });
+    } catch (error: any) {
+      console.error('Error adding verification note:', error);
+      set({ error: error.message, isLoading: false });
+      throw error;
+    }
+  },
+
+  reset: () => {
+    set({ myCase: null, cases: [], isLoading: false, error: null });
+  },
+}));
+
+export default useVerificationStore;
@@ -6,22 +6,44 @@ export type NoteId = number;
 export type Time = bigint;
 
 // Access control types
-export enum AccessAction {
-  View = 'View',
-  Create = 'Create',
-  Update = 'Update',
-  Delete = 'Delete',
-  GrantAccess = 'GrantAccess',
-  RevokeAccess = 'RevokeAccess'
-}
+export type AccessAction =
+  | 'View'
+  | 'KeyIssued' // A record data key was handed out
+  | 'Grant'
+  | 'Revoke'
+  | 'Purchase'
+  | 'Emergency' // Break-glass access was opened
+  | 'ProfileView'
+  | 'Create' // A caregiver added a record
+  | 'KeyDerived' // A vetKD key for a shared record was derived for the accessor
+  | 'KeyDenied'; // ...or refused
 
 export interface AccessLog {
   id: number;
-  record_id: number;
-  provider_principal: PrincipalName;
+  patient: PrincipalName;
+  record_id: number | null; // null for profile, emergency and record-list access
+  accessor: PrincipalName; // Provider, grantee, caregiver or anonymous share link recipient
   access_time: number; // nanoseconds timestamp from backend
   paid_amount: number;
-  action: string;
+  action: AccessAction;
+  reason: string | null; // Why a key derivation was allowed or refused
+}
+
+export interface AccessLogFilter {
+  action: AccessAction | null;
+  accessor: PrincipalName | null;
+  from_ms: number | null;
+  to_ms: number | null;
+}
+
+// Outcome of walking the access log hash chain against its certified head
+export interface AccessLogVerification {
+  verified: boolean;
+  chain_length: number;
+  own_entries: number; // The patient's entries re-hashed during this walk
+  resumed_from: number; // Chain position of the checkpoint the walk started from
+  problems: string[];
+  checked_at: number; // milliseconds
 }
 
 // User profile types
@@ -42,6 +64,7 @@ export interface PatientProfile {
   medical_history: string | null;
   allergies: string | null;
   current_medications: string | null;
+  blood_group?: string | null;
   profile_permissions: ProfilePermission[];
 }
 
@@ -106,8 +129,364 @@ export interface HealthRecord {
   created_at: number;
   updated_at: number;
   content?: string; // Decrypted content for display
+  body?: RecordBody; // Parsed structured body, set after decryption
+  metadata_encrypted?: boolean; // Title and category are encrypted; the fields above hold decrypted values
+  public_category?: string; // Coarse category stored in plaintext for records with encrypted metadata
+  pending_sync?: boolean; // Has a queued offline write not yet replayed to the backend
+}
+
+// Structured record body types (serialized before encryption)
+export enum RecordBodyType {
+  PlainText = 'plain_text',
+  LabPanel = 'lab_panel',
+  Prescription = 'prescription',
+  VisitNote = 'visit_note',
+  Immunization = 'immunization',
+  VitalSigns = 'vital_signs',
+  ImagingReport = 'imaging_report'
+}
+
+export interface PlainTextBody {
+  type: RecordBodyType.PlainText;
+  text: string;
 }
 
+export type LabResultFlag = 'normal' | 'low' | 'high' | 'critical' | '';
+
+export interface LabResultEntry {
+  test: string;
+  value: string;
+  unit: string;
+  reference_range: string;
+  flag: LabResultFlag;
+}
+
+export interface LabPanelBody {
+  type: RecordBodyType.LabPanel;
+  panel_name: string;
+  collected_at: string; // yyyy-mm-dd
+  results: LabResultEntry[];
+  notes: string;
+}
+
+export interface PrescriptionBody {
+  type: RecordBodyType.Prescription;
+  medication: string;
+  dosage: string;
+  frequency: string;
+  route: string;
+  start_date: string;
+  end_date: string;
+  prescriber: string;
+  instructions: string;
+}
+
+export interface VisitNoteBody {
+  type: RecordBodyType.VisitNote;
+  visit_date: string;
+  chief_complaint: string;
+  subjective: string;
+  objective: string;
+  assessment: string;
+  plan: string;
+  diagnoses: string[];
+}
+
+export interface ImmunizationBody {
+  type: RecordBodyType.Immunization;
+  vaccine: string;
+  dose_number: string;
+  administered_at: string;
+  lot_number: string;
+  site: string;
+  administered_by: string;
+}
+
+export interface VitalSignsBody {
+  type: RecordBodyType.VitalSigns;
+  measured_at: string;
+  systolic: number | null;
+  diastolic: number | null;
+  heart_rate: number | null;
+  respiratory_rate: number | null;
+  temperature_c: number | null;
+  oxygen_saturation: number | null;
+  weight_kg: number | null;
+  height_cm: number | null;
+}
+
+export interface ImagingReportBody {
+  type: RecordBodyType.ImagingReport;
+  modality: string;
+  body_part: string;
+  performed_at: string;
+  findings: string;
+  impression: string;
+  radiologist: string;
+}
+
+export type RecordBody =
+  | PlainTextBody
+  | LabPanelBody
+  | PrescriptionBody
+  | VisitNoteBody
+  | ImmunizationBody
+  | VitalSignsBody
+  | ImagingReportBody;
+
+// Context a provider gives when asking for (or a patient grants) access
+export type SharingContext =
+  | { type: 'consultation'; appointment_id: number | null; purpose: string }
+  | { type: 'emergency'; severity: string; contact_info: string }
+  | { type: 'second_opinion'; requesting_provider: PrincipalName }
+  | { type: 'research'; study_id: string; consent: boolean }
+  | { type: 'referral'; referring_provider: PrincipalName; target_specialty: string }
+  | { type: 'general'; purpose: string };
+
+export type PermissionRequestStatus = 'Pending' | 'Approved' | 'Denied' | 'Expired' | 'Cancelled';
+
+// Provider request for access to a patient's records
+export interface PermissionRequest {
+  id: number;
+  requester: PrincipalName;
+  patient: PrincipalName;
+  requested_permissions: PermissionType[];
+  context: SharingContext;
+  purpose: string;
+  requested_at: number; // nanoseconds timestamp from backend
+  requested_expiry: number | null; // nanoseconds timestamp from backend
+  status: PermissionRequestStatus;
+  patient_response: string | null;
+  responded_at: number | null;
+}
+
+// Break-glass emergency access by a whitelisted provider
+export interface EmergencyAccessEvent {
+  id: number;
+  provider: PrincipalName;
+  patient: PrincipalName;
+  justification: string;
+  severity: string;
+  permissions: PermissionType[];
+  granted_at: number; // nanoseconds timestamp from backend
+  expires_at: number; // nanoseconds timestamp from backend
+  reviewed_at: number | null;
+  revoked: boolean;
+  active: boolean;
+}
+
+export interface KeyRotationStatus {
+  epoch: number;
+  rotation_started_at: number | null; // nanoseconds timestamp; set while a rotation is in progress
+  total_records: number;
+  pending_record_ids: number[];
+}
+
+export interface KeyRotationFailure {
+  kind: 'record' | 'file';
+  id: string; // record id or file name
+  label: string;
+  error: string;
+}
+
+export interface KeyRotationProgress {
+  phase: 'records' | 'files' | 'finalizing';
+  total: number;
+  completed: number;
+  failures: KeyRotationFailure[];
+}
+
+// Wallet emergency card registered on the backend
+export interface EmergencyCard {
+  id: number;
+  public_key: Uint8Array; // SPKI ECDSA P-256 key that signed the card
+  profile_version: number;
+  issued_at: number; // nanoseconds timestamp from backend
+  revoked_at: number | null; // nanoseconds timestamp from backend
+}
+
+export interface EmergencyCardOverview {
+  profile_version: number; // Cards generated from an older version are stale
+  cards: EmergencyCard[];
+}
+
+// Backend answer for a scanned card, when the reader is online
+export interface EmergencyCardCheck {
+  issued_at: number; // nanoseconds timestamp from backend
+  stale: boolean;
+  revoked: boolean;
+}
+
+// Time-limited link to a record for a recipient without a MediVet account
+export interface ShareLink {
+  id: number;
+  record_id: number;
+  created_at: number; // nanoseconds timestamp from backend
+  expires_at: number; // nanoseconds timestamp from backend
+  max_views: number;
+  views: number;
+  revoked_at: number | null; // nanoseconds timestamp from backend
+}
+
+// Record as decrypted by a share link recipient
+export interface SharedLinkRecord {
+  record_id: number;
+  owner: PrincipalName;
+  title: string;
+  category: string;
+  body: RecordBody;
+  updated_at: number; // nanoseconds timestamp from backend
+  expires_at: number; // nanoseconds timestamp from backend
+  views_remaining: number;
+}
+
+// Actions a patient can let a caregiver take on their behalf
+export type DelegationScope = 'ViewRecords' | 'CreateRecords';
+
+// A patient's grant letting a caregiver or guardian act for them
+export interface CaregiverDelegation {
+  id: number;
+  patient: PrincipalName;
+  caregiver: PrincipalName;
+  scopes: DelegationScope[];
+  relationship: string;
+  granted_at: number; // nanoseconds timestamp from backend
+  expires_at: number | null; // nanoseconds timestamp from backend
+  revoked_at: number | null; // nanoseconds timestamp from backend
+}
+
+// Patient the current user can act for
+export interface Dependent {
+  delegation: CaregiverDelegation;
+  patient_name: string | null;
+  key_epoch: number;
+}
+
+export type DelegateAction = 'ListRecords' | 'ReadRecord' | 'CreateRecord';
+
+export interface DelegateActivity {
+  id: number;
+  delegation_id: number;
+  patient: PrincipalName;
+  caregiver: PrincipalName;
+  action: DelegateAction;
+  record_id: number | null;
+  occurred_at: number; // nanoseconds timestamp from backend
+}
+
+export type BackendRole = 'Patient' | 'Provider' | 'Admin';
+
+export interface UserSuspension {
+  reason: string;
+  suspended_by: PrincipalName;
+  suspended_at: number; // nanoseconds timestamp from backend
+}
+
+// A user as listed in the admin console
+export interface AdminUser {
+  id: PrincipalName;
+  role: BackendRole;
+  name: string | null;
+  contact: string | null;
+  license: string | null; // Providers only
+  specialty: string | null; // Providers only
+  reputation: number;
+  whitelisted: boolean;
+  onboarded: boolean;
+  suspension: UserSuspension | null;
+}
+
+export interface FlaggedRecord {
+  record_id: number;
+  owner: PrincipalName;
+  title: string; // Empty when the title is encrypted
+  category: string;
+  created_at: number; // nanoseconds timestamp from backend
+  flagged_at: number | null; // null for records flagged before flags were tracked
+  flagged_by: PrincipalName | null;
+}
+
+export type FlagResolution = 'Cleared' | 'Removed';
+
+export interface PlatformStats {
+  total_users: number;
+  patients: number;
+  providers: number;
+  admins: number;
+  whitelisted_providers: number;
+  suspended_users: number;
+  total_records: number;
+  flagged_records: number;
+  active_listings: number;
+  completed_purchases: number;
+  marketplace_volume: bigint; // MDT base units
+}
+
+// Submitted -> UnderReview -> Approved | Rejected; an approval lapses to Expired
+export type VerificationStatus = 'Submitted' | 'UnderReview' | 'Approved' | 'Rejected' | 'Expired';
+
+// A license document in the provider's vault, shared with the reviewer
+export interface VerificationDocument {
+  file_name: string;
+  kind: string;
+}
+
+export interface VerificationEvent {
+  status: VerificationStatus;
+  by: PrincipalName;
+  note: string | null;
+  at: number; // nanoseconds timestamp from backend
+}
+
+export interface ReviewerNote {
+  author: PrincipalName;
+  text: string;
+  at: number; // nanoseconds timestamp from backend
+}
+
+// Evidence behind a provider's whitelisting
+export interface VerificationCase {
+  id: number;
+  provider: PrincipalName;
+  license_number: string;
+  specialty: string;
+  documents: VerificationDocument[];
+  status: VerificationStatus;
+  history: VerificationEvent[];
+  reviewer_notes: ReviewerNote[]; // Always empty for the provider
+  submitted_at: number; // nanoseconds timestamp from backend
+  expires_at: number | null; // nanoseconds timestamp from backend, set on approval
+}
+
+// Record writes made while the backend was unreachable, replayed on reconnect
+export type QueuedWriteStatus = 'pending' | 'conflict' | 'failed';
+
+interface QueuedWriteBase {
+  id: string;
+  queued_at: number;
+  status: QueuedWriteStatus;
+  error: string | null;
+  body: RecordBody;
+}
+
+export interface QueuedRecordCreate extends QueuedWriteBase {
+  kind: 'create';
+  temp_record_id: number; // Negative placeholder id shown until the record exists in the backend
+  title: string;
+  category: string;
+  provider: string;
+  record_type: string;
+  encrypt_metadata: boolean;
+}
+
+export interface QueuedRecordUpdate extends QueuedWriteBase {
+  kind: 'update';
+  record_id: number;
+  base_updated_at: number; // updated_at (backend modifiedAt) of the version that was edited
+}
+
+export type QueuedRecordWrite = QueuedRecordCreate | QueuedRecordUpdate;
+
 // Permission preset configurations for easy sharing
 export const PermissionPresets = {
   VIEW_ONLY: [
@@ -0,0 +1,129 @@
+/**
+ * Tamper-evident access log
+ *
+ * The backend appends every access log entry to a SHA-256 hash chain: each link carries the head
+ * before it and the digest of the entry, and the head after it is SHA-256(prevHash || digest). The
+ * current head is published as the canister's certified data.
+ *
+ * A patient verifies by walking the chain page by page. Their own entries arrive in full and are
+ * re-hashed here; everyone else's arrive as digests only. The walk must have no gaps, every link
+ * must point at the head before it, and the final head must match the certified one.
+ *
+ * A certificate only proves what the canister claims right now. Rewritten history is caught by the
+ * checkpoint this browser keeps: the head at the position verified last time must still be the
+ * head at that position, so later walks resume from it instead of starting over.
+ */
+import { Certificate, HttpAgent } from '@dfinity/agent';
+import { Principal } from '@dfinity/principal';
+
+export const ACCESS_LOG_CHAIN_PAGE_SIZE = 500;
+export const GENESIS_HEAD = new Uint8Array(32);
+
+const CHECKPOINT_PREFIX = 'accessLogCheckpoint:';
+
+// An entry as the backend returns it; the timestamp must stay a bigint to hash the same text
+export interface ChainedAccessLogEntry {
+  id: bigint;
+  patient: Principal;
+  recordId: [] | [bigint];
+  accessor: Principal;
+  action: Record<string, null | string>; // Key derivations carry a reason
+  paidMT: bigint;
+  ts: bigint;
+}
+
+export interface ChainCheckpoint {
+  length: number;
+  head: string; // hex
+}
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer => new Uint8Array(bytes).buffer;
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+// Mirrors _accessActionText in the backend
+const actionText = (action: Record<string, null | string>): string => {
+  const [name, reason] = Object.entries(action)[0];
+  return typeof reason === 'string' ? `${name}:${reason}` : name;
+};
+
+/**
+ * Mirrors _accessLogEntryText in the backend
+ */
+export function accessLogEntryText(entry: ChainedAccessLogEntry): string {
+  return [
+    entry.id.toString(),
+    entry.patient.toText(),
+    entry.recordId.length ? entry.recordId[0].toString() : '-',
+    entry.accessor.toText(),
+    actionText(entry.action),
+    entry.paidMT.toString(),
+    entry.ts.toString(),
+  ].join('|');
+}
+
+export async function digestAccessLogEntry(entry: ChainedAccessLogEntry): Promise<Uint8Array> {
+  const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(accessLogEntryText(entry)));
+  return new Uint8Array(digest);
+}
+
+export async function nextChainHead(prevHash: Uint8Array, digest: Uint8Array): Promise<Uint8Array> {
+  const input = new Uint8Array(prevHash.length + digest.length);
+  input.set(prevHash);
+  input.set(digest, prevHash.length);
+  return new Uint8Array(await window.crypto.subtle.digest('SHA-256', input));
+}
+
+/**
+ * The canister's certified data, or null if the certificate does not verify against the agent's root key
+ */
+export async function readCertifiedData(
+  certificate: Uint8Array,
+  agent: HttpAgent,
+  canisterId: Principal
+): Promise<Uint8Array | null> {
+  try {
+    const cert = await Certificate.create({
+      certificate: toArrayBuffer(certificate),
+      rootKey: agent.rootKey,
+      canisterId,
+    });
+    const data = cert.lookup(['canister', toArrayBuffer(canisterId.toUint8Array()), 'certified_data']);
+    return data ? new Uint8Array(data) : null;
+  } catch (error) {
+    console.warn('Access log certificate did not verify:', error);
+    return null;
+  }
+}
+
+export function loadChainCheckpoint(patient: string): ChainCheckpoint | null {
+  try {
+    const stored = localStorage.getItem(`${CHECKPOINT_PREFIX}${patient}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Kept across logouts: the checkpoint holds no secrets and is only useful if it outlives the session
+export function saveChainCheckpoint(patient: string, checkpoint: ChainCheckpoint): void {
+  try {
+    localStorage.setItem(`${CHECKPOINT_PREFIX}${patient}`, JSON.stringify(checkpoint));
+  } catch (error) {
+    console.warn('Failed to save access log checkpoint:', error);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Self-describing ciphertext envelope for record content: a fixed header naming the
+ * format version, algorithm and key, followed by the AES-GCM IV and ciphertext
+ *
+ * Layout (big-endian):
+ *   magic "MDVE" (4) | version (1) | algorithm (1) | key kind (1) | key epoch (4) | key id (8) | IV (12) | ciphertext
+ *
+ * The header, the record identity (record id + owner) and the purpose of the plaintext are
+ * the AES-GCM associated data, so editing the header or moving ciphertext to another record,
+ * or between a record's content and its metadata, fails authentication.
+ * Content written before the envelope existed is a bare IV || ciphertext.
+ */
+
+export const ENVELOPE_MAGIC = new Uint8Array([0x4d, 0x44, 0x56, 0x45]);
+export const ENVELOPE_VERSION = 1;
+export const ENVELOPE_IV_LENGTH = 12;
+
+export enum EnvelopeAlgorithm {
+  AesGcm256 = 1,
+}
+
+export enum EnvelopeKeyKind {
+  // Content encrypted directly with the owner's vetKeys-derived user key
+  UserKey = 1,
+  // Content encrypted with the record's own data key
+  RecordKey = 2,
+}
+
+// What a record envelope holds: the record body or its encrypted title and category
+export type EnvelopePurpose = 'record' | 'metadata';
+
+export interface EnvelopeHeader {
+  version: number;
+  algorithm: EnvelopeAlgorithm;
+  keyKind: EnvelopeKeyKind;
+  // User key epoch: the epoch of the user key itself, or the one that wraps the data key
+  keyEpoch: number;
+  // Record id for record data keys, 0 for user keys
+  keyId: bigint;
+}
+
+export interface ParsedEnvelope {
+  header: EnvelopeHeader;
+  headerBytes: Uint8Array<ArrayBuffer>;
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: Uint8Array<ArrayBuffer>;
+}
+
+const HEADER_LENGTH = ENVELOPE_MAGIC.length + 1 + 1 + 1 + 4 + 8;
+
+export function encodeEnvelopeHeader(header: EnvelopeHeader): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(HEADER_LENGTH);
+  const view = new DataView(bytes.buffer);
+  bytes.set(ENVELOPE_MAGIC, 0);
+  let offset = ENVELOPE_MAGIC.length;
+  view.setUint8(offset++, header.version);
+  view.setUint8(offset++, header.algorithm);
+  view.setUint8(offset++, header.keyKind);
+  view.setUint32(offset, header.keyEpoch);
+  offset += 4;
+  view.setBigUint64(offset, header.keyId);
+  return bytes;
+}
+
+/**
+ * Concatenates header, IV and ciphertext into the stored form
+ */
+export function buildEnvelope(headerBytes: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array): Uint8Array<ArrayBuffer> {
+  const envelope = new Uint8Array(headerBytes.length + iv.length + ciphertext.length);
+  envelope.set(headerBytes, 0);
+  envelope.set(iv, headerBytes.length);
+  envelope.set(ciphertext, headerBytes.length + iv.length);
+  return envelope;
+}
+
+/**
+ * Splits stored bytes into header, IV and ciphertext
+ * @returns null for legacy headerless content
+ * @throws if the bytes carry the magic but an unsupported version, algorithm or key kind
+ */
+export function parseEnvelope(bytes: Uint8Array): ParsedEnvelope | null {
+  if (bytes.length < HEADER_LENGTH + ENVELOPE_IV_LENGTH + 1) {
+    return null;
+  }
+  if (!ENVELOPE_MAGIC.every((byte, i) => bytes[i] === byte)) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = ENVELOPE_MAGIC.length;
+  const version = view.getUint8(offset++);
+  const algorithm = view.getUint8(offset++);
+  const keyKind = view.getUint8(offset++);
+  const keyEpoch = view.getUint32(offset);
+  offset += 4;
+  const keyId = view.getBigUint64(offset);
+
+  if (version !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported ciphertext envelope version ${version}`);
+  }
+  if (!(algorithm in EnvelopeAlgorithm)) {
+    throw new Error(`Unsupported ciphertext algorithm ${algorithm}`);
+  }
+  if (!(keyKind in EnvelopeKeyKind)) {
+    throw new Error(`Unsupported ciphertext key kind ${keyKind}`);
+  }
+
+  return {
+    header: { version, algorithm, keyKind, keyEpoch, keyId },
+    headerBytes: bytes.slice(0, HEADER_LENGTH),
+    iv: bytes.slice(HEADER_LENGTH, HEADER_LENGTH + ENVELOPE_IV_LENGTH),
+    ciphertext: bytes.slice(HEADER_LENGTH + ENVELOPE_IV_LENGTH),
+  };
+}
+
+/**
+ * Associated data binding the header to a record, its owner and the plaintext's purpose
+ */
+export function envelopeAdditionalData(
+  headerBytes: Uint8Array,
+  recordId: bigint,
+  owner: string,
+  purpose: EnvelopePurpose = 'record'
+): Uint8Array<ArrayBuffer> {
+  const binding = new TextEncoder().encode(`medivet.${purpose}:${recordId}:${owner}`);
+  const aad = new Uint8Array(headerBytes.length + binding.length);
+  aad.set(headerBytes, 0);
+  aad.set(binding, headerBytes.length);
+  return aad;
+}
@@ -0,0 +1,43 @@
+/**
+ * Utility functions for building and downloading CSV files
+ */
+
+type CsvValue = string | number | bigint | boolean | null | undefined;
+
+// Leading characters that make spreadsheet apps evaluate a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escapes a single CSV cell per RFC 4180 (quotes, commas and newlines). Text that a
+ * spreadsheet would read as a formula is prefixed with an apostrophe so it stays text.
+ */
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds CSV text from a header row and data rows
+ *
+ * @param headers - Column names
+ * @param rows - Row values in header order
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+/**
+ * Triggers a browser download of CSV text
+ */
+export function downloadCsv(csv: string, fileName: string): void {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
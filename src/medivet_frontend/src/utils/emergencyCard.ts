@@ -0,0 +1,209 @@
+/**
+ * Emergency wallet card: a patient's critical info in a QR code that a paramedic can read
+ * without logging in or reaching the network
+ *
+ * The QR code holds a link to the read-only /emergency-card route with the card in the URL
+ * fragment, which browsers never send to a server. The card is `MVEC1.` followed by base64url
+ * JSON that is either the signed card or the signed card encrypted under a PIN.
+ *
+ * Each card is signed with a one-off ECDSA P-256 key whose public half is carried in the card and
+ * registered on the backend. The signature alone only shows the card is internally consistent:
+ * anyone can edit a card and re-sign it with a fresh key, so an offline read is unauthenticated.
+ * Only the online check, which matches the key against the patient's registration, proves who
+ * generated the card and whether it is stale or revoked.
+ */
+
+export const EMERGENCY_CARD_SCHEMA = 'medivet.emergency-card';
+export const EMERGENCY_CARD_VERSION = 1;
+export const EMERGENCY_CARD_PREFIX = 'MVEC1.';
+export const EMERGENCY_CARD_ROUTE = '/emergency-card';
+
+// Mirrors BLOOD_GROUPS in the backend
+export const BLOOD_GROUPS = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-', 'unknown'] as const;
+
+export const CARD_PIN_MIN_LENGTH = 4;
+const PIN_KDF_ITERATIONS = 210_000;
+
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+export interface EmergencyCardPayload {
+  schema: typeof EMERGENCY_CARD_SCHEMA;
+  version: number;
+  card_id: number;
+  patient: string;
+  issued_at: number; // milliseconds
+  profile_version: number;
+  full_name: string;
+  date_of_birth: string;
+  blood_group: string | null;
+  allergies: string | null;
+  current_medications: string | null;
+  emergency_contact: string;
+}
+
+// Payload JSON exactly as signed, so verification never depends on re-serialization
+interface SignedCard {
+  payload: string;
+  public_key: string; // base64url SPKI
+  signature: string; // base64url raw r || s
+}
+
+interface PinSealedCard {
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+type CardWrapper = { signed: SignedCard } | { sealed: PinSealedCard };
+
+export interface VerifiedEmergencyCard {
+  payload: EmergencyCardPayload;
+  publicKey: Uint8Array<ArrayBuffer>;
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array<ArrayBuffer> => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const derivePinKey = async (pin: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> => {
+  const material = await window.crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+  return window.crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PIN_KDF_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Creates the one-off signing key for a new card
+ * @returns the key pair and its SPKI public key, which is registered before signing
+ */
+export async function generateCardSigningKey(): Promise<{ keyPair: CryptoKeyPair; publicKey: Uint8Array<ArrayBuffer> }> {
+  // The private key never leaves WebCrypto and is dropped once the card is signed
+  const keyPair = await window.crypto.subtle.generateKey(SIGNING_ALGORITHM, false, ['sign', 'verify']);
+  const publicKey = new Uint8Array(await window.crypto.subtle.exportKey('spki', keyPair.publicKey));
+  return { keyPair, publicKey };
+}
+
+/**
+ * Signs a card payload and encodes it for the QR code, encrypting it when a PIN is given
+ */
+export async function encodeEmergencyCard(
+  payload: EmergencyCardPayload,
+  keyPair: CryptoKeyPair,
+  pin?: string
+): Promise<string> {
+  const payloadJson = JSON.stringify(payload);
+  const signature = new Uint8Array(
+    await window.crypto.subtle.sign(SIGNATURE_PARAMS, keyPair.privateKey, new TextEncoder().encode(payloadJson))
+  );
+  const publicKey = new Uint8Array(await window.crypto.subtle.exportKey('spki', keyPair.publicKey));
+  const signed: SignedCard = { payload: payloadJson, public_key: toBase64Url(publicKey), signature: toBase64Url(signature) };
+
+  let wrapper: CardWrapper = { signed };
+  if (pin) {
+    if (pin.length < CARD_PIN_MIN_LENGTH) {
+      throw new Error(`The PIN must be at least ${CARD_PIN_MIN_LENGTH} characters`);
+    }
+    const salt = window.crypto.getRandomValues(new Uint8Array(16));
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = new Uint8Array(await window.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await derivePinKey(pin, salt),
+      new TextEncoder().encode(JSON.stringify(signed))
+    ));
+    wrapper = { sealed: { salt: toBase64Url(salt), iv: toBase64Url(iv), ciphertext: toBase64Url(ciphertext) } };
+  }
+
+  return EMERGENCY_CARD_PREFIX + toBase64Url(new TextEncoder().encode(JSON.stringify(wrapper)));
+}
+
+/**
+ * Link to the read-only reader with the card in the fragment
+ */
+export function emergencyCardUrl(encoded: string, origin: string = window.location.origin): string {
+  return `${origin}${EMERGENCY_CARD_ROUTE}#${encoded}`;
+}
+
+const parseWrapper = (encoded: string): CardWrapper => {
+  const trimmed = encoded.trim().replace(/^.*#/, '');
+  if (!trimmed.startsWith(EMERGENCY_CARD_PREFIX)) {
+    throw new Error('Not a MediVet emergency card');
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(fromBase64Url(trimmed.slice(EMERGENCY_CARD_PREFIX.length))));
+  } catch {
+    throw new Error('The emergency card is damaged or incomplete');
+  }
+};
+
+/**
+ * Whether an encoded card needs a PIN before it can be read
+ */
+export function isPinProtectedCard(encoded: string): boolean {
+  return 'sealed' in parseWrapper(encoded);
+}
+
+/**
+ * Decodes a card and checks its signature against the key the card carries. Works offline, but a
+ * valid result does not authenticate the card; that takes the online registration check.
+ * @throws if a PIN is needed but missing or wrong, the signature does not match or the payload is malformed
+ */
+export async function decodeEmergencyCard(encoded: string, pin?: string): Promise<VerifiedEmergencyCard> {
+  const wrapper = parseWrapper(encoded);
+
+  let signed: SignedCard;
+  if ('sealed' in wrapper) {
+    if (!pin) {
+      throw new Error('This card is protected with a PIN');
+    }
+    try {
+      const plaintext = await window.crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64Url(wrapper.sealed.iv) },
+        await derivePinKey(pin, fromBase64Url(wrapper.sealed.salt)),
+        fromBase64Url(wrapper.sealed.ciphertext)
+      );
+      signed = JSON.parse(new TextDecoder().decode(plaintext));
+    } catch {
+      throw new Error('Incorrect PIN');
+    }
+  } else {
+    signed = wrapper.signed;
+  }
+
+  const publicKey = fromBase64Url(signed.public_key);
+  const verifyKey = await window.crypto.subtle.importKey('spki', publicKey, SIGNING_ALGORITHM, false, ['verify']);
+  const valid = await window.crypto.subtle.verify(
+    SIGNATURE_PARAMS,
+    verifyKey,
+    fromBase64Url(signed.signature),
+    new TextEncoder().encode(signed.payload)
+  );
+  if (!valid) {
+    throw new Error('The card signature does not match its contents');
+  }
+
+  const payload = JSON.parse(signed.payload) as EmergencyCardPayload;
+  if (payload.schema !== EMERGENCY_CARD_SCHEMA) {
+    throw new Error('Not a MediVet emergency card');
+  }
+  if (payload.version !== EMERGENCY_CARD_VERSION) {
+    throw new Error(`Unsupported emergency card version ${payload.version}`);
+  }
+  return { payload, publicKey };
+}
@@ -0,0 +1,121 @@
+/**
+ * Mapping between frontend permission/sharing types and the backend's Candid variants
+ */
+import { Principal } from '@dfinity/principal';
+import { PermissionType, SharingContext } from '../types';
+
+const PERMISSION_VARIANTS: Record<PermissionType, string> = {
+  [PermissionType.READ_BASIC_INFO]: 'ReadBasicInfo',
+  [PermissionType.READ_MEDICAL_HISTORY]: 'ReadMedicalHistory',
+  [PermissionType.READ_MEDICATIONS]: 'ReadMedications',
+  [PermissionType.READ_ALLERGIES]: 'ReadAllergies',
+  [PermissionType.READ_LAB_RESULTS]: 'ReadLabResults',
+  [PermissionType.READ_IMAGING]: 'ReadImaging',
+  [PermissionType.READ_MENTAL_HEALTH]: 'ReadMentalHealth',
+  [PermissionType.WRITE_NOTES]: 'WriteNotes',
+  [PermissionType.WRITE_PRESCRIPTIONS]: 'WritePrescriptions',
+  [PermissionType.EMERGENCY_ACCESS]: 'EmergencyAccess',
+};
+
+/**
+ * Human-readable labels for permission types
+ */
+export const PERMISSION_LABELS: Record<PermissionType, string> = {
+  [PermissionType.READ_BASIC_INFO]: 'Basic information',
+  [PermissionType.READ_MEDICAL_HISTORY]: 'Medical history',
+  [PermissionType.READ_MEDICATIONS]: 'Medications',
+  [PermissionType.READ_ALLERGIES]: 'Allergies',
+  [PermissionType.READ_LAB_RESULTS]: 'Lab results',
+  [PermissionType.READ_IMAGING]: 'Imaging',
+  [PermissionType.READ_MENTAL_HEALTH]: 'Mental health',
+  [PermissionType.WRITE_NOTES]: 'Write notes',
+  [PermissionType.WRITE_PRESCRIPTIONS]: 'Write prescriptions',
+  [PermissionType.EMERGENCY_ACCESS]: 'Emergency access',
+};
+
+export const toBackendPermission = (permission: PermissionType): Record<string, null> => {
+  const variant = PERMISSION_VARIANTS[permission];
+  if (!variant) throw new Error(`Unknown permission: ${permission}`);
+  return { [variant]: null };
+};
+
+export const fromBackendPermission = (variant: Record<string, null>): PermissionType => {
+  const key = Object.keys(variant)[0];
+  const match = (Object.keys(PERMISSION_VARIANTS) as PermissionType[])
+    .find(permission => PERMISSION_VARIANTS[permission] === key);
+  if (!match) throw new Error(`Unknown permission variant: ${key}`);
+  return match;
+};
+
+export const toBackendSharingContext = (context: SharingContext): any => {
+  switch (context.type) {
+    case 'consultation':
+      return {
+        Consultation: {
+          appointmentId: context.appointment_id !== null ? [BigInt(context.appointment_id)] : [],
+          purpose: context.purpose,
+        },
+      };
+    case 'emergency':
+      return { Emergency: { severity: context.severity, contactInfo: context.contact_info } };
+    case 'second_opinion':
+      return { SecondOpinion: { requestingProvider: Principal.fromText(context.requesting_provider) } };
+    case 'research':
+      return { Research: { studyId: context.study_id, consent: context.consent } };
+    case 'referral':
+      return {
+        Referral: {
+          referringProvider: Principal.fromText(context.referring_provider),
+          targetSpecialty: context.target_specialty,
+        },
+      };
+    case 'general':
+      return { General: { purpose: context.purpose } };
+  }
+};
+
+export const fromBackendSharingContext = (context: any): SharingContext => {
+  if ('Consultation' in context) {
+    const { appointmentId, purpose } = context.Consultation;
+    return { type: 'consultation', appointment_id: appointmentId.length ? Number(appointmentId[0]) : null, purpose };
+  }
+  if ('Emergency' in context) {
+    return { type: 'emergency', severity: context.Emergency.severity, contact_info: context.Emergency.contactInfo };
+  }
+  if ('SecondOpinion' in context) {
+    return { type: 'second_opinion', requesting_provider: context.SecondOpinion.requestingProvider.toString() };
+  }
+  if ('Research' in context) {
+    return { type: 'research', study_id: context.Research.studyId, consent: context.Research.consent };
+  }
+  if ('Referral' in context) {
+    return {
+      type: 'referral',
+      referring_provider: context.Referral.referringProvider.toString(),
+      target_specialty: context.Referral.targetSpecialty,
+    };
+  }
+  return { type: 'general', purpose: context.General.purpose };
+};
+
+/**
+ * One-line description of a sharing context for lists and inboxes
+ */
+export const describeSharingContext = (context: SharingContext): string => {
+  switch (context.type) {
+    case 'consultation':
+      return context.appointment_id !== null
+        ? `Consultation (appointment #${context.appointment_id})`
+        : 'Consultation';
+    case 'emergency':
+      return `Emergency (${context.severity})`;
+    case 'second_opinion':
+      return 'Second opinion';
+    case 'research':
+      return `Research study ${context.study_id}`;
+    case 'referral':
+      return `Referral to ${context.target_specialty}`;
+    case 'general':
+      return 'General';
+  }
+};
@@ -0,0 +1,387 @@
+/**
+ * Structured health record bodies: schema versioning, serialization
+ * before encryption and parsing/validation after decryption
+ */
+
+import {
+  RecordBody,
+  RecordBodyType,
+  LabResultEntry,
+  LabResultFlag,
+} from '../types';
+
+export const RECORD_BODY_SCHEMA = 'medivet.record-body';
+export const RECORD_BODY_VERSION = 1;
+
+/**
+ * Serialized form stored inside the encrypted blob
+ */
+interface RecordBodyEnvelope {
+  schema: typeof RECORD_BODY_SCHEMA;
+  version: number;
+  type: RecordBodyType;
+  data: Omit<RecordBody, 'type'>;
+}
+
+export const RECORD_BODY_TYPE_LABELS: Record<RecordBodyType, string> = {
+  [RecordBodyType.PlainText]: 'Free-text Note',
+  [RecordBodyType.LabPanel]: 'Lab Panel',
+  [RecordBodyType.Prescription]: 'Prescription',
+  [RecordBodyType.VisitNote]: 'Visit Note',
+  [RecordBodyType.Immunization]: 'Immunization',
+  [RecordBodyType.VitalSigns]: 'Vital Signs',
+  [RecordBodyType.ImagingReport]: 'Imaging Report',
+};
+
+const LAB_RESULT_FLAGS: LabResultFlag[] = ['normal', 'low', 'high', 'critical', ''];
+
+export function createEmptyLabResult(): LabResultEntry {
+  return { test: '', value: '', unit: '', reference_range: '', flag: '' };
+}
+
+/**
+ * Creates an empty body of the given type for use as editor state
+ */
+export function createEmptyRecordBody(type: RecordBodyType): RecordBody {
+  switch (type) {
+    case RecordBodyType.LabPanel:
+      return { type, panel_name: '', collected_at: '', results: [createEmptyLabResult()], notes: '' };
+    case RecordBodyType.Prescription:
+      return {
+        type,
+        medication: '',
+        dosage: '',
+        frequency: '',
+        route: '',
+        start_date: '',
+        end_date: '',
+        prescriber: '',
+        instructions: '',
+      };
+    case RecordBodyType.VisitNote:
+      return {
+        type,
+        visit_date: '',
+        chief_complaint: '',
+        subjective: '',
+        objective: '',
+        assessment: '',
+        plan: '',
+        diagnoses: [],
+      };
+    case RecordBodyType.Immunization:
+      return {
+        type,
+        vaccine: '',
+        dose_number: '',
+        administered_at: '',
+        lot_number: '',
+        site: '',
+        administered_by: '',
+      };
+    case RecordBodyType.VitalSigns:
+      return {
+        type,
+        measured_at: '',
+        systolic: null,
+        diastolic: null,
+        heart_rate: null,
+        respiratory_rate: null,
+        temperature_c: null,
+        oxygen_saturation: null,
+        weight_kg: null,
+        height_cm: null,
+      };
+    case RecordBodyType.ImagingReport:
+      return {
+        type,
+        modality: '',
+        body_part: '',
+        performed_at: '',
+        findings: '',
+        impression: '',
+        radiologist: '',
+      };
+    case RecordBodyType.PlainText:
+    default:
+      return { type: RecordBodyType.PlainText, text: '' };
+  }
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumberOrNull = (value: unknown): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isFinite(value));
+
+const requireText = (errors: Record<string, string>, field: string, value: string, label: string) => {
+  if (!value.trim()) {
+    errors[field] = `${label} is required`;
+  }
+};
+
+const requireRange = (
+  errors: Record<string, string>,
+  field: string,
+  value: number | null,
+  label: string,
+  min: number,
+  max: number
+) => {
+  if (value !== null && (value < min || value > max)) {
+    errors[field] = `${label} must be between ${min} and ${max}`;
+  }
+};
+
+/**
+ * Checks that a body has the expected shape and required values.
+ * Returns field-keyed errors suitable for form display.
+ */
+export function validateRecordBody(body: RecordBody): {
+  isValid: boolean;
+  errors: Record<string, string>;
+} {
+  const errors: Record<string, string> = {};
+
+  switch (body.type) {
+    case RecordBodyType.PlainText:
+      if (!isString(body.text)) {
+        errors.text = 'Content must be text';
+      } else {
+        requireText(errors, 'text', body.text, 'Content');
+      }
+      break;
+    case RecordBodyType.LabPanel:
+      if (!isString(body.panel_name) || !isString(body.collected_at) || !isString(body.notes) || !Array.isArray(body.results)) {
+        errors.body = 'Malformed lab panel';
+        break;
+      }
+      requireText(errors, 'panel_name', body.panel_name, 'Panel name');
+      if (body.results.length === 0) {
+        errors.results = 'At least one result is required';
+      }
+      body.results.forEach((result, index) => {
+        if (
+          !result ||
+          !isString(result.test) ||
+          !isString(result.value) ||
+          !isString(result.unit) ||
+          !isString(result.reference_range) ||
+          !LAB_RESULT_FLAGS.includes(result.flag)
+        ) {
+          errors[`results.${index}`] = 'Malformed result';
+          return;
+        }
+        requireText(errors, `results.${index}.test`, result.test, 'Test name');
+        requireText(errors, `results.${index}.value`, result.value, 'Value');
+      });
+      break;
+    case RecordBodyType.Prescription: {
+      const fields = [body.medication, body.dosage, body.frequency, body.route, body.start_date, body.end_date, body.prescriber, body.instructions];
+      if (!fields.every(isString)) {
+        errors.body = 'Malformed prescription';
+        break;
+      }
+      requireText(errors, 'medication', body.medication, 'Medication');
+      requireText(errors, 'dosage', body.dosage, 'Dosage');
+      requireText(errors, 'frequency', body.frequency, 'Frequency');
+      if (body.start_date && body.end_date && body.end_date < body.start_date) {
+        errors.end_date = 'End date cannot be before start date';
+      }
+      break;
+    }
+    case RecordBodyType.VisitNote: {
+      const fields = [body.visit_date, body.chief_complaint, body.subjective, body.objective, body.assessment, body.plan];
+      if (!fields.every(isString) || !Array.isArray(body.diagnoses) || !body.diagnoses.every(isString)) {
+        errors.body = 'Malformed visit note';
+        break;
+      }
+      requireText(errors, 'chief_complaint', body.chief_complaint, 'Chief complaint');
+      requireText(errors, 'assessment', body.assessment, 'Assessment');
+      break;
+    }
+    case RecordBodyType.Immunization: {
+      const fields = [body.vaccine, body.dose_number, body.administered_at, body.lot_number, body.site, body.administered_by];
+      if (!fields.every(isString)) {
+        errors.body = 'Malformed immunization';
+        break;
+      }
+      requireText(errors, 'vaccine', body.vaccine, 'Vaccine');
+      requireText(errors, 'administered_at', body.administered_at, 'Date administered');
+      break;
+    }
+    case RecordBodyType.VitalSigns: {
+      const values = [
+        body.systolic,
+        body.diastolic,
+        body.heart_rate,
+        body.respiratory_rate,
+        body.temperature_c,
+        body.oxygen_saturation,
+        body.weight_kg,
+        body.height_cm,
+      ];
+      if (!isString(body.measured_at) || !values.every(isNumberOrNull)) {
+        errors.body = 'Malformed vital signs';
+        break;
+      }
+      if (values.every(value => value === null)) {
+        errors.body = 'Enter at least one measurement';
+      }
+      requireRange(errors, 'systolic', body.systolic, 'Systolic pressure', 40, 300);
+      requireRange(errors, 'diastolic', body.diastolic, 'Diastolic pressure', 20, 200);
+      requireRange(errors, 'heart_rate', body.heart_rate, 'Heart rate', 20, 300);
+      requireRange(errors, 'respiratory_rate', body.respiratory_rate, 'Respiratory rate', 4, 80);
+      requireRange(errors, 'temperature_c', body.temperature_c, 'Temperature', 25, 45);
+      requireRange(errors, 'oxygen_saturation', body.oxygen_saturation, 'Oxygen saturation', 50, 100);
+      requireRange(errors, 'weight_kg', body.weight_kg, 'Weight', 0.2, 500);
+      requireRange(errors, 'height_cm', body.height_cm, 'Height', 20, 280);
+      break;
+    }
+    case RecordBodyType.ImagingReport: {
+      const fields = [body.modality, body.body_part, body.performed_at, body.findings, body.impression, body.radiologist];
+      if (!fields.every(isString)) {
+        errors.body = 'Malformed imaging report';
+        break;
+      }
+      requireText(errors, 'modality', body.modality, 'Modality');
+      requireText(errors, 'body_part', body.body_part, 'Body part');
+      requireText(errors, 'impression', body.impression, 'Impression');
+      break;
+    }
+    default:
+      errors.type = 'Unknown record type';
+  }
+
+  return { isValid: Object.keys(errors).length === 0, errors };
+}
+
+/**
+ * Serializes a body into the versioned envelope that gets encrypted
+ * @throws if the body does not validate
+ */
+export function serializeRecordBody(body: RecordBody): string {
+  const { isValid, errors } = validateRecordBody(body);
+  if (!isValid) {
+    throw new Error(`Invalid record body: ${Object.values(errors)[0]}`);
+  }
+
+  const { type, ...data } = body;
+  const envelope: RecordBodyEnvelope = {
+    schema: RECORD_BODY_SCHEMA,
+    version: RECORD_BODY_VERSION,
+    type,
+    data,
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Parses decrypted plaintext into a body. Records written before the
+ * schema existed are plain text and come back as a PlainText body.
+ * @throws if the plaintext is a schema envelope that fails validation
+ */
+export function parseRecordBody(plaintext: string): RecordBody {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(plaintext);
+  } catch {
+    return { type: RecordBodyType.PlainText, text: plaintext };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || (parsed as RecordBodyEnvelope).schema !== RECORD_BODY_SCHEMA) {
+    // Legacy record that merely happens to be valid JSON
+    return { type: RecordBodyType.PlainText, text: plaintext };
+  }
+
+  const envelope = parsed as RecordBodyEnvelope;
+  if (typeof envelope.version !== 'number' || envelope.version > RECORD_BODY_VERSION) {
+    throw new Error(`Unsupported record body version: ${envelope.version}`);
+  }
+  if (!Object.values(RecordBodyType).includes(envelope.type) || !envelope.data || typeof envelope.data !== 'object') {
+    throw new Error('Malformed record body');
+  }
+
+  const body = { ...envelope.data, type: envelope.type } as RecordBody;
+  const { isValid, errors } = validateRecordBody(body);
+  if (!isValid) {
+    throw new Error(`Invalid record body: ${Object.values(errors)[0]}`);
+  }
+  return body;
+}
+
+const line = (label: string, value: string | number | null | undefined, suffix = '') =>
+  value === null || value === undefined || value === '' ? null : `${label}: ${value}${suffix}`;
+
+const joinLines = (lines: Array<string | null>) => lines.filter(Boolean).join('\n');
+
+/**
+ * Renders a body as readable text for search, previews and legacy views
+ */
+export function recordBodyToText(body: RecordBody): string {
+  switch (body.type) {
+    case RecordBodyType.PlainText:
+      return body.text;
+    case RecordBodyType.LabPanel:
+      return joinLines([
+        line('Panel', body.panel_name),
+        line('Collected', body.collected_at),
+        ...body.results.map(result =>
+          `${result.test}: ${result.value}${result.unit ? ` ${result.unit}` : ''}` +
+          `${result.reference_range ? ` (ref ${result.reference_range})` : ''}` +
+          `${result.flag && result.flag !== 'normal' ? ` [${result.flag.toUpperCase()}]` : ''}`
+        ),
+        line('Notes', body.notes),
+      ]);
+    case RecordBodyType.Prescription:
+      return joinLines([
+        line('Medication', body.medication),
+        line('Dosage', body.dosage),
+        line('Frequency', body.frequency),
+        line('Route', body.route),
+        line('Start', body.start_date),
+        line('End', body.end_date),
+        line('Prescriber', body.prescriber),
+        line('Instructions', body.instructions),
+      ]);
+    case RecordBodyType.VisitNote:
+      return joinLines([
+        line('Visit date', body.visit_date),
+        line('Chief complaint', body.chief_complaint),
+        line('Subjective', body.subjective),
+        line('Objective', body.objective),
+        line('Assessment', body.assessment),
+        line('Plan', body.plan),
+        line('Diagnoses', body.diagnoses.join(', ')),
+      ]);
+    case RecordBodyType.Immunization:
+      return joinLines([
+        line('Vaccine', body.vaccine),
+        line('Dose', body.dose_number),
+        line('Administered', body.administered_at),
+        line('Lot', body.lot_number),
+        line('Site', body.site),
+        line('Administered by', body.administered_by),
+      ]);
+    case RecordBodyType.VitalSigns:
+      return joinLines([
+        line('Measured', body.measured_at),
+        body.systolic !== null && body.diastolic !== null ? `Blood pressure: ${body.systolic}/${body.diastolic} mmHg` : null,
+        line('Heart rate', body.heart_rate, ' bpm'),
+        line('Respiratory rate', body.respiratory_rate, ' /min'),
+        line('Temperature', body.temperature_c, ' °C'),
+        line('SpO2', body.oxygen_saturation, '%'),
+        line('Weight', body.weight_kg, ' kg'),
+        line('Height', body.height_cm, ' cm'),
+      ]);
+    case RecordBodyType.ImagingReport:
+      return joinLines([
+        line('Modality', body.modality),
+        line('Body part', body.body_part),
+        line('Performed', body.performed_at),
+        line('Findings', body.findings),
+        line('Impression', body.impression),
+        line('Radiologist', body.radiologist),
+      ]);
+    default:
+      return '';
+  }
+}
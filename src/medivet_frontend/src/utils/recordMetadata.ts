@@ -0,0 +1,75 @@
+/**
+ * Private record metadata: the title and detailed category encrypted with the record's data key,
+ * leaving only a coarse public category in plaintext for marketplace discovery
+ */
+
+export const RECORD_METADATA_SCHEMA = 'medivet.record-metadata';
+export const RECORD_METADATA_VERSION = 1;
+
+// Mirrors PUBLIC_RECORD_CATEGORIES in the backend
+export const PUBLIC_RECORD_CATEGORIES = ['Clinical', 'Diagnostics', 'Treatment'] as const;
+export type PublicRecordCategory = typeof PUBLIC_RECORD_CATEGORIES[number];
+
+// Shown wherever a private record's title is not available in plaintext
+export const PRIVATE_RECORD_TITLE = 'Private record';
+
+const PUBLIC_CATEGORY_BY_DETAILED: Record<string, PublicRecordCategory> = {
+  'lab results': 'Diagnostics',
+  'laboratory': 'Diagnostics',
+  'imaging': 'Diagnostics',
+  'medications': 'Treatment',
+  'immunizations': 'Treatment',
+  'procedures': 'Treatment',
+  'surgery': 'Treatment',
+  'physical therapy': 'Treatment',
+  'hospital admission': 'Treatment',
+};
+
+export interface RecordMetadata {
+  title: string;
+  category: string;
+}
+
+interface RecordMetadataEnvelope extends RecordMetadata {
+  schema: typeof RECORD_METADATA_SCHEMA;
+  version: number;
+}
+
+/**
+ * Maps a detailed category to the coarse category stored in plaintext.
+ * Anything not clearly diagnostic or treatment-related falls back to Clinical.
+ */
+export function toPublicCategory(category: string): PublicRecordCategory {
+  return PUBLIC_CATEGORY_BY_DETAILED[category.trim().toLowerCase()] ?? 'Clinical';
+}
+
+export function serializeRecordMetadata(metadata: RecordMetadata): string {
+  const envelope: RecordMetadataEnvelope = {
+    schema: RECORD_METADATA_SCHEMA,
+    version: RECORD_METADATA_VERSION,
+    title: metadata.title,
+    category: metadata.category,
+  };
+  return JSON.stringify(envelope);
+}
+
+export function parseRecordMetadata(serialized: string): RecordMetadata {
+  const parsed = JSON.parse(serialized) as Partial<RecordMetadataEnvelope>;
+  if (parsed.schema !== RECORD_METADATA_SCHEMA) {
+    throw new Error('Not a record metadata envelope');
+  }
+  if (parsed.version !== RECORD_METADATA_VERSION) {
+    throw new Error(`Unsupported record metadata version ${parsed.version}`);
+  }
+  if (typeof parsed.title !== 'string' || typeof parsed.category !== 'string') {
+    throw new Error('Record metadata is missing its title or category');
+  }
+  return { title: parsed.title, category: parsed.category };
+}
+
+/**
+ * Title to show for a record summary that may carry an empty plaintext title
+ */
+export function displayRecordTitle(title: string): string {
+  return title || PRIVATE_RECORD_TITLE;
+}
@@ -0,0 +1,101 @@
+/**
+ * Share links: a time-limited link to one record for someone without a MediVet account
+ *
+ * The link is `/shared-record#<link id>.<secret>`. The secret stays in the URL fragment, which
+ * browsers never send to a server, and derives two values with HKDF:
+ * - a lookup token the backend stores only as a SHA-256 hash, so it can count and limit views
+ * - an AES-GCM key that wraps a copy of the record data key, so only the link can decrypt it
+ */
+
+export const SHARE_LINK_ROUTE = '/shared-record';
+export const SHARE_LINK_MAX_VIEWS = 20;
+
+// Offered expiries, mirroring the backend's 30 day limit
+export const SHARE_LINK_EXPIRY_OPTIONS = [
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+] as const;
+
+const SECRET_LENGTH = 32;
+const TOKEN_INFO = 'medivet.share-link.token';
+const KEY_INFO = 'medivet.share-link.key';
+
+export interface ShareLinkSecret {
+  linkId: number;
+  secret: Uint8Array<ArrayBuffer>;
+}
+
+export interface ShareLinkKeys {
+  token: Uint8Array<ArrayBuffer>; // Sent to the backend to look the link up
+  wrappingKey: CryptoKey; // Wraps the record data key; never leaves the browser
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array<ArrayBuffer> => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Creates the random secret for a new link
+ */
+export function createShareLinkSecret(): Uint8Array<ArrayBuffer> {
+  return window.crypto.getRandomValues(new Uint8Array(SECRET_LENGTH));
+}
+
+/**
+ * Derives the lookup token and the wrapping key from a link secret
+ */
+export async function deriveShareLinkKeys(secret: Uint8Array<ArrayBuffer>): Promise<ShareLinkKeys> {
+  const material = await window.crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveBits', 'deriveKey']);
+  const salt = new Uint8Array(0);
+  const token = new Uint8Array(await window.crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(TOKEN_INFO) },
+    material,
+    256
+  ));
+  const wrappingKey = await window.crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(KEY_INFO) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { token, wrappingKey };
+}
+
+/**
+ * Link to the public viewer with the link id and secret in the fragment
+ */
+export function shareLinkUrl(linkId: number, secret: Uint8Array, origin: string = window.location.origin): string {
+  return `${origin}${SHARE_LINK_ROUTE}#${linkId}.${toBase64Url(secret)}`;
+}
+
+/**
+ * Reads the link id and secret from a URL fragment or a pasted link
+ * @throws if the text is not a share link
+ */
+export function parseShareLink(text: string): ShareLinkSecret {
+  const fragment = text.trim().replace(/^.*#/, '');
+  const match = /^(\d+)\.([A-Za-z0-9_-]+)$/.exec(fragment);
+  if (!match) {
+    throw new Error('This is not a valid MediVet share link');
+  }
+  const secret = fromBase64Url(match[2]);
+  if (secret.length !== SECRET_LENGTH) {
+    throw new Error('This share link is incomplete. Check that it was copied in full.');
+  }
+  return { linkId: Number(match[1]), secret };
+}